@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import { calculateAccidentalDignity, getHouseStrength, isOrientalOfSun } from '../lib/astro/accidental-dignity';
+import { calculateAlmutenFiguris, findPrenatalSyzygy } from '../lib/astro/almuten';
+import { getPlanetStrength } from '../lib/astro/power-rating';
+import { PlanetPosition, PlanetCondition, Planet } from '../lib/astro/types';
+
+const FREE: PlanetCondition = { isRetrograde: false, isCombust: false, isCazimi: false, isUnderBeams: false };
+
+function pos(planet: Planet, longitude: number, extra: Partial<PlanetPosition> = {}): PlanetPosition {
+  return {
+    planet, longitude, latitude: 0, sign: 'Aries', signDegree: 0, signMinute: 0, signSecond: 0,
+    isRetrograde: false, speed: 1, ...extra,
+  };
+}
+
+const scoreOf = (factors: { label: string; score: number }[], label: string) =>
+  factors.find(f => f.label.startsWith(label))?.score;
+
+describe('Accidental Dignity', () => {
+  it('classifies house strength', () => {
+    expect(getHouseStrength(1)).toBe('Angular');
+    expect(getHouseStrength(10)).toBe('Angular');
+    expect(getHouseStrength(11)).toBe('Succedent');
+    expect(getHouseStrength(12)).toBe('Cadent');
+  });
+
+  it('treats planets behind the Sun as oriental', () => {
+    expect(isOrientalOfSun(80, 100)).toBe(true);
+    expect(isOrientalOfSun(120, 100)).toBe(false);
+    expect(isOrientalOfSun(350, 10)).toBe(true);
+  });
+
+  it('scores angular, direct and retrograde planets after Lilly', () => {
+    const sun = pos('Sun', 100);
+    const jupiter = pos('Jupiter', 40, { house: 10, speed: 0.2 });
+    const saturn = pos('Saturn', 250, { house: 12, speed: -0.05, isRetrograde: true });
+    const all = [sun, jupiter, saturn];
+
+    const jup = calculateAccidentalDignity(jupiter, all, FREE, 'Day');
+    expect(jup.houseStrength).toBe('Angular');
+    expect(scoreOf(jup.factors, 'Angular')).toBe(5);
+    expect(scoreOf(jup.factors, 'Direct')).toBe(4);
+    expect(scoreOf(jup.factors, 'Swift')).toBe(2);
+    expect(scoreOf(jup.factors, 'Oriental')).toBe(2);
+    expect(scoreOf(jup.factors, 'Free from combustion')).toBe(5);
+
+    const sat = calculateAccidentalDignity(saturn, all, FREE, 'Day');
+    expect(scoreOf(sat.factors, 'Cadent')).toBe(-5);
+    expect(scoreOf(sat.factors, 'Retrograde')).toBe(-5);
+    expect(scoreOf(sat.factors, 'Swift')).toBeUndefined();
+  });
+
+  it('penalises combustion and rewards cazimi', () => {
+    const sun = pos('Sun', 100);
+    const venus = pos('Venus', 104, { house: 9 });
+    const combust = calculateAccidentalDignity(venus, [sun, venus], { ...FREE, isCombust: true }, 'Day');
+    const cazimi = calculateAccidentalDignity(venus, [sun, venus], { ...FREE, isCazimi: true }, 'Day');
+    expect(scoreOf(combust.factors, 'Combust')).toBe(-5);
+    expect(scoreOf(cazimi.factors, 'Cazimi')).toBe(5);
+  });
+
+  it('detects besiegement between Mars and Saturn', () => {
+    const sun = pos('Sun', 300);
+    const mars = pos('Mars', 18);
+    const venus = pos('Venus', 20);
+    const saturn = pos('Saturn', 22);
+    const result = calculateAccidentalDignity(venus, [sun, mars, venus, saturn], FREE, 'Day');
+    expect(result.besiegement).toBe('Malefic');
+    expect(scoreOf(result.factors, 'Besieged')).toBe(-6);
+    expect(result.maleficAspects).toEqual(['Mars', 'Saturn']);
+  });
+
+  it('marks joys and sect', () => {
+    const sun = pos('Sun', 200);
+    const moon = pos('Moon', 90, { house: 3 });
+    const result = calculateAccidentalDignity(moon, [sun, moon], FREE, 'Night');
+    expect(result.isInJoy).toBe(true);
+    expect(result.isInSect).toBe(true);
+    expect(result.isIncreasingInLight).toBe(false);
+  });
+
+  it('returns unscored results for nodes and modern planets', () => {
+    const chart = calculateChart(new Date('2025-03-21T12:00:00Z'), { latitude: 52.52, longitude: 13.405 });
+    expect(chart.accidentalDignities.NorthNode.score).toBe(0);
+    expect(chart.accidentalDignities.Uranus.factors).toHaveLength(0);
+    expect(chart.accidentalDignities.Sun.factors.length).toBeGreaterThan(0);
+    expect(getPlanetStrength(chart, 'Jupiter')).toBe(
+      chart.dignities.Jupiter.score + chart.accidentalDignities.Jupiter.score,
+    );
+  });
+});
+
+describe('Almuten Figuris', () => {
+  const birth = new Date('1990-06-15T08:30:00Z');
+  const vienna = { latitude: 48.2, longitude: 16.37 };
+
+  it('finds the last syzygy before birth', () => {
+    const syzygy = findPrenatalSyzygy(birth, vienna);
+    expect(syzygy.date.getTime()).toBeLessThan(birth.getTime());
+    expect(birth.getTime() - syzygy.date.getTime()).toBeLessThan(16 * 86400000);
+    expect(syzygy.type).toBe('Full Moon'); // full moon 1990-06-08
+  });
+
+  it('ranks the seven classical planets', () => {
+    const chart = calculateChart(birth, vienna);
+    const result = calculateAlmutenFiguris(chart, { dayRuler: 'Venus', hourRuler: 'Mercury' });
+    expect(result.ranking).toHaveLength(7);
+    expect(result.points.map(p => p.name)).toEqual(['Sun', 'Moon', 'Ascendant', 'Fortune', 'Syzygy']);
+    expect(result.almuten).toBe(result.ranking[0].planet);
+    for (let i = 1; i < result.ranking.length; i++) {
+      expect(result.ranking[i - 1].score).toBeGreaterThanOrEqual(result.ranking[i].score);
+    }
+  });
+
+  it('adds day and hour ruler points', () => {
+    const chart = calculateChart(birth, vienna);
+    const base = calculateAlmutenFiguris(chart);
+    const withRulers = calculateAlmutenFiguris(chart, { dayRuler: 'Saturn', hourRuler: 'Saturn' });
+    const saturn = (r: typeof base) => r.ranking.find(x => x.planet === 'Saturn')!.score;
+    expect(saturn(withRulers) - saturn(base)).toBe(13);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import {
+  calculateAspects, calculateChartAspects, getAspectBodyName, getAspectBodySymbol, DEFAULT_ASPECT_CONFIG,
+  AspectConfig,
+} from '../lib/astro/aspects';
+import { PlanetPosition, Planet } from '../lib/astro/types';
+
+function pos(planet: Planet, longitude: number, extra: Partial<PlanetPosition> = {}): PlanetPosition {
+  return {
+    planet, longitude, latitude: 0, sign: 'Aries', signDegree: 0, signMinute: 0, signSecond: 0,
+    isRetrograde: false, speed: 1, ...extra,
+  };
+}
+
+const NONE: AspectConfig = {
+  minorAspects: false, declinations: false, nodes: false, lilith: false, asteroids: false, lots: false, angles: false,
+};
+
+describe('Aspectarian options', () => {
+  it('finds minor aspects only when enabled', () => {
+    const positions = [pos('Mars', 10), pos('Saturn', 160)];
+    expect(calculateAspects(positions, 3)).toHaveLength(0);
+    const minor = calculateAspects(positions, 3, undefined, { minorAspects: true });
+    expect(minor).toHaveLength(1);
+    expect(minor[0].type).toBe('Quincunx');
+    expect(minor[0].orb).toBeCloseTo(0, 6);
+  });
+
+  it('picks the tightest aspect for a pair', () => {
+    // 70°: sextile orb 10 vs quintile orb 2 (Sun–Moon moiety allows both)
+    const aspects = calculateAspects([pos('Sun', 0), pos('Moon', 70)], 15, undefined, { minorAspects: true });
+    expect(aspects[0].type).toBe('Quintile');
+  });
+
+  it('detects parallels and contraparallels by declination', () => {
+    const positions = [
+      pos('Venus', 10, { declination: 12.3, declinationSpeed: 0.3 }),
+      pos('Mars', 200, { declination: 12.8, declinationSpeed: 0.1 }),
+      pos('Jupiter', 100, { declination: -12.5, declinationSpeed: 0 }),
+    ];
+    const aspects = calculateAspects(positions, 3, undefined, { declinations: true });
+    const parallel = aspects.find(a => a.type === 'Parallel')!;
+    expect(parallel.planet1).toBe('Venus');
+    expect(parallel.planet2).toBe('Mars');
+    expect(parallel.orb).toBeCloseTo(0.5, 6);
+    expect(parallel.status).toBe('Applying');
+    expect(aspects.filter(a => a.type === 'Contraparallel')).toHaveLength(2);
+  });
+
+  it('includes nodes and Lilith on request', () => {
+    const positions = [pos('Sun', 10), pos('NorthNode', 11, { speed: -0.05 }), pos('Lilith', 190, { speed: 0.11 })];
+    expect(calculateAspects(positions, 3)).toHaveLength(0);
+    const withPoints = calculateAspects(positions, 3, undefined, { nodes: true, lilith: true });
+    expect(withPoints.map(a => a.planet2).sort()).toEqual(['Lilith', 'NorthNode']);
+  });
+
+  it('adds angles and lots from the chart', () => {
+    const chart = calculateChart(new Date('2025-03-21T12:00:00Z'), { latitude: 52.52, longitude: 13.405 });
+    expect(chart.planets.every(p => p.declination !== undefined)).toBe(true);
+
+    const basic = calculateChartAspects(chart, NONE, 8);
+    expect(basic.every(a => !['ASC', 'MC', 'NorthNode'].includes(a.planet2))).toBe(true);
+
+    const full = calculateChartAspects(chart, { ...DEFAULT_ASPECT_CONFIG, lots: true }, 8);
+    expect(full.length).toBeGreaterThan(basic.length);
+    const toAngle = full.find(a => a.planet2 === 'ASC' || a.planet2 === 'MC');
+    expect(toAngle).toBeDefined();
+    expect(toAngle!.perfection).toBeNull();
+    // Never two chart points aspecting each other
+    expect(full.some(a => a.planet1 === 'ASC' && a.planet2 === 'MC')).toBe(false);
+  });
+
+  it('labels angles and lots', () => {
+    expect(getAspectBodyName('ASC')).toBe('Ascendant');
+    expect(getAspectBodyName('Lot:fortune')).toBe('Part of Fortune');
+    expect(getAspectBodySymbol('MC')).toBe('MC');
+    expect(getAspectBodySymbol('Lot:spirit')).toBe('⊗');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import { calculateAspects, getMoietyOrb } from '../lib/astro/aspects';
+import { PlanetPosition, Planet } from '../lib/astro/types';
+
+function pos(planet: Planet, longitude: number, speed: number): PlanetPosition {
+  return {
+    planet, longitude, latitude: 0, sign: 'Aries', signDegree: 0, signMinute: 0, signSecond: 0,
+    isRetrograde: speed < 0, speed,
+  };
+}
+
+describe('Aspect motion', () => {
+  it('uses moiety orbs', () => {
+    expect(getMoietyOrb('Sun', 'Moon')).toBe(13.5);
+    expect(getMoietyOrb('Mercury', 'Venus')).toBe(7);
+    // Mercury–Venus 7.5° apart: outside the 7° moiety even with a wide cap
+    const aspects = calculateAspects([pos('Mercury', 10, 1), pos('Venus', 17.5, 1)], 10);
+    expect(aspects).toHaveLength(0);
+    const sunMoon = calculateAspects([pos('Sun', 10, 1), pos('Moon', 20, 13)], 15);
+    expect(sunMoon[0].type).toBe('Conjunction');
+    expect(sunMoon[0].orbLimit).toBe(13.5);
+  });
+
+  it('limits aspects by the moiety alone unless a cap is given', () => {
+    const positions = [pos('Sun', 10, 1), pos('Moon', 22, 13)];
+    expect(calculateAspects(positions)[0].type).toBe('Conjunction');
+    expect(calculateAspects(positions, 3)).toHaveLength(0);
+  });
+
+  it('classifies applying and separating aspects', () => {
+    const applying = calculateAspects([pos('Sun', 100, 1), pos('Moon', 95, 13)], 8);
+    expect(applying[0].status).toBe('Applying');
+    const separating = calculateAspects([pos('Sun', 100, 1), pos('Moon', 105, 13)], 8);
+    expect(separating[0].status).toBe('Separating');
+    // Square from the other side: Mars 2° short of 90° behind, closing retrograde
+    const square = calculateAspects([pos('Mars', 92, -0.3), pos('Saturn', 0, 0.05)], 3);
+    expect(square[0].type).toBe('Square');
+    expect(square[0].status).toBe('Applying');
+    // No perfection search without a date
+    expect(applying[0].perfection).toBeNull();
+  });
+
+  it('finds the perfection time of an applying aspect', () => {
+    const date = new Date('2025-03-21T12:00:00Z');
+    const chart = calculateChart(date, { latitude: 52.52, longitude: 13.405 });
+    const aspects = calculateAspects(chart.planets, 10, date);
+    const sunVenus = aspects.find(a => a.planet1 === 'Sun' && a.planet2 === 'Venus')!;
+    expect(sunVenus.status).toBe('Applying');
+    // Venus inferior conjunction: 2025-03-23 ~01:00 UT
+    expect(sunVenus.perfection).not.toBeNull();
+    expect(Math.abs(sunVenus.perfection!.getTime() - Date.UTC(2025, 2, 23, 1, 6))).toBeLessThan(3600000);
+    for (const a of aspects.filter(x => x.status === 'Separating')) {
+      expect(a.perfection).toBeNull();
+    }
+  });
+
+  it('detects refranation when a station intervenes', () => {
+    // Mercury retrograde moving away from Venus before they meet (March 2025)
+    const date = new Date('2025-03-21T12:00:00Z');
+    const chart = calculateChart(date, { latitude: 52.52, longitude: 13.405 });
+    const aspects = calculateAspects(chart.planets, 10, date);
+    const mercuryVenus = aspects.find(a => a.planet1 === 'Mercury' && a.planet2 === 'Venus')!;
+    expect(mercuryVenus.status).toBe('Applying');
+    expect(mercuryVenus.isRefranation).toBe(true);
+    expect(mercuryVenus.perfection).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import * as Astronomy from 'astronomy-engine';
+import { calcAsteroidPosition, isAsteroid } from '../lib/astro/asteroids';
+import { calculateChart, getPlanetLongitude } from '../lib/astro/engine';
+import { calculateAspects, calculateChartAspects, getMoietyOrb, DEFAULT_ASPECT_CONFIG } from '../lib/astro/aspects';
+import { ASTEROIDS, PLANET_SYMBOLS, PlanetPosition, Planet } from '../lib/astro/types';
+
+function separation(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+function pos(planet: Planet, longitude: number): PlanetPosition {
+  return {
+    planet, longitude, latitude: 0, sign: 'Aries', signDegree: 0, signMinute: 0, signSecond: 0,
+    isRetrograde: false, speed: 1,
+  };
+}
+
+describe('Asteroid ephemeris', () => {
+  it('places the asteroids opposite the Sun at observed oppositions', () => {
+    const oppositions: [typeof ASTEROIDS[number], string][] = [
+      ['Ceres', '2023-03-21T12:00:00Z'],
+      ['Ceres', '2021-11-27T12:00:00Z'],
+      ['Vesta', '2021-03-04T12:00:00Z'],
+      ['Juno', '2018-11-17T12:00:00Z'],
+    ];
+    for (const [asteroid, iso] of oppositions) {
+      const date = new Date(iso);
+      const { longitude, speed } = calcAsteroidPosition(asteroid, date);
+      expect(separation(longitude, Astronomy.SunPosition(date).elon + 180)).toBeLessThan(1.5);
+      expect(speed).toBeLessThan(0);   // retrograde around opposition
+    }
+  });
+
+  it('follows Chiron across the Aries point in 2018', () => {
+    const ingress = calcAsteroidPosition('Chiron', new Date('2018-04-17T12:00:00Z'));
+    expect(separation(ingress.longitude, 0)).toBeLessThan(0.5);
+    expect(ingress.speed).toBeGreaterThan(0);
+    // The hour after 17:00 UT crosses 0° Aries
+    const crossing = calcAsteroidPosition('Chiron', new Date('2018-04-17T17:00:00Z'));
+    expect(crossing.speed).toBeGreaterThan(0);
+    expect(crossing.speed).toBeLessThan(0.1);
+    const back = calcAsteroidPosition('Chiron', new Date('2018-10-15T12:00:00Z'));
+    expect(back.longitude).toBeGreaterThan(330);
+    expect(back.speed).toBeLessThan(0);
+  });
+
+  it('answers longitude queries like the planets', () => {
+    const date = new Date('2025-10-20T00:00:00Z');
+    expect(isAsteroid('Vesta')).toBe(true);
+    expect(isAsteroid('Saturn')).toBe(false);
+    expect(getPlanetLongitude('Vesta', date)).toBeCloseTo(calcAsteroidPosition('Vesta', date).longitude, 9);
+  });
+});
+
+describe('Asteroids in charts', () => {
+  const date = new Date('2025-10-20T00:00:00Z');
+  const vienna = { latitude: 48.2, longitude: 16.4 };
+
+  it('adds the asteroids only on request', () => {
+    const plain = calculateChart(date, vienna);
+    expect(plain.planets.some(p => isAsteroid(p.planet))).toBe(false);
+    const chart = calculateChart(date, vienna, { asteroids: true });
+    expect(chart.planets).toHaveLength(plain.planets.length + ASTEROIDS.length);
+    expect(chart.planets.slice(0, plain.planets.length).map(p => p.planet)).toEqual(plain.planets.map(p => p.planet));
+    for (const asteroid of ASTEROIDS) {
+      const p = chart.planets.find(q => q.planet === asteroid)!;
+      expect(PLANET_SYMBOLS[asteroid]).toBeTruthy();
+      expect(p.azimuth).toBeDefined();
+      expect(p.house).toBeGreaterThanOrEqual(1);
+      expect(chart.dignities[asteroid].score).toBe(0);
+    }
+  });
+
+  it('shifts asteroids into the sidereal zodiac with the planets', () => {
+    const tropical = calculateChart(date, vienna, { asteroids: true });
+    const sidereal = calculateChart(date, vienna, { asteroids: true, zodiac: 'Sidereal' });
+    const ceres = (c: typeof tropical) => c.planets.find(p => p.planet === 'Ceres')!.longitude;
+    expect(separation(ceres(tropical) - sidereal.ayanamsa!.value, ceres(sidereal))).toBeLessThan(1e-9);
+  });
+
+  it('takes part in aspects when the aspectarian asks for them', () => {
+    const positions = [pos('Sun', 10), pos('Ceres', 12), pos('Vesta', 13)];
+    expect(calculateAspects(positions, 3)).toHaveLength(0);
+    const aspects = calculateAspects(positions, 3, undefined, { asteroids: true });
+    // No asteroid–asteroid pairs: every aspect needs a planet
+    expect(aspects.map(a => a.planet2).sort()).toEqual(['Ceres', 'Vesta']);
+    expect(getMoietyOrb('Sun', 'Ceres')).toBe(9);
+
+    const chart = calculateChart(date, vienna, { asteroids: true });
+    const hidden = calculateChartAspects(chart, { ...DEFAULT_ASPECT_CONFIG, asteroids: false }, 8);
+    expect(hidden.some(a => isAsteroid(a.planet1 as Planet) || isAsteroid(a.planet2 as Planet))).toBe(false);
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { calculateChart } from '../lib/astro/engine';
+import { calculateChart, getChartObserver, getPlanetLongitude } from '../lib/astro/engine';
+import { calculateLunarMansion } from '../lib/astro/lunar-mansions';
+import { findLunarReturn } from '../lib/astro/returns';
+import { getVoidOfCoursePeriods } from '../lib/astro/void-of-course';
 import { calculateDignities } from '../lib/astro/dignities';
 import { ZODIAC_SIGNS } from '../lib/astro/types';
 
@@ -108,6 +111,16 @@ describe('Astrological Core Engine', () => {
     const sunCondition = chart.conditions['Sun'];
     expect(sunCondition.isRetrograde).toBe(false);
   });
+
+  it('keeps the daily motion across 0° Aries', () => {
+    // March equinox 2025-03-20 09:01 UT: the hour after 08:31 crosses 0° Aries
+    const chart = calculateChart(new Date('2025-03-20T08:31:00Z'), testLocation);
+    const sun = chart.planets.find(p => p.planet === 'Sun')!;
+    expect(sun.longitude).toBeGreaterThan(359.9);
+    expect(sun.speed).toBeCloseTo(0.99, 2);
+    expect(sun.isRetrograde).toBe(false);
+    expect(chart.conditions.Sun.isRetrograde).toBe(false);
+  });
 });
 
 describe('Essential Dignities', () => {
@@ -144,3 +157,119 @@ describe('Essential Dignities', () => {
     expect(dignity.score).toBe(0);
   });
 });
+
+describe('Lunar Nodes & Black Moon Lilith', () => {
+  const location = { latitude: 52.52, longitude: 13.405 };
+  const j2000 = new Date('2000-01-01T12:00:00Z');
+
+  const point = (date: Date, planet: string, mode: 'Mean' | 'True') =>
+    calculateChart(date, location, { lunarPointMode: mode }).planets.find(p => p.planet === planet)!;
+
+  it('mean node and mean Lilith match the J2000 epoch values', () => {
+    expect(point(j2000, 'NorthNode', 'Mean').longitude).toBeCloseTo(125.04, 1);
+    expect(point(j2000, 'Lilith', 'Mean').longitude).toBeCloseTo(263.35, 1);
+  });
+
+  it('mean node moves retrograde at ~0.053°/day', () => {
+    const node = point(j2000, 'NorthNode', 'Mean');
+    expect(node.speed).toBeCloseTo(-0.053, 3);
+    expect(node.isRetrograde).toBe(true);
+  });
+
+  it('true node stays within 2° of the mean node', () => {
+    const mean = point(j2000, 'NorthNode', 'Mean').longitude;
+    const trueNode = point(j2000, 'NorthNode', 'True').longitude;
+    let diff = Math.abs(mean - trueNode);
+    if (diff > 180) diff = 360 - diff;
+    expect(diff).toBeLessThan(2);
+  });
+
+  it('true node reports real speed, including occasional direct motion', () => {
+    const speeds: number[] = [];
+    for (let d = 0; d < 30; d++) {
+      speeds.push(point(new Date(j2000.getTime() + d * 86400000), 'NorthNode', 'True').speed);
+    }
+    expect(new Set(speeds.map(s => s.toFixed(4))).size).toBeGreaterThan(1);
+    expect(speeds.some(s => s > 0)).toBe(true);
+  });
+
+  it('true Lilith lies near the mean apogee and off the ecliptic', () => {
+    const mean = point(j2000, 'Lilith', 'Mean').longitude;
+    const lilith = point(j2000, 'Lilith', 'True');
+    let diff = Math.abs(mean - lilith.longitude);
+    if (diff > 180) diff = 360 - diff;
+    expect(diff).toBeLessThan(35);
+    expect(Math.abs(lilith.latitude)).toBeLessThan(5.5);
+  });
+
+  it('south node is always opposite the north node', () => {
+    const chart = calculateChart(j2000, location, { lunarPointMode: 'True' });
+    const nn = chart.planets.find(p => p.planet === 'NorthNode')!;
+    const sn = chart.planets.find(p => p.planet === 'SouthNode')!;
+    expect((sn.longitude - nn.longitude + 360) % 360).toBeCloseTo(180, 6);
+    expect(chart.lunarPointMode).toBe('True');
+  });
+});
+
+describe('Topocentric positions', () => {
+  const vienna = { latitude: 48.2082, longitude: 16.3738, altitude: 190 };
+  const date = new Date('2026-10-20T00:00:00Z');
+  const geocentric = calculateChart(date, vienna);
+  const topocentric = calculateChart(date, vienna, { positionMode: 'Topocentric' });
+  const delta = (planet: string) => {
+    const a = geocentric.planets.find(p => p.planet === planet)!;
+    const b = topocentric.planets.find(p => p.planet === planet)!;
+    return { lon: Math.abs(b.longitude - a.longitude), lat: Math.abs(b.latitude - a.latitude), a, b };
+  };
+
+  it('defaults to geocentric positions', () => {
+    expect(geocentric.positionMode).toBe('Geocentric');
+    expect(topocentric.positionMode).toBe('Topocentric');
+  });
+
+  it('shifts the Moon by its parallax and the planets by seconds of arc', () => {
+    const moon = delta('Moon');
+    expect(moon.lon).toBeGreaterThan(0.2);
+    expect(moon.lon).toBeLessThan(1.1);
+    expect(moon.lat).toBeGreaterThan(0.1);
+    for (const planet of ['Sun', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn']) {
+      expect(delta(planet).lon).toBeLessThan(0.01);
+    }
+  });
+
+  it('keeps geocentric daily motion and the horizon position', () => {
+    const moon = delta('Moon');
+    expect(moon.b.speed).toBeCloseTo(moon.a.speed, 10);
+    expect(moon.b.altitude).toBeCloseTo(moon.a.altitude!, 10);
+  });
+
+  it('takes the observer altitude into account', () => {
+    const seaLevel = getPlanetLongitude('Moon', date, { ...vienna, altitude: 0 })!;
+    const summit = getPlanetLongitude('Moon', date, { ...vienna, altitude: 8000 })!;
+    expect(summit).not.toBe(seaLevel);
+    expect(Math.abs(summit - seaLevel)).toBeLessThan(0.01);
+    expect(getPlanetLongitude('Moon', date, vienna)).toBeCloseTo(delta('Moon').b.longitude, 8);
+  });
+
+  it('finds lunar mansion boundaries from the topocentric Moon', () => {
+    const mansion = calculateLunarMansion(date, { positionMode: 'Topocentric' }, vienna);
+    expect(mansion.moonLongitude).toBeCloseTo(delta('Moon').b.longitude, 8);
+    const boundary = (mansion.next.number - 1) * (360 / 28);
+    const atBoundary = getPlanetLongitude('Moon', mansion.nextStart, vienna)!;
+    expect(Math.abs(((atBoundary - boundary + 540) % 360) - 180)).toBeLessThan(0.001);
+  });
+
+  it('searches returns and void periods from the same observer', () => {
+    expect(getChartObserver(geocentric)).toBeUndefined();
+    expect(getChartObserver(topocentric)).toEqual(vienna);
+    const lunarReturn = findLunarReturn(topocentric, date);
+    expect(getPlanetLongitude('Moon', lunarReturn, vienna)).toBeCloseTo(delta('Moon').b.longitude, 4);
+
+    const week = new Date(date.getTime() + 7 * 86400000);
+    const [seen] = getVoidOfCoursePeriods(date, week, { positionMode: 'Topocentric' }, vienna);
+    const [central] = getVoidOfCoursePeriods(date, week, {}, vienna);
+    expect(seen.end.getTime()).not.toBe(central.end.getTime());
+    const atIngress = getPlanetLongitude('Moon', seen.end, vienna)!;
+    expect(Math.abs(((atIngress + 15) % 30) - 15)).toBeLessThan(0.001);
+  });
+});
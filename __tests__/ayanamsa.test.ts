@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import { calculateAyanamsa, toSidereal, formatAyanamsa, getZodiacLabel } from '../lib/astro/ayanamsa';
+
+describe('Sidereal Zodiac', () => {
+  const testDate = new Date('2025-03-21T12:00:00Z');
+  const berlin = { latitude: 52.52, longitude: 13.405 };
+
+  it('Lahiri ayanamsa is about 24°12\' in 2025', () => {
+    const jd = 2460755.0; // 2025-03-21
+    const lahiri = calculateAyanamsa(jd, 'Lahiri');
+    expect(lahiri).toBeGreaterThan(24.18);
+    expect(lahiri).toBeLessThan(24.24);
+  });
+
+  it('Fagan-Bradley leads Lahiri by roughly 0.88°', () => {
+    const jd = 2451545.0;
+    const diff = calculateAyanamsa(jd, 'FaganBradley') - calculateAyanamsa(jd, 'Lahiri');
+    expect(diff).toBeCloseTo(0.883, 2);
+  });
+
+  it('toSidereal wraps around 0° Aries', () => {
+    expect(toSidereal(10, 24)).toBeCloseTo(346, 6);
+    expect(toSidereal(100, 24)).toBeCloseTo(76, 6);
+  });
+
+  it('sidereal longitudes equal tropical minus ayanamsa', () => {
+    const tropical = calculateChart(testDate, berlin);
+    const sidereal = calculateChart(testDate, berlin, { zodiac: 'Sidereal', ayanamsa: 'Lahiri' });
+    expect(tropical.ayanamsa).toBeNull();
+    expect(sidereal.ayanamsa?.system).toBe('Lahiri');
+    const ay = sidereal.ayanamsa!.value;
+    for (const planet of tropical.planets) {
+      const sid = sidereal.planets.find(p => p.planet === planet.planet)!;
+      expect(sid.longitude).toBeCloseTo(toSidereal(planet.longitude, ay), 6);
+    }
+    expect(sidereal.angles.ascendant).toBeCloseTo(toSidereal(tropical.angles.ascendant, ay), 6);
+  });
+
+  it('Whole Sign cusps start at 0° of the sidereal rising sign', () => {
+    const chart = calculateChart(testDate, berlin, { zodiac: 'Sidereal', houseSystem: 'WholeSign' });
+    expect(chart.houses.cusps[0] % 30).toBe(0);
+    expect(Math.floor(chart.angles.ascendant / 30) * 30).toBe(chart.houses.cusps[0]);
+  });
+
+  it('keeps house placements identical for quadrant systems', () => {
+    const tropical = calculateChart(testDate, berlin, { houseSystem: 'Placidus' });
+    const sidereal = calculateChart(testDate, berlin, { houseSystem: 'Placidus', zodiac: 'Sidereal' });
+    for (const planet of tropical.planets) {
+      const sid = sidereal.planets.find(p => p.planet === planet.planet)!;
+      expect(sid.house).toBe(planet.house);
+    }
+  });
+
+  it('formats labels for journal snapshots', () => {
+    expect(formatAyanamsa({ system: 'Lahiri', value: 24.2 })).toBe('24°12\'00"');
+    expect(getZodiacLabel({ zodiac: 'Tropical', ayanamsa: null })).toBe('Tropical');
+    expect(getZodiacLabel({ zodiac: 'Sidereal', ayanamsa: { system: 'FaganBradley', value: 25.1 } }))
+      .toBe('Sidereal · Fagan-Bradley 25°06\'00"');
+  });
+});
@@ -8,7 +8,8 @@ import { calculateAspects, getMajorAspects, getExactAspects } from '../lib/astro
 import { PlanetPosition } from '../lib/astro/types';
 
 // Ruler of Day
-import { getRulerOfDay, getRulerRecommendation } from '../lib/astro/ruler-of-day';
+import { getRulerOfDay, getRulerRecommendation, getDayRulerCorrespondences } from '../lib/astro/ruler-of-day';
+import { calculatePlanetaryHours } from '../lib/astro/planetary-hours';
 
 describe('Event Horizon Engine', () => {
   const location = { latitude: 48.2082, longitude: 16.3738 }; // Vienna
@@ -111,29 +112,31 @@ describe('Aspectarian Engine', () => {
 });
 
 describe('Ruler of the Day', () => {
+  const london = { latitude: 51.5074, longitude: -0.1278 };
+
   it('should return Sun for Sunday', () => {
     const sunday = new Date('2026-02-15T12:00:00Z'); // Feb 15, 2026 is a Sunday
-    const ruler = getRulerOfDay(sunday);
+    const ruler = getRulerOfDay(sunday, london);
     expect(ruler.planet).toBe('Sun');
     expect(ruler.dayName).toBe('Sunday');
   });
 
   it('should return Mars for Tuesday', () => {
     const tuesday = new Date('2026-02-17T12:00:00Z'); // Feb 17, 2026 is a Tuesday
-    const ruler = getRulerOfDay(tuesday);
+    const ruler = getRulerOfDay(tuesday, london);
     expect(ruler.planet).toBe('Mars');
     expect(ruler.dayName).toBe('Tuesday');
   });
 
   it('should return Saturn for Saturday', () => {
     const saturday = new Date('2026-02-21T12:00:00Z'); // Feb 21, 2026 is a Saturday
-    const ruler = getRulerOfDay(saturday);
+    const ruler = getRulerOfDay(saturday, london);
     expect(ruler.planet).toBe('Saturn');
     expect(ruler.dayName).toBe('Saturday');
   });
 
   it('should provide a recommendation with ritual suggestion', () => {
-    const rec = getRulerRecommendation(new Date('2026-02-17T12:00:00Z'));
+    const rec = getRulerRecommendation(new Date('2026-02-17T12:00:00Z'), london);
     expect(rec.planet).toBe('Mars');
     expect(rec.recommendation).toContain('Mars');
     expect(rec.recommendation.length).toBeGreaterThan(20);
@@ -145,9 +148,25 @@ describe('Ruler of the Day', () => {
     for (let i = 0; i < 7; i++) {
       const d = new Date('2026-02-15T12:00:00Z');
       d.setDate(d.getDate() + i);
-      days.push(getRulerOfDay(d));
+      days.push(getRulerOfDay(d, london));
     }
     const planets = new Set(days.map(d => d.planet));
     expect(planets.size).toBe(7);
   });
+
+  it('should keep the previous day\'s ruler until sunrise', () => {
+    // 04:00 on Sunday in London, three hours before sunrise, is still Saturday's planetary day
+    expect(getRulerOfDay(new Date('2026-02-15T04:00:00Z'), london).planet).toBe('Saturn');
+    expect(getRulerOfDay(new Date('2026-02-15T08:00:00Z'), london).planet).toBe('Sun');
+    // 05:00 on Tuesday in Tokyo is before dawn there, whatever the device's time zone
+    const tokyo = { latitude: 35.68, longitude: 139.69 };
+    expect(getRulerOfDay(new Date('2026-02-16T20:00:00Z'), tokyo).planet).toBe('Moon');
+    expect(getRulerOfDay(new Date('2026-02-17T00:00:00Z'), tokyo).planet).toBe('Mars');
+  });
+
+  it('should agree with the planetary hours of the same moment', () => {
+    const moment = new Date('2026-02-15T04:00:00Z');
+    expect(getRulerOfDay(moment, london).planet).toBe(calculatePlanetaryHours(moment, london).dayRuler);
+    expect(getDayRulerCorrespondences('Saturn').dayName).toBe('Saturday');
+  });
 });
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  spreadLongitudes, layoutChartWheel, renderChartWheelSvg, chartToWheel, WheelBase,
+} from '../lib/astro/chart-wheel';
+import { calculateChart } from '../lib/astro/engine';
+import { calculateChartAspects, DEFAULT_ASPECT_CONFIG, Aspect } from '../lib/astro/aspects';
+import { PLANET_SYMBOLS, ZODIAC_SYMBOLS } from '../lib/astro/types';
+
+function gap(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+const BASE: WheelBase = {
+  planets: [{ planet: 'Sun', longitude: 10 }, { planet: 'Moon', longitude: 200 }],
+  ascendant: 0,
+  midheaven: 270,
+  cusps: Array.from({ length: 12 }, (_, i) => i * 30),
+};
+
+function aspect(planet1: Aspect['planet1'], planet2: Aspect['planet2'], type: Aspect['type']): Aspect {
+  return {
+    planet1, planet2, type, exactAngle: 0, actualAngle: 0, orb: 0, isExact: true, symbol: '', interpretation: '',
+    orbLimit: 3, status: 'Separating', perfection: null, isRefranation: false,
+  };
+}
+
+describe('Glyph collision avoidance', () => {
+  it('leaves well separated glyphs in place', () => {
+    expect(spreadLongitudes([10, 100, 250])).toEqual([10, 100, 250]);
+  });
+
+  it('fans out a cluster evenly around its mean', () => {
+    const spread = spreadLongitudes([100, 101, 102, 150]);
+    expect(spread[1]).toBeCloseTo(101, 9);
+    expect(spread[2] - spread[0]).toBeCloseTo(16, 9);
+    expect(spread[3]).toBe(150);
+  });
+
+  it('keeps clusters across 0° Aries together and in order', () => {
+    const spread = spreadLongitudes([359, 1, 358, 180]);
+    expect(gap(spread[0], spread[1])).toBeCloseTo(8, 9);
+    expect(gap(spread[2], spread[0])).toBeCloseTo(8, 9);
+    expect(gap(spread[2], spread[1])).toBeCloseTo(16, 9);
+    expect(spread[3]).toBe(180);
+  });
+
+  it('shares the circle when there is no room for the full separation', () => {
+    const spread = spreadLongitudes(Array.from({ length: 50 }, () => 5));
+    const sorted = [...spread].sort((a, b) => a - b);
+    for (let i = 1; i < sorted.length; i++) expect(sorted[i] - sorted[i - 1]).toBeCloseTo(360 / 50, 6);
+  });
+});
+
+describe('Wheel layout', () => {
+  it('puts the Ascendant at nine o\'clock with the zodiac counter-clockwise', () => {
+    const layout = layoutChartWheel(BASE, { size: 340 });
+    const c = layout.size / 2;
+    const sun = layout.labels.find(l => l.text === PLANET_SYMBOLS.Sun)!;
+    expect(sun.x).toBeLessThan(c);
+    expect(sun.y).toBeGreaterThan(c);       // 10° past the Ascendant, below the horizon
+    const cancer = layout.labels.find(l => l.text === ZODIAC_SYMBOLS.Cancer)!;
+    expect(cancer.y).toBeGreaterThan(c);    // the IC side
+    expect(layout.labels.filter(l => /^\d+$/.test(l.text))).toHaveLength(12);
+  });
+
+  it('adds an outer ring and draws aspects from the inner to the outer chart', () => {
+    const outer = { planets: [{ planet: 'Mars' as const, longitude: 100 }] };
+    const single = layoutChartWheel(BASE);
+    const bi = layoutChartWheel(BASE, {
+      outer,
+      aspects: [aspect('Sun', 'Mars', 'Square'), aspect('Sun', 'Moon', 'Opposition'), aspect('Moon', 'Mars', 'Parallel')],
+    });
+    expect(bi.circles).toHaveLength(single.circles.length + 1);
+    expect(bi.labels.some(l => l.text === PLANET_SYMBOLS.Mars)).toBe(true);
+    // Sun–Moon has no Moon on the outer ring; parallels have no line
+    expect(bi.lines.filter(l => l.opacity < 1)).toHaveLength(1);
+  });
+
+  it('draws the aspects of a chart between its own points', () => {
+    const chart = calculateChart(new Date('2025-10-20T00:00:00Z'), { latitude: 48.2, longitude: 16.4 });
+    const aspects = calculateChartAspects(chart, DEFAULT_ASPECT_CONFIG, 3);
+    const layout = layoutChartWheel(chartToWheel(chart), { aspects });
+    const drawable = aspects.filter(a => a.type !== 'Parallel' && a.type !== 'Contraparallel');
+    expect(layout.lines.filter(l => l.opacity < 1)).toHaveLength(drawable.length);
+    for (const p of chart.planets) {
+      expect(layout.labels.some(l => l.text === PLANET_SYMBOLS[p.planet])).toBe(true);
+    }
+  });
+});
+
+describe('SVG export', () => {
+  it('writes a standalone document of the same layout', () => {
+    const layout = layoutChartWheel(BASE, { size: 600 });
+    const svg = renderChartWheelSvg(layout, 'Natal <Ada & Bo>');
+    expect(svg.startsWith('<?xml')).toBe(true);
+    expect(svg).toContain('viewBox="0 0 600 600"');
+    expect(svg).toContain('<title>Natal &lt;Ada &amp; Bo&gt;</title>');
+    expect(svg.match(/<text /g)).toHaveLength(layout.labels.length);
+    expect(svg.match(/<line /g)).toHaveLength(layout.lines.length);
+    expect(svg.trim().endsWith('</svg>')).toBe(true);
+  });
+});
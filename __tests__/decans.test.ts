@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { DECANS, getDecan, getDecanLabel, getChartDecans } from '../lib/astro/decans';
+import { getEssentialRulers } from '../lib/astro/dignities';
+import { calculateChart } from '../lib/astro/engine';
+import { ZODIAC_SIGNS } from '../lib/astro/types';
+
+describe('Decan table', () => {
+  it('has 36 faces whose rulers match the dignity table', () => {
+    expect(DECANS).toHaveLength(36);
+    DECANS.forEach((decan, i) => {
+      expect(decan.index).toBe(i + 1);
+      const rulers = getEssentialRulers(decan.sign, (decan.decan - 1) * 10 + 5, 'Day');
+      expect(decan.ruler).toBe(rulers.face);
+      expect(decan.image.length).toBeGreaterThan(0);
+    });
+    // Chaldean order from Mars in the first face of Aries to Mars in the last of Pisces
+    expect(DECANS[0].ruler).toBe('Mars');
+    expect(DECANS[35].ruler).toBe('Mars');
+  });
+
+  it('assigns the Golden Dawn small cards by element and quality', () => {
+    expect(DECANS[0].tarot.card).toBe('Two of Wands');
+    expect(DECANS[0].tarot.title).toBe('Lord of Dominion');
+    expect(getDecan(45).tarot.card).toBe('Six of Pentacles');
+    expect(getDecan(75).tarot.card).toBe('Nine of Swords');
+    expect(getDecan(185).tarot.card).toBe('Two of Swords');
+    expect(getDecan(355).tarot.card).toBe('Ten of Cups');
+    for (const sign of ZODIAC_SIGNS) {
+      const suits = new Set(DECANS.filter(d => d.sign === sign).map(d => d.tarot.suit));
+      expect(suits.size).toBe(1);
+    }
+  });
+
+  it('gives each face one Goetic spirit by day and one by night, from Leo', () => {
+    const leo = getDecan(120);
+    expect(leo.daySpirit).toBe('Bael');
+    expect(leo.nightSpirit).toBe('Phenex');
+    expect(getDecan(119).daySpirit).toBe('Stolas');
+    const spirits = new Set(DECANS.flatMap(d => [d.daySpirit, d.nightSpirit]));
+    expect(spirits.size).toBe(72);
+  });
+});
+
+describe('Decan lookup', () => {
+  it('finds the face of any longitude', () => {
+    expect(getDecanLabel(getDecan(0))).toBe('Aries I');
+    expect(getDecanLabel(getDecan(19.99))).toBe('Aries II');
+    expect(getDecanLabel(getDecan(20))).toBe('Aries III');
+    expect(getDecanLabel(getDecan(-5))).toBe('Pisces III');
+  });
+
+  it('reads the decans of the lights from a chart', () => {
+    const chart = calculateChart(new Date('2025-10-20T00:00:00Z'), { latitude: 48.2, longitude: 16.4 });
+    const { sunDecan, moonDecan } = getChartDecans(chart);
+    const sun = chart.planets.find(p => p.planet === 'Sun')!;
+    expect(DECANS[sunDecan - 1]).toBe(getDecan(sun.longitude));
+    expect(moonDecan).toBeGreaterThanOrEqual(1);
+    expect(moonDecan).toBeLessThanOrEqual(36);
+  });
+});
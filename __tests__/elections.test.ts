@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ELECTION_PRESETS, ElectionRule, createTalismanRule, describeCondition, evaluateElection, searchElections,
+} from '../lib/astro/elections';
+import { calculatePlanetaryHours } from '../lib/astro/planetary-hours';
+
+const vienna = { latitude: 48.2, longitude: 16.37 };
+
+describe('Election rules', () => {
+  it('builds talisman presets for the seven planets', () => {
+    expect(ELECTION_PRESETS).toHaveLength(7);
+    const venus = createTalismanRule('Venus');
+    expect(venus.conditions.map(describeCondition)).toEqual([
+      'Hour of Venus',
+      'Venus in domicile or exaltation',
+      'Moon waxing',
+      'Moon applying to Venus',
+      'Moon not void of course',
+      'No malefic on an angle',
+    ]);
+    expect(createTalismanRule('Moon').conditions.some(c => c.type === 'aspect')).toBe(false);
+  });
+
+  it('explains why each condition holds or fails', () => {
+    // 2025-10-20: Venus in Libra, Moon balsamic just before the New Moon
+    const results = evaluateElection(createTalismanRule('Venus'), new Date('2025-10-20T10:00:00Z'), vienna);
+    const byLabel = Object.fromEntries(results.map(r => [r.label, r]));
+    expect(byLabel['Venus in domicile or exaltation'].satisfied).toBe(true);
+    expect(byLabel['Venus in domicile or exaltation'].reason).toContain('Libra');
+    expect(byLabel['Moon waxing'].satisfied).toBe(false);
+    expect(byLabel['Moon waxing'].reason).toContain('waning');
+  });
+
+  it('counts a Moon without aspects in its sign as void', () => {
+    // 4–6 January 2026 the Moon crosses Leo without perfecting an aspect
+    const rule: ElectionRule = { id: 'voc', name: 'Void', conditions: [{ type: 'moonNotVoid' }] };
+    const [notVoid] = evaluateElection(rule, new Date('2026-01-05T12:00:00Z'), vienna);
+    expect(notVoid.satisfied).toBe(false);
+    expect(notVoid.reason).toBe('Moon void of course: no aspect in Leo');
+  });
+
+  it('supports negation and alternatives', () => {
+    const rule: ElectionRule = {
+      id: 'test', name: 'Test',
+      conditions: [
+        { type: 'not', condition: { type: 'moonPhase', phase: 'Waxing' } },
+        { type: 'anyOf', conditions: [{ type: 'inSign', planet: 'Venus', signs: ['Libra'] }, { type: 'direct', planet: 'Saturn' }] },
+      ],
+    };
+    const results = evaluateElection(rule, new Date('2025-10-20T10:00:00Z'), vienna);
+    expect(results.every(r => r.satisfied)).toBe(true);
+  });
+});
+
+describe('Election bodies', () => {
+  const date = new Date('2025-10-20T10:00:00Z');
+
+  it('evaluates conditions on the modern planets and asteroids', () => {
+    const rule: ElectionRule = {
+      id: 'outer', name: 'Outer',
+      conditions: [
+        { type: 'direct', planet: 'Uranus' },
+        { type: 'inSign', planet: 'Ceres', signs: ['Aries'] },
+        { type: 'aspect', from: 'Moon', to: 'Pluto', applying: false },
+      ],
+    };
+    const [uranus, ceres] = evaluateElection(rule, date, vienna);
+    // Uranus turned retrograde on 2025-09-06
+    expect(uranus.satisfied).toBe(false);
+    expect(uranus.reason).toContain('retrograde');
+    expect(ceres.reason).toMatch(/^Ceres in \w+$/);
+  });
+
+  it('leaves conditions on points without an ephemeris unsatisfied', () => {
+    const rule: ElectionRule = {
+      id: 'node', name: 'Node',
+      conditions: [
+        { type: 'direct', planet: 'NorthNode' },
+        { type: 'aspect', from: 'Moon', to: 'Lilith' },
+        { type: 'moonPhase', phase: 'Waning' },
+      ],
+    };
+    const [node, lilith, phase] = evaluateElection(rule, date, vienna);
+    expect(node.satisfied).toBe(false);
+    expect(node.reason).toContain('NorthNode');
+    expect(lilith.satisfied).toBe(false);
+    expect(phase.satisfied).toBe(true);
+    expect(searchElections(rule, date, new Date(date.getTime() + 86400000), vienna)).toEqual([]);
+  });
+});
+
+describe('Election search', () => {
+  it('finds windows matching the planetary hours', () => {
+    const rule: ElectionRule = { id: 'hour', name: 'Venus hour', conditions: [{ type: 'planetaryHour', planet: 'Venus' }] };
+    const start = new Date('2025-10-21T12:00:00Z');
+    const end = new Date('2025-10-23T12:00:00Z');
+    const windows = searchElections(rule, start, end, vienna, { maxResults: 50 });
+    expect(windows.length).toBeGreaterThanOrEqual(6);
+    expect(windows.length).toBeLessThanOrEqual(8);
+
+    for (const window of windows) {
+      const mid = new Date((window.start.getTime() + window.end.getTime()) / 2);
+      const hours = calculatePlanetaryHours(mid, vienna).allHours
+        .concat(calculatePlanetaryHours(new Date(mid.getTime() - 86400000), vienna).allHours);
+      const hour = hours.find(h => h.startTime <= mid && mid < h.endTime)!;
+      expect(hour.planet).toBe('Venus');
+      expect(Math.abs(window.start.getTime() - Math.max(hour.startTime.getTime(), start.getTime()))).toBeLessThan(2 * 60000);
+      expect(window.reasons[0].satisfied).toBe(true);
+    }
+  });
+
+  it('ranks windows by strength', () => {
+    const windows = searchElections(
+      createTalismanRule('Mars'), new Date('2025-10-19T00:00:00Z'), new Date('2025-11-18T00:00:00Z'), vienna,
+    );
+    expect(windows.length).toBeGreaterThan(0);
+    for (let i = 1; i < windows.length; i++) expect(windows[i - 1].score).toBeGreaterThanOrEqual(windows[i].score);
+    for (const window of windows) expect(window.reasons.every(r => r.satisfied)).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { calculateEventsBetween } from '../lib/astro/events';
+import { calculateChart } from '../lib/astro/engine';
+import { searchTransits, transitsToEvents } from '../lib/astro/transits';
+import {
+  EVENT_CACHE_VERSION, extendEventHorizon, getCachedTransits, isHorizonCovered, parseEventCache, serializeEventCache,
+} from '../lib/astro/event-horizon-cache';
+
+const vienna = { latitude: 48.2082, longitude: 16.3738 };
+const sydney = { latitude: -33.9, longitude: 151.2 };
+const start = new Date('2026-01-01T00:00:00Z');
+const DAY_MS = 86400000;
+
+describe('Event Horizon cache', () => {
+  it('builds span by span with the same events as one search', async () => {
+    const progress: number[] = [];
+    const cache = await extendEventHorizon(null, start, vienna, 0.5, {
+      onProgress: (p) => progress.push(p),
+    });
+    expect(cache.version).toBe(EVENT_CACHE_VERSION);
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(1);
+    const whole = calculateEventsBetween(start, new Date(cache.end), vienna);
+    // Bisection stops at the minute, so chunked times may differ by seconds
+    expect(cache.events.length).toBe(whole.length);
+    for (const event of whole) {
+      expect(cache.events.some(e => e.type === event.type && e.planet === event.planet
+        && Math.abs(e.date.getTime() - event.date.getTime()) <= 2 * 60000)).toBe(true);
+    }
+  });
+
+  it('extends a cache forward without recomputing what it holds', async () => {
+    const first = await extendEventHorizon(null, start, vienna, 0.25);
+    const later = new Date(start.getTime() + 60 * DAY_MS);
+    expect(isHorizonCovered(first, later, vienna, 0.25)).toBe(false);
+
+    const spans: number[] = [];
+    const extended = await extendEventHorizon(first, later, vienna, 0.25, {
+      onProgress: (p) => spans.push(p),
+    });
+    // Only the missing two months are searched, in 15-day spans
+    expect(spans.length).toBe(4);
+    expect(isHorizonCovered(extended, later, vienna, 0.25)).toBe(true);
+    const kept = first.events.filter(e => e.date.getTime() >= extended.start);
+    kept.forEach(e => expect(extended.events).toContain(e));
+    // Events long past are pruned
+    expect(extended.events.every(e => e.date.getTime() >= later.getTime() - 30 * DAY_MS)).toBe(true);
+  });
+
+  it('rebuilds for another location or version', async () => {
+    const cache = await extendEventHorizon(null, start, vienna, 0.1);
+    expect(isHorizonCovered(cache, start, vienna, 0.1)).toBe(true);
+    expect(isHorizonCovered(cache, start, sydney, 0.1)).toBe(false);
+    expect(isHorizonCovered({ ...cache, version: EVENT_CACHE_VERSION - 1 }, start, vienna, 0.1)).toBe(false);
+    const moved = await extendEventHorizon(cache, start, sydney, 0.1);
+    expect(moved.locationKey).not.toBe(cache.locationKey);
+  });
+
+  it('returns a valid partial cache when cancelled', async () => {
+    let spans = 0;
+    const partial = await extendEventHorizon(null, start, vienna, 1, {
+      onProgress: () => { spans++; },
+      isCancelled: () => spans >= 2,
+    });
+    expect(partial.end).toBe(start.getTime() + 2 * 15 * DAY_MS);
+    partial.events.forEach(e => expect(e.date.getTime()).toBeLessThanOrEqual(partial.end));
+    expect(isHorizonCovered(partial, start, vienna, 1)).toBe(false);
+  });
+
+  it('searches natal transits in chunks with whole cycles', async () => {
+    const natal = calculateChart(new Date('1990-05-05T10:00:00Z'), vienna);
+    const cache = await extendEventHorizon(null, start, vienna, 0.5, { natalChart: natal });
+    const whole = transitsToEvents(searchTransits(natal, start, new Date(cache.transits!.end)), natal);
+    const transits = getCachedTransits(cache, natal);
+    expect(transits.map(e => e.id).sort()).toEqual(whole.map(e => e.id).sort());
+    expect(transits.map(e => e.description).sort()).toEqual(whole.map(e => e.description).sort());
+    expect(isHorizonCovered(cache, start, vienna, 0.5, natal)).toBe(true);
+
+    // Another chart needs its own search; a new location keeps the transits
+    const other = calculateChart(new Date('1985-01-01T00:00:00Z'), vienna);
+    expect(getCachedTransits(cache, other)).toEqual([]);
+    expect(isHorizonCovered(cache, start, vienna, 0.5, other)).toBe(false);
+    let steps = 0;
+    const moved = await extendEventHorizon(cache, start, sydney, 0.1, {
+      natalChart: natal,
+      onProgress: () => { steps++; },
+    });
+    expect(getCachedTransits(moved, natal)).toBe(transits);
+    expect(steps).toBe(Math.ceil(0.1 * 365.25 / 15));
+  });
+
+  it('round-trips through storage and rejects other versions', async () => {
+    const natal = calculateChart(new Date('1990-05-05T10:00:00Z'), vienna);
+    const cache = await extendEventHorizon(null, start, vienna, 0.1, { natalChart: natal });
+    const restored = parseEventCache(serializeEventCache(cache))!;
+    expect(restored.events.length).toBe(cache.events.length);
+    expect(getCachedTransits(restored, natal).map(e => e.date.getTime()))
+      .toEqual(getCachedTransits(cache, natal).map(e => e.date.getTime()));
+    expect(restored.events[0].date).toBeInstanceOf(Date);
+    expect(restored.events[0].date.getTime()).toBe(cache.events[0].date.getTime());
+    const stale = serializeEventCache({ ...cache, version: EVENT_CACHE_VERSION + 1 });
+    expect(parseEventCache(stale)).toBeNull();
+    expect(parseEventCache('not json')).toBeNull();
+    expect(parseEventCache(null)).toBeNull();
+  });
+});
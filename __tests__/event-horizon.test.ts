@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEventHorizon, filterEvents, getNextMajorEvent, isMajorEvent,
+} from '../lib/astro/events';
+import { getPlanetLongitude } from '../lib/astro/engine';
+
+const vienna = { latitude: 48.2082, longitude: 16.3738 };
+const start = new Date('2026-01-01T00:00:00Z');
+const events = calculateEventHorizon(start, vienna, 1);
+
+const near = (date: Date, iso: string, hours: number) =>
+  Math.abs(date.getTime() - new Date(iso).getTime()) < hours * 3600000;
+
+describe('Event Horizon: ingresses, lunations and seasons', () => {
+  it('finds sign ingresses of the slow planets', () => {
+    const saturn = events.filter(e => e.type === 'ingress' && e.planet === 'Saturn');
+    expect(saturn[0].sign).toBe('Aries');
+    expect(near(saturn[0].date, '2026-02-13T23:40:00Z', 12)).toBe(true);
+    expect(getPlanetLongitude('Saturn', saturn[0].date)!).toBeCloseTo(0, 2);
+    expect(events.some(e => e.type === 'ingress' && e.planet === 'Neptune' && e.sign === 'Aries')).toBe(true);
+    expect(events.some(e => e.type === 'ingress' && e.planet === 'Moon')).toBe(false);
+  });
+
+  it('gives New and Full Moons their zodiac degree', () => {
+    const newMoons = events.filter(e => e.type === 'new_moon');
+    const fullMoons = events.filter(e => e.type === 'full_moon');
+    // Twelve or thirteen a year, less the lunations that are eclipses
+    expect(newMoons.length).toBeGreaterThanOrEqual(10);
+    expect(fullMoons.length).toBeGreaterThanOrEqual(10);
+    for (const lunation of newMoons) {
+      const sun = getPlanetLongitude('Sun', lunation.date)!;
+      expect(Math.abs(((lunation.longitude! - sun + 540) % 360) - 180)).toBeLessThan(0.1);
+      expect(lunation.description).toContain(lunation.sign!);
+    }
+    const eclipses = events.filter(e => e.type === 'solar_eclipse');
+    expect(newMoons.some(m => eclipses.some(e => near(m.date, e.date.toISOString(), 24)))).toBe(false);
+  });
+
+  it('names equinoxes and solstices for the hemisphere', () => {
+    const march = events.find(e => e.type === 'equinox')!;
+    expect(near(march.date, '2026-03-20T14:46:00Z', 1)).toBe(true);
+    expect(march.title).toContain('Spring Equinox');
+    const [south] = calculateEventHorizon(start, { latitude: -33.9, longitude: 151.2 }, 1, { types: ['equinox'] });
+    expect(south.title).toContain('Autumn Equinox');
+  });
+});
+
+describe('Event Horizon: stations, elongations and aspects', () => {
+  it('finds stations of the outer planets to the hour', () => {
+    const uranus = events.find(e => e.type === 'retrograde_end' && e.planet === 'Uranus')!;
+    expect(near(uranus.date, '2026-02-04T00:00:00Z', 24)).toBe(true);
+    expect(events.some(e => e.type === 'retrograde_start' && e.planet === 'Pluto')).toBe(true);
+    expect(events.some(e => e.type === 'retrograde_start' && e.planet === 'Neptune')).toBe(true);
+  });
+
+  it('finds greatest elongations with morning or evening visibility', () => {
+    const elongations = events.filter(e => e.type === 'greatest_elongation');
+    expect(elongations.some(e => e.planet === 'Venus')).toBe(true);
+    for (const elongation of elongations) {
+      expect(elongation.magnitude).toBeGreaterThan(17);
+      expect(elongation.visibility).toMatch(/Morning|Evening/);
+    }
+  });
+
+  it('finds exact aspects between the slow planets', () => {
+    const conjunction = events.find(e => e.type === 'conjunction' && e.planet === 'Saturn' && e.planet2 === 'Neptune')!;
+    expect(near(conjunction.date, '2026-02-20T18:00:00Z', 24)).toBe(true);
+    const opposition = events.find(e => e.type === 'opposition' && e.planet === 'Jupiter' && e.planet2 === 'Pluto')!;
+    expect(opposition.description).toContain('Leo');
+  });
+
+  it('states whether eclipses are visible from the location', () => {
+    const eclipses = events.filter(e => e.type === 'solar_eclipse' || e.type === 'lunar_eclipse');
+    expect(eclipses.length).toBeGreaterThan(0);
+    eclipses.forEach(e => expect(e.visibility).toMatch(/visible from your location/i));
+    const march = eclipses.find(e => e.type === 'lunar_eclipse')!;
+    expect(march.visibility).toContain('Not visible');
+  });
+});
+
+describe('Event Horizon filters', () => {
+  it('filters by type and planet', () => {
+    const saturn = calculateEventHorizon(start, vienna, 1, { types: ['ingress', 'retrograde_start'], planets: ['Saturn'] });
+    expect(saturn.length).toBeGreaterThan(0);
+    saturn.forEach(e => {
+      expect(['ingress', 'retrograde_start']).toContain(e.type);
+      expect(e.planet).toBe('Saturn');
+    });
+    expect(filterEvents(events, { planets: ['Neptune'] }).every(e => e.planet === 'Neptune' || e.planet2 === 'Neptune')).toBe(true);
+    // Eclipses concern both lights
+    expect(filterEvents(events, { types: ['solar_eclipse'], planets: ['Moon'] }).length).toBeGreaterThan(0);
+  });
+
+  it('headlines only major events', () => {
+    const next = getNextMajorEvent(events, start)!;
+    expect(isMajorEvent(next)).toBe(true);
+    expect(['new_moon', 'full_moon', 'greatest_elongation']).not.toContain(next.type);
+    expect(isMajorEvent({ id: 'x', type: 'ingress', title: '', description: '', date: start, planet: 'Mercury' })).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BEHENIAN_STARS, FIXED_STARS, calculateParans, findHeliacalEvents, findStarConjunctions,
+  getFixedStar, getFixedStarPosition,
+} from '../lib/astro/fixed-stars';
+import { calculateChart } from '../lib/astro/engine';
+import { BEHENIAN_ELECTION_PRESETS, ELECTION_PRESETS, searchElections } from '../lib/astro/elections';
+
+const vienna = { latitude: 48.2, longitude: 16.37 };
+const cairo = { latitude: 30.0, longitude: 31.2 };
+
+describe('Fixed star catalogue', () => {
+  it('bundles the fifteen Behenian stars with their correspondences', () => {
+    expect(BEHENIAN_STARS).toHaveLength(15);
+    BEHENIAN_STARS.forEach(star => {
+      expect(star.stone).toBeTruthy();
+      expect(star.herb).toBeTruthy();
+      expect(star.nature.length).toBeGreaterThan(0);
+    });
+    expect(new Set(FIXED_STARS.map(s => s.id)).size).toBe(FIXED_STARS.length);
+  });
+
+  it('precesses J2000 positions to date', () => {
+    const date = new Date('2025-01-01T00:00:00Z');
+    // Regulus crossed into Virgo in 2011–12
+    const regulus = getFixedStarPosition(getFixedStar('regulus')!, date);
+    expect(regulus.longitude).toBeGreaterThan(150);
+    expect(regulus.longitude).toBeLessThan(150.3);
+    expect(getFixedStarPosition(getFixedStar('spica')!, date).longitude).toBeCloseTo(204.2, 0);
+    expect(getFixedStarPosition(getFixedStar('algol')!, date).longitude).toBeCloseTo(56.5, 0);
+    // ~50" a year
+    const later = getFixedStarPosition(getFixedStar('regulus')!, new Date('2125-01-01T00:00:00Z'));
+    expect(later.longitude - regulus.longitude).toBeCloseTo(1.397, 1);
+  });
+
+  it('shifts into the sidereal zodiac with the chart ayanamsa', () => {
+    const date = new Date('2025-01-01T00:00:00Z');
+    const tropical = calculateChart(date, vienna);
+    const sidereal = calculateChart(date, vienna, { zodiac: 'Sidereal', ayanamsa: 'Lahiri' });
+    const spica = getFixedStar('spica')!;
+    // Lahiri fixes Spica at 0° Libra
+    const [position] = findStarConjunctions(sidereal, 360, [spica]).filter(c => c.body === 'Sun');
+    expect(position.starLongitude).toBeCloseTo(180, 0);
+    expect(findStarConjunctions(tropical, 360, [spica])[0].starLongitude).toBeCloseTo(204.2, 0);
+  });
+});
+
+describe('Star contacts', () => {
+  const chart = calculateChart(new Date('2025-10-20T12:00:00Z'), vienna);
+
+  it('finds conjunctions to planets and angles within the orb', () => {
+    const conjunctions = findStarConjunctions(chart, 2);
+    expect(conjunctions.length).toBeGreaterThan(0);
+    conjunctions.forEach(c => expect(c.orb).toBeLessThanOrEqual(2));
+    for (let i = 1; i < conjunctions.length; i++) {
+      expect(conjunctions[i].orb).toBeGreaterThanOrEqual(conjunctions[i - 1].orb);
+    }
+    expect(findStarConjunctions(chart, 0.5).length).toBeLessThan(conjunctions.length);
+  });
+
+  it('finds parans at the chart latitude', () => {
+    const parans = calculateParans(chart, 1);
+    expect(parans.length).toBeGreaterThan(0);
+    parans.forEach(p => expect(p.orb).toBeLessThanOrEqual(1));
+    // Meridian pairs are listed once
+    expect(parans.some(p => p.starAngle === 'AntiCulminating'
+      && (p.planetAngle === 'Culminating' || p.planetAngle === 'AntiCulminating'))).toBe(false);
+  });
+});
+
+describe('Heliacal rising and setting', () => {
+  it('dates the heliacal rising of Sirius in early August at Cairo', () => {
+    const sirius = findHeliacalEvents(getFixedStar('sirius')!, 2025, cairo);
+    expect(sirius.visibility).toBe('Seasonal');
+    expect(sirius.rising!.getTime()).toBeGreaterThan(Date.UTC(2025, 6, 20));
+    expect(sirius.rising!.getTime()).toBeLessThan(Date.UTC(2025, 7, 20));
+    // Last seen in the evening sky in late spring, before the rising
+    expect(sirius.setting!.getTime()).toBeLessThan(sirius.rising!.getTime());
+  });
+
+  it('flags stars that never cross the horizon', () => {
+    expect(findHeliacalEvents(getFixedStar('capella')!, 2025, vienna).visibility).toBe('Circumpolar');
+    const fomalhaut = findHeliacalEvents(getFixedStar('fomalhaut')!, 2025, { latitude: 70, longitude: 20 });
+    expect(fomalhaut.visibility).toBe('NeverRises');
+    expect(fomalhaut.rising).toBeNull();
+  });
+});
+
+describe('Behenian elections', () => {
+  it('adds one rule per Behenian star beside the talisman presets', () => {
+    expect(BEHENIAN_ELECTION_PRESETS).toHaveLength(15);
+    expect(ELECTION_PRESETS).toHaveLength(7);
+  });
+
+  it('finds the star on an angle while the Moon is joined to it', () => {
+    const rule = BEHENIAN_ELECTION_PRESETS.find(r => r.id === 'behenian_regulus')!;
+    const windows = searchElections(rule, new Date('2025-10-10T00:00:00Z'), new Date('2025-10-24T00:00:00Z'), vienna);
+    expect(windows.length).toBeGreaterThan(0);
+    for (const window of windows) {
+      expect(window.reasons.every(r => r.satisfied)).toBe(true);
+      expect(window.reasons[1].reason).toContain('Regulus');
+      expect(window.durationMinutes).toBeLessThanOrEqual(45);
+    }
+  });
+});
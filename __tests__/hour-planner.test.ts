@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getPlanetaryDays, planHourAlerts, MAX_HOUR_ALERTS } from '../lib/astro/hour-planner';
+
+const vienna = { latitude: 48.2082, longitude: 16.3738 };
+const now = new Date('2026-10-19T10:00:00Z');
+const days = getPlanetaryDays(now, vienna, 7);
+
+describe('Hour planner', () => {
+  it('lays out consecutive planetary days for the week ahead', () => {
+    expect(days.length).toBeGreaterThanOrEqual(7);
+    expect(days.length).toBeLessThanOrEqual(8);
+    expect(days[0].dayRuler).toBe('Moon');
+    expect(days.slice(0, 7).map(d => d.dayRuler)).toEqual(['Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Sun']);
+    for (let i = 1; i < days.length; i++) {
+      expect(Math.abs(days[i].solarDay.sunrise.getTime() - days[i - 1].solarDay.nextSunrise.getTime())).toBeLessThan(1000);
+    }
+  });
+
+  it('plans reminders ahead of each starred hour', () => {
+    const alerts = planHourAlerts(days, ['Venus'], 10, now);
+    // Venus rules 3 or 4 of the 24 hours each day
+    expect(alerts.length).toBeGreaterThanOrEqual(21);
+    alerts.forEach(alert => {
+      expect(alert.planet).toBe('Venus');
+      expect(alert.hour.startTime.getTime() - alert.fireDate.getTime()).toBe(10 * 60000);
+      expect(alert.fireDate.getTime()).toBeGreaterThan(now.getTime());
+    });
+    expect(new Set(alerts.map(a => a.id)).size).toBe(alerts.length);
+  });
+
+  it('keeps the soonest reminders within the platform limit', () => {
+    const alerts = planHourAlerts(days, ['Sun', 'Moon', 'Saturn'], 0, now);
+    expect(alerts.length).toBe(MAX_HOUR_ALERTS);
+    for (let i = 1; i < alerts.length; i++) {
+      expect(alerts[i].fireDate.getTime()).toBeGreaterThanOrEqual(alerts[i - 1].fireDate.getTime());
+    }
+    expect(planHourAlerts(days, [], 10, now)).toEqual([]);
+  });
+});
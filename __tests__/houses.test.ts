@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import { calculateHouses, calculateAngles, getHouseForLongitude } from '../lib/astro/houses';
+import { HOUSE_SYSTEMS } from '../lib/astro/types';
+
+describe('House Systems', () => {
+  const testDate = new Date('2025-03-21T12:00:00Z');
+  const berlin = { latitude: 52.52, longitude: 13.405 };
+
+  it('should return 12 cusps with ASC on cusp 1 and MC on cusp 10 for quadrant systems', () => {
+    for (const system of ['Placidus', 'Regiomontanus', 'Porphyry'] as const) {
+      const chart = calculateChart(testDate, berlin, { houseSystem: system });
+      expect(chart.houses.cusps).toHaveLength(12);
+      expect(chart.houses.system).toBe(system);
+      expect(chart.houses.cusps[0]).toBeCloseTo(chart.angles.ascendant, 6);
+      expect(chart.houses.cusps[9]).toBeCloseTo(chart.angles.midheaven, 6);
+    }
+  });
+
+  it('should place the Ascendant on the eastern horizon', () => {
+    // At noon UT on the equinox the Sun culminates near Berlin: MC ≈ Sun, ASC in Cancer/Leo
+    const chart = calculateChart(testDate, berlin);
+    const sun = chart.planets.find(p => p.planet === 'Sun')!;
+    let mcDiff = Math.abs(chart.angles.midheaven - sun.longitude);
+    if (mcDiff > 180) mcDiff = 360 - mcDiff;
+    expect(mcDiff).toBeLessThan(20);
+    expect(chart.angles.ascendant).toBeGreaterThan(90);
+    expect(chart.angles.ascendant).toBeLessThan(150);
+  });
+
+  it('should keep angles opposite each other', () => {
+    const angles = calculateAngles(200, 23.44, 40);
+    expect((angles.descendant - angles.ascendant + 360) % 360).toBeCloseTo(180, 6);
+    expect((angles.imumCoeli - angles.midheaven + 360) % 360).toBeCloseTo(180, 6);
+  });
+
+  it('Placidus and Regiomontanus coincide on the equator', () => {
+    const placidus = calculateHouses(100, 23.44, 0, 'Placidus');
+    const regio = calculateHouses(100, 23.44, 0, 'Regiomontanus');
+    placidus.cusps.forEach((c, i) => expect(c).toBeCloseTo(regio.cusps[i], 6));
+  });
+
+  it('Whole Sign cusps start at 0° of the rising sign', () => {
+    const chart = calculateChart(testDate, berlin, { houseSystem: 'WholeSign' });
+    expect(chart.houses.cusps[0] % 30).toBe(0);
+    expect(Math.floor(chart.angles.ascendant / 30) * 30).toBe(chart.houses.cusps[0]);
+  });
+
+  it('Equal cusps are 30° apart from the Ascendant', () => {
+    const chart = calculateChart(testDate, berlin, { houseSystem: 'Equal' });
+    chart.houses.cusps.forEach((c, i) => {
+      expect(c).toBeCloseTo((chart.angles.ascendant + i * 30) % 360, 6);
+    });
+  });
+
+  it('should fall back to Porphyry when Placidus fails above the polar circle', () => {
+    const chart = calculateChart(testDate, { latitude: 75, longitude: 13 }, { houseSystem: 'Placidus' });
+    expect(chart.houses.requestedSystem).toBe('Placidus');
+    expect(chart.houses.system).toBe('Porphyry');
+    expect(chart.houses.isFallback).toBe(true);
+    for (const cusp of chart.houses.cusps) {
+      expect(Number.isFinite(cusp)).toBe(true);
+    }
+  });
+
+  it('should assign a house (1-12) to every planet', () => {
+    for (const system of HOUSE_SYSTEMS) {
+      const chart = calculateChart(testDate, berlin, { houseSystem: system });
+      for (const planet of chart.planets) {
+        expect(planet.house).toBeGreaterThanOrEqual(1);
+        expect(planet.house).toBeLessThanOrEqual(12);
+      }
+    }
+  });
+
+  it('getHouseForLongitude handles cusps wrapping past 0° Aries', () => {
+    const cusps = [350, 20, 50, 80, 110, 140, 170, 200, 230, 260, 290, 320];
+    expect(getHouseForLongitude(355, cusps)).toBe(1);
+    expect(getHouseForLongitude(5, cusps)).toBe(1);
+    expect(getHouseForLongitude(20, cusps)).toBe(2);
+    expect(getHouseForLongitude(340, cusps)).toBe(12);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import { calculateLots, parseLotFormula, LOT_DEFINITIONS, LotContext } from '../lib/astro/lots';
+import { PlanetPosition, Planet } from '../lib/astro/types';
+
+function makeContext(sect: 'Day' | 'Night', longitudes: Partial<Record<Planet, number>>): LotContext {
+  const planets = Object.entries(longitudes).map(([planet, longitude]) => ({
+    planet, longitude, latitude: 0, sign: 'Aries', signDegree: 0, signMinute: 0, signSecond: 0,
+    isRetrograde: false, speed: 1,
+  })) as PlanetPosition[];
+  return {
+    planets,
+    angles: { ascendant: 100, midheaven: 10, descendant: 280, imumCoeli: 190 },
+    cusps: Array.from({ length: 12 }, (_, i) => (100 + i * 30) % 360),
+    sect,
+  };
+}
+
+const LONGITUDES = { Sun: 10, Moon: 70, Mercury: 20, Venus: 40, Mars: 200, Jupiter: 250, Saturn: 300 };
+
+describe('Arabic Parts / Lots', () => {
+  it('computes Fortune and Spirit with day/night reversal', () => {
+    const day = calculateLots(makeContext('Day', LONGITUDES));
+    const night = calculateLots(makeContext('Night', LONGITUDES));
+    expect(day.find(l => l.id === 'fortune')!.longitude).toBeCloseTo(160, 6); // 100 + 70 − 10
+    expect(day.find(l => l.id === 'spirit')!.longitude).toBeCloseTo(40, 6);   // 100 + 10 − 70
+    expect(night.find(l => l.id === 'fortune')!.longitude).toBeCloseTo(40, 6);
+    expect(night.find(l => l.id === 'fortune')!.isReversed).toBe(true);
+  });
+
+  it('derives Hermetic lots from Fortune and Spirit', () => {
+    const lots = calculateLots(makeContext('Day', LONGITUDES));
+    const get = (id: string) => lots.find(l => l.id === id)!.longitude;
+    expect(get('eros')).toBeCloseTo(100, 6);      // ASC + Venus − Spirit = 100 + 40 − 40
+    expect(get('necessity')).toBeCloseTo(240, 6); // ASC + Fortune − Mercury = 100 + 160 − 20
+    expect(get('nemesis')).toBeCloseTo(320, 6);   // ASC + Fortune − Saturn = 100 + 160 − 300
+  });
+
+  it('does not reverse Marriage and Death by night', () => {
+    const day = calculateLots(makeContext('Day', LONGITUDES));
+    const night = calculateLots(makeContext('Night', LONGITUDES));
+    for (const id of ['marriage', 'death']) {
+      expect(night.find(l => l.id === id)!.longitude).toBeCloseTo(day.find(l => l.id === id)!.longitude, 6);
+    }
+    // Death: ASC + 8th cusp − Moon = 100 + 310 − 70
+    expect(day.find(l => l.id === 'death')!.longitude).toBeCloseTo(340, 6);
+  });
+
+  it('assigns the domicile ruler of the lot sign', () => {
+    const lots = calculateLots(makeContext('Day', LONGITUDES));
+    const fortune = lots.find(l => l.id === 'fortune')!; // 160° = Virgo
+    expect(fortune.sign).toBe('Virgo');
+    expect(fortune.ruler).toBe('Mercury');
+    expect(fortune.rulerHouse).toBeGreaterThanOrEqual(1);
+  });
+
+  it('parses user formulas with reversal and lot references', () => {
+    const result = parseLotFormula('Lot of Love', 'ASC + Venus − Saturn, reverse by night');
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.definition).toMatchObject({
+      base: 'ASC', plus: 'Venus', minus: 'Saturn', reverseAtNight: true, category: 'Custom',
+    });
+
+    const ref = parseLotFormula('Test', 'Ascendant - Spirit + 8th cusp');
+    expect(ref.ok && ref.definition).toMatchObject({ plus: 'H8', minus: 'Lot:spirit', reverseAtNight: false });
+  });
+
+  it('rejects malformed formulas', () => {
+    expect(parseLotFormula('X', 'ASC + Venus').ok).toBe(false);
+    expect(parseLotFormula('X', 'ASC + Venus + Saturn').ok).toBe(false);
+    expect(parseLotFormula('X', 'ASC + Vulcan − Saturn').ok).toBe(false);
+    expect(parseLotFormula('', 'ASC + Venus − Saturn').ok).toBe(false);
+  });
+
+  it('includes custom lots in calculateChart', () => {
+    const parsed = parseLotFormula('Lot of Love', 'ASC + Venus − Saturn, reverse by night');
+    if (!parsed.ok) throw new Error(parsed.error);
+    const chart = calculateChart(new Date('2025-03-21T12:00:00Z'), { latitude: 52.52, longitude: 13.405 }, {
+      customLots: [parsed.definition],
+    });
+    expect(chart.lots).toHaveLength(LOT_DEFINITIONS.length + 1);
+    expect(chart.lots.at(-1)!.category).toBe('Custom');
+    expect(chart.arabicParts.map(p => p.name)).toEqual(['Part of Fortune', 'Part of Spirit']);
+  });
+});
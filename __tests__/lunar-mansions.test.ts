@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LUNAR_MANSIONS, MANSION_SPAN, calculateLunarMansion, getMansionForLongitude,
+} from '../lib/astro/lunar-mansions';
+import { getPlanetLongitude } from '../lib/astro/engine';
+
+describe('Lunar mansion dictionary', () => {
+  it('has 28 numbered mansions with Picatrix operations', () => {
+    expect(LUNAR_MANSIONS).toHaveLength(28);
+    LUNAR_MANSIONS.forEach((mansion, i) => {
+      expect(mansion.number).toBe(i + 1);
+      expect(mansion.image.length).toBeGreaterThan(0);
+      expect(mansion.favoured.length).toBeGreaterThan(0);
+      expect(mansion.intentions.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('divides the zodiac into equal mansions from 0° Aries', () => {
+    expect(getMansionForLongitude(0).name).toBe('Al-Sharatain');
+    expect(getMansionForLongitude(MANSION_SPAN - 0.001).number).toBe(1);
+    expect(getMansionForLongitude(MANSION_SPAN + 0.001).number).toBe(2);
+    expect(getMansionForLongitude(359.9).name).toBe('Batn al-Hut');
+    expect(getMansionForLongitude(-1).number).toBe(28);
+  });
+});
+
+describe('Current lunar mansion', () => {
+  const date = new Date('2025-10-20T00:00:00Z');
+
+  it('places the Moon and finds the next mansion ingress', () => {
+    const position = calculateLunarMansion(date);
+    const moon = getPlanetLongitude('Moon', date)!;
+    expect(position.moonLongitude).toBeCloseTo(moon, 6);
+    expect(position.mansion).toBe(getMansionForLongitude(moon));
+    expect(position.progress).toBeGreaterThanOrEqual(0);
+    expect(position.progress).toBeLessThan(1);
+    expect(position.next.number).toBe(position.mansion.number % 28 + 1);
+
+    // About a day per mansion
+    expect(position.msUntilNext).toBeGreaterThan(0);
+    expect(position.msUntilNext).toBeLessThan(1.2 * 86400000);
+    expect(getPlanetLongitude('Moon', position.nextStart)!).toBeCloseTo(position.mansion.number * MANSION_SPAN, 4);
+  });
+
+  it('counts sidereal mansions from sidereal 0° Aries', () => {
+    const tropical = calculateLunarMansion(date);
+    const sidereal = calculateLunarMansion(date, { zodiac: 'Sidereal', ayanamsa: 'Lahiri' });
+    // ~24° of ayanamsa puts the sidereal Moon about two mansions back
+    expect((tropical.mansion.number - sidereal.mansion.number + 28) % 28).toBeGreaterThanOrEqual(1);
+    expect((tropical.mansion.number - sidereal.mansion.number + 28) % 28).toBeLessThanOrEqual(2);
+    expect(sidereal.nextStart.getTime()).toBeGreaterThan(date.getTime());
+  });
+});
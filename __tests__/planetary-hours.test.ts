@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePlanetaryHours, getSolarDay } from '../lib/astro/planetary-hours';
+
+const vienna = { latitude: 48.2082, longitude: 16.3738 };
+const tromso = { latitude: 69.65, longitude: 18.96 };
+const tokyo = { latitude: 35.68, longitude: 139.69 };
+
+const minutes = (hour: { startTime: Date; endTime: Date }) =>
+  (hour.endTime.getTime() - hour.startTime.getTime()) / 60000;
+
+describe('Planetary day from sunrise', () => {
+  it('gives the hours before dawn to the previous day', () => {
+    // Monday 19 October 2026, 04:00 in Vienna
+    const info = calculatePlanetaryHours(new Date('2026-10-19T02:00:00Z'), vienna);
+    expect(info.dayRuler).toBe('Sun');
+    expect(info.currentHour.isDayHour).toBe(false);
+    expect(info.currentHour.hourNumber).toBeGreaterThan(20);
+    const later = calculatePlanetaryHours(new Date('2026-10-19T10:00:00Z'), vienna);
+    expect(later.dayRuler).toBe('Moon');
+    expect(later.allHours[0].planet).toBe('Moon');
+  });
+
+  it('runs the hours from sunrise to the next sunrise without gaps', () => {
+    const date = new Date('2026-10-19T10:00:00Z');
+    const { allHours, solarDay, currentHour } = calculatePlanetaryHours(date, vienna);
+    expect(solarDay.polar).toBeNull();
+    expect(allHours[0].startTime.getTime()).toBe(solarDay.sunrise.getTime());
+    expect(allHours[12].startTime.getTime()).toBe(solarDay.sunset.getTime());
+    expect(allHours[23].endTime.getTime()).toBeCloseTo(solarDay.nextSunrise.getTime(), -1);
+    for (let i = 1; i < 24; i++) {
+      expect(allHours[i].startTime.getTime()).toBeCloseTo(allHours[i - 1].endTime.getTime(), -1);
+    }
+    expect(date.getTime()).toBeGreaterThanOrEqual(currentHour.startTime.getTime());
+    expect(date.getTime()).toBeLessThan(currentHour.endTime.getTime());
+  });
+
+  it('takes the weekday at the location rather than the phone', () => {
+    // Monday 06:30 in Tokyo is still Sunday in UTC
+    expect(calculatePlanetaryHours(new Date('2026-10-18T21:30:00Z'), tokyo).dayRuler).toBe('Moon');
+  });
+
+  it('offers 24 equal hours', () => {
+    const { allHours } = calculatePlanetaryHours(new Date('2026-10-19T10:00:00Z'), vienna, { hourSystem: 'Equal' });
+    allHours.forEach(hour => expect(minutes(hour)).toBeCloseTo(60, 0));
+    // October days are short, so fewer than twelve equal hours start in daylight
+    expect(allHours.filter(h => h.isDayHour).length).toBeLessThan(12);
+  });
+});
+
+describe('Planetary hours in polar regions', () => {
+  it('uses equal hours around local noon under the midnight sun', () => {
+    const info = calculatePlanetaryHours(new Date('2026-06-21T10:00:00Z'), tromso);
+    expect(info.solarDay.polar).toBe('MidnightSun');
+    info.allHours.forEach(hour => expect(minutes(hour)).toBeCloseTo(60, 0));
+    expect(info.dayRuler).toBe('Sun');
+  });
+
+  it('borrows sunrise and sunset from the nearest latitude', () => {
+    const day = getSolarDay(new Date('2026-12-21T10:00:00Z'), tromso, { polarHourMethod: 'NearestLatitude' });
+    expect(day.polar).toBe('PolarNight');
+    // A short winter day of a few hours
+    const daylight = (day.sunset.getTime() - day.sunrise.getTime()) / 3600000;
+    expect(daylight).toBeGreaterThan(0);
+    expect(daylight).toBeLessThan(4);
+  });
+
+  it('is not polar where the Sun rises and sets', () => {
+    expect(getSolarDay(new Date('2026-03-20T12:00:00Z'), tromso).polar).toBeNull();
+  });
+});
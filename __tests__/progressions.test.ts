@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart, longitudeToSign } from '../lib/astro/engine';
+import {
+  calculateProfection, calculateProgressedChart, calculateSolarArcDirections, getAgeInYears,
+} from '../lib/astro/progressions';
+
+const birth = new Date('1990-06-15T08:30:00Z');
+const vienna = { latitude: 48.2, longitude: 16.37 };
+const natal = calculateChart(birth, vienna);
+const target = new Date('2025-10-19T12:00:00Z');
+
+describe('Secondary Progressions', () => {
+  it('progresses one day per year of life', () => {
+    const result = calculateProgressedChart(natal, target);
+    const days = (result.progressedDate.getTime() - birth.getTime()) / 86400000;
+    expect(days).toBeCloseTo(getAgeInYears(natal, target), 6);
+    expect(days).toBeCloseTo(35.35, 1);
+  });
+
+  it('moves the Sun and MC by roughly a degree per year', () => {
+    const result = calculateProgressedChart(natal, target);
+    const sun = result.chart.planets.find(p => p.planet === 'Sun')!;
+    const natalSun = natal.planets.find(p => p.planet === 'Sun')!;
+    expect(result.solarArc).toBeGreaterThan(33);
+    expect(result.solarArc).toBeLessThan(35);
+    expect(sun.longitude - natalSun.longitude).toBeCloseTo(result.solarArc, 6);
+    // MC advanced by the arc in right ascension: close to the ecliptic arc
+    const mcArc = result.chart.angles.midheaven - natal.angles.midheaven;
+    expect(Math.abs(mcArc - result.solarArc)).toBeLessThan(2);
+  });
+
+  it('leaves the natal chart unchanged at birth', () => {
+    const result = calculateProgressedChart(natal, birth);
+    expect(result.solarArc).toBeCloseTo(0, 6);
+    expect(result.chart.angles.ascendant).toBeCloseTo(natal.angles.ascendant, 4);
+  });
+
+  it('lists contacts to the natal chart within 1°', () => {
+    const { contacts } = calculateProgressedChart(natal, target);
+    expect(contacts.length).toBeGreaterThan(0);
+    for (const contact of contacts) expect(contact.orb).toBeLessThanOrEqual(1);
+    expect(contacts.some(c => c.planet1 === 'Pluto')).toBe(false);
+  });
+});
+
+describe('Solar Arc Directions', () => {
+  it('advances every natal point by the same arc', () => {
+    const result = calculateSolarArcDirections(natal, target);
+    natal.planets.forEach((pos, i) => {
+      const moved = (result.planets[i].longitude - pos.longitude + 360) % 360;
+      expect(moved).toBeCloseTo(result.solarArc, 6);
+      expect(result.planets[i].sign).toBe(longitudeToSign(result.planets[i].longitude).sign);
+    });
+    expect((result.angles.midheaven - natal.angles.midheaven + 360) % 360).toBeCloseTo(result.solarArc, 6);
+  });
+});
+
+describe('Profections', () => {
+  it('advances one whole sign per year from the Ascendant', () => {
+    const ascSign = longitudeToSign(natal.angles.ascendant).sign; // Leo
+    expect(ascSign).toBe('Leo');
+
+    const first = calculateProfection(natal, new Date('1990-12-01T00:00:00Z'));
+    expect(first.age).toBe(0);
+    expect(first.house).toBe(1);
+    expect(first.sign).toBe('Leo');
+    expect(first.lordOfYear).toBe('Sun');
+
+    const result = calculateProfection(natal, target);
+    expect(result.age).toBe(35);
+    expect(result.house).toBe(12);
+    expect(result.sign).toBe('Cancer');
+    expect(result.lordOfYear).toBe('Moon');
+    expect(result.monthSign).toBe('Scorpio');
+    expect(result.monthLord).toBe('Mars');
+    expect(target.getTime()).toBeGreaterThanOrEqual(result.yearStart.getTime());
+    expect(target.getTime()).toBeLessThan(result.yearEnd.getTime());
+  });
+
+  it('returns to the Ascendant sign every twelve years', () => {
+    const result = calculateProfection(natal, new Date('2014-07-01T00:00:00Z'));
+    expect(result.age).toBe(24);
+    expect(result.house).toBe(1);
+    expect(result.sign).toBe('Leo');
+  });
+});
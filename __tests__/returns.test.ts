@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import {
+  calculateSolarReturn, findLunarReturn, findLunarReturnInMonth, findSolarReturn, getCurrentLunarMonth,
+} from '../lib/astro/returns';
+
+const birth = new Date('1990-06-15T08:30:00Z');
+const vienna = { latitude: 48.2, longitude: 16.37 };
+const natal = calculateChart(birth, vienna);
+const natalLon = (planet: string) => natal.planets.find(p => p.planet === planet)!.longitude;
+
+describe('Solar Return', () => {
+  it('finds the Sun back on its natal longitude near the birthday', () => {
+    const date = findSolarReturn(natal, 2025);
+    expect(date.getUTCFullYear()).toBe(2025);
+    expect(Math.abs(date.getTime() - Date.UTC(2025, 5, 15, 8, 30)) / 86400000).toBeLessThan(1.5);
+    const chart = calculateChart(date, vienna);
+    expect(chart.planets.find(p => p.planet === 'Sun')!.longitude).toBeCloseTo(natalLon('Sun'), 4);
+  });
+
+  it('casts a relocated chart and overlays it on the natal houses', () => {
+    const london = { latitude: 51.5, longitude: -0.13 };
+    const atBirthplace = calculateSolarReturn(natal, 2025);
+    const relocated = calculateSolarReturn(natal, 2025, london);
+    expect(relocated.date.getTime()).toBe(atBirthplace.date.getTime());
+    expect(relocated.location).toEqual(london);
+    expect(relocated.chart.angles.ascendant).not.toBeCloseTo(atBirthplace.chart.angles.ascendant, 0);
+
+    const sun = relocated.placements.find(p => p.body === 'Sun')!;
+    const natalSunHouse = natal.planets.find(p => p.planet === 'Sun')!.house;
+    expect(sun.natalHouse).toBe(natalSunHouse);
+    expect(relocated.contacts.some(c => c.planet1 === 'Sun' && c.planet2 === 'Sun' && c.type === 'Conjunction')).toBe(true);
+  });
+
+  it('follows the sidereal zodiac of a sidereal natal chart', () => {
+    const sidereal = calculateChart(birth, vienna, { zodiac: 'Sidereal', ayanamsa: 'Lahiri' });
+    const tropicalReturn = findSolarReturn(natal, 2025);
+    const siderealReturn = findSolarReturn(sidereal, 2025);
+    // ~35 years of precession (≈0.49°) delays the sidereal return by about half a day
+    const hours = (siderealReturn.getTime() - tropicalReturn.getTime()) / 3600000;
+    expect(hours).toBeGreaterThan(10);
+    expect(hours).toBeLessThan(14);
+  });
+});
+
+describe('Lunar Return', () => {
+  it('finds the next return at or after a date', () => {
+    const from = new Date('2025-10-19T00:00:00Z');
+    const date = findLunarReturn(natal, from);
+    expect(date.getTime()).toBeGreaterThanOrEqual(from.getTime());
+    expect(date.getTime() - from.getTime()).toBeLessThan(28 * 86400000);
+    const chart = calculateChart(date, vienna);
+    expect(chart.planets.find(p => p.planet === 'Moon')!.longitude).toBeCloseTo(natalLon('Moon'), 4);
+  });
+
+  it('spaces returns one sidereal month apart', () => {
+    const first = findLunarReturnInMonth(natal, 2025, 0);
+    const second = findLunarReturn(natal, new Date(first.getTime() + 86400000));
+    const days = (second.getTime() - first.getTime()) / 86400000;
+    expect(days).toBeGreaterThan(27);
+    expect(days).toBeLessThan(27.7);
+  });
+
+  it('reports the lunar month in effect', () => {
+    const now = new Date('2025-10-19T12:00:00Z');
+    const month = getCurrentLunarMonth(natal, now, vienna);
+    expect(month.current.date.getTime()).toBeLessThanOrEqual(now.getTime());
+    expect(month.nextReturn.getTime()).toBeGreaterThan(now.getTime());
+    expect(month.moonHouse).toBeGreaterThanOrEqual(1);
+    expect(month.moonHouse).toBeLessThanOrEqual(12);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import {
+  calculateCompositeChart, calculateDavisonChart, calculateSynastryAspects, nearMidpoint,
+} from '../lib/astro/synastry';
+
+const chartA = calculateChart(new Date('1990-06-15T08:30:00Z'), { latitude: 48.2, longitude: 16.37 });
+const chartB = calculateChart(new Date('1988-11-02T21:10:00Z'), { latitude: 40.71, longitude: -74.0 });
+const lon = (chart: typeof chartA, planet: string) => chart.planets.find(p => p.planet === planet)!.longitude;
+
+describe('Synastry', () => {
+  it('takes the midpoint on the shorter arc', () => {
+    expect(nearMidpoint(10, 50)).toBeCloseTo(30, 10);
+    expect(nearMidpoint(350, 30)).toBeCloseTo(10, 10);
+    expect(nearMidpoint(30, 350)).toBeCloseTo(10, 10);
+  });
+
+  it('lists aspects from chart A to chart B within the orb', () => {
+    const aspects = calculateSynastryAspects(chartA, chartB);
+    expect(aspects.length).toBeGreaterThan(0);
+    for (const aspect of aspects) {
+      expect(aspect.orb).toBeLessThanOrEqual(3);
+      const a = aspect.planet1 === 'ASC' ? chartA.angles.ascendant
+        : aspect.planet1 === 'MC' ? chartA.angles.midheaven : lon(chartA, aspect.planet1);
+      expect(a).toBeDefined();
+    }
+    const reversed = calculateSynastryAspects(chartB, chartA);
+    expect(reversed.length).toBe(aspects.length);
+  });
+
+  it('builds the composite from planet, angle and cusp midpoints', () => {
+    const composite = calculateCompositeChart(chartA, chartB);
+    expect(composite.planets).toHaveLength(chartA.planets.length);
+    const sun = composite.planets.find(p => p.planet === 'Sun')!;
+    expect(sun.longitude).toBeCloseTo(nearMidpoint(lon(chartA, 'Sun'), lon(chartB, 'Sun')), 10);
+    expect(composite.angles.midheaven).toBeCloseTo(
+      nearMidpoint(chartA.angles.midheaven, chartB.angles.midheaven), 10,
+    );
+    expect(composite.cusps).toHaveLength(12);
+  });
+
+  it('casts the Davison chart at the midpoint in time and space', () => {
+    const davison = calculateDavisonChart(chartA, chartB);
+    const mid = (chartA.timestamp.getTime() + chartB.timestamp.getTime()) / 2;
+    expect(davison.timestamp.getTime()).toBe(mid);
+    expect(davison.latitude).toBeCloseTo((48.2 + 40.71) / 2, 6);
+    expect(davison.longitude).toBeCloseTo((16.37 - 74.0) / 2, 6);
+  });
+
+  it('crosses the date line on the shorter arc', () => {
+    const tokyo = calculateChart(new Date('1990-01-01T00:00:00Z'), { latitude: 35.7, longitude: 139.7 });
+    const honolulu = calculateChart(new Date('1990-01-01T00:00:00Z'), { latitude: 21.3, longitude: -157.9 });
+    const davison = calculateDavisonChart(tokyo, honolulu);
+    expect(Math.abs(davison.longitude)).toBeGreaterThan(170);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getZoneOffset, getWallTime, zonedTimeToUtc, resolveTimeZone, parseWallTime, formatWallTime, formatUtcOffset,
+} from '../lib/astro/timezones';
+import { calculateChart } from '../lib/astro/engine';
+
+describe('Historical zone offsets', () => {
+  it('applies standard time, daylight saving and wartime rules', () => {
+    expect(getZoneOffset(new Date('1990-05-04T00:00:00Z'), 'Asia/Tokyo')).toBe(540);
+    expect(getZoneOffset(new Date('2025-01-15T12:00:00Z'), 'Europe/Berlin')).toBe(60);
+    expect(getZoneOffset(new Date('2025-07-15T12:00:00Z'), 'Europe/Berlin')).toBe(120);
+    // British Double Summer Time
+    expect(getZoneOffset(new Date('1944-07-01T00:00:00Z'), 'Europe/London')).toBe(120);
+  });
+
+  it('falls back to local mean time before standard time was adopted', () => {
+    expect(getZoneOffset(new Date('1850-01-01T00:00:00Z'), 'Europe/Berlin')).toBeCloseTo(53 + 28 / 60, 5);
+    expect(formatUtcOffset(getZoneOffset(new Date('1850-01-01T00:00:00Z'), 'Europe/Berlin'))).toBe('UTC+00:53');
+    expect(formatUtcOffset(-300)).toBe('UTC−05:00');
+  });
+});
+
+describe('Wall time conversion', () => {
+  it('reads a birth time in the zone of the birthplace', () => {
+    const birth = zonedTimeToUtc({ year: 1990, month: 5, day: 4, hour: 8, minute: 15 }, 'Asia/Tokyo');
+    expect(birth.toISOString()).toBe('1990-05-03T23:15:00.000Z');
+    expect(getWallTime(birth, 'Asia/Tokyo')).toEqual({ year: 1990, month: 5, day: 4, hour: 8, minute: 15 });
+    expect(formatWallTime(getWallTime(birth, 'Europe/Berlin'))).toEqual({ date: '1990-05-04', time: '01:15' });
+  });
+
+  it('resolves skipped and repeated clock times around DST changes', () => {
+    // 02:30 never happened on 30 March 2025 in Berlin; read with winter time it is 03:30 CEST
+    const skipped = zonedTimeToUtc({ year: 2025, month: 3, day: 30, hour: 2, minute: 30 }, 'Europe/Berlin');
+    expect(skipped.toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    // 02:30 happened twice on 26 October 2025; the first one was still summer time
+    const repeated = zonedTimeToUtc({ year: 2025, month: 10, day: 26, hour: 2, minute: 30 }, 'Europe/Berlin');
+    expect(repeated.toISOString()).toBe('2025-10-26T00:30:00.000Z');
+  });
+
+  it('parses the date and time fields of the editors', () => {
+    expect(parseWallTime('1990-05-04', '08:15')).toEqual({ year: 1990, month: 5, day: 4, hour: 8, minute: 15 });
+    expect(parseWallTime('1990-05-04')).toEqual({ year: 1990, month: 5, day: 4, hour: 12, minute: 0 });
+    expect(parseWallTime('2025-02-30', '10:00')).toBeNull();
+    expect(parseWallTime('2025-05-04', '25:00')).toBeNull();
+    expect(parseWallTime('May 4', '10:00')).toBeNull();
+  });
+});
+
+describe('Zone of a place', () => {
+  it('finds the zone from the nearest reference place', () => {
+    expect(resolveTimeZone(35.68, 139.69)).toBe('Asia/Tokyo');
+    expect(resolveTimeZone(48.21, 16.37)).toBe('Europe/Vienna');
+    expect(resolveTimeZone(40.71, -74.0)).toBe('America/New_York');
+    expect(resolveTimeZone(-33.87, 151.2)).toBe('Australia/Sydney');
+    // Badajoz lies closer to Lisbon than to Madrid but keeps Spanish time
+    expect(resolveTimeZone(38.88, -6.97)).toBe('Europe/Madrid');
+  });
+
+  it('keeps border towns on their side of the US zone lines', () => {
+    // Central/Eastern
+    expect(resolveTimeZone(37.97, -87.57)).toBe('America/Chicago');            // Evansville
+    expect(resolveTimeZone(37.77, -87.11)).toBe('America/Chicago');            // Owensboro
+    expect(resolveTimeZone(36.99, -86.44)).toBe('America/Chicago');            // Bowling Green
+    expect(resolveTimeZone(41.59, -87.35)).toBe('America/Chicago');            // Gary
+    expect(resolveTimeZone(30.42, -87.22)).toBe('America/Chicago');            // Pensacola
+    expect(resolveTimeZone(38.25, -85.76)).toBe('America/Kentucky/Louisville');
+    expect(resolveTimeZone(38.04, -84.50)).toBe('America/New_York');           // Lexington
+    expect(resolveTimeZone(35.96, -83.92)).toBe('America/New_York');           // Knoxville
+    expect(resolveTimeZone(35.05, -85.31)).toBe('America/New_York');           // Chattanooga
+    expect(resolveTimeZone(30.44, -84.28)).toBe('America/New_York');           // Tallahassee
+    expect(resolveTimeZone(41.08, -85.14)).toBe('America/Indiana/Indianapolis'); // Fort Wayne
+    expect(resolveTimeZone(42.96, -85.67)).toBe('America/Detroit');            // Grand Rapids
+    // Central/Mountain
+    expect(resolveTimeZone(31.76, -106.49)).toBe('America/Denver');            // El Paso
+    expect(resolveTimeZone(35.22, -101.83)).toBe('America/Chicago');           // Amarillo
+    expect(resolveTimeZone(33.58, -101.86)).toBe('America/Chicago');           // Lubbock
+    expect(resolveTimeZone(44.08, -103.23)).toBe('America/Denver');            // Rapid City
+    expect(resolveTimeZone(43.55, -96.73)).toBe('America/Chicago');            // Sioux Falls
+    expect(resolveTimeZone(46.81, -100.78)).toBe('America/Chicago');           // Bismarck
+    expect(resolveTimeZone(41.12, -100.77)).toBe('America/Chicago');           // North Platte
+    expect(resolveTimeZone(41.87, -103.66)).toBe('America/Denver');            // Scottsbluff
+    expect(resolveTimeZone(37.97, -100.87)).toBe('America/Chicago');           // Garden City
+    expect(resolveTimeZone(39.35, -101.71)).toBe('America/Denver');            // Goodland
+  });
+
+  it('uses the nautical zone out at sea', () => {
+    expect(resolveTimeZone(0, -140)).toBe('Etc/GMT+9');
+    expect(resolveTimeZone(-40, 80)).toBe('Etc/GMT-5');
+  });
+
+  it('stamps charts with the zone of their location, not the device', () => {
+    const date = new Date('2025-10-20T00:00:00Z');
+    expect(calculateChart(date, { latitude: 35.68, longitude: 139.69 }).timezone).toBe('Asia/Tokyo');
+    expect(calculateChart(date, { latitude: 35.68, longitude: 139.69, timeZone: 'Asia/Tokyo' }).timezone).toBe('Asia/Tokyo');
+  });
+});
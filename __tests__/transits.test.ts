@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { calculateChart } from '../lib/astro/engine';
+import { searchTransits, transitsToEvents } from '../lib/astro/transits';
+
+const natal = calculateChart(new Date('1990-06-15T08:30:00Z'), { latitude: 48.2, longitude: 16.37 });
+const start = new Date('2025-01-01T00:00:00Z');
+const end = new Date('2028-01-01T00:00:00Z');
+
+describe('Transit timeline', () => {
+  it('finds a single direct pass with entry, exact hit and exit', () => {
+    // Natal Sun ≈ 24° Gemini; transiting Saturn squares it from Pisces in March 2025
+    const periods = searchTransits(natal, start, end, {
+      transitPlanets: ['Saturn'], natalPoints: ['Sun'], aspects: ['Square'],
+    });
+    const first = periods[0];
+    expect(first.passCount).toBe(1);
+    expect(first.entry!.getTime()).toBeLessThan(first.hits[0].date.getTime());
+    expect(first.exit!.getTime()).toBeGreaterThan(first.hits[0].date.getTime());
+    expect(first.hits[0].date.toISOString().slice(0, 10)).toBe('2025-03-27');
+  });
+
+  it('groups retrograde passes into one cycle', () => {
+    const periods = searchTransits(natal, start, end, {
+      transitPlanets: ['Jupiter'], natalPoints: ['Jupiter'], aspects: ['Conjunction'],
+    });
+    const jupiterReturn = periods.find(p => p.passCount === 3)!;
+    expect(jupiterReturn).toBeDefined();
+    expect(jupiterReturn.hits.map(h => h.isRetrograde)).toEqual([false, true, false]);
+    // Each hit is exact: transiting Jupiter sits on natal Jupiter
+    const natalJupiter = natal.planets.find(p => p.planet === 'Jupiter')!.longitude;
+    for (const hit of jupiterReturn.hits) {
+      const chart = calculateChart(hit.date, { latitude: 0, longitude: 0 });
+      const lon = chart.planets.find(p => p.planet === 'Jupiter')!.longitude;
+      expect(Math.abs(lon - natalJupiter)).toBeLessThan(0.01);
+    }
+  });
+
+  it('leaves entry open when the range starts inside the orb', () => {
+    const periods = searchTransits(natal, new Date('2025-03-27T00:00:00Z'), end, {
+      transitPlanets: ['Saturn'], natalPoints: ['Sun'], aspects: ['Square'],
+    });
+    expect(periods[0].entry).toBeNull();
+    expect(periods[0].passCount).toBe(1);
+  });
+
+  it('converts periods into Event Horizon events', () => {
+    const periods = searchTransits(natal, start, end, {
+      transitPlanets: ['Saturn'], natalPoints: ['Sun', 'ASC'], aspects: ['Square', 'Opposition'],
+    });
+    const events = transitsToEvents(periods, natal);
+    const exact = events.filter(e => e.type === 'transit_exact');
+    expect(exact.length).toBe(periods.reduce((n, p) => n + p.passCount, 0));
+    expect(exact[0].planet).toBe('Saturn');
+    expect(exact[0].aspect).toBeDefined();
+    for (let i = 1; i < events.length; i++) {
+      expect(events[i].date.getTime()).toBeGreaterThanOrEqual(events[i - 1].date.getTime());
+    }
+  });
+});
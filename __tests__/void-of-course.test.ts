@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findMoonIngress, findVoidOfCourse, getMoonIngresses, getVoidOfCoursePeriods, isMoonVoidOfCourse,
+} from '../lib/astro/void-of-course';
+import { getPlanetLongitude } from '../lib/astro/engine';
+import { evaluateElection } from '../lib/astro/elections';
+
+const moonAt = (date: Date) => getPlanetLongitude('Moon', date)!;
+
+describe('Moon ingresses', () => {
+  it('finds the exact sign boundary crossing', () => {
+    const ingress = findMoonIngress(new Date('2025-10-20T00:00:00Z'));
+    expect(ingress.from).toBe('Libra');
+    expect(ingress.sign).toBe('Scorpio');
+    expect(moonAt(ingress.date)).toBeCloseTo(210, 4);
+  });
+
+  it('lists a timetable of consecutive signs', () => {
+    const ingresses = getMoonIngresses(new Date('2025-10-19T00:00:00Z'), new Date('2025-11-02T00:00:00Z'));
+    expect(ingresses.length).toBeGreaterThanOrEqual(5);
+    for (let i = 1; i < ingresses.length; i++) {
+      expect(ingresses[i].from).toBe(ingresses[i - 1].sign);
+      const days = (ingresses[i].date.getTime() - ingresses[i - 1].date.getTime()) / 86400000;
+      expect(days).toBeGreaterThan(1.9);
+      expect(days).toBeLessThan(2.8);
+    }
+  });
+
+  it('follows the sidereal zodiac', () => {
+    const after = new Date('2025-10-20T00:00:00Z');
+    const tropical = findMoonIngress(after);
+    const sidereal = findMoonIngress(after, { zodiac: 'Sidereal', ayanamsa: 'Lahiri' });
+    // Sidereal 0° Libra lies ~24° before tropical 0° Scorpio
+    expect(sidereal.sign).toBe('Libra');
+    expect(sidereal.date.getTime()).toBeLessThan(tropical.date.getTime());
+  });
+});
+
+describe('Void-of-course Moon', () => {
+  it('starts at the last exact aspect before the ingress', () => {
+    // New Moon 2025-10-21 12:25 UTC is the Moon's last aspect in Libra
+    const period = findVoidOfCourse(new Date('2025-10-20T00:00:00Z'));
+    expect(period.sign).toBe('Libra');
+    expect(period.nextSign).toBe('Scorpio');
+    expect(period.lastAspect).toMatchObject({ planet: 'Sun', type: 'Conjunction' });
+    expect(Math.abs(period.start.getTime() - Date.UTC(2025, 9, 21, 12, 25)) / 60000).toBeLessThan(5);
+    expect(moonAt(period.end)).toBeCloseTo(210, 4);
+
+    expect(isMoonVoidOfCourse(new Date('2025-10-21T10:00:00Z'))).toBe(false);
+    expect(isMoonVoidOfCourse(new Date('2025-10-21T14:00:00Z'))).toBe(true);
+  });
+
+  it('counts the outer planets in modern mode', () => {
+    const date = new Date('2025-10-23T00:00:00Z');
+    const traditional = findVoidOfCourse(date);
+    const modern = findVoidOfCourse(date, { voidOfCourseMode: 'Modern' });
+    expect(traditional.lastAspect?.planet).toBe('Saturn');
+    expect(modern.lastAspect?.planet).toBe('Neptune');
+    expect(modern.start.getTime()).toBeGreaterThan(traditional.start.getTime());
+    expect(modern.end.getTime()).toBe(traditional.end.getTime());
+  });
+
+  it('chains periods from one ingress to the next', () => {
+    const periods = getVoidOfCoursePeriods(new Date('2025-10-19T00:00:00Z'), new Date('2025-10-29T00:00:00Z'));
+    for (let i = 1; i < periods.length; i++) {
+      expect(periods[i].signEntry.getTime()).toBe(periods[i - 1].end.getTime());
+      expect(periods[i].sign).toBe(periods[i - 1].nextSign);
+    }
+    for (const period of periods) {
+      expect(period.start.getTime()).toBeGreaterThanOrEqual(period.signEntry.getTime());
+      expect(period.start.getTime()).toBeLessThan(period.end.getTime());
+    }
+  });
+
+  it('drives the moonNotVoid election condition', () => {
+    const rule = { id: 'voc', name: 'VOC', conditions: [{ type: 'moonNotVoid' as const }] };
+    const vienna = { latitude: 48.2, longitude: 16.37 };
+    const [before] = evaluateElection(rule, new Date('2025-10-21T10:00:00Z'), vienna);
+    expect(before.satisfied).toBe(true);
+    expect(before.reason).toContain('conjunction Sun');
+    const [after] = evaluateElection(rule, new Date('2025-10-21T14:00:00Z'), vienna);
+    expect(after.satisfied).toBe(false);
+    expect(after.reason).toContain('Scorpio');
+  });
+});
@@ -3,18 +3,43 @@ import { Text, View, StyleSheet, FlatList, Pressable, Modal, Platform } from 're
 import * as Haptics from 'expo-haptics';
 import { ScreenContainer } from '@/components/screen-container';
 import { PaywallModal, ProBadge } from '@/components/paywall-modal';
+import { LotsPanel } from '@/components/lots-panel';
+import { FixedStarsPanel } from '@/components/fixed-stars-panel';
+import { DecanInfo } from '@/components/decan-info';
+import { TransitTimeline } from '@/components/transit-timeline';
+import { PredictivePanel } from '@/components/predictive-panel';
+import { ReturnChartPanel } from '@/components/return-chart-panel';
+import { SynastryPanel } from '@/components/synastry-panel';
+import { ChartWheel } from '@/components/chart-wheel';
 import { useAstroStore } from '@/lib/astro/store';
 import { useProStore } from '@/lib/store/pro-store';
-import { getMajorAspects, Aspect } from '@/lib/astro/aspects';
+import { useNatalStore } from '@/lib/store/natal-store';
+import {
+  calculateChartAspects, calculateCrossAspects, getChartAspectPoints,
+  getAspectBodyColor, getAspectBodyName, getAspectBodySymbol, Aspect,
+} from '@/lib/astro/aspects';
+import { longitudeToSign } from '@/lib/astro/engine';
+import { chartToWheel } from '@/lib/astro/chart-wheel';
+import { AYANAMSA_LABELS, formatAyanamsa } from '@/lib/astro/ayanamsa';
+import { calculateAlmutenFiguris } from '@/lib/astro/almuten';
+import { calculatePlanetaryHours } from '@/lib/astro/planetary-hours';
 import {
   PLANET_SYMBOLS, ZODIAC_SYMBOLS, PLANET_COLORS, Planet,
   PlanetPosition, EssentialDignity, PlanetCondition,
+  HouseSystem, HOUSE_SYSTEMS, HOUSE_SYSTEM_LABELS, ASTEROIDS,
 } from '@/lib/astro/types';
 
+// Current sky alone, or transiting around the natal chart
+type WheelMode = 'Sky' | 'Transits';
+
+const TRANSIT_WHEEL_ORB = 2;
+
+// Asteroids are listed when the chart was calculated with them
 const MAIN_PLANETS: Planet[] = [
   'Sun', 'Moon', 'Mercury', 'Venus', 'Mars',
   'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto',
   'NorthNode', 'SouthNode', 'Lilith',
+  ...ASTEROIDS,
 ];
 
 // ===== Pedagogy: Aspect Explanations =====
@@ -44,6 +69,46 @@ const ASPECT_EXPLANATIONS: Record<string, { meaning: string; nature: string; key
     nature: 'Harmonious / Supportive',
     keywords: 'Opportunity, cooperation, skill, communication',
   },
+  Semisextile: {
+    meaning: 'Two planets are 30° apart in neighbouring signs that share nothing. A faint link that asks for small, practical adjustments.',
+    nature: 'Minor / Adjusting',
+    keywords: 'Adjustment, growth, subtle connection',
+  },
+  Semisquare: {
+    meaning: 'Two planets are 45° apart, half a square. Friction shows as irritation and minor obstacles rather than open crisis.',
+    nature: 'Minor / Challenging',
+    keywords: 'Irritation, pressure, correction',
+  },
+  Sesquiquadrate: {
+    meaning: 'Two planets are 135° apart, a square and a half. Restless tension that builds until it demands release.',
+    nature: 'Minor / Challenging',
+    keywords: 'Agitation, release, disruption',
+  },
+  Quincunx: {
+    meaning: 'Two planets are 150° apart in signs of different element and mode. Their natures do not blend and must be continually reconciled.',
+    nature: 'Minor / Adjusting',
+    keywords: 'Adjustment, strain, recalibration',
+  },
+  Quintile: {
+    meaning: 'Two planets are 72° apart, a fifth of the circle. Kepler\'s aspect of creative talent and the shaping of form.',
+    nature: 'Minor / Creative',
+    keywords: 'Talent, craft, pattern',
+  },
+  Biquintile: {
+    meaning: 'Two planets are 144° apart, two fifths of the circle. A refined creative gift that matures through practice.',
+    nature: 'Minor / Creative',
+    keywords: 'Skill, refinement, discipline',
+  },
+  Parallel: {
+    meaning: 'Two planets share the same declination north or south of the celestial equator. Read like a conjunction.',
+    nature: 'Declination / Uniting',
+    keywords: 'Fusion, emphasis, hidden link',
+  },
+  Contraparallel: {
+    meaning: 'Two planets have equal declination on opposite sides of the celestial equator. Read like an opposition.',
+    nature: 'Declination / Polarising',
+    keywords: 'Polarity, tension, balance',
+  },
 };
 
 // ===== Pedagogy: Dignity Explanations =====
@@ -72,6 +137,11 @@ function getScoreVerdict(score: number): { text: string; color: string } {
   return { text: 'Extreme debility. Avoid ritual work if possible.', color: '#EF4444' };
 }
 
+function formatZodiacPosition(longitude: number): string {
+  const { sign, degree, minute } = longitudeToSign(longitude);
+  return `${ZODIAC_SYMBOLS[sign]} ${degree}°${minute.toString().padStart(2, '0')}'`;
+}
+
 function getAspectColor(type: string): string {
   switch (type) {
     case 'Conjunction': return '#D4AF37';
@@ -79,22 +149,68 @@ function getAspectColor(type: string): string {
     case 'Sextile': return '#3B82F6';
     case 'Square': return '#EF4444';
     case 'Opposition': return '#F59E0B';
+    case 'Parallel': return '#D4AF37';
+    case 'Contraparallel': return '#F59E0B';
+    case 'Quincunx': return '#A855F7';
+    case 'Quintile':
+    case 'Biquintile': return '#14B8A6';
+    case 'Semisextile': return '#60A5FA';
+    case 'Semisquare':
+    case 'Sesquiquadrate': return '#FB923C';
     default: return '#6B6B6B';
   }
 }
 
 export default function ChartScreen() {
   const chartData = useAstroStore((s) => s.chartData);
+  const houseSystem = useAstroStore((s) => s.houseSystem);
+  const setHouseSystem = useAstroStore((s) => s.setHouseSystem);
+  const aspectConfig = useAstroStore((s) => s.aspectConfig);
+  const hourSystem = useAstroStore((s) => s.hourSystem);
+  const polarHourMethod = useAstroStore((s) => s.polarHourMethod);
   const isFeatureUnlocked = useProStore((s) => s.isFeatureUnlocked);
+  const natalChart = useNatalStore((s) => s.natalChart);
+  const [wheelMode, setWheelMode] = useState<WheelMode>('Sky');
   const [showAspectarian, setShowAspectarian] = useState(false);
+  const [showHouses, setShowHouses] = useState(false);
   const [showPaywall, setShowPaywall] = useState(false);
   const [selectedAspect, setSelectedAspect] = useState<Aspect | null>(null);
   const [selectedDignity, setSelectedDignity] = useState<string | null>(null);
 
   const aspects = useMemo(() => {
     if (!chartData) return [];
-    return getMajorAspects(chartData.planets, 3);
-  }, [chartData]);
+    return calculateChartAspects(chartData, aspectConfig);
+  }, [chartData, aspectConfig]);
+
+  const wheel = useMemo(() => {
+    if (!chartData) return null;
+    if (wheelMode === 'Transits' && natalChart) {
+      return {
+        inner: chartToWheel(natalChart),
+        outer: chartToWheel(chartData),
+        aspects: calculateCrossAspects(
+          getChartAspectPoints(natalChart),
+          getChartAspectPoints(chartData, false),
+          TRANSIT_WHEEL_ORB,
+        ),
+        title: 'Transits to natal',
+      };
+    }
+    return { inner: chartToWheel(chartData), aspects, title: 'Chart' };
+  }, [chartData, natalChart, wheelMode, aspects]);
+
+  const almuten = useMemo(() => {
+    if (!chartData) return null;
+    try {
+      const hours = calculatePlanetaryHours(chartData.timestamp, chartData, { hourSystem, polarHourMethod });
+      return calculateAlmutenFiguris(chartData, {
+        dayRuler: hours.dayRuler,
+        hourRuler: hours.currentHour.planet,
+      });
+    } catch {
+      return null;
+    }
+  }, [chartData, hourSystem, polarHourMethod]);
 
   if (!chartData) {
     return (
@@ -122,6 +238,22 @@ export default function ChartScreen() {
     setSelectedAspect(asp);
   };
 
+  const handleWheelModeSelect = (mode: WheelMode) => {
+    if (Platform.OS !== ('web' as string)) {
+      Haptics.selectionAsync();
+    }
+    setWheelMode(mode);
+  };
+
+  const handleHouseSystemSelect = (system: HouseSystem) => {
+    if (system === houseSystem) return;
+    if (Platform.OS !== ('web' as string)) {
+      Haptics.selectionAsync();
+    }
+    setHouseSystem(system);
+    useNatalStore.getState().calculateNatalChart();
+  };
+
   const handleDignityTap = (label: string) => {
     if (Platform.OS !== ('web' as string)) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -132,6 +264,7 @@ export default function ChartScreen() {
   const renderPlanetDetail = ({ item }: { item: PlanetPosition }) => {
     const dignity = chartData.dignities[item.planet];
     const condition = chartData.conditions[item.planet];
+    const accidental = chartData.accidentalDignities[item.planet];
     const color = PLANET_COLORS[item.planet];
     const verdict = getScoreVerdict(dignity.score);
 
@@ -214,6 +347,22 @@ export default function ChartScreen() {
           </View>
         )}
 
+        {accidental.factors.length > 0 && (
+          <View style={styles.accidentalBox}>
+            <View style={styles.accidentalHeader}>
+              <Text style={styles.accidentalTitle}>ACCIDENTAL</Text>
+              <Text style={[styles.accidentalScore, accidental.score > 0 ? styles.scorePositive : accidental.score < 0 ? styles.scoreNegative : styles.scoreNeutral]}>
+                {accidental.score > 0 ? '+' : ''}{accidental.score}
+              </Text>
+            </View>
+            <Text style={styles.accidentalFactors}>
+              {accidental.factors.map(f => `${f.label} ${f.score > 0 ? '+' : ''}${f.score}`).join(' · ')}
+            </Text>
+          </View>
+        )}
+
+        <DecanInfo longitude={item.longitude} sect={chartData.sect} />
+
         <View style={styles.techRow}>
           <View style={styles.techItem}>
             <Text style={styles.techLabel}>Longitude</Text>
@@ -225,6 +374,12 @@ export default function ChartScreen() {
               {item.speed >= 0 ? '+' : ''}{item.speed.toFixed(4)}°/d
             </Text>
           </View>
+          {item.house !== undefined && (
+            <View style={styles.techItem}>
+              <Text style={styles.techLabel}>House</Text>
+              <Text style={styles.techValue}>{item.house}</Text>
+            </View>
+          )}
           {item.azimuth !== undefined && (
             <>
               <View style={styles.techItem}>
@@ -259,9 +414,142 @@ export default function ChartScreen() {
               <View style={styles.metaRow}>
                 <Text style={styles.metaText}>JD {chartData.julianDay.toFixed(4)}</Text>
                 <Text style={styles.metaText}>LST {chartData.localSiderealTime.toFixed(4)}h</Text>
+                <Text style={styles.metaText}>☊⚸ {chartData.lunarPointMode.toUpperCase()}</Text>
+              </View>
+              <View style={styles.metaRow}>
+                {chartData.ayanamsa ? (
+                  <Text style={[styles.metaText, styles.zodiacMeta]}>
+                    SIDEREAL · {AYANAMSA_LABELS[chartData.ayanamsa.system]} {formatAyanamsa(chartData.ayanamsa)}
+                  </Text>
+                ) : (
+                  <Text style={styles.metaText}>TROPICAL</Text>
+                )}
+                {almuten && (
+                  <Text style={[styles.metaText, styles.zodiacMeta]}>
+                    ALMUTEN {PLANET_SYMBOLS[almuten.almuten]} {almuten.almuten.toUpperCase()}
+                  </Text>
+                )}
               </View>
             </View>
 
+            {/* ===== Chart Wheel ===== */}
+            {wheel && (
+              <View style={styles.aspectarianSection}>
+                {natalChart && (
+                  <View style={styles.houseSystemRow}>
+                    {(['Sky', 'Transits'] as WheelMode[]).map((mode) => {
+                      const active = mode === wheelMode;
+                      return (
+                        <Pressable
+                          key={mode}
+                          onPress={() => handleWheelModeSelect(mode)}
+                          style={({ pressed }) => [
+                            styles.houseSystemChip,
+                            active && styles.houseSystemChipActive,
+                            pressed && { opacity: 0.7 },
+                          ]}
+                        >
+                          <Text style={[styles.houseSystemChipText, active && styles.houseSystemChipTextActive]}>
+                            {mode === 'Sky' ? 'Current sky' : 'Transits to natal'}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                )}
+                <ChartWheel inner={wheel.inner} outer={wheel.outer} aspects={wheel.aspects} title={wheel.title} />
+              </View>
+            )}
+
+            {/* ===== Angles & Houses ===== */}
+            <View style={styles.aspectarianSection}>
+              <View style={styles.anglesRow}>
+                {([
+                  ['ASC', chartData.angles.ascendant],
+                  ['MC', chartData.angles.midheaven],
+                  ['DSC', chartData.angles.descendant],
+                  ['IC', chartData.angles.imumCoeli],
+                ] as const).map(([label, lon]) => (
+                  <View key={label} style={styles.angleItem}>
+                    <Text style={styles.angleLabel}>{label}</Text>
+                    <Text style={styles.angleValue}>{formatZodiacPosition(lon)}</Text>
+                  </View>
+                ))}
+              </View>
+
+              <View style={styles.houseSystemRow}>
+                {HOUSE_SYSTEMS.map((system) => {
+                  const active = system === houseSystem;
+                  return (
+                    <Pressable
+                      key={system}
+                      onPress={() => handleHouseSystemSelect(system)}
+                      style={({ pressed }) => [
+                        styles.houseSystemChip,
+                        active && styles.houseSystemChipActive,
+                        pressed && { opacity: 0.7 },
+                      ]}
+                    >
+                      <Text style={[styles.houseSystemChipText, active && styles.houseSystemChipTextActive]}>
+                        {HOUSE_SYSTEM_LABELS[system]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              {chartData.houses.isFallback && (
+                <Text style={styles.fallbackNote}>
+                  {HOUSE_SYSTEM_LABELS[chartData.houses.requestedSystem]} is undefined at this latitude – using {HOUSE_SYSTEM_LABELS[chartData.houses.system]}
+                </Text>
+              )}
+
+              <Pressable
+                onPress={() => setShowHouses(!showHouses)}
+                style={({ pressed }) => [styles.aspectarianHeader, pressed && { opacity: 0.8 }]}
+              >
+                <Text style={styles.aspectarianTitle}>Houses</Text>
+                <Text style={styles.aspectarianToggle}>
+                  {showHouses ? '▼' : '▶'} {HOUSE_SYSTEM_LABELS[chartData.houses.system]} cusps
+                </Text>
+              </Pressable>
+
+              {showHouses && (
+                <View style={styles.aspectarianBody}>
+                  {chartData.houses.cusps.map((cusp, i) => {
+                    const occupants = chartData.planets.filter(p => p.house === i + 1);
+                    return (
+                      <View key={i} style={styles.houseRow}>
+                        <Text style={styles.houseNumber}>{i + 1}</Text>
+                        <Text style={styles.houseCusp}>{formatZodiacPosition(cusp)}</Text>
+                        <Text style={styles.houseOccupants}>
+                          {occupants.map(p => PLANET_SYMBOLS[p.planet]).join(' ')}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+
+            {/* ===== Arabic Parts / Lots ===== */}
+            <LotsPanel chartData={chartData} />
+
+            {/* ===== Fixed stars: conjunctions, parans & heliacal dates ===== */}
+            <FixedStarsPanel chartData={chartData} />
+
+            {/* ===== Transits to the natal chart ===== */}
+            <TransitTimeline />
+
+            {/* ===== Progressions, solar arc & profections ===== */}
+            <PredictivePanel />
+
+            {/* ===== Solar & lunar returns ===== */}
+            <ReturnChartPanel />
+
+            {/* ===== Synastry, composite & Davison ===== */}
+            <SynastryPanel />
+
             {/* ===== Aspectarian (Collapsible, tappable rows) ===== */}
             <View style={styles.aspectarianSection}>
               <Pressable
@@ -282,7 +570,7 @@ export default function ChartScreen() {
               {showAspectarian && isFeatureUnlocked('aspectarian') && (
                 <View style={styles.aspectarianBody}>
                   {aspects.length === 0 ? (
-                    <Text style={styles.noAspects}>No major aspects within 3° orb</Text>
+                    <Text style={styles.noAspects}>No aspects within orb</Text>
                   ) : (
                     aspects.map((asp, i) => {
                       const aspColor = getAspectColor(asp.type);
@@ -297,18 +585,18 @@ export default function ChartScreen() {
                           ]}
                         >
                           <View style={styles.aspectPlanets}>
-                            <Text style={[styles.aspectPlanetSymbol, { color: PLANET_COLORS[asp.planet1] }]}>
-                              {PLANET_SYMBOLS[asp.planet1]}
+                            <Text style={[styles.aspectPlanetSymbol, { color: getAspectBodyColor(asp.planet1) }]}>
+                              {getAspectBodySymbol(asp.planet1)}
                             </Text>
                             <Text style={[styles.aspectSymbol, { color: aspColor }]}>{asp.symbol}</Text>
-                            <Text style={[styles.aspectPlanetSymbol, { color: PLANET_COLORS[asp.planet2] }]}>
-                              {PLANET_SYMBOLS[asp.planet2]}
+                            <Text style={[styles.aspectPlanetSymbol, { color: getAspectBodyColor(asp.planet2) }]}>
+                              {getAspectBodySymbol(asp.planet2)}
                             </Text>
                           </View>
                           <View style={styles.aspectDetail}>
                             <Text style={[styles.aspectTypeName, { color: aspColor }]}>{asp.type}</Text>
                             <Text style={styles.aspectPairName}>
-                              {asp.planet1} – {asp.planet2}
+                              {getAspectBodyName(asp.planet1, chartData.lots)} – {getAspectBodyName(asp.planet2, chartData.lots)}
                             </Text>
                           </View>
                           <View style={styles.aspectOrbCol}>
@@ -318,6 +606,9 @@ export default function ChartScreen() {
                             {asp.isExact && (
                               <Text style={styles.exactLabel}>EXACT</Text>
                             )}
+                            <Text style={styles.aspectStatusLabel}>
+                              {asp.isRefranation ? 'REFRANATION' : asp.status.toUpperCase()}
+                            </Text>
                           </View>
                         </Pressable>
                       );
@@ -356,12 +647,12 @@ export default function ChartScreen() {
                   </View>
 
                   <View style={styles.modalPlanetsRow}>
-                    <Text style={[styles.modalPlanet, { color: PLANET_COLORS[selectedAspect.planet1] }]}>
-                      {PLANET_SYMBOLS[selectedAspect.planet1]} {selectedAspect.planet1}
+                    <Text style={[styles.modalPlanet, { color: getAspectBodyColor(selectedAspect.planet1) }]}>
+                      {getAspectBodySymbol(selectedAspect.planet1)} {getAspectBodyName(selectedAspect.planet1, chartData.lots)}
                     </Text>
                     <Text style={[styles.modalAspectMid, { color: aspColor }]}>{selectedAspect.symbol}</Text>
-                    <Text style={[styles.modalPlanet, { color: PLANET_COLORS[selectedAspect.planet2] }]}>
-                      {PLANET_SYMBOLS[selectedAspect.planet2]} {selectedAspect.planet2}
+                    <Text style={[styles.modalPlanet, { color: getAspectBodyColor(selectedAspect.planet2) }]}>
+                      {getAspectBodySymbol(selectedAspect.planet2)} {getAspectBodyName(selectedAspect.planet2, chartData.lots)}
                     </Text>
                   </View>
 
@@ -372,6 +663,20 @@ export default function ChartScreen() {
                     </Text>
                   </View>
 
+                  <View style={styles.modalOrbRow}>
+                    <Text style={styles.modalOrbLabel}>{selectedAspect.status}:</Text>
+                    <Text style={styles.modalOrbValue}>
+                      {selectedAspect.perfection
+                        ? `perfects ${selectedAspect.perfection.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} ${selectedAspect.perfection.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`
+                        : selectedAspect.isRefranation
+                          ? 'refranation – a station prevents perfection'
+                          : 'already past exact'}
+                    </Text>
+                  </View>
+                  <Text style={styles.modalOrbLabel}>
+                    Orb limit {selectedAspect.orbLimit.toFixed(1)}°
+                  </Text>
+
                   {explanation && (
                     <>
                       <View style={styles.modalDivider} />
@@ -443,6 +748,7 @@ const styles = StyleSheet.create({
   subtitleHint: { fontSize: 10, color: '#6B6B6B60', textAlign: 'center', marginTop: 2, fontStyle: 'italic' },
   metaRow: { flexDirection: 'row', justifyContent: 'center', gap: 16, marginTop: 8 },
   metaText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B' },
+  zodiacMeta: { color: '#D4AF37' },
   list: { paddingBottom: 100 },
 
   // Aspectarian
@@ -473,6 +779,29 @@ const styles = StyleSheet.create({
   aspectOrbCol: { alignItems: 'flex-end' },
   aspectOrbValue: { fontFamily: 'JetBrainsMono', fontSize: 12, color: '#E0E0E0' },
   exactLabel: { fontFamily: 'JetBrainsMono', fontSize: 8, color: '#D4AF37', letterSpacing: 1, marginTop: 1 },
+  aspectStatusLabel: { fontFamily: 'JetBrainsMono', fontSize: 8, color: '#6B6B6B', letterSpacing: 1, marginTop: 1 },
+
+  // Angles & Houses
+  anglesRow: {
+    flexDirection: 'row', justifyContent: 'space-between', backgroundColor: '#0D0D0D',
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 12, padding: 12, marginBottom: 8,
+  },
+  angleItem: { alignItems: 'center', flex: 1 },
+  angleLabel: { fontSize: 9, color: '#6B6B6B', letterSpacing: 1 },
+  angleValue: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#E0E0E0', marginTop: 2 },
+  houseSystemRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginBottom: 8 },
+  houseSystemChip: {
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 6,
+    paddingHorizontal: 8, paddingVertical: 4,
+  },
+  houseSystemChipActive: { borderColor: '#D4AF3760', backgroundColor: '#D4AF3710' },
+  houseSystemChipText: { fontSize: 10, color: '#6B6B6B', fontWeight: '600' },
+  houseSystemChipTextActive: { color: '#D4AF37' },
+  fallbackNote: { fontSize: 10, color: '#F59E0B', fontStyle: 'italic', marginBottom: 8 },
+  houseRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 6, paddingHorizontal: 8 },
+  houseNumber: { fontFamily: 'JetBrainsMono', fontSize: 12, color: '#D4AF37', width: 28 },
+  houseCusp: { fontFamily: 'JetBrainsMono', fontSize: 12, color: '#E0E0E0', width: 90 },
+  houseOccupants: { flex: 1, fontSize: 14, color: '#E0E0E0', textAlign: 'right' },
 
   // Planet detail cards
   detailCard: {
@@ -490,6 +819,11 @@ const styles = StyleSheet.create({
   scoreNeutral: { color: '#6B6B6B' },
   verdictBox: { marginTop: 10, paddingLeft: 10, borderLeftWidth: 3 },
   verdictText: { fontSize: 12, fontStyle: 'italic', lineHeight: 18 },
+  accidentalBox: { marginTop: 10, backgroundColor: '#0A0A0A', borderRadius: 8, padding: 8 },
+  accidentalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  accidentalTitle: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', letterSpacing: 2 },
+  accidentalScore: { fontFamily: 'JetBrainsMono', fontSize: 12, fontWeight: '700' },
+  accidentalFactors: { fontSize: 10, color: '#A0A0A0', marginTop: 4, lineHeight: 15 },
   tagGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 10 },
   tag: { borderWidth: 1, borderRadius: 6, paddingHorizontal: 8, paddingVertical: 3 },
   tagText: { fontSize: 10, fontWeight: '700' },
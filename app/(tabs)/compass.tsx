@@ -18,14 +18,15 @@ import { BlurView } from 'expo-blur';
 import * as Haptics from 'expo-haptics';
 import { ScreenContainer } from '@/components/screen-container';
 import { PaywallModal, ProBadge } from '@/components/paywall-modal';
+import { DecanInfo } from '@/components/decan-info';
 import { useAstroStore } from '@/lib/astro/store';
 import { useProStore } from '@/lib/store/pro-store';
 import { calculateHeading, resetHeadingFilter } from '@/lib/compass/sensor-fusion';
-import { getMajorAspects, Aspect } from '@/lib/astro/aspects';
+import { getMajorAspects, getAspectBodyColor, getAspectBodySymbol, Aspect } from '@/lib/astro/aspects';
 import { calculatePlanetaryHours } from '@/lib/astro/planetary-hours';
 import {
   PLANET_SYMBOLS, ZODIAC_SYMBOLS, PLANET_COLORS, Planet,
-  PlanetPosition, EssentialDignity, PlanetCondition,
+  PlanetPosition, EssentialDignity, PlanetCondition, ASTEROIDS,
 } from '@/lib/astro/types';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -39,6 +40,7 @@ const PLANET_NAMES: Record<string, string> = {
   Mars: 'Mars', Jupiter: 'Jupiter', Saturn: 'Saturn',
   Uranus: 'Uranus', Neptune: 'Neptune', Pluto: 'Pluto',
   NorthNode: 'N.Node', SouthNode: 'S.Node', Lilith: 'Lilith',
+  Chiron: 'Chiron', Ceres: 'Ceres', Pallas: 'Pallas', Juno: 'Juno', Vesta: 'Vesta',
 };
 
 const PLANET_INFO: Record<string, { element: string; principle: string; description: string }> = {
@@ -51,9 +53,11 @@ const PLANET_INFO: Record<string, { element: string; principle: string; descript
   Saturn:  { element: 'Earth', principle: 'Structure & Limitation', description: 'Saturn rules discipline, time, boundaries, and karma.' },
 };
 
-// Planets that appear on the radar ring
+// Planets that appear on the radar ring; asteroids join them when the
+// chart was calculated with them
 const RADAR_PLANETS: Planet[] = [
   'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn',
+  ...ASTEROIDS,
 ];
 
 // All planets for the bottom sheet list
@@ -61,6 +65,7 @@ const MAIN_PLANETS: Planet[] = [
   'Sun', 'Moon', 'Mercury', 'Venus', 'Mars',
   'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto',
   'NorthNode', 'SouthNode', 'Lilith',
+  ...ASTEROIDS,
 ];
 
 const ASPECT_EXPLANATIONS: Record<string, { meaning: string; nature: string; keywords: string }> = {
@@ -154,6 +159,8 @@ export default function RadarScreen() {
   const chartData = useAstroStore((s) => s.chartData);
   const location = useAstroStore((s) => s.location);
   const date = useAstroStore((s) => s.date);
+  const hourSystem = useAstroStore((s) => s.hourSystem);
+  const polarHourMethod = useAstroStore((s) => s.polarHourMethod);
   const recalculate = useAstroStore((s) => s.recalculate);
   const isFeatureUnlocked = useProStore((s) => s.isFeatureUnlocked);
 
@@ -226,10 +233,13 @@ export default function RadarScreen() {
 
   const aspects = useMemo(() => {
     if (!chartData) return [];
-    return getMajorAspects(chartData.planets, 3);
+    return getMajorAspects(chartData.planets);
   }, [chartData]);
 
-  const planetaryHour = useMemo(() => calculatePlanetaryHours(date, location), [date, location]);
+  const planetaryHour = useMemo(
+    () => calculatePlanetaryHours(date, location, { hourSystem, polarHourMethod }),
+    [date, location, hourSystem, polarHourMethod],
+  );
 
   const handlePlanetInfo = useCallback((planet: string) => {
     if (Platform.OS !== ('web' as string)) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -517,6 +527,8 @@ export default function RadarScreen() {
           </View>
         )}
 
+        <DecanInfo longitude={item.longitude} sect={chartData.sect} />
+
         {/* Tech row */}
         <View style={styles.techRow}>
           <View style={styles.techItem}>
@@ -625,7 +637,7 @@ export default function RadarScreen() {
                     {showAspectarian && isFeatureUnlocked('aspectarian') && (
                       <View style={styles.aspectBody}>
                         {aspects.length === 0 ? (
-                          <Text style={styles.noAspects}>No major aspects within 3° orb</Text>
+                          <Text style={styles.noAspects}>No major aspects within orb</Text>
                         ) : (
                           aspects.map((asp, i) => {
                             const aspColor = getAspectColor(asp.type);
@@ -637,9 +649,9 @@ export default function RadarScreen() {
                                 }}
                                 style={({ pressed }) => [styles.aspectRow, asp.isExact && styles.aspectRowExact, pressed && { backgroundColor: '#1A1A1A' }]}>
                                 <View style={styles.aspectPlanets}>
-                                  <Text style={[styles.aspectPSymbol, { color: PLANET_COLORS[asp.planet1] }]}>{PLANET_SYMBOLS[asp.planet1]}</Text>
+                                  <Text style={[styles.aspectPSymbol, { color: getAspectBodyColor(asp.planet1) }]}>{getAspectBodySymbol(asp.planet1)}</Text>
                                   <Text style={[styles.aspectSymbol, { color: aspColor }]}>{asp.symbol}</Text>
-                                  <Text style={[styles.aspectPSymbol, { color: PLANET_COLORS[asp.planet2] }]}>{PLANET_SYMBOLS[asp.planet2]}</Text>
+                                  <Text style={[styles.aspectPSymbol, { color: getAspectBodyColor(asp.planet2) }]}>{getAspectBodySymbol(asp.planet2)}</Text>
                                 </View>
                                 <View style={styles.aspectDetail}>
                                   <Text style={[styles.aspectType, { color: aspColor }]}>{asp.type}</Text>
@@ -715,12 +727,12 @@ export default function RadarScreen() {
                     <Text style={[styles.modalSymbol, { color: aspColor }]}>{selectedAspect.symbol}</Text>
                     <Text style={[styles.modalTitle, { color: aspColor }]}>{selectedAspect.type}</Text>
                     <View style={styles.modalPlanetsRow}>
-                      <Text style={[styles.modalPlanet, { color: PLANET_COLORS[selectedAspect.planet1] }]}>
-                        {PLANET_SYMBOLS[selectedAspect.planet1]} {selectedAspect.planet1}
+                      <Text style={[styles.modalPlanet, { color: getAspectBodyColor(selectedAspect.planet1) }]}>
+                        {getAspectBodySymbol(selectedAspect.planet1)} {selectedAspect.planet1}
                       </Text>
                       <Text style={[styles.modalAspectMid, { color: aspColor }]}>{selectedAspect.symbol}</Text>
-                      <Text style={[styles.modalPlanet, { color: PLANET_COLORS[selectedAspect.planet2] }]}>
-                        {PLANET_SYMBOLS[selectedAspect.planet2]} {selectedAspect.planet2}
+                      <Text style={[styles.modalPlanet, { color: getAspectBodyColor(selectedAspect.planet2) }]}>
+                        {getAspectBodySymbol(selectedAspect.planet2)} {selectedAspect.planet2}
                       </Text>
                     </View>
                     <Text style={styles.modalOrbText}>
@@ -14,11 +14,18 @@ import { useAstroStore } from '@/lib/astro/store';
 import { useProStore } from '@/lib/store/pro-store';
 import { calculatePlanetaryHours, calculateMoonPhase } from '@/lib/astro/planetary-hours';
 import { getRulerRecommendation, getRulerOfDay } from '@/lib/astro/ruler-of-day';
-import { calculateEventHorizon, getNextMajorEvent, searchEvents, AstroEvent } from '@/lib/astro/events';
-import { getExactAspects } from '@/lib/astro/aspects';
+import {
+  filterEvents, getNextMajorEvent, isMajorEvent, searchEvents, AstroEvent, EVENT_CATEGORIES, EVENT_SYMBOLS,
+} from '@/lib/astro/events';
+import { useEventHorizonStore } from '@/lib/store/event-horizon-store';
+import { HourPlanner } from '@/components/hour-planner';
+import { getExactAspects, getAspectBodySymbol, getAspectSymbol } from '@/lib/astro/aspects';
 import { PLANET_SYMBOLS, PLANET_COLORS, ZODIAC_SYMBOLS, Planet } from '@/lib/astro/types';
 import { calculatePowerRating, getPowerLabel } from '@/lib/astro/power-rating';
 import { calculateAstralPotency, AstralPotencyReport } from '@/lib/astro/potency-engine';
+import { calculateAlmutenFiguris } from '@/lib/astro/almuten';
+import { getVoidOfCoursePeriods } from '@/lib/astro/void-of-course';
+import { calculateLunarMansion } from '@/lib/astro/lunar-mansions';
 import { getActiveEvents, SanityEvent, getCosmicEvents, SanityCosmicEvent } from '@/lib/cms/sanity';
 import { BuffHud } from '@/components/buff-hud';
 import { buildCosmicEventMap, matchEventWithCMS } from '@/lib/astro/event-matcher';
@@ -37,6 +44,9 @@ import Svg, { Circle, Defs, RadialGradient, Stop } from 'react-native-svg';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const MAGIC_NAME_KEY = '@aeonis_magic_name';
+const EVENT_FILTER_PLANETS: Planet[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto',
+];
 
 const PLANET_CORRESPONDENCES: Record<string, { element: string; metal: string; color: string; keywords: string }> = {
   Sun: { element: 'Fire', metal: 'Gold', color: '#D4AF37', keywords: 'Vitality, Authority, Success' },
@@ -56,6 +66,12 @@ export default function HomeScreen() {
   const recalculate = useAstroStore((s) => s.recalculate);
   const date = useAstroStore((s) => s.date);
   const setDate = useAstroStore((s) => s.setDate);
+  const zodiac = useAstroStore((s) => s.zodiac);
+  const ayanamsa = useAstroStore((s) => s.ayanamsa);
+  const voidOfCourseMode = useAstroStore((s) => s.voidOfCourseMode);
+  const hourSystem = useAstroStore((s) => s.hourSystem);
+  const polarHourMethod = useAstroStore((s) => s.polarHourMethod);
+  const positionMode = useAstroStore((s) => s.positionMode);
 
   const tier = useProStore((s) => s.tier);
   const isFeatureUnlocked = useProStore((s) => s.isFeatureUnlocked);
@@ -68,6 +84,8 @@ export default function HomeScreen() {
   const [paywallFeature, setPaywallFeature] = useState<string | undefined>();
   const [eventSearch, setEventSearch] = useState('');
   const [showEventSearch, setShowEventSearch] = useState(false);
+  const [eventCategory, setEventCategory] = useState<string | null>(null);
+  const [eventPlanet, setEventPlanet] = useState<Planet | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<AstroEvent | null>(null);
   const [now, setNow] = useState(Date.now());
   const [tooltipText, setTooltipText] = useState<string | null>(null);
@@ -143,7 +161,11 @@ export default function HomeScreen() {
           const { status } = await Location.requestForegroundPermissionsAsync();
           if (status === 'granted') {
             const loc = await Location.getCurrentPositionAsync({});
-            setLocation({ latitude: loc.coords.latitude, longitude: loc.coords.longitude });
+            setLocation({
+              latitude: loc.coords.latitude,
+              longitude: loc.coords.longitude,
+              altitude: loc.coords.altitude ?? undefined,
+            });
             return;
           }
         }
@@ -161,10 +183,25 @@ export default function HomeScreen() {
     return () => clearInterval(interval);
   }, []);
 
-  const planetaryHour = useMemo(() => calculatePlanetaryHours(date, location), [date, location]);
+  const planetaryHour = useMemo(
+    () => calculatePlanetaryHours(date, location, { hourSystem, polarHourMethod }),
+    [date, location, hourSystem, polarHourMethod],
+  );
   const moonPhase = useMemo(() => calculateMoonPhase(date), [date]);
-  const rulerOfDay = useMemo(() => getRulerRecommendation(date), [date]);
-  const dayRulerFull = useMemo(() => getRulerOfDay(date), [date]);
+  const rulerOfDay = useMemo(() => getRulerRecommendation(date, location, { polarHourMethod }), [date, location, polarHourMethod]);
+  const dayRulerFull = useMemo(() => getRulerOfDay(date, location, { polarHourMethod }), [date, location, polarHourMethod]);
+  // Current Moon sign passage and the coming week's ingresses
+  const voidPeriods = useMemo(
+    () => getVoidOfCoursePeriods(
+      date, new Date(date.getTime() + 7 * 86400000), { zodiac, ayanamsa, voidOfCourseMode, positionMode }, location,
+    ),
+    [date, zodiac, ayanamsa, voidOfCourseMode, positionMode, location],
+  );
+  const isMoonVoid = date.getTime() >= voidPeriods[0].start.getTime();
+  const lunarMansion = useMemo(
+    () => calculateLunarMansion(date, { zodiac, ayanamsa, positionMode }, location),
+    [date, zodiac, ayanamsa, positionMode, location],
+  );
 
   const hourCountdown = useMemo(() => {
     const endMs = planetaryHour.currentHour.endTime.getTime();
@@ -174,20 +211,41 @@ export default function HomeScreen() {
     return { mins, secs, remaining };
   }, [planetaryHour, now]);
 
+  // The horizon and the natal transits are built in chunks and cached
+  const horizonEvents = useEventHorizonStore((s) => s.events);
+  const horizonTransits = useEventHorizonStore((s) => s.transits);
+  const horizonComputing = useEventHorizonStore((s) => s.isComputing);
+  const horizonProgress = useEventHorizonStore((s) => s.progress);
+  useEffect(() => {
+    useEventHorizonStore.getState().ensureHorizon(date, location, 2, natalChart);
+  }, [date, location, natalChart]);
+
   const eventHorizon = useMemo(() => {
     try {
-      const events = calculateEventHorizon(date, location, 2);
+      const end = date.getTime() + 2 * 365.25 * 86400000;
+      const inRange = (e: AstroEvent) => e.date.getTime() >= date.getTime() && e.date.getTime() <= end;
+      const events = horizonEvents.filter(inRange);
+      if (natalChart) {
+        // Exact transits to the natal chart join the horizon
+        events.push(...horizonTransits.filter(e => e.type === 'transit_exact' && inRange(e)));
+        events.sort((a, b) => a.date.getTime() - b.date.getTime());
+      }
       const nextEvent = getNextMajorEvent(events, date);
       return { events, nextEvent };
     } catch {
       return { events: [], nextEvent: null };
     }
-  }, [date, location]);
+  }, [date, horizonEvents, horizonTransits, natalChart]);
 
   const filteredEvents = useMemo(() => {
-    if (!eventSearch.trim()) return eventHorizon.events.slice(0, 10);
-    return searchEvents(eventHorizon.events, eventSearch).slice(0, 20);
-  }, [eventHorizon.events, eventSearch]);
+    const category = EVENT_CATEGORIES.find(c => c.id === eventCategory);
+    // Unfiltered, the horizon shows major events only
+    const events = category || eventPlanet
+      ? filterEvents(eventHorizon.events, { types: category?.types, planets: eventPlanet ? [eventPlanet] : undefined })
+      : eventHorizon.events.filter(isMajorEvent);
+    if (!eventSearch.trim()) return events.slice(0, 10);
+    return searchEvents(events, eventSearch).slice(0, 20);
+  }, [eventHorizon.events, eventSearch, eventCategory, eventPlanet]);
 
   const exactAspects = useMemo(() => {
     if (!chartData) return [];
@@ -211,6 +269,21 @@ export default function HomeScreen() {
     return hp === 'Mars' || hp === 'Saturn' || hp === 'Jupiter';
   }, [planetaryHour]);
 
+  // Natal Almuten Figuris (hour of the almuten boosts the power rating)
+  const natalAlmuten = useMemo(() => {
+    if (!natalChart) return null;
+    try {
+      const natalLocation = { latitude: natalChart.latitude, longitude: natalChart.longitude };
+      const natalHours = calculatePlanetaryHours(natalChart.timestamp, natalLocation, { hourSystem, polarHourMethod });
+      return calculateAlmutenFiguris(natalChart, {
+        dayRuler: natalHours.dayRuler,
+        hourRuler: natalHours.currentHour.planet,
+      }).almuten;
+    } catch {
+      return null;
+    }
+  }, [natalChart, hourSystem, polarHourMethod]);
+
   // Power Rating with stasis buff
   const powerRating = useMemo(() => {
     if (!chartData) return null;
@@ -219,8 +292,9 @@ export default function HomeScreen() {
     return calculatePowerRating(
       chartData, natalChart, runeDignity,
       planetaryHour.currentHour.planet, stasisBuffActive,
+      natalAlmuten,
     );
-  }, [chartData, natalChart, activeRuneId, planetaryHour, stasisBuffActive]);
+  }, [chartData, natalChart, activeRuneId, planetaryHour, stasisBuffActive, natalAlmuten]);
 
   const powerLabel = useMemo(() => {
     if (!powerRating) return { label: 'Unknown', color: '#6B6B6B' };
@@ -240,9 +314,9 @@ export default function HomeScreen() {
     // Last session timestamp (Gnosis or Stasis)
     const lastSession = analytics?.lastStasisTimestamp ?? null;
     return calculateAstralPotency(
-      planetaryHour, userIntent, lastSession, cosmicEvents,
+      planetaryHour, userIntent, lastSession, cosmicEvents, chartData, isMoonVoid,
     );
-  }, [chartData, planetaryHour, analytics, stasisBuffActive, cosmicEvents]);
+  }, [chartData, planetaryHour, analytics, stasisBuffActive, cosmicEvents, isMoonVoid]);
 
   // Moon intel data for modal
   const moonIntelData = useMemo<MoonIntelData | null>(() => {
@@ -255,8 +329,11 @@ export default function HomeScreen() {
       zodiacSign: moonPos?.sign,
       zodiacSymbol: moonPos ? ZODIAC_SYMBOLS[moonPos.sign] : undefined,
       zodiacDegree: moonPos ? `${moonPos.signDegree}°${moonPos.signMinute.toString().padStart(2, '0')}'` : undefined,
+      isVoidOfCourse: isMoonVoid,
+      voidPeriods,
+      mansion: lunarMansion,
     };
-  }, [chartData, moonPhase]);
+  }, [chartData, moonPhase, isMoonVoid, voidPeriods, lunarMansion]);
 
   // Build a lookup: match AstroEvent → SanityCosmicEvent using robust keyword matcher
   const cosmicEventMap = useMemo(() => {
@@ -427,6 +504,12 @@ export default function HomeScreen() {
             <Text style={[styles.heroTitle, { color: hourColor }]}>{hourPlanet}</Text>
             <Text style={styles.heroMeta}>Hour {planetaryHour.currentHour.hourNumber} of 24</Text>
             <Text style={styles.heroMeta}>{planetaryHour.currentHour.isDayHour ? 'Day' : 'Night'} Hour</Text>
+            {planetaryHour.solarDay.polar && (
+              <Text style={styles.heroMeta}>
+                {planetaryHour.solarDay.polar === 'MidnightSun' ? 'Midnight Sun' : 'Polar Night'}
+                {' · '}{polarHourMethod === 'NearestLatitude' ? 'nearest latitude' : 'equal hours'}
+              </Text>
+            )}
             <View style={styles.countdownBox}>
               <Text style={[styles.countdownText, { color: hourColor }]}>
                 {hourCountdown.mins}:{hourCountdown.secs.toString().padStart(2, '0')}
@@ -462,6 +545,9 @@ export default function HomeScreen() {
                 </Text>
               </>
             )}
+            <Text style={styles.heroMeta}>
+              ☾ {lunarMansion.mansion.number} · {lunarMansion.mansion.name}
+            </Text>
           </Pressable>
         </View>
 
@@ -518,6 +604,9 @@ export default function HomeScreen() {
           </View>
         </View>
 
+        {/* Week-ahead planetary hours with reminders */}
+        <HourPlanner />
+
         {/* Exact Aspects */}
         {exactAspects.length > 0 && (
           <>
@@ -539,7 +628,7 @@ export default function HomeScreen() {
                 style={({ pressed }) => [styles.aspectHighlight, pressed && { opacity: 0.7 }]}
               >
                 <Text style={styles.aspectSymbols}>
-                  {PLANET_SYMBOLS[asp.planet1]} {asp.symbol} {PLANET_SYMBOLS[asp.planet2]}
+                  {getAspectBodySymbol(asp.planet1)} {asp.symbol} {getAspectBodySymbol(asp.planet2)}
                 </Text>
                 <View style={styles.aspectInfo}>
                   <Text style={styles.aspectType}>{asp.type}</Text>
@@ -622,6 +711,52 @@ export default function HomeScreen() {
                   returnKeyType="done"
                 />
               </View>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.eventFilterRow}>
+                {EVENT_CATEGORIES.map((category) => {
+                  const active = category.id === eventCategory;
+                  return (
+                    <Pressable
+                      key={category.id}
+                      onPress={() => {
+                        if (Platform.OS !== ('web' as string)) Haptics.selectionAsync();
+                        setEventCategory(active ? null : category.id);
+                      }}
+                      style={({ pressed }) => [styles.eventFilterChip, active && styles.eventFilterChipActive, pressed && { opacity: 0.7 }]}
+                    >
+                      <Text style={[styles.eventFilterText, active && styles.eventFilterTextActive]}>{category.label.toUpperCase()}</Text>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.eventFilterRow}>
+                {EVENT_FILTER_PLANETS.map((planet) => {
+                  const active = planet === eventPlanet;
+                  return (
+                    <Pressable
+                      key={planet}
+                      onPress={() => {
+                        if (Platform.OS !== ('web' as string)) Haptics.selectionAsync();
+                        setEventPlanet(active ? null : planet);
+                      }}
+                      style={({ pressed }) => [styles.eventFilterChip, active && styles.eventFilterChipActive, pressed && { opacity: 0.7 }]}
+                    >
+                      <Text style={[styles.eventFilterGlyph, { color: active ? PLANET_COLORS[planet] : '#6B6B6B' }]}>{PLANET_SYMBOLS[planet]}</Text>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+              {horizonComputing && (
+                <View style={styles.horizonProgress}>
+                  <View style={[styles.horizonProgressFill, { width: `${Math.round(horizonProgress * 100)}%` }]} />
+                </View>
+              )}
+              {filteredEvents.length === 0 && (
+                <Text style={styles.eventEmpty}>
+                  {horizonComputing
+                    ? `Charting the horizon… ${Math.round(horizonProgress * 100)}%`
+                    : 'No events match these filters in the next two years.'}
+                </Text>
+              )}
               {filteredEvents.slice(0, 5).map((evt) => {
                 const daysAway = Math.ceil((evt.date.getTime() - date.getTime()) / 86400000);
                 const matchedCms = cosmicEventMap.get(evt.id);
@@ -632,11 +767,7 @@ export default function HomeScreen() {
                     style={({ pressed }) => [styles.eventCard, matchedCms ? styles.eventCardWithIntel : undefined, pressed && { opacity: 0.7 }]}
                   >
                     <Text style={styles.eventType}>
-                      {evt.type === 'solar_eclipse' ? '🌑' :
-                       evt.type === 'lunar_eclipse' ? '🌕' :
-                       evt.type === 'retrograde_start' ? '℞' :
-                       evt.type === 'retrograde_end' ? '℞D' :
-                       evt.type === 'conjunction' ? '☌' : '☍'}
+                      {evt.aspect ? getAspectSymbol(evt.aspect) : EVENT_SYMBOLS[evt.type]}
                     </Text>
                     <View style={styles.eventInfo}>
                       <Text style={styles.eventTitle}>{evt.title}</Text>
@@ -735,6 +866,12 @@ export default function HomeScreen() {
                       </View>
                     </>
                   )}
+                  {selectedEvent.visibility && (
+                    <View style={styles.modalDetailRow}>
+                      <Text style={styles.modalDetailLabel}>Visibility</Text>
+                      <Text style={styles.modalDetailValue}>{selectedEvent.visibility}</Text>
+                    </View>
+                  )}
                   {selectedEvent.description && (
                     <View style={styles.modalDetailRow}>
                       <Text style={styles.modalDetailLabel}>Notes</Text>
@@ -984,6 +1121,18 @@ const styles = StyleSheet.create({
     borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10, gap: 8,
   },
   searchIcon: { fontSize: 16 },
+  eventFilterRow: { flexDirection: 'row', gap: 6, marginTop: 8 },
+  eventFilterChip: {
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 5,
+  },
+  eventFilterChipActive: { borderColor: '#D4AF3760', backgroundColor: '#D4AF3710' },
+  eventFilterText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', letterSpacing: 1 },
+  eventFilterTextActive: { color: '#D4AF37' },
+  eventFilterGlyph: { fontSize: 14 },
+  eventEmpty: { fontSize: 12, color: '#6B6B6B', fontStyle: 'italic', marginTop: 10 },
+  horizonProgress: { height: 2, backgroundColor: '#1A1A1A', borderRadius: 1, marginTop: 8, overflow: 'hidden' },
+  horizonProgressFill: { height: 2, backgroundColor: '#D4AF37' },
   searchInput: { flex: 1, fontSize: 14, color: '#E0E0E0', padding: 0 },
   eventCard: {
     flexDirection: 'row', alignItems: 'center', backgroundColor: '#0D0D0D',
@@ -13,6 +13,7 @@ import { ScreenContainer } from '@/components/screen-container';
 import { HoloPad } from '@/components/holo-pad';
 import { StasisMode } from '@/components/stasis-mode';
 import { GnosisTerminal } from '@/components/gnosis-terminal';
+import { ElectionPlanner } from '@/components/election-planner';
 import { useRitualStore } from '@/lib/ritual/store';
 import { calculateHeading, isAlignedToDirection, detectTracingMotion } from '@/lib/compass/sensor-fusion';
 import { Ritual, RitualStep, RitualIntention, RitualTradition } from '@/lib/ritual/types';
@@ -28,12 +29,18 @@ import { PostRitualCapture, AstralJournal } from '@/components/astral-journal';
 import { AstralArchives } from '@/components/astral-archives';
 import { useJournalStore } from '@/lib/journal/store';
 import { calculatePlanetaryHours, calculateMoonPhase } from '@/lib/astro/planetary-hours';
-import { getMajorAspects } from '@/lib/astro/aspects';
-import { PLANET_SYMBOLS } from '@/lib/astro/types';
+import { getMajorAspects, getAspectBodySymbol, formatAspectTiming } from '@/lib/astro/aspects';
+import { getZodiacLabel } from '@/lib/astro/ayanamsa';
+import { getChartDecans } from '@/lib/astro/decans';
+import { getCurrentLunarMonth } from '@/lib/astro/returns';
+import { calculateLunarMansion } from '@/lib/astro/lunar-mansions';
+import { getChartObserver, longitudeToSign } from '@/lib/astro/engine';
+import { PLANET_SYMBOLS, PLANET_COLORS, ZODIAC_SYMBOLS } from '@/lib/astro/types';
+import { useNatalStore } from '@/lib/store/natal-store';
 
 const { width: SW, height: SH } = Dimensions.get('window');
 
-type HubView = 'hub' | 'stasis' | 'catalog' | 'library' | 'player' | 'arsenal' | 'archives' | 'gnosis';
+type HubView = 'hub' | 'stasis' | 'catalog' | 'library' | 'player' | 'arsenal' | 'archives' | 'gnosis' | 'elections';
 
 // ─── Sanity Block Content → Markdown Converter ──────────────
 function blockContentToMarkdown(content: SanityScripture['content']): string {
@@ -125,6 +132,24 @@ export default function SanctumScreen() {
   const [selectedLibraryRitual, setSelectedLibraryRitual] = useState<string | null>(null);
   const [completionResult, setCompletionResult] = useState<{ xpAwarded: number; leveledUp: boolean } | null>(null);
   const chartData = useAstroStore((s) => s.chartData);
+  const getChartOptions = useAstroStore((s) => s.getChartOptions);
+  const natalChart = useNatalStore((s) => s.natalChart);
+
+  // Lunar return in effect here and now: sets the ruler of the ritual month
+  const lunarMonth = useMemo(() => {
+    if (!natalChart) return null;
+    try {
+      return getCurrentLunarMonth(natalChart, new Date(), location, getChartOptions());
+    } catch {
+      return null;
+    }
+  }, [natalChart, location, getChartOptions]);
+
+  // Lunar mansion of the displayed moment: marks the rituals it favours
+  const lunarMansion = useMemo(
+    () => calculateLunarMansion(chartData?.timestamp ?? new Date(), getChartOptions(), location),
+    [chartData, getChartOptions, location],
+  );
 
   // ─── Library State (Sanity CMS) ───────────────────────────
   const [scriptures, setScriptures] = useState<SanityScripture[]>([]);
@@ -271,11 +296,13 @@ export default function SanctumScreen() {
 
       // Auto-capture journal data
       const now = new Date();
-      const hourInfo = calculatePlanetaryHours(now, location);
+      const hourInfo = calculatePlanetaryHours(now, location, getChartOptions());
       const moonInfo = calculateMoonPhase(now);
-      const aspects = chartData?.planets ? getMajorAspects(chartData.planets, 3) : [];
+      const aspects = chartData?.planets
+        ? getMajorAspects(chartData.planets, undefined, chartData.timestamp, { topocentric: getChartObserver(chartData) })
+        : [];
       const aspectStrings = aspects.slice(0, 8).map(a =>
-        `${PLANET_SYMBOLS[a.planet1] ?? a.planet1} ${a.type === 'Conjunction' ? '☌' : a.type === 'Opposition' ? '☍' : a.type === 'Square' ? '□' : a.type === 'Trine' ? '△' : '⚹'} ${PLANET_SYMBOLS[a.planet2] ?? a.planet2} (${a.orb.toFixed(1)}°)`
+        `${getAspectBodySymbol(a.planet1)} ${a.type === 'Conjunction' ? '☌' : a.type === 'Opposition' ? '☍' : a.type === 'Square' ? '□' : a.type === 'Trine' ? '△' : '⚹'} ${getAspectBodySymbol(a.planet2)} (${a.orb.toFixed(1)}° ${formatAspectTiming(a)})`
       );
 
       setPendingJournalData({
@@ -290,9 +317,11 @@ export default function SanctumScreen() {
         rulerOfHour: hourInfo.currentHour.planet,
         moonPhase: moonInfo.phaseName,
         activeAspects: aspectStrings,
+        zodiac: chartData ? getZodiacLabel(chartData) : undefined,
+        ...(chartData ? getChartDecans(chartData) : {}),
       });
     } catch {}
-  }, [currentRitual, intent, selectedDynamicChoice, chartData, location]);
+  }, [currentRitual, intent, selectedDynamicChoice, chartData, location, getChartOptions]);
 
   const isLBRP = currentRitual?.id === 'lbrp' || currentRitual?.name?.toLowerCase().includes('lesser banishing');
   const activeRune = useRuneWalletStore((s) => s.getActiveRune());
@@ -364,6 +393,17 @@ export default function SanctumScreen() {
     );
   }
 
+  // ==========================================
+  // ELECTIONS VIEW
+  // ==========================================
+  if (hubView === 'elections') {
+    return (
+      <ScreenContainer>
+        <ElectionPlanner onBack={() => setHubView('hub')} />
+      </ScreenContainer>
+    );
+  }
+
   // ==========================================
   // LIBRARY VIEW (Sanity CMS Scriptures)
   // ==========================================
@@ -767,6 +807,16 @@ export default function SanctumScreen() {
             ))}
           </ScrollView>
 
+          <View style={styles.mansionBanner}>
+            <Text style={styles.lunarLabel}>
+              ☾ MANSION {lunarMansion.mansion.number} · {lunarMansion.mansion.name.toUpperCase()}
+            </Text>
+            <Text style={styles.lunarValue}>Favours {lunarMansion.mansion.favoured.join(', ').toLowerCase()}</Text>
+            {lunarMansion.mansion.forbidden.length > 0 && (
+              <Text style={styles.lunarMeta}>AVOID {lunarMansion.mansion.forbidden.join(' · ').toUpperCase()}</Text>
+            )}
+          </View>
+
           <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
             <Text style={styles.sectionTitle}>Available ({filteredRituals.length})</Text>
             {ritualsSource !== 'none' && (
@@ -804,6 +854,11 @@ export default function SanctumScreen() {
                     <View style={[styles.ritualTag, styles.ritualTagTradition]}>
                       <Text style={styles.ritualTagText}>{tradition}</Text>
                     </View>
+                    {lunarMansion.mansion.intentions.includes(intention) && (
+                      <View style={[styles.ritualTag, styles.ritualTagMansion]}>
+                        <Text style={[styles.ritualTagText, { color: '#C0C0C0' }]}>☾ MANSION</Text>
+                      </View>
+                    )}
                     <Text style={styles.ritualCardMeta}>{item.steps.length} steps</Text>
                   </View>
                 </Pressable>
@@ -1219,8 +1274,47 @@ export default function SanctumScreen() {
             <Text style={styles.tileDesc}>Frequency Trance</Text>
             <Text style={styles.tileMeta}>Psychoacoustic Focus</Text>
           </Pressable>
+
+          {/* Elections Tile */}
+          <Pressable
+            onPress={() => handleTilePress('elections')}
+            style={({ pressed }) => [styles.tile, styles.tileElections, pressed && { opacity: 0.8, transform: [{ scale: 0.97 }] }]}
+          >
+            <Text style={styles.tileIcon}>⧗</Text>
+            <Text style={styles.tileTitle}>Elections</Text>
+            <Text style={styles.tileDesc}>Talismanic Timing</Text>
+            <Text style={styles.tileMeta}>Search Windows</Text>
+          </Pressable>
         </View>
 
+        {/* Lunar Month (current lunar return) */}
+        {lunarMonth && (
+          <>
+            <Text style={styles.sectionTitle}>Lunar Month</Text>
+            <Pressable
+              onPress={() => handleTilePress('catalog')}
+              style={({ pressed }) => [styles.lunarCard, pressed && { opacity: 0.8 }]}
+            >
+              <View style={styles.lunarRow}>
+                <Text style={styles.lunarLabel}>RULER</Text>
+                <Text style={[styles.lunarValue, { color: PLANET_COLORS[lunarMonth.ruler] }]}>
+                  {PLANET_SYMBOLS[lunarMonth.ruler]} {lunarMonth.ruler}
+                </Text>
+              </View>
+              <View style={styles.lunarRow}>
+                <Text style={styles.lunarLabel}>RETURN ASC</Text>
+                <Text style={styles.lunarValue}>
+                  {ZODIAC_SYMBOLS[longitudeToSign(lunarMonth.current.chart.angles.ascendant).sign]} {longitudeToSign(lunarMonth.current.chart.angles.ascendant).sign} · ☽ in house {lunarMonth.moonHouse}
+                </Text>
+              </View>
+              <Text style={styles.lunarMeta}>
+                {lunarMonth.current.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} → next return {lunarMonth.nextReturn.toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </Text>
+              <Text style={styles.lunarHint}>Plan this month&apos;s workings under {lunarMonth.ruler}</Text>
+            </Pressable>
+          </>
+        )}
+
         {/* Quick Actions */}
         <Text style={styles.sectionTitle}>Quick Actions</Text>
         <View style={styles.quickRow}>
@@ -1272,11 +1366,23 @@ const styles = StyleSheet.create({
   tileLibrary: { borderColor: '#3B82F630' },
   tileForge: { borderColor: '#8B5CF630' },
   tileGnosis: { borderColor: '#D4AF3730' },
+  tileElections: { borderColor: '#F59E0B30' },
   tileIcon: { fontSize: 28, color: '#D4AF37', marginBottom: 8 },
   tileTitle: { fontFamily: 'Cinzel', fontSize: 16, color: '#E0E0E0', letterSpacing: 2 },
   tileDesc: { fontSize: 12, color: '#6B6B6B', marginTop: 4 },
   tileMeta: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#4A4A4A', marginTop: 8, letterSpacing: 1 },
 
+  // Lunar Month
+  lunarCard: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#C0C0C030',
+    borderRadius: 16, padding: 16,
+  },
+  lunarRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 },
+  lunarLabel: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', letterSpacing: 1 },
+  lunarValue: { fontFamily: 'JetBrainsMono', fontSize: 12, color: '#E0E0E0' },
+  lunarMeta: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#4A4A4A', marginTop: 4, letterSpacing: 1 },
+  lunarHint: { fontSize: 12, color: '#6B6B6B', marginTop: 8, fontStyle: 'italic' },
+
   // Quick Actions
   quickRow: { flexDirection: 'row', gap: 10 },
   quickBtn: {
@@ -1432,6 +1538,11 @@ const styles = StyleSheet.create({
     borderRadius: 6, paddingHorizontal: 8, paddingVertical: 2,
   },
   ritualTagTradition: { backgroundColor: '#00FFFF10', borderColor: '#00FFFF30' },
+  ritualTagMansion: { backgroundColor: '#C0C0C010', borderColor: '#C0C0C030' },
+  mansionBanner: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#C0C0C020',
+    borderRadius: 12, padding: 12, marginTop: 12, gap: 4,
+  },
   ritualTagText: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#D4AF37', letterSpacing: 0.5 },
 
   // Modal (old library)
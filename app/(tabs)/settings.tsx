@@ -4,13 +4,43 @@ import * as Location from 'expo-location';
 import * as Haptics from 'expo-haptics';
 import { ScreenContainer } from '@/components/screen-container';
 import { useAstroStore } from '@/lib/astro/store';
+import { useNatalStore } from '@/lib/store/natal-store';
+import {
+  HouseSystem, LunarPointMode, ZodiacMode, Ayanamsa, VoidOfCourseMode, PlanetaryHourSystem, PolarHourMethod,
+  PositionMode, HOUSE_SYSTEMS, HOUSE_SYSTEM_LABELS,
+} from '@/lib/astro/types';
+import { AYANAMSAS, AYANAMSA_LABELS } from '@/lib/astro/ayanamsa';
+import { AspectConfig, ASPECT_CONFIG_LABELS } from '@/lib/astro/aspects';
 import { searchLocation, reverseGeocode, GeocodingResult } from '@/lib/geocoding';
+import {
+  formatUtcOffset, formatWallTime, getWallTime, getZoneOffset, parseWallTime, resolveTimeZone, zonedTimeToUtc,
+} from '@/lib/astro/timezones';
 
 export default function SettingsScreen() {
   const location = useAstroStore((s) => s.location);
   const date = useAstroStore((s) => s.date);
   const setLocation = useAstroStore((s) => s.setLocation);
   const setDate = useAstroStore((s) => s.setDate);
+  const houseSystem = useAstroStore((s) => s.houseSystem);
+  const setHouseSystem = useAstroStore((s) => s.setHouseSystem);
+  const lunarPointMode = useAstroStore((s) => s.lunarPointMode);
+  const setLunarPointMode = useAstroStore((s) => s.setLunarPointMode);
+  const zodiac = useAstroStore((s) => s.zodiac);
+  const setZodiac = useAstroStore((s) => s.setZodiac);
+  const ayanamsa = useAstroStore((s) => s.ayanamsa);
+  const setAyanamsa = useAstroStore((s) => s.setAyanamsa);
+  const aspectConfig = useAstroStore((s) => s.aspectConfig);
+  const setAspectConfig = useAstroStore((s) => s.setAspectConfig);
+  const voidOfCourseMode = useAstroStore((s) => s.voidOfCourseMode);
+  const setVoidOfCourseMode = useAstroStore((s) => s.setVoidOfCourseMode);
+  const hourSystem = useAstroStore((s) => s.hourSystem);
+  const setHourSystem = useAstroStore((s) => s.setHourSystem);
+  const polarHourMethod = useAstroStore((s) => s.polarHourMethod);
+  const setPolarHourMethod = useAstroStore((s) => s.setPolarHourMethod);
+  const positionMode = useAstroStore((s) => s.positionMode);
+  const setPositionMode = useAstroStore((s) => s.setPositionMode);
+  const asteroids = useAstroStore((s) => s.asteroids);
+  const setAsteroids = useAstroStore((s) => s.setAsteroids);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<GeocodingResult[]>([]);
@@ -20,6 +50,8 @@ export default function SettingsScreen() {
   const [dateText, setDateText] = useState('');
   const [timeText, setTimeText] = useState('');
   const searchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Dates are entered and shown as clock time at the chart location
+  const timeZone = location.timeZone ?? resolveTimeZone(location.latitude, location.longitude);
 
   // Reverse geocode current location on mount and when location changes
   useEffect(() => {
@@ -27,10 +59,10 @@ export default function SettingsScreen() {
   }, [location]);
 
   useEffect(() => {
-    const d = date;
-    setDateText(`${d.getFullYear()}-${(d.getMonth() + 1).toString().padStart(2, '0')}-${d.getDate().toString().padStart(2, '0')}`);
-    setTimeText(`${d.getHours().toString().padStart(2, '0')}:${d.getMinutes().toString().padStart(2, '0')}`);
-  }, [date]);
+    const local = formatWallTime(getWallTime(date, timeZone));
+    setDateText(local.date);
+    setTimeText(local.time);
+  }, [date, timeZone]);
 
   // Debounced search
   const handleSearchChange = (text: string) => {
@@ -76,7 +108,11 @@ export default function SettingsScreen() {
         return;
       }
       const loc = await Location.getCurrentPositionAsync({});
-      setLocation({ latitude: loc.coords.latitude, longitude: loc.coords.longitude });
+      setLocation({
+        latitude: loc.coords.latitude,
+        longitude: loc.coords.longitude,
+        altitude: loc.coords.altitude ?? undefined,
+      });
       if (Platform.OS !== 'web') {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       }
@@ -90,19 +126,9 @@ export default function SettingsScreen() {
     if (Platform.OS !== 'web') {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
-    const parts = dateText.split('-');
-    const timeParts = timeText.split(':');
-    if (parts.length === 3 && timeParts.length === 2) {
-      const newDate = new Date(
-        parseInt(parts[0]),
-        parseInt(parts[1]) - 1,
-        parseInt(parts[2]),
-        parseInt(timeParts[0]),
-        parseInt(timeParts[1]),
-      );
-      if (!isNaN(newDate.getTime())) {
-        setDate(newDate);
-      }
+    const wall = parseWallTime(dateText, timeText);
+    if (wall) {
+      setDate(zonedTimeToUtc(wall, timeZone));
     }
   };
 
@@ -113,6 +139,82 @@ export default function SettingsScreen() {
     setDate(new Date());
   };
 
+  const handleSelectHouseSystem = (system: HouseSystem) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setHouseSystem(system);
+    useNatalStore.getState().calculateNatalChart();
+  };
+
+  const handleSelectLunarPointMode = (mode: LunarPointMode) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setLunarPointMode(mode);
+    useNatalStore.getState().calculateNatalChart();
+  };
+
+  const handleSelectZodiac = (mode: ZodiacMode) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setZodiac(mode);
+    useNatalStore.getState().calculateNatalChart();
+  };
+
+  const handleSelectAyanamsa = (system: Ayanamsa) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setAyanamsa(system);
+    useNatalStore.getState().calculateNatalChart();
+  };
+
+  const handleSelectPositionMode = (mode: PositionMode) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setPositionMode(mode);
+    useNatalStore.getState().calculateNatalChart();
+  };
+
+  const handleSelectAsteroids = (enabled: boolean) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setAsteroids(enabled);
+    useNatalStore.getState().calculateNatalChart();
+  };
+
+  const handleToggleAspectOption = (key: keyof AspectConfig) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setAspectConfig({ [key]: !aspectConfig[key] });
+  };
+
+  const handleSelectVoidOfCourseMode = (mode: VoidOfCourseMode) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setVoidOfCourseMode(mode);
+  };
+
+  const handleSelectHourSystem = (system: PlanetaryHourSystem) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setHourSystem(system);
+  };
+
+  const handleSelectPolarHourMethod = (method: PolarHourMethod) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    setPolarHourMethod(method);
+  };
+
   return (
     <ScreenContainer>
       <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
@@ -128,6 +230,7 @@ export default function SettingsScreen() {
               <Text style={styles.locationName}>{locationName || 'Loading...'}</Text>
               <Text style={styles.locationCoords}>
                 {location.latitude.toFixed(4)}°N, {location.longitude.toFixed(4)}°E
+                {location.altitude !== undefined ? ` · ${Math.round(location.altitude)} m` : ''}
               </Text>
             </View>
           </View>
@@ -203,6 +306,10 @@ export default function SettingsScreen() {
               returnKeyType="done"
             />
           </View>
+          <Text style={styles.optionHint}>
+            Local time at the chart location: {timeZone.replace(/_/g, ' ')} ({formatUtcOffset(getZoneOffset(date, timeZone))}), with historical daylight saving.
+            {location.timeZoneProvisional ? ' The zone is an offline guess from the nearest city and is checked again once online.' : ''}
+          </Text>
           <View style={styles.btnRow}>
             <Pressable
               onPress={handleApplyDateTime}
@@ -219,6 +326,206 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Chart Section */}
+        <Text style={styles.sectionTitle}>Chart</Text>
+        <View style={styles.card}>
+          <Text style={styles.label}>House System</Text>
+          <View style={styles.optionRow}>
+            {HOUSE_SYSTEMS.map((system) => {
+              const active = system === houseSystem;
+              return (
+                <Pressable
+                  key={system}
+                  onPress={() => handleSelectHouseSystem(system)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>
+                    {HOUSE_SYSTEM_LABELS[system]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.optionHint}>
+            Placidus falls back to Porphyry above the polar circles.
+          </Text>
+
+          <Text style={[styles.label, styles.optionGroupSpacing]}>Lunar Nodes & Lilith</Text>
+          <View style={styles.optionRow}>
+            {(['Mean', 'True'] as LunarPointMode[]).map((mode) => {
+              const active = mode === lunarPointMode;
+              return (
+                <Pressable
+                  key={mode}
+                  onPress={() => handleSelectLunarPointMode(mode)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{mode}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.optionHint}>
+            True values follow the Moon&apos;s osculating orbit and can station direct.
+          </Text>
+
+          <Text style={[styles.label, styles.optionGroupSpacing]}>Zodiac</Text>
+          <View style={styles.optionRow}>
+            {(['Tropical', 'Sidereal'] as ZodiacMode[]).map((mode) => {
+              const active = mode === zodiac;
+              return (
+                <Pressable
+                  key={mode}
+                  onPress={() => handleSelectZodiac(mode)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{mode}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {zodiac === 'Sidereal' && (
+            <>
+              <Text style={[styles.label, styles.optionGroupSpacing]}>Ayanamsa</Text>
+              <View style={styles.optionRow}>
+                {AYANAMSAS.map((system) => {
+                  const active = system === ayanamsa;
+                  return (
+                    <Pressable
+                      key={system}
+                      onPress={() => handleSelectAyanamsa(system)}
+                      style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                    >
+                      <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>
+                        {AYANAMSA_LABELS[system]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.label, styles.optionGroupSpacing]}>Positions</Text>
+          <View style={styles.optionRow}>
+            {(['Geocentric', 'Topocentric'] as PositionMode[]).map((mode) => {
+              const active = mode === positionMode;
+              return (
+                <Pressable
+                  key={mode}
+                  onPress={() => handleSelectPositionMode(mode)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{mode}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.optionHint}>
+            Topocentric positions are seen from your place on the Earth&apos;s surface, at the GPS altitude when known, and move the Moon by up to a degree.
+          </Text>
+
+          <Text style={[styles.label, styles.optionGroupSpacing]}>Bodies</Text>
+          <View style={styles.optionRow}>
+            {[false, true].map((enabled) => {
+              const active = enabled === asteroids;
+              return (
+                <Pressable
+                  key={String(enabled)}
+                  onPress={() => handleSelectAsteroids(enabled)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>
+                    {enabled ? 'With asteroids' : 'Planets only'}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.optionHint}>
+            Adds Chiron ⚷, Ceres ⚳, Pallas ⚴, Juno ⚵ and Vesta ⚶ to the chart, the radar and the Aspectarian, computed from bundled orbital elements.
+          </Text>
+
+          <Text style={[styles.label, styles.optionGroupSpacing]}>Aspectarian</Text>
+          <View style={styles.optionRow}>
+            {(Object.keys(ASPECT_CONFIG_LABELS) as (keyof AspectConfig)[]).map((key) => {
+              const active = aspectConfig[key];
+              return (
+                <Pressable
+                  key={key}
+                  onPress={() => handleToggleAspectOption(key)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>
+                    {ASPECT_CONFIG_LABELS[key]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.optionHint}>
+            Extra aspects and points shown in the Chart tab&apos;s Aspectarian (Adeptus).
+          </Text>
+
+          <Text style={[styles.label, styles.optionGroupSpacing]}>Void-of-Course Moon</Text>
+          <View style={styles.optionRow}>
+            {(['Traditional', 'Modern'] as VoidOfCourseMode[]).map((mode) => {
+              const active = mode === voidOfCourseMode;
+              return (
+                <Pressable
+                  key={mode}
+                  onPress={() => handleSelectVoidOfCourseMode(mode)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{mode}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.optionHint}>
+            Traditional counts aspects to the visible planets only; Modern adds Uranus, Neptune and Pluto.
+          </Text>
+
+          <Text style={[styles.label, styles.optionGroupSpacing]}>Planetary Hours</Text>
+          <View style={styles.optionRow}>
+            {(['Seasonal', 'Equal'] as PlanetaryHourSystem[]).map((system) => {
+              const active = system === hourSystem;
+              return (
+                <Pressable
+                  key={system}
+                  onPress={() => handleSelectHourSystem(system)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{system}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.optionHint}>
+            Seasonal divides daylight and night into twelve hours each; Equal uses 24 equal hours from sunrise.
+          </Text>
+
+          <Text style={[styles.label, styles.optionGroupSpacing]}>Midnight Sun &amp; Polar Night</Text>
+          <View style={styles.optionRow}>
+            {([['EqualHours', 'Equal Hours'], ['NearestLatitude', 'Nearest Latitude']] as [PolarHourMethod, string][]).map(([method, label]) => {
+              const active = method === polarHourMethod;
+              return (
+                <Pressable
+                  key={method}
+                  onPress={() => handleSelectPolarHourMethod(method)}
+                  style={({ pressed }) => [styles.optionChip, active && styles.optionChipActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.optionHint}>
+            When the Sun doesn&apos;t rise or set: equal hours from six hours before local noon, or the sunrise and sunset of the nearest latitude where it does.
+          </Text>
+        </View>
+
         {/* About Section */}
         <Text style={styles.sectionTitle}>About</Text>
         <View style={styles.card}>
@@ -428,6 +735,39 @@ const styles = StyleSheet.create({
     color: '#E0E0E0',
     fontSize: 13,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    borderWidth: 1,
+    borderColor: '#1A1A1A',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  optionChipActive: {
+    borderColor: '#D4AF37',
+    backgroundColor: '#D4AF3715',
+  },
+  optionChipText: {
+    color: '#6B6B6B',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  optionChipTextActive: {
+    color: '#D4AF37',
+  },
+  optionGroupSpacing: {
+    marginTop: 16,
+  },
+  optionHint: {
+    fontSize: 11,
+    color: '#6B6B6B',
+    marginTop: 10,
+    fontStyle: 'italic',
+  },
   aboutTitle: {
     fontFamily: 'Cinzel',
     fontSize: 20,
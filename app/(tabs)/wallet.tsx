@@ -161,6 +161,13 @@ export default function WalletScreen() {
           {runeObjs.map(r => r?.symbol).join(' ')}
         </Text>
 
+        {/* Attached election window */}
+        {item.election && (
+          <Text style={styles.electionText} numberOfLines={1}>
+            ⧗ {new Date(item.election.start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} {new Date(item.election.start).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+          </Text>
+        )}
+
         {/* Dignity score */}
         {dignity && (
           <Text style={[
@@ -272,6 +279,7 @@ const styles = StyleSheet.create({
 
   runeName: { fontSize: 12, fontWeight: '600', color: '#E0E0E0', marginTop: 8, textAlign: 'center' },
   runeSymbols: { fontSize: 16, color: '#6B6B6B', marginTop: 2, letterSpacing: 4 },
+  electionText: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#F59E0B', marginTop: 4 },
   dignityScore: { fontFamily: 'JetBrainsMono', fontSize: 12, fontWeight: '700', marginTop: 4 },
 
   // Empty state
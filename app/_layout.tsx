@@ -5,7 +5,7 @@ import { StatusBar } from "expo-status-bar";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import "react-native-reanimated";
-import { Platform } from "react-native";
+import { AppState, Platform } from "react-native";
 import "@/lib/_core/nativewind-pressable";
 import { ThemeProvider } from "@/lib/theme-provider";
 import {
@@ -23,6 +23,8 @@ import { initManusRuntime, subscribeSafeAreaInsets } from "@/lib/_core/manus-run
 import { useProStore } from "@/lib/store/pro-store";
 import { useRuneWalletStore } from '@/lib/store/rune-wallet';
 import { useNatalStore } from '@/lib/store/natal-store';
+import { useAstroStore } from '@/lib/astro/store';
+import { useHourPlannerStore, subscribeHourAlertsToLocation } from '@/lib/store/hour-planner-store';
 
 SplashScreen.preventAutoHideAsync();
 
@@ -68,10 +70,28 @@ export default function RootLayout() {
     initManusRuntime();
   }, []);
 
-  // Load subscription state, wallet, and natal data
+  // Load subscription state, chart settings, wallet, and natal data
   useEffect(() => {
     useProStore.getState().loadSubscription();
-    useNatalStore.getState().loadNatalData();
+    // Natal chart depends on chart settings (houses, lunar points, zodiac)
+    useAstroStore.getState().loadSettings().finally(() => {
+      useNatalStore.getState().loadNatalData();
+      // Hour reminders depend on the hour system in the chart settings
+      useHourPlannerStore.getState().loadPlanner();
+    });
+  }, []);
+
+  // Keep planetary hour reminders in step with the location
+  useEffect(() => subscribeHourAlertsToLocation(), []);
+
+  // Confirm time zones guessed offline when the app returns to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') return;
+      useAstroStore.getState().refreshTimeZone();
+      useNatalStore.getState().refreshTimeZones();
+    });
+    return () => subscription.remove();
   }, []);
 
   // Hide splash screen once fonts and onboarding check are ready
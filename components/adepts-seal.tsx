@@ -16,6 +16,8 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ELDER_FUTHARK, generateBindruneData } from '@/lib/runes/futhark';
 import { useRuneWalletStore } from '@/lib/store/rune-wallet';
 import { useNatalStore, UserNatalData } from '@/lib/store/natal-store';
+import { isValidTimeZone } from '@/lib/astro/timezones';
+import { lookupTimeZone } from '@/lib/geocoding';
 
 const { width: SW } = Dimensions.get('window');
 const RUNE_SIZE = Math.min(SW * 0.6, 260);
@@ -55,6 +57,8 @@ export function AdeptsSeal({ onComplete }: { onComplete: () => void }) {
   const [birthPlace, setBirthPlace] = useState('');
   const [birthLat, setBirthLat] = useState('');
   const [birthLon, setBirthLon] = useState('');
+  const [birthZone, setBirthZone] = useState('');
+  const [birthZoneProvisional, setBirthZoneProvisional] = useState(false);
   const [isGeocoding, setIsGeocoding] = useState(false);
 
   const setMasterRune = useRuneWalletStore((s) => s.setMasterRune);
@@ -92,13 +96,24 @@ export function AdeptsSeal({ onComplete }: { onComplete: () => void }) {
       );
       const data = await resp.json();
       if (data.length > 0) {
-        setBirthLat(parseFloat(data[0].lat).toFixed(4));
-        setBirthLon(parseFloat(data[0].lon).toFixed(4));
+        const lat = parseFloat(data[0].lat);
+        const lon = parseFloat(data[0].lon);
+        setBirthLat(lat.toFixed(4));
+        setBirthLon(lon.toFixed(4));
+        const { timeZone, provisional } = await lookupTimeZone(lat, lon);
+        setBirthZone(timeZone);
+        setBirthZoneProvisional(provisional);
       }
     } catch {}
     setIsGeocoding(false);
   }, [birthPlace]);
 
+  // Zone the birth time is read in; left to the store when blank or unknown
+  const zoneValid = isValidTimeZone(birthZone.trim());
+  const zoneFields: Partial<UserNatalData> = zoneValid
+    ? { timeZone: birthZone.trim(), timeZoneProvisional: birthZoneProvisional }
+    : {};
+
   const handleSkip = useCallback(async () => {
     if (birthDate && birthLat && birthLon) {
       const natalData: UserNatalData = {
@@ -107,6 +122,7 @@ export function AdeptsSeal({ onComplete }: { onComplete: () => void }) {
         placeOfBirth: birthPlace || 'Unknown',
         latitude: parseFloat(birthLat) || 0,
         longitude: parseFloat(birthLon) || 0,
+        ...zoneFields,
       };
       await setNatalData(natalData);
     }
@@ -115,7 +131,7 @@ export function AdeptsSeal({ onComplete }: { onComplete: () => void }) {
     }
     await completeSeal();
     onComplete();
-  }, [birthDate, birthTime, birthPlace, birthLat, birthLon, magicName, onComplete]);
+  }, [birthDate, birthTime, birthPlace, birthLat, birthLon, birthZone, birthZoneProvisional, magicName, onComplete]);
 
   // ===== STEP 1 → STEP 2: Identity → Forge =====
   const handleIdentityNext = useCallback(() => {
@@ -128,6 +144,7 @@ export function AdeptsSeal({ onComplete }: { onComplete: () => void }) {
         placeOfBirth: birthPlace || 'Unknown',
         latitude: parseFloat(birthLat) || 0,
         longitude: parseFloat(birthLon) || 0,
+        ...zoneFields,
       };
       setNatalData(natalData);
     }
@@ -138,7 +155,7 @@ export function AdeptsSeal({ onComplete }: { onComplete: () => void }) {
     // Animate rune reveal
     Animated.spring(scaleAnim, { toValue: 1, damping: 12, useNativeDriver: true }).start();
     setPhase('forge');
-  }, [birthDate, birthTime, birthPlace, birthLat, birthLon]);
+  }, [birthDate, birthTime, birthPlace, birthLat, birthLon, birthZone, birthZoneProvisional]);
 
   // ===== STEP 2 → STEP 3: Forge → Save =====
   const handleForgeNext = useCallback(() => {
@@ -231,16 +248,36 @@ export function AdeptsSeal({ onComplete }: { onComplete: () => void }) {
 
               <View style={styles.formGroup}>
                 <Text style={styles.inputLabel}>TIME OF BIRTH</Text>
-                <TextInput
-                  style={styles.formInput}
-                  placeholder="HH:MM (24h format)"
-                  placeholderTextColor="#4A4A4A"
-                  value={birthTime}
-                  onChangeText={setBirthTime}
-                  keyboardType="numbers-and-punctuation"
-                  returnKeyType="next"
-                  maxLength={5}
-                />
+                <View style={styles.placeRow}>
+                  <TextInput
+                    style={[styles.formInput, { flex: 1 }]}
+                    placeholder="HH:MM (24h format)"
+                    placeholderTextColor="#4A4A4A"
+                    value={birthTime}
+                    onChangeText={setBirthTime}
+                    keyboardType="numbers-and-punctuation"
+                    returnKeyType="next"
+                    maxLength={5}
+                  />
+                  <TextInput
+                    style={[styles.formInput, { flex: 1.4 }]}
+                    placeholder="Zone, from the place"
+                    placeholderTextColor="#4A4A4A"
+                    value={birthZone}
+                    onChangeText={(text) => { setBirthZone(text); setBirthZoneProvisional(false); }}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </View>
+                {birthZone.trim() !== '' && (
+                  <Text style={styles.inputHint}>
+                    {!zoneValid
+                      ? 'Unknown zone — use an IANA name such as America/Chicago'
+                      : birthZoneProvisional
+                        ? 'Guessed offline from the nearest city — correct it if wrong'
+                        : `Clock time in ${birthZone.trim().replace(/_/g, ' ')}`}
+                  </Text>
+                )}
               </View>
 
               <View style={styles.formGroup}>
@@ -223,6 +223,13 @@ function EntryDetailModal({
               <Text style={ds.fieldValue}>{entry.moonPhase}</Text>
             </View>
 
+            {entry.zodiac && (
+              <View style={ds.fieldRow}>
+                <Text style={ds.fieldLabel}>ZODIAC</Text>
+                <Text style={ds.fieldValue}>{entry.zodiac}</Text>
+              </View>
+            )}
+
             {/* Active Aspects */}
             {entry.activeAspects && entry.activeAspects.length > 0 && (
               <View style={ds.aspectsSection}>
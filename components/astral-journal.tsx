@@ -21,6 +21,8 @@ import {
 import { calculatePlanetaryHours, calculateMoonPhase } from '@/lib/astro/planetary-hours';
 import { useAstroStore } from '@/lib/astro/store';
 import { calculateAspects } from '@/lib/astro/aspects';
+import { getZodiacLabel } from '@/lib/astro/ayanamsa';
+import { DECANS, getDecanLabel, getChartDecans } from '@/lib/astro/decans';
 import { PLANET_SYMBOLS } from '@/lib/astro/types';
 
 const { width: SW } = Dimensions.get('window');
@@ -442,10 +444,12 @@ export function AstralJournal({ onBack }: { onBack: () => void }) {
   const getStats = useJournalStore((s) => s.getStats);
   const location = useAstroStore((s) => s.location);
   const chartData = useAstroStore((s) => s.chartData);
+  const getChartOptions = useAstroStore((s) => s.getChartOptions);
 
   const [view, setView] = useState<JournalView>('list');
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
   const [filter, setFilter] = useState<'all' | 'rituals' | 'manual'>('all');
+  const [decanFilter, setDecanFilter] = useState<number | null>(null);
 
   // Manual entry state
   const [manualNotes, setManualNotes] = useState('');
@@ -457,14 +461,27 @@ export function AstralJournal({ onBack }: { onBack: () => void }) {
   const stats = useMemo(() => getStats(), [entries]);
 
   const filteredEntries = useMemo(() => {
-    if (filter === 'rituals') return entries.filter(e => !e.isManualEntry);
-    if (filter === 'manual') return entries.filter(e => e.isManualEntry);
-    return entries;
-  }, [entries, filter]);
+    let result = entries;
+    if (filter === 'rituals') result = result.filter(e => !e.isManualEntry);
+    if (filter === 'manual') result = result.filter(e => e.isManualEntry);
+    // An entry belongs to the decans of both lights
+    if (decanFilter !== null) result = result.filter(e => e.sunDecan === decanFilter || e.moonDecan === decanFilter);
+    return result;
+  }, [entries, filter, decanFilter]);
+
+  // Decans that occur in the journal, in zodiac order
+  const journalDecans = useMemo(() => {
+    const found = new Set<number>();
+    for (const e of entries) {
+      if (e.sunDecan) found.add(e.sunDecan);
+      if (e.moonDecan) found.add(e.moonDecan);
+    }
+    return DECANS.filter(d => found.has(d.index));
+  }, [entries]);
 
   const handleCreateManual = useCallback(() => {
     const now = new Date();
-    const hourInfo = calculatePlanetaryHours(now, location);
+    const hourInfo = calculatePlanetaryHours(now, location, getChartOptions());
     const moonInfo = calculateMoonPhase(now);
     createManualEntry(
       manualNotes,
@@ -473,13 +490,15 @@ export function AstralJournal({ onBack }: { onBack: () => void }) {
       hourInfo.dayRuler,
       hourInfo.currentHour.planet,
       moonInfo.phaseName,
+      chartData ? getZodiacLabel(chartData) : undefined,
+      chartData ? getChartDecans(chartData) : undefined,
     );
     setManualNotes('');
     setManualIntensity(null);
     setManualCondition(null);
     setView('list');
     if (Platform.OS !== ('web' as string)) Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [manualNotes, manualIntensity, manualCondition, location]);
+  }, [manualNotes, manualIntensity, manualCondition, location, chartData, getChartOptions]);
 
   const handleDeleteEntry = useCallback((id: string) => {
     if (Platform.OS === ('web' as string)) {
@@ -530,6 +549,27 @@ export function AstralJournal({ onBack }: { onBack: () => void }) {
           ))}
         </View>
 
+        {/* Decan filter */}
+        {journalDecans.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={s.decanRow}>
+            <Text style={s.decanLabel}>FACE</Text>
+            {journalDecans.map((d) => {
+              const active = decanFilter === d.index;
+              return (
+                <Pressable
+                  key={d.index}
+                  onPress={() => setDecanFilter(active ? null : d.index)}
+                  style={({ pressed }) => [s.filterTab, active && s.filterTabActive, pressed && { opacity: 0.7 }]}
+                >
+                  <Text style={[s.filterTabText, active && s.filterTabTextActive]}>
+                    {PLANET_SYMBOLS[d.ruler]} {getDecanLabel(d)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        )}
+
         {/* Entry count */}
         <Text style={s.entryCount}>{filteredEntries.length} entries</Text>
 
@@ -673,6 +713,26 @@ export function AstralJournal({ onBack }: { onBack: () => void }) {
             <Text style={s.detailValue}>{e.moonPhase}</Text>
           </View>
 
+          {e.zodiac && (
+            <View style={s.detailSection}>
+              <Text style={s.detailLabel}>ZODIAC</Text>
+              <Text style={s.detailValue}>{e.zodiac}</Text>
+            </View>
+          )}
+
+          {e.sunDecan && e.moonDecan && (
+            <View style={s.detailRow}>
+              <View style={s.detailCol}>
+                <Text style={s.detailLabel}>☉ FACE</Text>
+                <Text style={s.detailValue}>{getDecanLabel(DECANS[e.sunDecan - 1])} · {DECANS[e.sunDecan - 1].tarot.card}</Text>
+              </View>
+              <View style={s.detailCol}>
+                <Text style={s.detailLabel}>☽ FACE</Text>
+                <Text style={s.detailValue}>{getDecanLabel(DECANS[e.moonDecan - 1])} · {DECANS[e.moonDecan - 1].tarot.card}</Text>
+              </View>
+            </View>
+          )}
+
           {e.activeAspects.length > 0 && (
             <View style={s.detailSection}>
               <Text style={s.detailLabel}>ACTIVE ASPECTS</Text>
@@ -944,6 +1004,8 @@ const s = StyleSheet.create({
     borderWidth: 1, borderColor: '#222',
   },
   filterTabActive: { borderColor: '#D4AF37', backgroundColor: '#D4AF3715' },
+  decanRow: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, paddingTop: 8, gap: 8 },
+  decanLabel: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', letterSpacing: 2 },
   filterTabText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', letterSpacing: 1 },
   filterTabTextActive: { color: '#D4AF37' },
 
@@ -88,7 +88,7 @@ export function BuffHud({ report }: BuffHudProps) {
 function BuffRow({ buff }: { buff: PotencyBuff }) {
   const valueText = buff.isBase
     ? `BASE ${buff.value}%`
-    : `+ ${buff.value}%`;
+    : buff.value < 0 ? `− ${-buff.value}%` : `+ ${buff.value}%`;
 
   return (
     <View style={s.buffRow}>
@@ -0,0 +1,129 @@
+import { useMemo, useRef } from 'react';
+import { View, Text, Pressable, StyleSheet, Dimensions, Platform, Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import Svg, { Circle, Line, Text as SvgText } from 'react-native-svg';
+import { Aspect } from '@/lib/astro/aspects';
+import {
+  WheelBase, WheelRing, layoutChartWheel, renderChartWheelSvg,
+} from '@/lib/astro/chart-wheel';
+
+const { width: SW } = Dimensions.get('window');
+const WHEEL_SIZE = Math.min(SW - 48, 340);
+const EXPORT_SVG_SIZE = 600;
+const EXPORT_PNG_SIZE = 1200;   // px, enough for a printed page
+
+type ExportFormat = 'SVG' | 'PNG';
+
+const EXPORT_FORMATS: ExportFormat[] = ['SVG', 'PNG'];
+
+const EXPORT_TYPES: Record<ExportFormat, { mimeType: string; UTI: string }> = {
+  SVG: { mimeType: 'image/svg+xml', UTI: 'public.svg-image' },
+  PNG: { mimeType: 'image/png', UTI: 'public.png' },
+};
+
+interface ChartWheelProps {
+  inner: WheelBase;
+  outer?: WheelRing;
+  aspects?: Aspect[];
+  title?: string;           // names the exported file in the share sheet
+  exportable?: boolean;
+}
+
+/**
+ * Write an exported wheel to the cache directory and open the share
+ * sheet on the file. PNG content arrives base64 encoded.
+ */
+async function shareWheel(title: string, format: ExportFormat, content: string): Promise<void> {
+  try {
+    if (!(await Sharing.isAvailableAsync())) {
+      Alert.alert('Export unavailable', 'Sharing is not available on this device.');
+      return;
+    }
+    const name = title.replace(/[^\w\- ]+/g, '').trim() || 'Chart wheel';
+    const file = new File(Paths.cache, `${name}.${format.toLowerCase()}`);
+    file.create({ overwrite: true });
+    file.write(content, { encoding: format === 'PNG' ? 'base64' : 'utf8' });
+    await Sharing.shareAsync(file.uri, { ...EXPORT_TYPES[format], dialogTitle: title });
+  } catch {
+    Alert.alert('Export failed', 'The chart wheel could not be shared.');
+  }
+}
+
+/**
+ * Chart wheel of a base chart with an optional second chart on an outer
+ * ring (transits, synastry partner, natal around a return), with aspect
+ * lines and export to SVG or PNG through the share sheet.
+ */
+export function ChartWheel({ inner, outer, aspects = [], title = 'Chart wheel', exportable = true }: ChartWheelProps) {
+  const svgRef = useRef<Svg>(null);
+  const layout = useMemo(
+    () => layoutChartWheel(inner, { outer, aspects, size: WHEEL_SIZE }),
+    [inner, outer, aspects],
+  );
+  const c = layout.size / 2;
+
+  const handleExport = (format: ExportFormat) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    if (format === 'SVG') {
+      const svg = renderChartWheelSvg(layoutChartWheel(inner, { outer, aspects, size: EXPORT_SVG_SIZE }), title);
+      shareWheel(title, format, svg);
+      return;
+    }
+    svgRef.current?.toDataURL((base64) => {
+      shareWheel(title, format, base64);
+    }, { width: EXPORT_PNG_SIZE, height: EXPORT_PNG_SIZE });
+  };
+
+  // Export writes a file to share, and the web build has no file system for it
+  const canExport = exportable && Platform.OS !== 'web';
+
+  return (
+    <View style={styles.container}>
+      <Svg ref={svgRef} width={layout.size} height={layout.size}>
+        {layout.circles.map((circle, i) => (
+          <Circle key={`circle-${i}`} cx={c} cy={c} r={circle.r}
+            stroke={circle.stroke} strokeWidth={circle.strokeWidth} fill={circle.fill} />
+        ))}
+        {layout.lines.map((line, i) => (
+          <Line key={`line-${i}`} x1={line.x1} y1={line.y1} x2={line.x2} y2={line.y2}
+            stroke={line.stroke} strokeWidth={line.strokeWidth} strokeOpacity={line.opacity} />
+        ))}
+        {layout.labels.map((label, i) => (
+          <SvgText key={`label-${i}`} x={label.x} y={label.y} fill={label.color} fontSize={label.fontSize}
+            textAnchor="middle" alignmentBaseline="central">
+            {label.text}
+          </SvgText>
+        ))}
+      </Svg>
+      {canExport && (
+        <View style={styles.exportRow}>
+          <Text style={styles.exportLabel}>EXPORT</Text>
+          {EXPORT_FORMATS.map((format) => (
+            <Pressable
+              key={format}
+              onPress={() => handleExport(format)}
+              style={({ pressed }) => [styles.exportChip, pressed && { opacity: 0.7 }]}
+            >
+              <Text style={styles.exportChipText}>{format}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { alignItems: 'center', paddingVertical: 8 },
+  exportRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 6 },
+  exportLabel: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', letterSpacing: 2, marginRight: 4 },
+  exportChip: {
+    borderWidth: 1, borderColor: '#D4AF3760', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 4,
+  },
+  exportChipText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#D4AF37', letterSpacing: 1 },
+});
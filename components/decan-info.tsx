@@ -0,0 +1,45 @@
+import { Text, View, StyleSheet } from 'react-native';
+import { getDecan, getDecanLabel } from '@/lib/astro/decans';
+import { PLANET_SYMBOLS, PLANET_COLORS, ZODIAC_SYMBOLS, Sect } from '@/lib/astro/types';
+
+interface DecanInfoProps {
+  longitude: number;
+  sect: Sect;
+}
+
+/**
+ * Face of a zodiac position: ruler, tarot card, image and spirits. The
+ * spirit of the chart's sect is listed first.
+ */
+export function DecanInfo({ longitude, sect }: DecanInfoProps) {
+  const decan = getDecan(longitude);
+  const spirits = sect === 'Day'
+    ? `☉ ${decan.daySpirit} · ☽ ${decan.nightSpirit}`
+    : `☽ ${decan.nightSpirit} · ☉ ${decan.daySpirit}`;
+
+  return (
+    <View style={styles.box}>
+      <View style={styles.row}>
+        <Text style={styles.label}>FACE</Text>
+        <Text style={[styles.ruler, { color: PLANET_COLORS[decan.ruler] }]}>{PLANET_SYMBOLS[decan.ruler]}</Text>
+        <Text style={styles.value}>
+          {ZODIAC_SYMBOLS[decan.sign]} {getDecanLabel(decan)} · {decan.tarot.card}
+        </Text>
+      </View>
+      <Text style={styles.title}>{decan.tarot.title}</Text>
+      <Text style={styles.image}>{decan.image}. {decan.operations}.</Text>
+      <Text style={styles.spirits}>{spirits}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { marginTop: 8, paddingTop: 8, borderTopWidth: 1, borderTopColor: '#1A1A1A' },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  label: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', letterSpacing: 2 },
+  ruler: { fontSize: 13 },
+  value: { flex: 1, fontFamily: 'JetBrainsMono', fontSize: 10, color: '#E0E0E0' },
+  title: { fontSize: 11, color: '#D4AF37', marginTop: 4 },
+  image: { fontSize: 11, color: '#9B9B9B', fontStyle: 'italic', marginTop: 2, lineHeight: 15 },
+  spirits: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', marginTop: 4 },
+});
@@ -0,0 +1,254 @@
+// ============================================================
+// ÆONIS – Election Planner
+// Pick a talisman or Behenian star rule, toggle its conditions, search forward
+// and attach a chosen window to a rune in the wallet
+// ============================================================
+
+import { useState } from 'react';
+import { Text, View, StyleSheet, Pressable, ScrollView, Platform, ActivityIndicator } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useAstroStore } from '@/lib/astro/store';
+import { useRuneWalletStore } from '@/lib/store/rune-wallet';
+import {
+  BEHENIAN_ELECTION_PRESETS, ELECTION_PRESETS, ElectionRule, ElectionWindow, describeCondition, searchElections,
+} from '@/lib/astro/elections';
+import { PLANET_SYMBOLS, Planet } from '@/lib/astro/types';
+
+const RANGES = [7, 14, 30];
+const DAY_MS = 86400000;
+
+function formatWindow(window: ElectionWindow): string {
+  const day = window.start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (d: Date) => d.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  return `${day} · ${time(window.start)} – ${time(window.end)}`;
+}
+
+export function ElectionPlanner({ onBack }: { onBack: () => void }) {
+  const location = useAstroStore((s) => s.location);
+  const getChartOptions = useAstroStore((s) => s.getChartOptions);
+  const savedRunes = useRuneWalletStore((s) => s.savedRunes);
+  const attachElection = useRuneWalletStore((s) => s.attachElection);
+
+  const [rule, setRule] = useState<ElectionRule>(ELECTION_PRESETS[3]);
+  const [disabled, setDisabled] = useState<number[]>([]);
+  const [days, setDays] = useState(30);
+  const [results, setResults] = useState<ElectionWindow[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [attachIndex, setAttachIndex] = useState<number | null>(null);
+
+  const haptic = () => {
+    if (Platform.OS !== ('web' as string)) Haptics.selectionAsync();
+  };
+
+  const handleSelectRule = (preset: ElectionRule) => {
+    haptic();
+    setRule(preset);
+    setDisabled([]);
+    setResults(null);
+  };
+
+  const handleToggleCondition = (index: number) => {
+    haptic();
+    setDisabled(disabled.includes(index) ? disabled.filter(i => i !== index) : [...disabled, index]);
+    setResults(null);
+  };
+
+  const handleSearch = () => {
+    if (Platform.OS !== ('web' as string)) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsSearching(true);
+    setAttachIndex(null);
+    // Let the spinner render before the scan blocks the JS thread
+    setTimeout(() => {
+      const active: ElectionRule = { ...rule, conditions: rule.conditions.filter((_, i) => !disabled.includes(i)) };
+      const start = new Date();
+      try {
+        setResults(searchElections(active, start, new Date(start.getTime() + days * DAY_MS), location, {
+          chartOptions: getChartOptions(),
+        }));
+      } catch {
+        setResults([]);
+      }
+      setIsSearching(false);
+    }, 50);
+  };
+
+  const handleAttach = async (runeId: string, window: ElectionWindow) => {
+    await attachElection(runeId, {
+      ruleName: rule.name,
+      start: window.start.getTime(),
+      end: window.end.getTime(),
+      score: window.score,
+    });
+    if (Platform.OS !== ('web' as string)) Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setAttachIndex(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={onBack} style={({ pressed }) => [pressed && { opacity: 0.7 }]}>
+          <Text style={styles.backBtn}>← Sanctum</Text>
+        </Pressable>
+        <Text style={styles.title}>Elections</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={{ paddingBottom: 100 }} showsVerticalScrollIndicator={false}>
+        <Text style={styles.label}>RULE</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {ELECTION_PRESETS.map((preset) => {
+            const planet = preset.conditions[0].type === 'planetaryHour' ? preset.conditions[0].planet : null;
+            const active = preset.id === rule.id;
+            return (
+              <Pressable
+                key={preset.id}
+                onPress={() => handleSelectRule(preset)}
+                style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.7 }]}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {planet ? `${PLANET_SYMBOLS[planet as Planet]} ` : ''}{preset.name.toUpperCase()}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+
+        <Text style={styles.label}>BEHENIAN STARS</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {BEHENIAN_ELECTION_PRESETS.map((preset) => {
+            const active = preset.id === rule.id;
+            return (
+              <Pressable
+                key={preset.id}
+                onPress={() => handleSelectRule(preset)}
+                style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.7 }]}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>✶ {preset.name.toUpperCase()}</Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+
+        <Text style={styles.label}>CONDITIONS (ALL MUST HOLD)</Text>
+        <View style={styles.card}>
+          {rule.conditions.map((condition, i) => {
+            const enabled = !disabled.includes(i);
+            return (
+              <Pressable key={i} onPress={() => handleToggleCondition(i)} style={styles.conditionRow}>
+                <Text style={[styles.check, enabled && styles.checkOn]}>{enabled ? '◆' : '◇'}</Text>
+                <Text style={[styles.conditionText, !enabled && styles.conditionOff]}>{describeCondition(condition)}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Text style={styles.label}>SEARCH AHEAD</Text>
+        <View style={styles.chipRow}>
+          {RANGES.map((range) => (
+            <Pressable
+              key={range}
+              onPress={() => { haptic(); setDays(range); setResults(null); }}
+              style={({ pressed }) => [styles.chip, range === days && styles.chipActive, pressed && { opacity: 0.7 }]}
+            >
+              <Text style={[styles.chipText, range === days && styles.chipTextActive]}>{range} DAYS</Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Pressable
+          onPress={handleSearch}
+          disabled={isSearching}
+          style={({ pressed }) => [styles.searchBtn, pressed && { opacity: 0.8, transform: [{ scale: 0.97 }] }]}
+        >
+          {isSearching
+            ? <ActivityIndicator color="#D4AF37" />
+            : <Text style={styles.searchBtnText}>Search Windows</Text>}
+        </Pressable>
+
+        {results && (
+          results.length === 0 ? (
+            <Text style={styles.hint}>No window satisfies every condition in the next {days} days. Relax a condition and search again.</Text>
+          ) : (
+            results.map((window, index) => (
+              <View key={window.start.getTime()} style={styles.card}>
+                <View style={styles.windowHeader}>
+                  <Text style={styles.windowTime}>{formatWindow(window)}</Text>
+                  <Text style={styles.windowScore}>{window.score.toFixed(1)}</Text>
+                </View>
+                <Text style={styles.windowMeta}>{window.durationMinutes} min</Text>
+                {window.reasons.map((reason, i) => (
+                  <Text key={i} style={styles.reason}>✓ {reason.reason}</Text>
+                ))}
+
+                {attachIndex === index ? (
+                  savedRunes.length === 0 ? (
+                    <Text style={styles.hint}>Forge a rune first to attach this window.</Text>
+                  ) : (
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                      {savedRunes.map((rune) => (
+                        <Pressable
+                          key={rune.id}
+                          onPress={() => handleAttach(rune.id, window)}
+                          style={({ pressed }) => [styles.chip, pressed && { opacity: 0.7 }]}
+                        >
+                          <Text style={styles.chipText}>{rune.name}</Text>
+                        </Pressable>
+                      ))}
+                    </ScrollView>
+                  )
+                ) : (
+                  <Pressable
+                    onPress={() => { haptic(); setAttachIndex(index); }}
+                    style={({ pressed }) => [styles.attachBtn, pressed && { opacity: 0.7 }]}
+                  >
+                    <Text style={styles.chipTextActive}>ATTACH TO RUNE</Text>
+                  </Pressable>
+                )}
+              </View>
+            ))
+          )
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, paddingHorizontal: 16, paddingTop: 8 },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  backBtn: { fontSize: 15, color: '#D4AF37', letterSpacing: 1 },
+  title: { fontFamily: 'Cinzel', fontSize: 22, color: '#D4AF37', letterSpacing: 3 },
+  label: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', letterSpacing: 2, marginTop: 16, marginBottom: 8 },
+  chipRow: { flexDirection: 'row', gap: 6, flexWrap: 'wrap' },
+  chip: {
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 6,
+  },
+  chipActive: { borderColor: '#D4AF3760', backgroundColor: '#D4AF3710' },
+  chipText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', letterSpacing: 1 },
+  chipTextActive: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#D4AF37', letterSpacing: 1 },
+  card: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A',
+    borderRadius: 12, padding: 12, marginBottom: 8,
+  },
+  conditionRow: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 5 },
+  check: { fontSize: 12, color: '#4A4A4A' },
+  checkOn: { color: '#D4AF37' },
+  conditionText: { fontSize: 13, color: '#E0E0E0' },
+  conditionOff: { color: '#4A4A4A', textDecorationLine: 'line-through' },
+  searchBtn: {
+    backgroundColor: '#D4AF3715', borderWidth: 1, borderColor: '#D4AF3760',
+    borderRadius: 12, paddingVertical: 14, alignItems: 'center', marginVertical: 16,
+  },
+  searchBtnText: { fontFamily: 'Cinzel', fontSize: 15, color: '#D4AF37', letterSpacing: 2 },
+  windowHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  windowTime: { fontFamily: 'JetBrainsMono', fontSize: 12, color: '#E0E0E0' },
+  windowScore: { fontFamily: 'JetBrainsMono', fontSize: 14, color: '#D4AF37', fontWeight: '700' },
+  windowMeta: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', marginTop: 2, marginBottom: 6 },
+  reason: { fontSize: 11, color: '#9B9B9B', marginTop: 2 },
+  attachBtn: {
+    alignSelf: 'flex-start', marginTop: 8, borderWidth: 1, borderColor: '#D4AF3740',
+    borderRadius: 8, paddingHorizontal: 10, paddingVertical: 5,
+  },
+  hint: { fontSize: 12, color: '#6B6B6B', fontStyle: 'italic', textAlign: 'center', marginVertical: 12 },
+});
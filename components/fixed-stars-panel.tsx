@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { Text, View, StyleSheet, Pressable, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { longitudeToSign } from '@/lib/astro/engine';
+import { getAspectBodyColor, getAspectBodyName, getAspectBodySymbol } from '@/lib/astro/aspects';
+import {
+  BEHENIAN_STARS, ParanAngle, calculateParans, findHeliacalEvents, findStarConjunctions,
+} from '@/lib/astro/fixed-stars';
+import { ChartData, PLANET_SYMBOLS, PLANET_COLORS, ZODIAC_SYMBOLS } from '@/lib/astro/types';
+
+const ORB_OPTIONS = [1, 2, 3];
+const MAX_PARANS = 12;
+
+const PARAN_LABELS: Record<ParanAngle, string> = {
+  Rising: 'rising',
+  Culminating: 'culminating',
+  Setting: 'setting',
+  AntiCulminating: 'on the IC',
+};
+
+function formatZodiacPosition(longitude: number): string {
+  const { sign, degree, minute } = longitudeToSign(longitude);
+  return `${ZODIAC_SYMBOLS[sign]} ${degree}°${minute.toString().padStart(2, '0')}'`;
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '—';
+}
+
+interface FixedStarsPanelProps {
+  chartData: ChartData;
+}
+
+export function FixedStarsPanel({ chartData }: FixedStarsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [orb, setOrb] = useState(1);
+
+  // Computed only while open
+  const conjunctions = useMemo(
+    () => (expanded ? findStarConjunctions(chartData, orb) : []),
+    [expanded, chartData, orb],
+  );
+  const parans = useMemo(
+    () => (expanded ? calculateParans(chartData).slice(0, MAX_PARANS) : []),
+    [expanded, chartData],
+  );
+  const heliacal = useMemo(() => {
+    if (!expanded) return [];
+    const year = chartData.timestamp.getFullYear();
+    const location = { latitude: chartData.latitude, longitude: chartData.longitude };
+    return BEHENIAN_STARS.map(star => findHeliacalEvents(star, year, location));
+  }, [expanded, chartData]);
+
+  const handleOrb = (value: number) => {
+    if (Platform.OS !== ('web' as string)) Haptics.selectionAsync();
+    setOrb(value);
+  };
+
+  return (
+    <View style={styles.section}>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        style={({ pressed }) => [styles.header, pressed && { opacity: 0.8 }]}
+      >
+        <Text style={styles.title}>Fixed Stars</Text>
+        <Text style={styles.toggle}>
+          {expanded ? '▼' : '▶'} {expanded
+            ? `${conjunctions.length} conjunction${conjunctions.length === 1 ? '' : 's'} within ${orb}°`
+            : 'Conjunctions, parans & heliacal dates'}
+        </Text>
+      </Pressable>
+
+      {expanded && (
+        <View style={styles.body}>
+          <View style={styles.chipRow}>
+            <Text style={styles.chipLabel}>ORB</Text>
+            {ORB_OPTIONS.map((value) => (
+              <Pressable
+                key={value}
+                onPress={() => handleOrb(value)}
+                style={({ pressed }) => [styles.chip, value === orb && styles.chipActive, pressed && { opacity: 0.7 }]}
+              >
+                <Text style={[styles.chipText, value === orb && styles.chipTextActive]}>{value}°</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.groupLabel}>CONJUNCTIONS</Text>
+          {conjunctions.length === 0 ? (
+            <Text style={styles.hint}>No star within {orb}° of a planet or angle.</Text>
+          ) : (
+            conjunctions.map((c) => (
+              <View key={`${c.star.id}-${c.body}`} style={styles.contactRow}>
+                <Text style={[styles.glyph, { color: getAspectBodyColor(c.body) }]}>{getAspectBodySymbol(c.body)}</Text>
+                <Text style={styles.aspectGlyph}>☌</Text>
+                <Text style={styles.contactName}>
+                  {getAspectBodyName(c.body)} · {c.star.name}{c.star.behenian ? ' ✶' : ''} {formatZodiacPosition(c.starLongitude)}
+                </Text>
+                <Text style={styles.contactOrb}>{c.orb.toFixed(2)}°</Text>
+              </View>
+            ))
+          )}
+
+          <Text style={styles.groupLabel}>PARANS · {Math.abs(chartData.latitude).toFixed(1)}°{chartData.latitude >= 0 ? 'N' : 'S'}</Text>
+          {parans.length === 0 ? (
+            <Text style={styles.hint}>No star shares an angle with a planet today.</Text>
+          ) : (
+            parans.map((p) => (
+              <View key={`${p.star.id}-${p.starAngle}-${p.planet}-${p.planetAngle}`} style={styles.contactRow}>
+                <Text style={[styles.glyph, { color: PLANET_COLORS[p.planet] }]}>{PLANET_SYMBOLS[p.planet]}</Text>
+                <Text style={styles.contactName}>
+                  {p.planet} {PARAN_LABELS[p.planetAngle]} as {p.star.name} is {PARAN_LABELS[p.starAngle]}
+                </Text>
+                <Text style={styles.contactOrb}>{Math.round(p.orb * 4)}m</Text>
+              </View>
+            ))
+          )}
+          <Text style={styles.note}>Orb in minutes of sidereal time</Text>
+
+          <Text style={styles.groupLabel}>HELIACAL · {chartData.timestamp.getFullYear()}</Text>
+          {heliacal.map((h) => (
+            <View key={h.star.id} style={styles.row}>
+              <Text style={styles.rowLabel}>{h.star.name}</Text>
+              <Text style={styles.rowValue}>
+                {h.visibility === 'Circumpolar' ? 'Circumpolar'
+                  : h.visibility === 'NeverRises' ? 'Never rises'
+                    : `↑ ${formatDate(h.rising)}  ↓ ${formatDate(h.setting)}`}
+              </Text>
+            </View>
+          ))}
+          <Text style={styles.note}>↑ first morning rising before the Sun · ↓ last evening setting after it</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginHorizontal: 16, marginBottom: 8 },
+  header: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A',
+    borderRadius: 12, padding: 14,
+  },
+  title: { fontFamily: 'Cinzel', fontSize: 16, color: '#E0E0E0', letterSpacing: 2 },
+  toggle: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#6B6B6B', marginTop: 4 },
+  body: {
+    backgroundColor: '#0A0A0A', borderWidth: 1, borderColor: '#1A1A1A',
+    borderTopWidth: 0, borderBottomLeftRadius: 12, borderBottomRightRadius: 12, padding: 8,
+  },
+  chipRow: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: 8, marginTop: 4 },
+  chipLabel: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', letterSpacing: 2, marginRight: 4 },
+  chip: {
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 4,
+  },
+  chipActive: { borderColor: '#D4AF3760', backgroundColor: '#D4AF3710' },
+  chipText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B' },
+  chipTextActive: { color: '#D4AF37' },
+  groupLabel: {
+    fontFamily: 'JetBrainsMono', fontSize: 10, color: '#D4AF37', letterSpacing: 2,
+    marginTop: 10, marginBottom: 4, paddingHorizontal: 8,
+  },
+  row: {
+    flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center',
+    paddingVertical: 5, paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  rowLabel: { fontSize: 12, color: '#E0E0E0' },
+  rowValue: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#E0E0E0' },
+  note: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', paddingHorizontal: 8, marginVertical: 4 },
+  contactRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    paddingVertical: 6, paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  glyph: { fontSize: 14 },
+  aspectGlyph: { fontSize: 12, color: '#D4AF37' },
+  contactName: { flex: 1, fontSize: 11, color: '#E0E0E0', marginLeft: 4 },
+  contactOrb: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B' },
+  hint: { fontSize: 11, color: '#6B6B6B', margin: 8, fontStyle: 'italic' },
+});
@@ -32,7 +32,10 @@ import { useRuneWalletStore, type SavedRune } from '@/lib/store/rune-wallet';
 import { generateBindruneData, ELDER_FUTHARK, type BindruneRenderData } from '@/lib/runes/futhark';
 import { useJournalStore, type PendingJournalData } from '@/lib/journal/store';
 import { calculatePlanetaryHours, calculateMoonPhase } from '@/lib/astro/planetary-hours';
-import { getMajorAspects } from '@/lib/astro/aspects';
+import { getMajorAspects, formatAspectTiming } from '@/lib/astro/aspects';
+import { getChartObserver } from '@/lib/astro/engine';
+import { getZodiacLabel } from '@/lib/astro/ayanamsa';
+import { getChartDecans } from '@/lib/astro/decans';
 import { useAstroStore } from '@/lib/astro/store';
 import { PLANET_SYMBOLS } from '@/lib/astro/types';
 
@@ -368,21 +371,23 @@ export function GnosisTerminal({ onBack }: GnosisTerminalProps) {
 
     // Prepare journal data
     const now = new Date();
-    const defaultLoc = { latitude: 51.5074, longitude: -0.1278 };
+    const { location, getChartOptions } = useAstroStore.getState();
     let dayRuler = 'Unknown';
     let hourRuler = 'Unknown';
     try {
-      const hourInfo = calculatePlanetaryHours(now, defaultLoc);
+      const hourInfo = calculatePlanetaryHours(now, location, getChartOptions());
       dayRuler = hourInfo.dayRuler;
       hourRuler = hourInfo.currentHour.planet;
     } catch {}
 
     const moonPhase = calculateMoonPhase(now);
-    const aspects = chartData ? getMajorAspects(chartData.planets) : [];
+    const aspects = chartData
+      ? getMajorAspects(chartData.planets, undefined, chartData.timestamp, { topocentric: getChartObserver(chartData) })
+      : [];
     const aspectStrings = aspects.map((a) => {
       const p1 = PLANET_SYMBOLS[a.planet1 as keyof typeof PLANET_SYMBOLS] || a.planet1;
       const p2 = PLANET_SYMBOLS[a.planet2 as keyof typeof PLANET_SYMBOLS] || a.planet2;
-      return `${a.planet1} ${p1} ${a.type} ${a.planet2} ${p2}`;
+      return `${a.planet1} ${p1} ${a.type} ${a.planet2} ${p2} ${formatAspectTiming(a)}`;
     });
 
     const pendingData: PendingJournalData = {
@@ -397,6 +402,8 @@ export function GnosisTerminal({ onBack }: GnosisTerminalProps) {
       rulerOfHour: hourRuler,
       moonPhase: moonPhase.phaseName,
       activeAspects: aspectStrings,
+      zodiac: chartData ? getZodiacLabel(chartData) : undefined,
+      ...(chartData ? getChartDecans(chartData) : {}),
     };
 
     setPendingData(pendingData);
@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import { Text, View, StyleSheet, Pressable, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useAstroStore } from '@/lib/astro/store';
+import { useHourPlannerStore } from '@/lib/store/hour-planner-store';
+import { getPlanetaryDays, LEAD_MINUTE_OPTIONS, PLANNER_DAYS } from '@/lib/astro/hour-planner';
+import { Planet, PLANET_SYMBOLS, PLANET_COLORS } from '@/lib/astro/types';
+
+const HOUR_PLANETS: Planet[] = ['Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon'];
+const HOUR_MS = 3600000;
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' });
+}
+
+function tap() {
+  if (Platform.OS !== ('web' as string)) Haptics.selectionAsync();
+}
+
+export function HourPlanner() {
+  const date = useAstroStore((s) => s.date);
+  const location = useAstroStore((s) => s.location);
+  const hourSystem = useAstroStore((s) => s.hourSystem);
+  const polarHourMethod = useAstroStore((s) => s.polarHourMethod);
+  const starredPlanets = useHourPlannerStore((s) => s.starredPlanets);
+  const leadMinutes = useHourPlannerStore((s) => s.leadMinutes);
+  const notificationsEnabled = useHourPlannerStore((s) => s.notificationsEnabled);
+  const scheduledCount = useHourPlannerStore((s) => s.scheduledCount);
+  const permissionDenied = useHourPlannerStore((s) => s.permissionDenied);
+  const toggleStar = useHourPlannerStore((s) => s.toggleStar);
+  const setLeadMinutes = useHourPlannerStore((s) => s.setLeadMinutes);
+  const setNotificationsEnabled = useHourPlannerStore((s) => s.setNotificationsEnabled);
+  const [expanded, setExpanded] = useState(false);
+  const [dayIndex, setDayIndex] = useState(0);
+
+  // Computed only while open, once an hour rather than on every clock tick
+  const hourKey = Math.floor(date.getTime() / HOUR_MS);
+  const days = useMemo(
+    () => (expanded
+      ? getPlanetaryDays(new Date(hourKey * HOUR_MS), location, PLANNER_DAYS, { hourSystem, polarHourMethod })
+      : []),
+    [expanded, hourKey, location, hourSystem, polarHourMethod],
+  );
+  const day = days[Math.min(dayIndex, days.length - 1)];
+  const now = date.getTime();
+
+  return (
+    <View style={styles.section}>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        style={({ pressed }) => [styles.header, pressed && { opacity: 0.8 }]}
+      >
+        <Text style={styles.title}>Hour Planner</Text>
+        <Text style={styles.toggle}>
+          {expanded ? '▼' : '▶'} {notificationsEnabled && scheduledCount > 0
+            ? `${scheduledCount} reminder${scheduledCount === 1 ? '' : 's'} this week`
+            : `Planetary hours for the next ${PLANNER_DAYS} days`}
+        </Text>
+      </Pressable>
+
+      {expanded && day && (
+        <View style={styles.body}>
+          <Text style={styles.groupLabel}>STARRED PLANETS</Text>
+          <View style={styles.chipRow}>
+            {HOUR_PLANETS.map((planet) => {
+              const starred = starredPlanets.includes(planet);
+              return (
+                <Pressable
+                  key={planet}
+                  onPress={() => { tap(); toggleStar(planet); }}
+                  style={({ pressed }) => [
+                    styles.chip, starred && { borderColor: PLANET_COLORS[planet], backgroundColor: PLANET_COLORS[planet] + '15' },
+                    pressed && { opacity: 0.7 },
+                  ]}
+                >
+                  <Text style={[styles.chipGlyph, { color: starred ? PLANET_COLORS[planet] : '#6B6B6B' }]}>
+                    {PLANET_SYMBOLS[planet]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Text style={styles.groupLabel}>REMINDERS</Text>
+          <View style={styles.chipRow}>
+            <Pressable
+              onPress={() => { tap(); setNotificationsEnabled(!notificationsEnabled); }}
+              style={({ pressed }) => [styles.chip, notificationsEnabled && styles.chipActive, pressed && { opacity: 0.7 }]}
+            >
+              <Text style={[styles.chipText, notificationsEnabled && styles.chipTextActive]}>
+                {notificationsEnabled ? 'ON' : 'OFF'}
+              </Text>
+            </Pressable>
+            {LEAD_MINUTE_OPTIONS.map((minutes) => (
+              <Pressable
+                key={minutes}
+                onPress={() => { tap(); setLeadMinutes(minutes); }}
+                style={({ pressed }) => [styles.chip, minutes === leadMinutes && styles.chipActive, pressed && { opacity: 0.7 }]}
+              >
+                <Text style={[styles.chipText, minutes === leadMinutes && styles.chipTextActive]}>
+                  {minutes === 0 ? 'at start' : `${minutes}m`}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          {permissionDenied ? (
+            <Text style={styles.hint}>Notifications are blocked. Allow them in the system settings.</Text>
+          ) : Platform.OS === ('web' as string) ? (
+            <Text style={styles.hint}>Reminders are available in the mobile app.</Text>
+          ) : starredPlanets.length === 0 ? (
+            <Text style={styles.hint}>Star a planet to be reminded before each of its hours.</Text>
+          ) : null}
+
+          <View style={[styles.chipRow, styles.dayRow]}>
+            {days.map((d, i) => (
+              <Pressable
+                key={d.solarDay.sunrise.getTime()}
+                onPress={() => { tap(); setDayIndex(i); }}
+                style={({ pressed }) => [styles.dayChip, d === day && styles.chipActive, pressed && { opacity: 0.7 }]}
+              >
+                <Text style={[styles.chipGlyph, { color: PLANET_COLORS[d.dayRuler] }]}>{PLANET_SYMBOLS[d.dayRuler]}</Text>
+                <Text style={[styles.dayText, d === day && styles.chipTextActive]}>{formatDay(d.solarDay.sunrise)}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {day.allHours.map((hour) => {
+            const starred = starredPlanets.includes(hour.planet);
+            const current = now >= hour.startTime.getTime() && now < hour.endTime.getTime();
+            return (
+              <Pressable
+                key={hour.hourNumber}
+                onPress={() => { tap(); toggleStar(hour.planet); }}
+                style={({ pressed }) => [styles.hourRow, current && styles.hourRowCurrent, pressed && { opacity: 0.7 }]}
+              >
+                <Text style={styles.hourTime}>{formatTime(hour.startTime)}–{formatTime(hour.endTime)}</Text>
+                <Text style={[styles.glyph, { color: PLANET_COLORS[hour.planet] }]}>{PLANET_SYMBOLS[hour.planet]}</Text>
+                <Text style={styles.hourName}>{hour.planet}</Text>
+                <Text style={styles.hourMeta}>{hour.isDayHour ? '☉' : '☽'} {hour.hourNumber}</Text>
+                <Text style={[styles.star, starred && { color: '#D4AF37' }]}>{starred ? '★' : '☆'}</Text>
+              </Pressable>
+            );
+          })}
+          {day.solarDay.polar && (
+            <Text style={styles.note}>
+              {day.solarDay.polar === 'MidnightSun' ? 'Midnight sun' : 'Polar night'}: hours follow the polar method in Settings
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginTop: 12, marginBottom: 4 },
+  header: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A',
+    borderRadius: 12, padding: 14,
+  },
+  title: { fontFamily: 'Cinzel', fontSize: 16, color: '#E0E0E0', letterSpacing: 2 },
+  toggle: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#6B6B6B', marginTop: 4 },
+  body: {
+    backgroundColor: '#0A0A0A', borderWidth: 1, borderColor: '#1A1A1A',
+    borderTopWidth: 0, borderBottomLeftRadius: 12, borderBottomRightRadius: 12, padding: 8,
+  },
+  groupLabel: {
+    fontFamily: 'JetBrainsMono', fontSize: 10, color: '#D4AF37', letterSpacing: 2,
+    marginTop: 10, marginBottom: 4, paddingHorizontal: 8,
+  },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: 6, paddingHorizontal: 8 },
+  dayRow: { marginTop: 12, marginBottom: 6 },
+  chip: {
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 4,
+  },
+  chipActive: { borderColor: '#D4AF3760', backgroundColor: '#D4AF3710' },
+  chipText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B' },
+  chipTextActive: { color: '#D4AF37' },
+  chipGlyph: { fontSize: 14 },
+  dayChip: {
+    alignItems: 'center', borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 6, paddingVertical: 4,
+  },
+  dayText: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', marginTop: 2 },
+  hourRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    paddingVertical: 6, paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  hourRowCurrent: { backgroundColor: '#D4AF3710' },
+  hourTime: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', width: 118 },
+  glyph: { fontSize: 14 },
+  hourName: { flex: 1, fontSize: 12, color: '#E0E0E0' },
+  hourMeta: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B' },
+  star: { fontSize: 14, color: '#333', marginLeft: 4 },
+  hint: { fontSize: 11, color: '#6B6B6B', margin: 8, fontStyle: 'italic' },
+  note: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', paddingHorizontal: 8, marginVertical: 6 },
+});
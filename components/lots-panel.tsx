@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { Text, View, StyleSheet, Pressable, TextInput, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useAstroStore } from '@/lib/astro/store';
+import { useNatalStore } from '@/lib/store/natal-store';
+import { LOT_DEFINITIONS, parseLotFormula } from '@/lib/astro/lots';
+import {
+  ChartData, LotCategory, LotPosition, PLANET_SYMBOLS, PLANET_COLORS, ZODIAC_SYMBOLS,
+} from '@/lib/astro/types';
+
+const CATEGORY_ORDER: LotCategory[] = ['Hermetic', 'Medieval', 'Custom'];
+
+interface LotsPanelProps {
+  chartData: ChartData;
+}
+
+export function LotsPanel({ chartData }: LotsPanelProps) {
+  const customLots = useAstroStore((s) => s.customLots);
+  const addCustomLot = useAstroStore((s) => s.addCustomLot);
+  const removeCustomLot = useAstroStore((s) => s.removeCustomLot);
+  const [expanded, setExpanded] = useState(false);
+  const [name, setName] = useState('');
+  const [formula, setFormula] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const grouped = useMemo(() => {
+    const groups: Partial<Record<LotCategory, LotPosition[]>> = {};
+    for (const lot of chartData.lots) {
+      (groups[lot.category] ??= []).push(lot);
+    }
+    return groups;
+  }, [chartData.lots]);
+
+  const handleAdd = () => {
+    const result = parseLotFormula(name, formula, [...LOT_DEFINITIONS, ...customLots]);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    if (Platform.OS !== ('web' as string)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    addCustomLot(result.definition);
+    useNatalStore.getState().calculateNatalChart();
+    setName('');
+    setFormula('');
+    setError(null);
+  };
+
+  const handleRemove = (id: string) => {
+    if (Platform.OS !== ('web' as string)) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    removeCustomLot(id);
+    useNatalStore.getState().calculateNatalChart();
+  };
+
+  return (
+    <View style={styles.section}>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        style={({ pressed }) => [styles.header, pressed && { opacity: 0.8 }]}
+      >
+        <Text style={styles.title}>Lots</Text>
+        <Text style={styles.toggle}>
+          {expanded ? '▼' : '▶'} {chartData.lots.length} lots · {chartData.sect} chart
+        </Text>
+      </Pressable>
+
+      {expanded && (
+        <View style={styles.body}>
+          {CATEGORY_ORDER.filter(c => grouped[c]?.length).map((category) => (
+            <View key={category}>
+              <Text style={styles.categoryLabel}>{category.toUpperCase()}</Text>
+              {grouped[category]!.map((lot) => (
+                <View key={lot.id} style={styles.lotRow}>
+                  <View style={styles.lotInfo}>
+                    <Text style={styles.lotName}>{lot.name}</Text>
+                    <Text style={styles.lotFormula}>
+                      {lot.formula}{lot.isReversed ? ' · night' : ''}
+                    </Text>
+                  </View>
+                  <View style={styles.lotPositionCol}>
+                    <Text style={styles.lotPosition}>
+                      {ZODIAC_SYMBOLS[lot.sign]} {lot.signDegree}°
+                    </Text>
+                    <Text style={styles.lotRuler}>
+                      <Text style={{ color: PLANET_COLORS[lot.ruler] }}>{PLANET_SYMBOLS[lot.ruler]}</Text>
+                      {lot.rulerSign ? ` ${ZODIAC_SYMBOLS[lot.rulerSign]}` : ''}
+                      {lot.rulerHouse ? ` H${lot.rulerHouse}` : ''}
+                    </Text>
+                  </View>
+                  {lot.category === 'Custom' && (
+                    <Pressable
+                      onPress={() => handleRemove(lot.id)}
+                      hitSlop={8}
+                      style={({ pressed }) => [styles.removeBtn, pressed && { opacity: 0.6 }]}
+                    >
+                      <Text style={styles.removeText}>✕</Text>
+                    </Pressable>
+                  )}
+                </View>
+              ))}
+            </View>
+          ))}
+
+          <Text style={styles.categoryLabel}>NEW LOT</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Name (e.g. Lot of Love)"
+            placeholderTextColor="#333"
+          />
+          <TextInput
+            style={styles.input}
+            value={formula}
+            onChangeText={(text) => { setFormula(text); setError(null); }}
+            placeholder="ASC + Venus − Saturn, reverse by night"
+            placeholderTextColor="#333"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          <Pressable
+            onPress={handleAdd}
+            style={({ pressed }) => [styles.addBtn, pressed && { opacity: 0.7 }]}
+          >
+            <Text style={styles.addBtnText}>Add Lot</Text>
+          </Pressable>
+          <Text style={styles.hint}>
+            Points: planets, ASC/MC/DSC/IC, house cusps (H8) and other lots (Fortune, Spirit, …)
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginHorizontal: 16, marginBottom: 8 },
+  header: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A',
+    borderRadius: 12, padding: 14,
+  },
+  title: { fontFamily: 'Cinzel', fontSize: 16, color: '#E0E0E0', letterSpacing: 2 },
+  toggle: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#6B6B6B', marginTop: 4 },
+  body: {
+    backgroundColor: '#0A0A0A', borderWidth: 1, borderColor: '#1A1A1A',
+    borderTopWidth: 0, borderBottomLeftRadius: 12, borderBottomRightRadius: 12, padding: 8,
+  },
+  categoryLabel: {
+    fontFamily: 'JetBrainsMono', fontSize: 9, color: '#D4AF37', letterSpacing: 2,
+    marginTop: 8, marginBottom: 4, paddingHorizontal: 8,
+  },
+  lotRow: {
+    flexDirection: 'row', alignItems: 'center', paddingVertical: 6,
+    paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  lotInfo: { flex: 1 },
+  lotName: { fontSize: 12, color: '#E0E0E0', fontWeight: '600' },
+  lotFormula: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', marginTop: 2 },
+  lotPositionCol: { alignItems: 'flex-end', marginLeft: 8 },
+  lotPosition: { fontFamily: 'JetBrainsMono', fontSize: 12, color: '#E0E0E0' },
+  lotRuler: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', marginTop: 2 },
+  removeBtn: { marginLeft: 10, padding: 4 },
+  removeText: { fontSize: 12, color: '#EF4444' },
+  input: {
+    backgroundColor: '#050505', borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 12, paddingVertical: 8, color: '#E0E0E0',
+    fontFamily: 'JetBrainsMono', fontSize: 12, marginBottom: 6, marginHorizontal: 4,
+  },
+  errorText: { fontSize: 11, color: '#EF4444', marginHorizontal: 8, marginBottom: 6 },
+  addBtn: {
+    borderWidth: 1, borderColor: '#D4AF3760', backgroundColor: '#D4AF3710', borderRadius: 8,
+    paddingVertical: 8, alignItems: 'center', marginHorizontal: 4,
+  },
+  addBtnText: { fontSize: 12, color: '#D4AF37', fontWeight: '700', letterSpacing: 1 },
+  hint: { fontSize: 10, color: '#6B6B6B', marginTop: 6, marginHorizontal: 8, fontStyle: 'italic' },
+});
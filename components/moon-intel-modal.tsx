@@ -1,10 +1,14 @@
 // ============================================================
 // ÆONIS – Moon Intel Modal
 // Dark-themed modal showing moon phase details, zodiac position,
+// void-of-course status, upcoming ingresses, the lunar mansion
 // and magickal affinity for the current lunar phase.
 // ============================================================
 
 import { View, Text, Modal, Pressable, StyleSheet, ScrollView } from 'react-native';
+import { VoidOfCoursePeriod } from '@/lib/astro/void-of-course';
+import { LunarMansionPosition } from '@/lib/astro/lunar-mansions';
+import { ZODIAC_SYMBOLS } from '@/lib/astro/types';
 
 export interface MoonIntelData {
   phaseName: string;
@@ -13,6 +17,9 @@ export interface MoonIntelData {
   zodiacSign?: string;
   zodiacSymbol?: string;
   zodiacDegree?: string;
+  isVoidOfCourse?: boolean;
+  voidPeriods?: VoidOfCoursePeriod[];   // current sign passage first
+  mansion?: LunarMansionPosition;
 }
 
 interface MoonIntelModalProps {
@@ -58,6 +65,18 @@ const PHASE_AFFINITY: Record<string, { intents: string[]; description: string }>
   },
 };
 
+function formatMoment(date: Date): string {
+  const day = date.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' });
+  const time = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  return `${day} ${time}`;
+}
+
+function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+}
+
 function getPhaseAffinity(phaseName: string): { intents: string[]; description: string } {
   // Try exact match first, then partial match
   if (PHASE_AFFINITY[phaseName]) return PHASE_AFFINITY[phaseName];
@@ -77,6 +96,7 @@ export function MoonIntelModal({ visible, onClose, data }: MoonIntelModalProps)
   if (!data) return null;
 
   const affinity = getPhaseAffinity(data.phaseName);
+  const currentPassage = data.voidPeriods?.[0];
 
   return (
     <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
@@ -105,8 +125,71 @@ export function MoonIntelModal({ visible, onClose, data }: MoonIntelModalProps)
                   </Text>
                 </View>
               )}
+              {currentPassage && (
+                <View style={s.detailRow}>
+                  <Text style={s.detailLabel}>VOID OF COURSE</Text>
+                  <Text style={[s.detailValue, data.isVoidOfCourse && s.voidValue]}>
+                    {data.isVoidOfCourse
+                      ? `Until ${formatMoment(currentPassage.end)}`
+                      : `From ${formatMoment(currentPassage.start)}`}
+                  </Text>
+                </View>
+              )}
+              {currentPassage?.lastAspect && !data.isVoidOfCourse && (
+                <Text style={s.voidHint}>
+                  Last aspect: {currentPassage.lastAspect.type.toLowerCase()} {currentPassage.lastAspect.planet}
+                </Text>
+              )}
             </View>
 
+            {/* Lunar Mansion Section */}
+            {data.mansion && (
+              <View style={s.section}>
+                <Text style={s.sectionHeader}>[ LUNAR MANSION ]</Text>
+                <Text style={s.mansionName}>
+                  {data.mansion.mansion.number}. {data.mansion.mansion.name}
+                </Text>
+                <Text style={s.voidHint}>
+                  {data.mansion.mansion.translation.toUpperCase()} · {data.mansion.mansion.nature.toUpperCase()}
+                </Text>
+                <Text style={s.mansionImage}>{data.mansion.mansion.image}</Text>
+                {data.mansion.mansion.favoured.length > 0 && (
+                  <Text style={s.mansionOps}>
+                    <Text style={s.mansionFavoured}>FAVOURS </Text>
+                    {data.mansion.mansion.favoured.join(' · ')}
+                  </Text>
+                )}
+                {data.mansion.mansion.forbidden.length > 0 && (
+                  <Text style={s.mansionOps}>
+                    <Text style={s.mansionForbidden}>AVOID </Text>
+                    {data.mansion.mansion.forbidden.join(' · ')}
+                  </Text>
+                )}
+                <View style={s.detailRow}>
+                  <Text style={s.detailLabel}>NEXT · {data.mansion.next.name.toUpperCase()}</Text>
+                  <Text style={s.ingressTime}>in {formatDuration(data.mansion.msUntilNext)}</Text>
+                </View>
+              </View>
+            )}
+
+            {/* Ingress Timetable Section */}
+            {data.voidPeriods && data.voidPeriods.length > 0 && (
+              <View style={s.section}>
+                <Text style={s.sectionHeader}>[ MOON INGRESSES ]</Text>
+                {data.voidPeriods.map((period) => (
+                  <View key={period.end.getTime()} style={s.detailRow}>
+                    <View>
+                      <Text style={s.detailValue}>
+                        {ZODIAC_SYMBOLS[period.nextSign]} {period.nextSign}
+                      </Text>
+                      <Text style={s.voidHint}>void from {formatMoment(period.start)}</Text>
+                    </View>
+                    <Text style={s.ingressTime}>{formatMoment(period.end)}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {/* Magickal Affinity Section */}
             <View style={s.section}>
               <Text style={s.sectionHeader}>[ MAGICKAL AFFINITY ]</Text>
@@ -204,6 +287,51 @@ const s = StyleSheet.create({
     color: '#E0E0E0',
     fontWeight: '600',
   },
+  voidValue: {
+    color: '#EF4444',
+  },
+  voidHint: {
+    fontFamily: 'JetBrainsMono',
+    fontSize: 10,
+    color: '#6B6B6B',
+    marginTop: 4,
+  },
+  ingressTime: {
+    fontFamily: 'JetBrainsMono',
+    fontSize: 12,
+    color: '#C0C0C0',
+  },
+  mansionName: {
+    fontFamily: 'Cinzel',
+    fontSize: 16,
+    color: '#C0C0C0',
+    letterSpacing: 1,
+  },
+  mansionImage: {
+    fontSize: 13,
+    color: '#A3A3A3',
+    fontStyle: 'italic',
+    lineHeight: 20,
+    marginVertical: 10,
+  },
+  mansionOps: {
+    fontSize: 12,
+    color: '#E0E0E0',
+    lineHeight: 18,
+    marginBottom: 6,
+  },
+  mansionFavoured: {
+    fontFamily: 'JetBrainsMono',
+    fontSize: 10,
+    color: '#22C55E',
+    letterSpacing: 1,
+  },
+  mansionForbidden: {
+    fontFamily: 'JetBrainsMono',
+    fontSize: 10,
+    color: '#EF4444',
+    letterSpacing: 1,
+  },
   intentRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
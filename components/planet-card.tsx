@@ -3,6 +3,7 @@ import {
   PlanetPosition, EssentialDignity, PlanetCondition, Sect,
   PLANET_SYMBOLS, ZODIAC_SYMBOLS, PLANET_COLORS, Planet,
 } from '@/lib/astro/types';
+import { DecanInfo } from '@/components/decan-info';
 
 interface PlanetCardProps {
   position: PlanetPosition;
@@ -96,6 +97,8 @@ export function PlanetCard({ position, dignity, condition, sect }: PlanetCardPro
           </>
         )}
       </View>
+
+      <DecanInfo longitude={position.longitude} sect={sect} />
     </View>
   );
 }
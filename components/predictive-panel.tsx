@@ -0,0 +1,197 @@
+import { useMemo, useState } from 'react';
+import { Text, View, StyleSheet, Pressable } from 'react-native';
+import { useNatalStore } from '@/lib/store/natal-store';
+import { useAstroStore } from '@/lib/astro/store';
+import { longitudeToSign } from '@/lib/astro/engine';
+import {
+  calculateProfection, calculateProgressedChart, calculateSolarArcDirections,
+} from '@/lib/astro/progressions';
+import {
+  Aspect, getAspectBodyColor, getAspectBodyName, getAspectBodySymbol, getAspectSymbol,
+} from '@/lib/astro/aspects';
+import { LotPosition, PLANET_SYMBOLS, PLANET_COLORS, ZODIAC_SYMBOLS, Planet } from '@/lib/astro/types';
+
+const PROGRESSED_PLANETS: Planet[] = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars'];
+
+function formatZodiacPosition(longitude: number): string {
+  const { sign, degree, minute } = longitudeToSign(longitude);
+  return `${ZODIAC_SYMBOLS[sign]} ${degree}°${minute.toString().padStart(2, '0')}'`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function ordinal(n: number): string {
+  if (n === 1) return '1st';
+  if (n === 2) return '2nd';
+  if (n === 3) return '3rd';
+  return `${n}th`;
+}
+
+function ContactList({ contacts, prefix, lots }: { contacts: Aspect[]; prefix: string; lots: LotPosition[] }) {
+  if (contacts.length === 0) {
+    return <Text style={styles.hint}>No contacts to the natal chart within 1°.</Text>;
+  }
+  return (
+    <>
+      {contacts.map((aspect, i) => (
+        <View key={`${aspect.planet1}-${aspect.type}-${aspect.planet2}-${i}`} style={styles.contactRow}>
+          <Text style={[styles.glyph, { color: getAspectBodyColor(aspect.planet1) }]}>
+            {getAspectBodySymbol(aspect.planet1)}
+          </Text>
+          <Text style={styles.aspectGlyph}>{getAspectSymbol(aspect.type)}</Text>
+          <Text style={[styles.glyph, { color: getAspectBodyColor(aspect.planet2) }]}>
+            {getAspectBodySymbol(aspect.planet2)}
+          </Text>
+          <Text style={styles.contactName}>
+            {prefix} {getAspectBodyName(aspect.planet1, lots)} {aspect.type.toLowerCase()} natal {getAspectBodyName(aspect.planet2, lots)}
+          </Text>
+          <Text style={styles.contactOrb}>
+            {aspect.orb.toFixed(2)}° {aspect.status === 'Applying' ? 'A' : 'S'}
+          </Text>
+        </View>
+      ))}
+    </>
+  );
+}
+
+export function PredictivePanel() {
+  const natalChart = useNatalStore((s) => s.natalChart);
+  const date = useAstroStore((s) => s.date);
+  const getChartOptions = useAstroStore((s) => s.getChartOptions);
+  const [expanded, setExpanded] = useState(false);
+
+  // Computed only while open; follows the chart date
+  const result = useMemo(() => {
+    if (!expanded || !natalChart || date.getTime() < natalChart.timestamp.getTime()) return null;
+    try {
+      return {
+        profection: calculateProfection(natalChart, date),
+        progressed: calculateProgressedChart(natalChart, date, getChartOptions()),
+        directed: calculateSolarArcDirections(natalChart, date),
+      };
+    } catch {
+      return null;
+    }
+  }, [expanded, natalChart, date, getChartOptions]);
+
+  return (
+    <View style={styles.section}>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        style={({ pressed }) => [styles.header, pressed && { opacity: 0.8 }]}
+      >
+        <Text style={styles.title}>Predictive Techniques</Text>
+        <Text style={styles.toggle}>
+          {expanded ? '▼' : '▶'} {result
+            ? `Year of ${PLANET_SYMBOLS[result.profection.lordOfYear]} ${result.profection.lordOfYear} · ${ordinal(result.profection.house)} house`
+            : 'Progressions, solar arc & profections'}
+        </Text>
+      </Pressable>
+
+      {expanded && (
+        <View style={styles.body}>
+          {!natalChart ? (
+            <Text style={styles.hint}>Seal your birth data in the Adept&apos;s Seal to compute progressions.</Text>
+          ) : !result ? (
+            <Text style={styles.hint}>The chart date lies before your birth.</Text>
+          ) : (
+            <>
+              {/* Profection */}
+              <Text style={styles.groupLabel}>ANNUAL PROFECTION</Text>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Age {result.profection.age}</Text>
+                <Text style={styles.rowValue}>
+                  {ordinal(result.profection.house)} house · {ZODIAC_SYMBOLS[result.profection.sign]} {result.profection.sign}
+                </Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Lord of the Year</Text>
+                <Text style={[styles.rowValue, { color: PLANET_COLORS[result.profection.lordOfYear] }]}>
+                  {PLANET_SYMBOLS[result.profection.lordOfYear]} {result.profection.lordOfYear}
+                </Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Month</Text>
+                <Text style={styles.rowValue}>
+                  {ZODIAC_SYMBOLS[result.profection.monthSign]} {result.profection.monthSign} · {PLANET_SYMBOLS[result.profection.monthLord]} {result.profection.monthLord}
+                </Text>
+              </View>
+              <Text style={styles.note}>
+                {formatDate(result.profection.yearStart)} – {formatDate(result.profection.yearEnd)}
+              </Text>
+
+              {/* Secondary progressions */}
+              <Text style={styles.groupLabel}>SECONDARY PROGRESSIONS</Text>
+              <Text style={styles.note}>Progressed to {formatDate(result.progressed.progressedDate)}</Text>
+              {PROGRESSED_PLANETS.map((planet) => {
+                const pos = result.progressed.chart.planets.find(p => p.planet === planet);
+                if (!pos) return null;
+                return (
+                  <View key={planet} style={styles.row}>
+                    <Text style={[styles.rowLabel, { color: PLANET_COLORS[planet] }]}>
+                      {PLANET_SYMBOLS[planet]} {planet}
+                    </Text>
+                    <Text style={styles.rowValue}>
+                      {formatZodiacPosition(pos.longitude)}{pos.isRetrograde ? ' ℞' : ''}
+                    </Text>
+                  </View>
+                );
+              })}
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>ASC / MC</Text>
+                <Text style={styles.rowValue}>
+                  {formatZodiacPosition(result.progressed.chart.angles.ascendant)} / {formatZodiacPosition(result.progressed.chart.angles.midheaven)}
+                </Text>
+              </View>
+              <ContactList contacts={result.progressed.contacts} prefix="Progressed" lots={natalChart.lots} />
+
+              {/* Solar arc */}
+              <Text style={styles.groupLabel}>SOLAR ARC DIRECTIONS</Text>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Arc</Text>
+                <Text style={styles.rowValue}>{result.directed.solarArc.toFixed(2)}°</Text>
+              </View>
+              <ContactList contacts={result.directed.contacts} prefix="Directed" lots={natalChart.lots} />
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginHorizontal: 16, marginBottom: 8 },
+  header: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A',
+    borderRadius: 12, padding: 14,
+  },
+  title: { fontFamily: 'Cinzel', fontSize: 16, color: '#E0E0E0', letterSpacing: 2 },
+  toggle: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#6B6B6B', marginTop: 4 },
+  body: {
+    backgroundColor: '#0A0A0A', borderWidth: 1, borderColor: '#1A1A1A',
+    borderTopWidth: 0, borderBottomLeftRadius: 12, borderBottomRightRadius: 12, padding: 8,
+  },
+  groupLabel: {
+    fontFamily: 'JetBrainsMono', fontSize: 10, color: '#D4AF37', letterSpacing: 2,
+    marginTop: 10, marginBottom: 4, paddingHorizontal: 8,
+  },
+  row: {
+    flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center',
+    paddingVertical: 5, paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  rowLabel: { fontSize: 12, color: '#E0E0E0' },
+  rowValue: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#E0E0E0' },
+  note: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', paddingHorizontal: 8, marginVertical: 4 },
+  contactRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    paddingVertical: 6, paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  glyph: { fontSize: 14 },
+  aspectGlyph: { fontSize: 12, color: '#D4AF37' },
+  contactName: { flex: 1, fontSize: 11, color: '#E0E0E0', marginLeft: 4 },
+  contactOrb: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B' },
+  hint: { fontSize: 11, color: '#6B6B6B', margin: 8, fontStyle: 'italic' },
+});
@@ -0,0 +1,235 @@
+import { useMemo, useState } from 'react';
+import { Text, View, StyleSheet, Pressable, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { ChartWheel } from '@/components/chart-wheel';
+import { useNatalStore } from '@/lib/store/natal-store';
+import { useAstroStore } from '@/lib/astro/store';
+import { longitudeToSign } from '@/lib/astro/engine';
+import { chartToWheel } from '@/lib/astro/chart-wheel';
+import {
+  ReturnChart, ReturnKind, calculateLunarReturn, calculateSolarReturn,
+} from '@/lib/astro/returns';
+import {
+  getAspectBodyColor, getAspectBodyName, getAspectBodySymbol, getAspectSymbol,
+} from '@/lib/astro/aspects';
+import { ZODIAC_SYMBOLS } from '@/lib/astro/types';
+
+type Relocation = 'birth' | 'current';
+
+const DAY_MS = 86400000;
+
+function formatZodiacPosition(longitude: number): string {
+  const { sign, degree, minute } = longitudeToSign(longitude);
+  return `${ZODIAC_SYMBOLS[sign]} ${degree}°${minute.toString().padStart(2, '0')}'`;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString('en-US', {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+export function ReturnChartPanel() {
+  const natalChart = useNatalStore((s) => s.natalChart);
+  const location = useAstroStore((s) => s.location);
+  const getChartOptions = useAstroStore((s) => s.getChartOptions);
+  const [expanded, setExpanded] = useState(false);
+  const [kind, setKind] = useState<ReturnKind>('Solar');
+  const [relocation, setRelocation] = useState<Relocation>('birth');
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [lunarFrom, setLunarFrom] = useState(() => new Date());
+
+  const result = useMemo<ReturnChart | null>(() => {
+    if (!expanded || !natalChart) return null;
+    const where = relocation === 'current' ? location : undefined;
+    try {
+      return kind === 'Solar'
+        ? calculateSolarReturn(natalChart, year, where, getChartOptions())
+        : calculateLunarReturn(natalChart, lunarFrom, where, getChartOptions());
+    } catch {
+      return null;
+    }
+  }, [expanded, natalChart, kind, relocation, location, year, lunarFrom, getChartOptions]);
+
+  // Return chart inside, natal chart on the outer ring
+  const wheel = useMemo(() => {
+    if (!result || !natalChart) return null;
+    return { inner: chartToWheel(result.chart), outer: chartToWheel(natalChart) };
+  }, [result, natalChart]);
+
+  const haptic = () => {
+    if (Platform.OS !== ('web' as string)) {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const handleStep = (direction: 1 | -1) => {
+    haptic();
+    if (kind === 'Solar') {
+      setYear(year + direction);
+    } else if (result) {
+      // One day past this return finds the next; 28 days back finds the previous
+      setLunarFrom(new Date(result.date.getTime() + (direction === 1 ? DAY_MS : -28 * DAY_MS)));
+    }
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={() => { haptic(); onPress(); }}
+      style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.7 }]}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.section}>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        style={({ pressed }) => [styles.header, pressed && { opacity: 0.8 }]}
+      >
+        <Text style={styles.title}>Returns</Text>
+        <Text style={styles.toggle}>
+          {expanded ? '▼' : '▶'} {result ? `${result.kind} return · ${formatDateTime(result.date)}` : 'Solar & lunar return charts'}
+        </Text>
+      </Pressable>
+
+      {expanded && (
+        <View style={styles.body}>
+          {!natalChart ? (
+            <Text style={styles.hint}>Seal your birth data in the Adept&apos;s Seal to cast return charts.</Text>
+          ) : (
+            <>
+              <View style={styles.chipRow}>
+                {renderChip('SOLAR', kind === 'Solar', () => setKind('Solar'))}
+                {renderChip('LUNAR', kind === 'Lunar', () => setKind('Lunar'))}
+                <View style={styles.chipSpacer} />
+                {renderChip('BIRTHPLACE', relocation === 'birth', () => setRelocation('birth'))}
+                {renderChip('CURRENT', relocation === 'current', () => setRelocation('current'))}
+              </View>
+
+              <View style={styles.stepper}>
+                <Pressable onPress={() => handleStep(-1)} style={({ pressed }) => [styles.stepBtn, pressed && { opacity: 0.6 }]}>
+                  <Text style={styles.stepText}>‹</Text>
+                </Pressable>
+                <Text style={styles.stepLabel}>
+                  {kind === 'Solar' ? year : result ? formatDateTime(result.date) : '—'}
+                </Text>
+                <Pressable onPress={() => handleStep(1)} style={({ pressed }) => [styles.stepBtn, pressed && { opacity: 0.6 }]}>
+                  <Text style={styles.stepText}>›</Text>
+                </Pressable>
+              </View>
+
+              {result && (
+                <>
+                  <Text style={styles.note}>
+                    Exact {formatDateTime(result.date)} · {result.location.latitude.toFixed(2)}°, {result.location.longitude.toFixed(2)}°
+                  </Text>
+
+                  {wheel && (
+                    <>
+                      <ChartWheel
+                        inner={wheel.inner}
+                        outer={wheel.outer}
+                        aspects={result.contacts}
+                        title={`${result.kind} return ${result.date.toISOString().slice(0, 10)}`}
+                      />
+                      <Text style={styles.note}>Inner: {result.kind.toLowerCase()} return · Outer: natal</Text>
+                    </>
+                  )}
+
+                  {/* Return points against return and natal houses */}
+                  <View style={styles.tableHeader}>
+                    <Text style={[styles.colBody, styles.colHead]}>POINT</Text>
+                    <Text style={[styles.colPos, styles.colHead]}>POSITION</Text>
+                    <Text style={[styles.colHouse, styles.colHead]}>RETURN</Text>
+                    <Text style={[styles.colHouse, styles.colHead]}>NATAL</Text>
+                  </View>
+                  {result.placements.map((placement) => (
+                    <View key={placement.body} style={styles.row}>
+                      <Text style={[styles.colBody, styles.bodyText, { color: getAspectBodyColor(placement.body) }]}>
+                        {getAspectBodySymbol(placement.body)} {getAspectBodyName(placement.body, natalChart.lots)}
+                      </Text>
+                      <Text style={[styles.colPos, styles.value]}>{formatZodiacPosition(placement.longitude)}</Text>
+                      <Text style={[styles.colHouse, styles.value]}>H{placement.returnHouse}</Text>
+                      <Text style={[styles.colHouse, styles.value]}>H{placement.natalHouse}</Text>
+                    </View>
+                  ))}
+
+                  <Text style={styles.groupLabel}>CONTACTS TO NATAL</Text>
+                  {result.contacts.length === 0 ? (
+                    <Text style={styles.hint}>No contacts to the natal chart within 2°.</Text>
+                  ) : (
+                    result.contacts.map((aspect, i) => (
+                      <View key={`${aspect.planet1}-${aspect.type}-${aspect.planet2}-${i}`} style={styles.row}>
+                        <Text style={[styles.glyph, { color: getAspectBodyColor(aspect.planet1) }]}>
+                          {getAspectBodySymbol(aspect.planet1)}
+                        </Text>
+                        <Text style={styles.aspectGlyph}>{getAspectSymbol(aspect.type)}</Text>
+                        <Text style={[styles.glyph, { color: getAspectBodyColor(aspect.planet2) }]}>
+                          {getAspectBodySymbol(aspect.planet2)}
+                        </Text>
+                        <Text style={styles.contactName}>
+                          {getAspectBodyName(aspect.planet1, natalChart.lots)} {aspect.type.toLowerCase()} natal {getAspectBodyName(aspect.planet2, natalChart.lots)}
+                        </Text>
+                        <Text style={styles.value}>{aspect.orb.toFixed(2)}°</Text>
+                      </View>
+                    ))
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginHorizontal: 16, marginBottom: 8 },
+  header: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A',
+    borderRadius: 12, padding: 14,
+  },
+  title: { fontFamily: 'Cinzel', fontSize: 16, color: '#E0E0E0', letterSpacing: 2 },
+  toggle: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#6B6B6B', marginTop: 4 },
+  body: {
+    backgroundColor: '#0A0A0A', borderWidth: 1, borderColor: '#1A1A1A',
+    borderTopWidth: 0, borderBottomLeftRadius: 12, borderBottomRightRadius: 12, padding: 8,
+  },
+  chipRow: { flexDirection: 'row', gap: 6, marginBottom: 8, paddingHorizontal: 4, flexWrap: 'wrap' },
+  chipSpacer: { width: 8 },
+  chip: {
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 5,
+  },
+  chipActive: { borderColor: '#D4AF3760', backgroundColor: '#D4AF3710' },
+  chipText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', letterSpacing: 1 },
+  chipTextActive: { color: '#D4AF37' },
+  stepper: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 16, marginBottom: 4 },
+  stepBtn: { paddingHorizontal: 12, paddingVertical: 4 },
+  stepText: { fontSize: 20, color: '#D4AF37' },
+  stepLabel: { fontFamily: 'JetBrainsMono', fontSize: 12, color: '#E0E0E0' },
+  note: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', paddingHorizontal: 8, marginVertical: 4 },
+  groupLabel: {
+    fontFamily: 'JetBrainsMono', fontSize: 10, color: '#D4AF37', letterSpacing: 2,
+    marginTop: 10, marginBottom: 4, paddingHorizontal: 8,
+  },
+  tableHeader: { flexDirection: 'row', paddingHorizontal: 8, paddingVertical: 4 },
+  colHead: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', letterSpacing: 1 },
+  colBody: { flex: 1 },
+  colPos: { width: 80 },
+  colHouse: { width: 52, textAlign: 'right' },
+  row: {
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    paddingVertical: 6, paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  bodyText: { fontSize: 12 },
+  value: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#E0E0E0' },
+  glyph: { fontSize: 14 },
+  aspectGlyph: { fontSize: 12, color: '#D4AF37' },
+  contactName: { flex: 1, fontSize: 11, color: '#E0E0E0', marginLeft: 4 },
+  hint: { fontSize: 11, color: '#6B6B6B', margin: 8, fontStyle: 'italic' },
+});
@@ -0,0 +1,386 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Text, View, StyleSheet, Pressable, TextInput, Platform, ScrollView } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { ChartWheel } from '@/components/chart-wheel';
+import { WheelBase, chartToWheel } from '@/lib/astro/chart-wheel';
+import { useNatalStore, UserNatalData, calculateBirthChart } from '@/lib/store/natal-store';
+import { useAstroStore } from '@/lib/astro/store';
+import { longitudeToSign } from '@/lib/astro/engine';
+import { isValidTimeZone } from '@/lib/astro/timezones';
+import { lookupTimeZone } from '@/lib/geocoding';
+import {
+  calculateCompositeChart, calculateDavisonChart, calculateSynastryAspects,
+} from '@/lib/astro/synastry';
+import {
+  Aspect, getAspectBodyColor, getAspectBodyName, getAspectBodySymbol, getAspectSymbol,
+} from '@/lib/astro/aspects';
+import { ChartAngles, ChartData, PlanetPosition, PLANET_SYMBOLS, PLANET_COLORS, ZODIAC_SYMBOLS } from '@/lib/astro/types';
+
+type ComparisonMode = 'Synastry' | 'Composite' | 'Davison';
+
+interface Comparison {
+  mode: ComparisonMode;
+  chartA: ChartData;
+  chartB: ChartData;
+  wheel: WheelBase;
+  aspects?: Aspect[];           // synastry only
+  positions?: PlanetPosition[]; // composite / Davison
+  angles?: ChartAngles;
+  davison?: ChartData;
+}
+
+const MODES: ComparisonMode[] = ['Synastry', 'Composite', 'Davison'];
+const SELF_ID = 'self';
+
+function formatZodiacPosition(longitude: number): string {
+  const { sign, degree, minute } = longitudeToSign(longitude);
+  return `${ZODIAC_SYMBOLS[sign]} ${degree}°${minute.toString().padStart(2, '0')}'`;
+}
+
+export function SynastryPanel() {
+  const natalChart = useNatalStore((s) => s.natalChart);
+  const profiles = useNatalStore((s) => s.profiles);
+  const addProfile = useNatalStore((s) => s.addProfile);
+  const removeProfile = useNatalStore((s) => s.removeProfile);
+  const getChartOptions = useAstroStore((s) => s.getChartOptions);
+
+  const [expanded, setExpanded] = useState(false);
+  const [mode, setMode] = useState<ComparisonMode>('Synastry');
+  const [chartAId, setChartAId] = useState(SELF_ID);
+  const [chartBId, setChartBId] = useState<string | null>(null);
+
+  // New profile form
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [birthDate, setBirthDate] = useState('');
+  const [birthTime, setBirthTime] = useState('');
+  const [birthPlace, setBirthPlace] = useState('');
+  const [birthLat, setBirthLat] = useState('');
+  const [birthLon, setBirthLon] = useState('');
+  const [birthZone, setBirthZone] = useState('');
+  const [birthZoneProvisional, setBirthZoneProvisional] = useState(false);
+  const [isGeocoding, setIsGeocoding] = useState(false);
+
+  const choices = useMemo(() => [
+    ...(natalChart ? [{ id: SELF_ID, name: 'You' }] : []),
+    ...profiles.map(p => ({ id: p.id, name: p.name })),
+  ], [natalChart, profiles]);
+
+  const chartFor = useCallback((id: string | null): ChartData | null => {
+    if (id === SELF_ID) return natalChart;
+    const profile = profiles.find(p => p.id === id);
+    return profile ? calculateBirthChart(profile) : null;
+  }, [natalChart, profiles]);
+
+  const comparison = useMemo<Comparison | null>(() => {
+    if (!expanded) return null;
+    const chartA = chartFor(chartAId);
+    const chartB = chartFor(chartBId);
+    if (!chartA || !chartB || chartAId === chartBId) return null;
+    try {
+      if (mode === 'Synastry') {
+        const aspects = calculateSynastryAspects(chartA, chartB);
+        return { mode, chartA, chartB, wheel: chartToWheel(chartA), aspects };
+      }
+      if (mode === 'Composite') {
+        const composite = calculateCompositeChart(chartA, chartB);
+        const wheel: WheelBase = {
+          planets: composite.planets.map(p => ({ planet: p.planet, longitude: p.longitude })),
+          ascendant: composite.angles.ascendant,
+          midheaven: composite.angles.midheaven,
+          cusps: composite.cusps,
+        };
+        return { mode, chartA, chartB, wheel, positions: composite.planets, angles: composite.angles };
+      }
+      const davison = calculateDavisonChart(chartA, chartB, getChartOptions());
+      return { mode, chartA, chartB, wheel: chartToWheel(davison), positions: davison.planets, angles: davison.angles, davison };
+    } catch {
+      return null;
+    }
+  }, [expanded, chartFor, chartAId, chartBId, mode, getChartOptions]);
+
+  const haptic = () => {
+    if (Platform.OS !== ('web' as string)) {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const handleGeocodePlace = useCallback(async () => {
+    if (!birthPlace.trim()) return;
+    setIsGeocoding(true);
+    try {
+      const resp = await fetch(
+        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(birthPlace)}&limit=1`,
+        { headers: { 'User-Agent': 'AEONIS-App/1.0' } }
+      );
+      const data = await resp.json();
+      if (data.length > 0) {
+        const lat = parseFloat(data[0].lat);
+        const lon = parseFloat(data[0].lon);
+        setBirthLat(lat.toFixed(4));
+        setBirthLon(lon.toFixed(4));
+        const { timeZone, provisional } = await lookupTimeZone(lat, lon);
+        setBirthZone(timeZone);
+        setBirthZoneProvisional(provisional);
+      }
+    } catch {}
+    setIsGeocoding(false);
+  }, [birthPlace]);
+
+  const canSave = /^\d{4}-\d{2}-\d{2}$/.test(birthDate) && birthLat !== '' && birthLon !== '';
+
+  const handleSaveProfile = async () => {
+    if (!canSave) return;
+    const data: UserNatalData = {
+      dateOfBirth: birthDate,
+      timeOfBirth: birthTime || '12:00',
+      placeOfBirth: birthPlace || 'Unknown',
+      latitude: parseFloat(birthLat) || 0,
+      longitude: parseFloat(birthLon) || 0,
+      // Left to the store when blank or unknown
+      ...(isValidTimeZone(birthZone.trim())
+        ? { timeZone: birthZone.trim(), timeZoneProvisional: birthZoneProvisional }
+        : {}),
+    };
+    const profile = await addProfile(name, data);
+    if (Platform.OS !== ('web' as string)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    setChartBId(profile.id);
+    setShowForm(false);
+    setName(''); setBirthDate(''); setBirthTime(''); setBirthPlace(''); setBirthLat(''); setBirthLon('');
+    setBirthZone(''); setBirthZoneProvisional(false);
+  };
+
+  const handleRemove = async (id: string) => {
+    haptic();
+    await removeProfile(id);
+    if (chartAId === id) setChartAId(SELF_ID);
+    if (chartBId === id) setChartBId(null);
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void, key?: string) => (
+    <Pressable
+      key={key ?? label}
+      onPress={() => { haptic(); onPress(); }}
+      style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.7 }]}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </Pressable>
+  );
+
+  const nameOf = (id: string | null) => choices.find(c => c.id === id)?.name ?? '—';
+
+  return (
+    <View style={styles.section}>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        style={({ pressed }) => [styles.header, pressed && { opacity: 0.8 }]}
+      >
+        <Text style={styles.title}>Chart Comparison</Text>
+        <Text style={styles.toggle}>
+          {expanded ? '▼' : '▶'} {comparison ? `${mode} · ${nameOf(chartAId)} & ${nameOf(chartBId)}` : 'Synastry, composite & Davison'}
+        </Text>
+      </Pressable>
+
+      {expanded && (
+        <View style={styles.body}>
+          {/* Profiles */}
+          <Text style={styles.groupLabel}>BIRTH PROFILES</Text>
+          {profiles.map((profile) => (
+            <View key={profile.id} style={styles.profileRow}>
+              <Text style={styles.profileName}>{profile.name}</Text>
+              <Text style={styles.profileMeta}>
+                {profile.dateOfBirth} {profile.timeOfBirth}
+                {profile.timeZone ? ` ${profile.timeZone.replace(/_/g, ' ')}${profile.timeZoneProvisional ? ' (offline guess)' : ''}` : ''}
+                {' · '}{profile.placeOfBirth}
+              </Text>
+              <Pressable onPress={() => handleRemove(profile.id)} style={({ pressed }) => [styles.removeBtn, pressed && { opacity: 0.6 }]}>
+                <Text style={styles.removeText}>✕</Text>
+              </Pressable>
+            </View>
+          ))}
+
+          {showForm ? (
+            <View style={styles.form}>
+              <TextInput style={styles.input} value={name} onChangeText={setName}
+                placeholder="Name" placeholderTextColor="#4A4A4A" />
+              <View style={styles.inputRow}>
+                <TextInput style={[styles.input, styles.inputHalf]} value={birthDate} onChangeText={setBirthDate}
+                  placeholder="YYYY-MM-DD" placeholderTextColor="#4A4A4A" />
+                <TextInput style={[styles.input, styles.inputHalf]} value={birthTime} onChangeText={setBirthTime}
+                  placeholder="HH:MM" placeholderTextColor="#4A4A4A" />
+              </View>
+              <TextInput style={styles.input} value={birthZone}
+                onChangeText={(text) => { setBirthZone(text); setBirthZoneProvisional(false); }}
+                placeholder="Time zone, from the place" placeholderTextColor="#4A4A4A"
+                autoCapitalize="none" autoCorrect={false} />
+              {birthZoneProvisional && (
+                <Text style={styles.hint}>Zone guessed offline from the nearest city; correct it if wrong.</Text>
+              )}
+              <View style={styles.inputRow}>
+                <TextInput style={[styles.input, { flex: 1 }]} value={birthPlace} onChangeText={setBirthPlace}
+                  placeholder="Place of birth" placeholderTextColor="#4A4A4A" onSubmitEditing={handleGeocodePlace} />
+                <Pressable onPress={handleGeocodePlace} style={({ pressed }) => [styles.geoBtn, pressed && { opacity: 0.7 }]}>
+                  <Text style={styles.chipTextActive}>{isGeocoding ? '…' : 'FIND'}</Text>
+                </Pressable>
+              </View>
+              <View style={styles.inputRow}>
+                <TextInput style={[styles.input, styles.inputHalf]} value={birthLat} onChangeText={setBirthLat}
+                  placeholder="Latitude" placeholderTextColor="#4A4A4A" keyboardType="numbers-and-punctuation" />
+                <TextInput style={[styles.input, styles.inputHalf]} value={birthLon} onChangeText={setBirthLon}
+                  placeholder="Longitude" placeholderTextColor="#4A4A4A" keyboardType="numbers-and-punctuation" />
+              </View>
+              <View style={styles.chipRow}>
+                {renderChip('SAVE PROFILE', canSave, handleSaveProfile)}
+                {renderChip('CANCEL', false, () => setShowForm(false))}
+              </View>
+            </View>
+          ) : (
+            <View style={styles.chipRow}>
+              {renderChip('+ ADD PROFILE', false, () => setShowForm(true))}
+            </View>
+          )}
+
+          {choices.length < 2 ? (
+            <Text style={styles.hint}>Add a birth profile to compare two charts.</Text>
+          ) : (
+            <>
+              <Text style={styles.groupLabel}>COMPARE</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                <Text style={styles.pickLabel}>A</Text>
+                {choices.map(c => renderChip(c.name, c.id === chartAId, () => setChartAId(c.id), `a-${c.id}`))}
+              </ScrollView>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                <Text style={styles.pickLabel}>B</Text>
+                {choices.map(c => renderChip(c.name, c.id === chartBId, () => setChartBId(c.id), `b-${c.id}`))}
+              </ScrollView>
+              <View style={styles.chipRow}>
+                {MODES.map(m => renderChip(m.toUpperCase(), m === mode, () => setMode(m), m))}
+              </View>
+
+              {!comparison ? (
+                <Text style={styles.hint}>Choose two different charts.</Text>
+              ) : (
+                <>
+                  <ChartWheel
+                    inner={comparison.wheel}
+                    outer={comparison.mode === 'Synastry' ? chartToWheel(comparison.chartB) : undefined}
+                    aspects={comparison.aspects}
+                    title={`${comparison.mode} ${nameOf(chartAId)} & ${nameOf(chartBId)}`}
+                  />
+                  {comparison.mode === 'Synastry' && (
+                    <Text style={styles.note}>Inner: {nameOf(chartAId)} · Outer: {nameOf(chartBId)}</Text>
+                  )}
+                  {comparison.davison && (
+                    <Text style={styles.note}>
+                      Cast for {comparison.davison.timestamp.toISOString().replace('T', ' ').slice(0, 16)} UT · {comparison.davison.latitude.toFixed(2)}°, {comparison.davison.longitude.toFixed(2)}°
+                    </Text>
+                  )}
+
+                  {comparison.aspects ? (
+                    <>
+                      <Text style={styles.groupLabel}>INTER-CHART ASPECTS</Text>
+                      {comparison.aspects.length === 0 ? (
+                        <Text style={styles.hint}>No aspects within 3°.</Text>
+                      ) : comparison.aspects.map((aspect, i) => (
+                        <View key={`${aspect.planet1}-${aspect.type}-${aspect.planet2}-${i}`} style={styles.row}>
+                          <Text style={[styles.glyph, { color: getAspectBodyColor(aspect.planet1) }]}>
+                            {getAspectBodySymbol(aspect.planet1)}
+                          </Text>
+                          <Text style={styles.aspectGlyph}>{getAspectSymbol(aspect.type)}</Text>
+                          <Text style={[styles.glyph, { color: getAspectBodyColor(aspect.planet2) }]}>
+                            {getAspectBodySymbol(aspect.planet2)}
+                          </Text>
+                          <Text style={styles.rowName}>
+                            {getAspectBodyName(aspect.planet1, comparison.chartA.lots)} {aspect.type.toLowerCase()} {getAspectBodyName(aspect.planet2, comparison.chartB.lots)}
+                          </Text>
+                          <Text style={styles.value}>{aspect.orb.toFixed(2)}°</Text>
+                        </View>
+                      ))}
+                    </>
+                  ) : (
+                    <>
+                      <Text style={styles.groupLabel}>{comparison.mode.toUpperCase()} POSITIONS</Text>
+                      {comparison.angles && (
+                        <View style={styles.row}>
+                          <Text style={styles.rowName}>ASC / MC</Text>
+                          <Text style={styles.value}>
+                            {formatZodiacPosition(comparison.angles.ascendant)} / {formatZodiacPosition(comparison.angles.midheaven)}
+                          </Text>
+                        </View>
+                      )}
+                      {comparison.positions?.map((pos) => (
+                        <View key={pos.planet} style={styles.row}>
+                          <Text style={[styles.glyph, { color: PLANET_COLORS[pos.planet] }]}>{PLANET_SYMBOLS[pos.planet]}</Text>
+                          <Text style={styles.rowName}>{pos.planet}</Text>
+                          <Text style={styles.value}>{formatZodiacPosition(pos.longitude)}</Text>
+                        </View>
+                      ))}
+                    </>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginHorizontal: 16, marginBottom: 8 },
+  header: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A',
+    borderRadius: 12, padding: 14,
+  },
+  title: { fontFamily: 'Cinzel', fontSize: 16, color: '#E0E0E0', letterSpacing: 2 },
+  toggle: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#6B6B6B', marginTop: 4 },
+  body: {
+    backgroundColor: '#0A0A0A', borderWidth: 1, borderColor: '#1A1A1A',
+    borderTopWidth: 0, borderBottomLeftRadius: 12, borderBottomRightRadius: 12, padding: 8,
+  },
+  groupLabel: {
+    fontFamily: 'JetBrainsMono', fontSize: 10, color: '#D4AF37', letterSpacing: 2,
+    marginTop: 10, marginBottom: 4, paddingHorizontal: 8,
+  },
+  profileRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    paddingVertical: 6, paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  profileName: { fontSize: 12, color: '#E0E0E0', fontWeight: '600' },
+  profileMeta: { flex: 1, fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B' },
+  removeBtn: { paddingHorizontal: 6, paddingVertical: 2 },
+  removeText: { fontSize: 12, color: '#6B6B6B' },
+  form: { paddingHorizontal: 4, paddingTop: 6, gap: 6 },
+  inputRow: { flexDirection: 'row', gap: 6 },
+  input: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 8, fontFamily: 'JetBrainsMono', fontSize: 12, color: '#E0E0E0',
+  },
+  inputHalf: { flex: 1 },
+  geoBtn: {
+    borderWidth: 1, borderColor: '#D4AF3760', borderRadius: 8,
+    paddingHorizontal: 12, justifyContent: 'center',
+  },
+  chipRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginVertical: 4, paddingHorizontal: 4 },
+  pickLabel: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', width: 14 },
+  chip: {
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 5,
+  },
+  chipActive: { borderColor: '#D4AF3760', backgroundColor: '#D4AF3710' },
+  chipText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', letterSpacing: 1 },
+  chipTextActive: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#D4AF37', letterSpacing: 1 },
+  note: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', textAlign: 'center', marginBottom: 4 },
+  row: {
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    paddingVertical: 6, paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  glyph: { fontSize: 14 },
+  aspectGlyph: { fontSize: 12, color: '#D4AF37' },
+  rowName: { flex: 1, fontSize: 11, color: '#E0E0E0', marginLeft: 4 },
+  value: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#E0E0E0' },
+  hint: { fontSize: 11, color: '#6B6B6B', margin: 8, fontStyle: 'italic' },
+});
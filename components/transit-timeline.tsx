@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import { Text, View, StyleSheet, Pressable, ScrollView, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useNatalStore } from '@/lib/store/natal-store';
+import { searchTransits, TransitPeriod } from '@/lib/astro/transits';
+import { getAspectBodyColor, getAspectBodyName, getAspectBodySymbol } from '@/lib/astro/aspects';
+import { PLANET_SYMBOLS, PLANET_COLORS } from '@/lib/astro/types';
+
+const SPANS = [1, 3, 5];
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+export function TransitTimeline() {
+  const natalChart = useNatalStore((s) => s.natalChart);
+  const [expanded, setExpanded] = useState(false);
+  const [years, setYears] = useState(3);
+
+  // Searched only while open: several years of ephemeris sampling
+  const periods = useMemo<TransitPeriod[]>(() => {
+    if (!expanded || !natalChart) return [];
+    const start = new Date();
+    const end = new Date(start.getTime() + years * 365.25 * 86400000);
+    try {
+      return searchTransits(natalChart, start, end);
+    } catch {
+      return [];
+    }
+  }, [expanded, natalChart, years]);
+
+  const handleSelectSpan = (span: number) => {
+    if (Platform.OS !== ('web' as string)) {
+      Haptics.selectionAsync();
+    }
+    setYears(span);
+  };
+
+  return (
+    <View style={styles.section}>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        style={({ pressed }) => [styles.header, pressed && { opacity: 0.8 }]}
+      >
+        <Text style={styles.title}>Transit Timeline</Text>
+        <Text style={styles.toggle}>
+          {expanded ? '▼' : '▶'} {expanded && natalChart ? `${periods.length} transits · next ${years}y` : 'Transits to your natal chart'}
+        </Text>
+      </Pressable>
+
+      {expanded && (
+        <View style={styles.body}>
+          {!natalChart ? (
+            <Text style={styles.hint}>Seal your birth data in the Adept&apos;s Seal to search transits.</Text>
+          ) : (
+            <>
+              <View style={styles.spanRow}>
+                {SPANS.map((span) => {
+                  const active = span === years;
+                  return (
+                    <Pressable
+                      key={span}
+                      onPress={() => handleSelectSpan(span)}
+                      style={({ pressed }) => [styles.spanChip, active && styles.spanChipActive, pressed && { opacity: 0.7 }]}
+                    >
+                      <Text style={[styles.spanText, active && styles.spanTextActive]}>{span} YEAR{span > 1 ? 'S' : ''}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <ScrollView style={styles.list} nestedScrollEnabled>
+                {periods.length === 0 ? (
+                  <Text style={styles.hint}>No transits within 1° in this period.</Text>
+                ) : (
+                  periods.map((period) => (
+                    <View key={period.id} style={styles.row}>
+                      <View style={styles.glyphs}>
+                        <Text style={[styles.glyph, { color: PLANET_COLORS[period.transitPlanet] }]}>
+                          {PLANET_SYMBOLS[period.transitPlanet]}
+                        </Text>
+                        <Text style={styles.aspectGlyph}>{period.symbol}</Text>
+                        <Text style={[styles.glyph, { color: getAspectBodyColor(period.natalPoint) }]}>
+                          {getAspectBodySymbol(period.natalPoint)}
+                        </Text>
+                      </View>
+                      <View style={styles.info}>
+                        <Text style={styles.name}>
+                          {period.transitPlanet} {period.aspect.toLowerCase()} natal {getAspectBodyName(period.natalPoint, natalChart.lots)}
+                        </Text>
+                        <Text style={styles.window}>
+                          {period.entry ? formatDate(period.entry) : 'in orb now'} – {period.exit ? formatDate(period.exit) : 'beyond range'}
+                        </Text>
+                        {period.hits.map((hit, i) => (
+                          <Text key={i} style={styles.hit}>
+                            EXACT {formatDate(hit.date)}{hit.isRetrograde ? ' ℞' : ''}
+                          </Text>
+                        ))}
+                      </View>
+                      <Text style={styles.passes}>
+                        {period.passCount === 0 ? 'NO HIT' : `${period.passCount}×`}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </ScrollView>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginHorizontal: 16, marginBottom: 8 },
+  header: {
+    backgroundColor: '#0D0D0D', borderWidth: 1, borderColor: '#1A1A1A',
+    borderRadius: 12, padding: 14,
+  },
+  title: { fontFamily: 'Cinzel', fontSize: 16, color: '#E0E0E0', letterSpacing: 2 },
+  toggle: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#6B6B6B', marginTop: 4 },
+  body: {
+    backgroundColor: '#0A0A0A', borderWidth: 1, borderColor: '#1A1A1A',
+    borderTopWidth: 0, borderBottomLeftRadius: 12, borderBottomRightRadius: 12, padding: 8,
+  },
+  spanRow: { flexDirection: 'row', gap: 6, marginBottom: 8, paddingHorizontal: 4 },
+  spanChip: {
+    borderWidth: 1, borderColor: '#1A1A1A', borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 5,
+  },
+  spanChipActive: { borderColor: '#D4AF3760', backgroundColor: '#D4AF3710' },
+  spanText: { fontFamily: 'JetBrainsMono', fontSize: 10, color: '#6B6B6B', letterSpacing: 1 },
+  spanTextActive: { color: '#D4AF37' },
+  list: { maxHeight: 420 },
+  row: {
+    flexDirection: 'row', alignItems: 'flex-start', paddingVertical: 8,
+    paddingHorizontal: 8, borderBottomWidth: 1, borderBottomColor: '#111',
+  },
+  glyphs: { flexDirection: 'row', alignItems: 'center', gap: 3, width: 64 },
+  glyph: { fontSize: 16 },
+  aspectGlyph: { fontSize: 13, color: '#D4AF37' },
+  info: { flex: 1 },
+  name: { fontSize: 12, color: '#E0E0E0', fontWeight: '600' },
+  window: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#6B6B6B', marginTop: 2 },
+  hit: { fontFamily: 'JetBrainsMono', fontSize: 9, color: '#D4AF37', marginTop: 2 },
+  passes: { fontFamily: 'JetBrainsMono', fontSize: 11, color: '#E0E0E0', marginLeft: 8 },
+  hint: { fontSize: 11, color: '#6B6B6B', margin: 8, fontStyle: 'italic' },
+});
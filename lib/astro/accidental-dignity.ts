@@ -0,0 +1,257 @@
+// ============================================================
+// ÆONIS – Accidental Dignities (after Lilly, Christian Astrology)
+// House strength, motion, orientality, sect & hayz, joys,
+// solar phase, besiegement and close aspects to benefics/malefics
+// ============================================================
+
+import {
+  Planet, PlanetPosition, PlanetCondition, Sect, AccidentalDignity, DignityFactor,
+  HouseStrength, MotionSpeed, ZODIAC_SIGNS,
+} from './types';
+
+export const CLASSICAL_PLANETS: Planet[] = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'];
+
+const BENEFICS: Planet[] = ['Jupiter', 'Venus'];
+const MALEFICS: Planet[] = ['Saturn', 'Mars'];
+const DIURNAL: Planet[] = ['Sun', 'Jupiter', 'Saturn'];
+const SUPERIOR: Planet[] = ['Mars', 'Jupiter', 'Saturn'];
+
+// Mean daily motion in degrees (Lilly's values)
+const MEAN_MOTION: Partial<Record<Planet, number>> = {
+  Sun: 0.9856, Moon: 13.1764, Mercury: 1.3833, Venus: 1.2,
+  Mars: 0.5242, Jupiter: 0.0831, Saturn: 0.0336,
+};
+
+// House scores: angles strongest, 12th/8th/6th weakest
+const HOUSE_SCORES: Record<number, number> = {
+  1: 5, 10: 5, 4: 4, 7: 4, 11: 4, 2: 3, 5: 3, 9: 2, 3: 1, 12: -5, 6: -2, 8: -2,
+};
+
+// Planetary joys by house
+const JOYS: Partial<Record<Planet, number>> = {
+  Mercury: 1, Moon: 3, Venus: 5, Mars: 6, Sun: 9, Jupiter: 11, Saturn: 12,
+};
+
+const CLOSE_ASPECT_ORB = 3;
+const BESIEGEMENT_SPAN = 30;
+
+const BENEFIC_ASPECT_SCORES: Record<number, { name: string; score: number }> = {
+  0: { name: 'Conjunct', score: 5 },
+  120: { name: 'Trine', score: 4 },
+  60: { name: 'Sextile', score: 3 },
+};
+
+const MALEFIC_ASPECT_SCORES: Record<number, { name: string; score: number }> = {
+  0: { name: 'Conjunct', score: -5 },
+  180: { name: 'Opposite', score: -4 },
+  90: { name: 'Square', score: -3 },
+};
+
+const NEUTRAL: Omit<AccidentalDignity, 'house' | 'houseStrength'> = {
+  motion: 'Average', speedRatio: 1, isOriental: null, isIncreasingInLight: null,
+  isInSect: false, isInHayz: false, isInJoy: false, besiegement: null,
+  beneficAspects: [], maleficAspects: [], factors: [], score: 0,
+};
+
+function normalize(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+function separation(a: number, b: number): number {
+  const d = Math.abs(normalize(a - b));
+  return d > 180 ? 360 - d : d;
+}
+
+function ordinal(n: number): string {
+  const suffix = n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+export function getHouseStrength(house: number): HouseStrength {
+  if (house % 3 === 1) return 'Angular';
+  if (house % 3 === 2) return 'Succedent';
+  return 'Cadent';
+}
+
+/**
+ * Oriental = rises before the Sun, i.e. lies behind it in zodiacal order
+ */
+export function isOrientalOfSun(planetLong: number, sunLong: number): boolean {
+  const arc = normalize(sunLong - planetLong);
+  return arc > 0 && arc < 180;
+}
+
+/**
+ * Sect of a planet; Mercury is diurnal when oriental, nocturnal when occidental
+ */
+export function getPlanetSect(planet: Planet, planetLong: number, sunLong: number): Sect {
+  if (planet === 'Mercury') return isOrientalOfSun(planetLong, sunLong) ? 'Day' : 'Night';
+  return DIURNAL.includes(planet) ? 'Day' : 'Night';
+}
+
+function classifyMotion(planet: Planet, speed: number): { motion: MotionSpeed; ratio: number } {
+  const mean = MEAN_MOTION[planet] ?? 1;
+  const ratio = Math.abs(speed) / mean;
+  if (planet !== 'Sun' && planet !== 'Moon' && ratio < 0.1) return { motion: 'Stationary', ratio };
+  if (ratio >= 1.05) return { motion: 'Swift', ratio };
+  if (ratio <= 0.95) return { motion: 'Slow', ratio };
+  return { motion: 'Average', ratio };
+}
+
+/**
+ * Nearest classical planets before and after in zodiacal order;
+ * besieged when both are malefics (or both benefics) within 30°.
+ */
+function findBesiegement(pos: PlanetPosition, others: PlanetPosition[]): 'Malefic' | 'Benefic' | null {
+  let ahead: PlanetPosition | null = null;
+  let behind: PlanetPosition | null = null;
+  for (const other of others) {
+    const fwd = normalize(other.longitude - pos.longitude);
+    const back = normalize(pos.longitude - other.longitude);
+    if (fwd > 0 && (!ahead || fwd < normalize(ahead.longitude - pos.longitude))) ahead = other;
+    if (back > 0 && (!behind || back < normalize(pos.longitude - behind.longitude))) behind = other;
+  }
+  if (!ahead || !behind || ahead === behind) return null;
+  const span = normalize(ahead.longitude - behind.longitude);
+  if (span > BESIEGEMENT_SPAN) return null;
+  if (MALEFICS.includes(ahead.planet) && MALEFICS.includes(behind.planet)) return 'Malefic';
+  if (BENEFICS.includes(ahead.planet) && BENEFICS.includes(behind.planet)) return 'Benefic';
+  return null;
+}
+
+/**
+ * Accidental dignity of one planet. Scores follow Lilly's table of
+ * fortitudes and debilities; sect, hayz and joys add smaller bonuses.
+ * Nodes, Lilith and the modern planets are returned unscored.
+ */
+export function calculateAccidentalDignity(
+  pos: PlanetPosition,
+  positions: PlanetPosition[],
+  condition: PlanetCondition,
+  sect: Sect,
+): AccidentalDignity {
+  const house = pos.house ?? null;
+  const houseStrength = house ? getHouseStrength(house) : null;
+  if (!CLASSICAL_PLANETS.includes(pos.planet)) {
+    return { ...NEUTRAL, house, houseStrength };
+  }
+
+  const planet = pos.planet;
+  const factors: DignityFactor[] = [];
+  const sun = positions.find(p => p.planet === 'Sun');
+  const sunLong = sun?.longitude ?? 0;
+
+  // House position
+  if (house) {
+    factors.push({ label: `${houseStrength} (${ordinal(house)} house)`, score: HOUSE_SCORES[house] });
+  }
+
+  // Motion
+  const { motion, ratio } = classifyMotion(planet, pos.speed);
+  if (planet !== 'Sun' && planet !== 'Moon') {
+    factors.push(pos.isRetrograde ? { label: 'Retrograde', score: -5 } : { label: 'Direct', score: 4 });
+  }
+  if (motion === 'Swift' && !pos.isRetrograde) factors.push({ label: 'Swift in motion', score: 2 });
+  if (motion === 'Slow' || motion === 'Stationary') {
+    factors.push({ label: motion === 'Stationary' ? 'Stationary' : 'Slow in motion', score: -2 });
+  }
+
+  // Orientality / Moon's light
+  let isOriental: boolean | null = null;
+  let isIncreasingInLight: boolean | null = null;
+  if (planet === 'Moon') {
+    isIncreasingInLight = normalize(pos.longitude - sunLong) < 180;
+    factors.push(isIncreasingInLight
+      ? { label: 'Increasing in light', score: 2 }
+      : { label: 'Decreasing in light', score: -2 });
+  } else if (planet !== 'Sun') {
+    isOriental = isOrientalOfSun(pos.longitude, sunLong);
+    const favourable = SUPERIOR.includes(planet) ? isOriental : !isOriental;
+    factors.push({ label: isOriental ? 'Oriental' : 'Occidental', score: favourable ? 2 : -2 });
+  }
+
+  // Solar phase
+  if (planet !== 'Sun') {
+    if (condition.isCazimi) factors.push({ label: 'Cazimi', score: 5 });
+    else if (condition.isCombust) factors.push({ label: 'Combust', score: -5 });
+    else if (condition.isUnderBeams) factors.push({ label: 'Under the beams', score: -4 });
+    else factors.push({ label: 'Free from combustion', score: 5 });
+  }
+
+  // Sect & hayz: in sect, on the sect's side of the horizon (above by day
+  // for diurnal planets, above by night for nocturnal ones) and in a sign
+  // of matching gender (masculine for diurnal, feminine for nocturnal)
+  const planetSect = getPlanetSect(planet, pos.longitude, sunLong);
+  const isInSect = planetSect === sect;
+  const aboveHorizon = pos.altitude !== undefined ? pos.altitude > 0 : (house ?? 1) >= 7;
+  const masculineSign = ZODIAC_SIGNS.indexOf(pos.sign) % 2 === 0;
+  const isInHayz = isInSect && aboveHorizon && masculineSign === (planetSect === 'Day');
+  if (isInSect) factors.push({ label: 'In sect', score: 1 });
+  if (isInHayz) factors.push({ label: 'In hayz', score: 2 });
+
+  // Joy
+  const isInJoy = house !== null && JOYS[planet] === house;
+  if (isInJoy) factors.push({ label: 'In its joy', score: 2 });
+
+  // Besiegement
+  const others = positions.filter(p => p.planet !== planet && CLASSICAL_PLANETS.includes(p.planet));
+  const besiegement = findBesiegement(pos, others);
+  if (besiegement === 'Malefic') factors.push({ label: 'Besieged by Mars & Saturn', score: -6 });
+  if (besiegement === 'Benefic') factors.push({ label: 'Enclosed by Jupiter & Venus', score: 3 });
+
+  // Close aspects to benefics, malefics and the nodes
+  const beneficAspects: Planet[] = [];
+  const maleficAspects: Planet[] = [];
+  for (const other of positions) {
+    if (other.planet === planet) continue;
+    const sep = separation(pos.longitude, other.longitude);
+    const isBenefic = BENEFICS.includes(other.planet);
+    const isMalefic = MALEFICS.includes(other.planet);
+    if (isBenefic || isMalefic) {
+      const table = isBenefic ? BENEFIC_ASPECT_SCORES : MALEFIC_ASPECT_SCORES;
+      for (const [angle, aspect] of Object.entries(table)) {
+        if (Math.abs(sep - Number(angle)) <= CLOSE_ASPECT_ORB) {
+          factors.push({ label: `${aspect.name} ${other.planet}`, score: aspect.score });
+          (isBenefic ? beneficAspects : maleficAspects).push(other.planet);
+        }
+      }
+    } else if ((other.planet === 'NorthNode' || other.planet === 'SouthNode') && sep <= CLOSE_ASPECT_ORB) {
+      factors.push({
+        label: `Conjunct ${other.planet === 'NorthNode' ? 'North' : 'South'} Node`,
+        score: other.planet === 'NorthNode' ? 4 : -4,
+      });
+    }
+  }
+
+  return {
+    house,
+    houseStrength,
+    motion,
+    speedRatio: ratio,
+    isOriental,
+    isIncreasingInLight,
+    isInSect,
+    isInHayz,
+    isInJoy,
+    besiegement,
+    beneficAspects,
+    maleficAspects,
+    factors,
+    score: factors.reduce((sum, f) => sum + f.score, 0),
+  };
+}
+
+/**
+ * Accidental dignities for every position in a chart
+ */
+export function calculateAccidentalDignities(
+  positions: PlanetPosition[],
+  conditions: Record<Planet, PlanetCondition>,
+  sect: Sect,
+): Record<Planet, AccidentalDignity> {
+  const result = {} as Record<Planet, AccidentalDignity>;
+  for (const pos of positions) {
+    result[pos.planet] = calculateAccidentalDignity(pos, positions, conditions[pos.planet], sect);
+  }
+  return result;
+}
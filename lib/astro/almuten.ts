@@ -0,0 +1,113 @@
+// ============================================================
+// ÆONIS – Almuten Figuris (Ibn Ezra / Al-Biruni)
+// Essential dignity over the five hylegical places
+// + planetary day & hour rulers + house position
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import { ChartData, Planet, LocationInput } from './types';
+import { getEssentialRulers } from './dignities';
+import { longitudeToSign } from './engine';
+import { toSidereal } from './ayanamsa';
+import { CLASSICAL_PLANETS } from './accidental-dignity';
+
+export interface AlmutenPoint {
+  name: 'Sun' | 'Moon' | 'Ascendant' | 'Fortune' | 'Syzygy';
+  longitude: number;
+}
+
+export interface PrenatalSyzygy {
+  type: 'New Moon' | 'Full Moon';
+  date: Date;
+  longitude: number;        // degree of the syzygy (luminary above the horizon at a full moon)
+}
+
+export interface AlmutenResult {
+  almuten: Planet;
+  ranking: { planet: Planet; score: number }[];
+  points: AlmutenPoint[];
+  syzygy: PrenatalSyzygy;
+}
+
+const DIGNITY_POINTS = { domicile: 5, exaltation: 4, triplicity: 3, term: 2, face: 1 } as const;
+const DAY_RULER_POINTS = 7;
+const HOUR_RULER_POINTS = 6;
+
+// Al-Biruni's house strengths for the almuten
+const HOUSE_POINTS: Record<number, number> = {
+  1: 12, 10: 11, 7: 10, 4: 9, 11: 8, 5: 7, 9: 6, 3: 5, 2: 4, 8: 3, 6: 2, 12: 1,
+};
+
+/**
+ * Find the last New or Full Moon before a moment (tropical longitude
+ * unless a zodiac offset is given)
+ */
+export function findPrenatalSyzygy(date: Date, location: LocationInput, zodiacOffset: number = 0): PrenatalSyzygy {
+  const newMoon = Astronomy.SearchMoonPhase(0, date, -30);
+  const fullMoon = Astronomy.SearchMoonPhase(180, date, -30);
+  const isNew = !!newMoon && (!fullMoon || newMoon.ut > fullMoon.ut);
+  const time = (isNew ? newMoon : fullMoon)!;
+
+  const sunLong = Astronomy.SunPosition(time).elon;
+  let longitude = sunLong;
+  if (!isNew) {
+    // At a full moon the syzygy falls on the luminary above the horizon
+    const observer = new Astronomy.Observer(location.latitude, location.longitude, 0);
+    const sunEq = Astronomy.Equator(Astronomy.Body.Sun, time, observer, true, true);
+    const sunAlt = Astronomy.Horizon(time, observer, sunEq.ra, sunEq.dec, 'normal').altitude;
+    longitude = sunAlt > 0 ? sunLong : Astronomy.EclipticGeoMoon(time).lon;
+  }
+
+  return {
+    type: isNew ? 'New Moon' : 'Full Moon',
+    date: time.date,
+    longitude: toSidereal(longitude, zodiacOffset),
+  };
+}
+
+/**
+ * Calculate the Almuten Figuris of a chart: the planet with the most
+ * essential dignity over Sun, Moon, Ascendant, Fortune and the prenatal
+ * syzygy, plus points for ruling the day/hour and for its house.
+ */
+export function calculateAlmutenFiguris(
+  chart: ChartData,
+  rulers: { dayRuler?: Planet; hourRuler?: Planet } = {},
+): AlmutenResult {
+  const location = { latitude: chart.latitude, longitude: chart.longitude };
+  const syzygy = findPrenatalSyzygy(chart.timestamp, location, chart.ayanamsa?.value ?? 0);
+  const find = (p: Planet) => chart.planets.find(pos => pos.planet === p)!.longitude;
+  const fortune = chart.lots.find(l => l.id === 'fortune');
+
+  const points: AlmutenPoint[] = [
+    { name: 'Sun', longitude: find('Sun') },
+    { name: 'Moon', longitude: find('Moon') },
+    { name: 'Ascendant', longitude: chart.angles.ascendant },
+    ...(fortune ? [{ name: 'Fortune' as const, longitude: fortune.longitude }] : []),
+    { name: 'Syzygy', longitude: syzygy.longitude },
+  ];
+
+  const scores = Object.fromEntries(CLASSICAL_PLANETS.map(p => [p, 0])) as Record<Planet, number>;
+  for (const point of points) {
+    const { sign, degree } = longitudeToSign(point.longitude);
+    const essential = getEssentialRulers(sign, degree, chart.sect);
+    for (const key of Object.keys(DIGNITY_POINTS) as (keyof typeof DIGNITY_POINTS)[]) {
+      const ruler = essential[key];
+      if (ruler) scores[ruler] += DIGNITY_POINTS[key];
+    }
+  }
+
+  if (rulers.dayRuler && rulers.dayRuler in scores) scores[rulers.dayRuler] += DAY_RULER_POINTS;
+  if (rulers.hourRuler && rulers.hourRuler in scores) scores[rulers.hourRuler] += HOUR_RULER_POINTS;
+
+  for (const planet of CLASSICAL_PLANETS) {
+    const house = chart.planets.find(p => p.planet === planet)?.house;
+    if (house) scores[planet] += HOUSE_POINTS[house];
+  }
+
+  const ranking = CLASSICAL_PLANETS
+    .map(planet => ({ planet, score: scores[planet] }))
+    .sort((a, b) => b.score - a.score);
+
+  return { almuten: ranking[0].planet, ranking, points, syzygy };
+}
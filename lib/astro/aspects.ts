@@ -1,38 +1,146 @@
 // ============================================================
 // ÆONIS – Aspectarian Engine
 // Calculates planetary aspects (Conjunction, Opposition, Square, Trine, Sextile)
+// with moiety-based orbs, applying/separating status and perfection times.
+// Optional: minor aspects, parallels/contraparallels by declination and
+// aspects to the nodes, Lilith, the asteroids, Arabic Parts and angles.
 // ============================================================
 
-import { PlanetPosition, Planet, PLANET_SYMBOLS } from './types';
+import {
+  PlanetPosition, Planet, ChartData, LocationInput, LotAngle, LotPosition, PLANET_SYMBOLS, PLANET_COLORS,
+} from './types';
+import { getChartObserver, getPlanetLongitude } from './engine';
+import { isAsteroid } from './asteroids';
+import { formatLotOperand } from './lots';
 
-export type AspectType = 'Conjunction' | 'Sextile' | 'Square' | 'Trine' | 'Opposition';
+export type PtolemaicAspectType = 'Conjunction' | 'Sextile' | 'Square' | 'Trine' | 'Opposition';
+
+export type MinorAspectType =
+  | 'Semisextile' | 'Semisquare' | 'Sesquiquadrate' | 'Quincunx' | 'Quintile' | 'Biquintile';
+
+export type DeclinationAspectType = 'Parallel' | 'Contraparallel';
+
+export type AspectType = PtolemaicAspectType | MinorAspectType | DeclinationAspectType;
+
+export type AspectStatus = 'Applying' | 'Separating';
+
+// Planet, chart angle or lot (Lot:<id>), as in lot formulas
+export type AspectBody = Planet | LotAngle | `Lot:${string}`;
 
 export interface Aspect {
-  planet1: Planet;
-  planet2: Planet;
+  planet1: AspectBody;
+  planet2: AspectBody;
   type: AspectType;
-  exactAngle: number;  // The ideal angle (0, 60, 90, 120, 180)
-  actualAngle: number;  // The actual separation
+  exactAngle: number;  // The ideal angle (0, 60, 90, 120, 180); 0 for declination aspects
+  actualAngle: number;  // The actual separation (declination difference/sum for parallels)
   orb: number;          // Difference from exact
   isExact: boolean;     // Orb < 1°
   symbol: string;       // Aspect symbol
   interpretation: string;
+  orbLimit: number;     // sum of both planets' moieties (1° for declination aspects)
+  status: AspectStatus;
+  perfection: Date | null; // exact time for applying aspects (null if separating, refranated,
+                           // declination-based or involving an angle/lot)
+  isRefranation: boolean;  // applying, but a station turns it away before perfection
 }
 
-const ASPECT_DEFINITIONS: Array<{
-  type: AspectType;
+// A body taking part in aspects; planets are converted from PlanetPosition
+export interface AspectPoint {
+  body: AspectBody;
+  longitude: number;
+  speed: number;
+  declination?: number;
+  declinationSpeed?: number;
+}
+
+// Which aspects the (Pro) aspectarian shows, persisted per user
+export interface AspectConfig {
+  minorAspects: boolean;    // semisextile, semisquare, sesquiquadrate, quincunx, (bi)quintile
+  declinations: boolean;    // parallels & contraparallels
+  nodes: boolean;           // North & South Node
+  lilith: boolean;
+  asteroids: boolean;       // Chiron, Ceres, Pallas, Juno & Vesta, when the chart includes them
+  lots: boolean;            // Part of Fortune & Part of Spirit
+  angles: boolean;          // Ascendant & Midheaven
+}
+
+export const DEFAULT_ASPECT_CONFIG: AspectConfig = {
+  minorAspects: true,
+  declinations: true,
+  nodes: true,
+  lilith: false,
+  asteroids: true,
+  lots: false,
+  angles: true,
+};
+
+export const ASPECT_CONFIG_LABELS: Record<keyof AspectConfig, string> = {
+  minorAspects: 'Minor aspects',
+  declinations: 'Parallels',
+  nodes: 'Nodes',
+  lilith: 'Lilith',
+  asteroids: 'Asteroids',
+  lots: 'Fortune & Spirit',
+  angles: 'ASC & MC',
+};
+
+export interface AspectOptions {
+  minorAspects?: boolean;
+  declinations?: boolean;
+  nodes?: boolean;
+  lilith?: boolean;
+  asteroids?: boolean;
+  points?: AspectPoint[];   // extra points such as angles and lots
+  topocentric?: LocationInput;  // where topocentric positions are seen from, for the perfection search
+}
+
+// Traditional orbs of light (Lilly); an aspect's orb is the sum of both moieties
+export const PLANET_ORBS: Partial<Record<Planet, number>> = {
+  Sun: 15, Moon: 12, Mercury: 7, Venus: 7, Mars: 7.5, Jupiter: 9, Saturn: 9,
+  Uranus: 5, Neptune: 5, Pluto: 5,
+};
+const DEFAULT_PLANET_ORB = 5;
+const ASTEROID_ORB = 3;
+const DECLINATION_ORB = 1;
+
+const ANGLE_NAMES: Record<LotAngle, string> = {
+  ASC: 'Ascendant', MC: 'Midheaven', DSC: 'Descendant', IC: 'Imum Coeli',
+};
+const ANGLE_SYMBOLS: Record<LotAngle, string> = { ASC: 'AC', MC: 'MC', DSC: 'DC', IC: 'IC' };
+const LOT_SYMBOL = '⊗';
+const POINT_COLOR = '#D4AF37';
+
+// Lots offered to the aspectarian (the two principal Arabic Parts)
+const ASPECT_LOT_IDS = ['fortune', 'spirit'];
+
+const DAY_MS = 86400000;
+const MAX_PERFECTION_DAYS = 1100;   // ~3 years, enough for slow outer-planet pairs
+const MIN_SEARCH_STEP = 1 / 96;     // 15 minutes
+const MAX_SEARCH_STEP = 10;
+
+const ASPECT_DEFINITIONS: {
+  type: PtolemaicAspectType | MinorAspectType;
   angle: number;
   symbol: string;
-  maxOrb: number;
+  maxOrb?: number;          // fixed cap for minor aspects; Ptolemaic aspects use moieties
+  isMinor: boolean;
   nature: 'harmonious' | 'challenging' | 'neutral';
-}> = [
-  { type: 'Conjunction', angle: 0, symbol: '☌', maxOrb: 8, nature: 'neutral' },
-  { type: 'Sextile', angle: 60, symbol: '⚹', maxOrb: 4, nature: 'harmonious' },
-  { type: 'Square', angle: 90, symbol: '□', maxOrb: 6, nature: 'challenging' },
-  { type: 'Trine', angle: 120, symbol: '△', maxOrb: 6, nature: 'harmonious' },
-  { type: 'Opposition', angle: 180, symbol: '☍', maxOrb: 8, nature: 'challenging' },
+}[] = [
+  { type: 'Conjunction', angle: 0, symbol: '☌', isMinor: false, nature: 'neutral' },
+  { type: 'Sextile', angle: 60, symbol: '⚹', isMinor: false, nature: 'harmonious' },
+  { type: 'Square', angle: 90, symbol: '□', isMinor: false, nature: 'challenging' },
+  { type: 'Trine', angle: 120, symbol: '△', isMinor: false, nature: 'harmonious' },
+  { type: 'Opposition', angle: 180, symbol: '☍', isMinor: false, nature: 'challenging' },
+  { type: 'Semisextile', angle: 30, symbol: '⚺', maxOrb: 2, isMinor: true, nature: 'harmonious' },
+  { type: 'Semisquare', angle: 45, symbol: '∠', maxOrb: 2, isMinor: true, nature: 'challenging' },
+  { type: 'Quintile', angle: 72, symbol: 'Q', maxOrb: 2, isMinor: true, nature: 'harmonious' },
+  { type: 'Sesquiquadrate', angle: 135, symbol: '⚼', maxOrb: 2, isMinor: true, nature: 'challenging' },
+  { type: 'Biquintile', angle: 144, symbol: 'bQ', maxOrb: 2, isMinor: true, nature: 'harmonious' },
+  { type: 'Quincunx', angle: 150, symbol: '⚻', maxOrb: 3, isMinor: true, nature: 'challenging' },
 ];
 
+const DECLINATION_SYMBOLS: Record<DeclinationAspectType, string> = { Parallel: '∥', Contraparallel: '⋕' };
+
 const ASPECT_INTERPRETATIONS: Record<AspectType, Record<string, string>> = {
   Conjunction: {
     default: 'Energies merge and intensify. A powerful focal point.',
@@ -54,6 +162,38 @@ const ASPECT_INTERPRETATIONS: Record<AspectType, Record<string, string>> = {
     default: 'Polarity and awareness. Two forces seeking balance.',
     exact: 'Exact opposition: Full awareness — integration required.',
   },
+  Semisextile: {
+    default: 'Subtle adjustment between neighbouring signs.',
+    exact: 'Exact semisextile: A quiet but precise link.',
+  },
+  Semisquare: {
+    default: 'Minor friction. Irritation that prompts small corrections.',
+    exact: 'Exact semisquare: Sharp, nagging tension.',
+  },
+  Sesquiquadrate: {
+    default: 'Agitation and restlessness. Pressure building toward release.',
+    exact: 'Exact sesquiquadrate: Tension breaks into action.',
+  },
+  Quincunx: {
+    default: 'Incompatible natures that must adjust to each other.',
+    exact: 'Exact quincunx: Constant recalibration required.',
+  },
+  Quintile: {
+    default: 'Creative talent and the shaping of form.',
+    exact: 'Exact quintile: A gift for pattern and craft.',
+  },
+  Biquintile: {
+    default: 'Refined creative skill, expressed with effort.',
+    exact: 'Exact biquintile: Mastery through creative discipline.',
+  },
+  Parallel: {
+    default: 'Same declination: acts like a conjunction.',
+    exact: 'Exact parallel: Energies fused by declination.',
+  },
+  Contraparallel: {
+    default: 'Mirrored declination: acts like an opposition.',
+    exact: 'Exact contraparallel: Polarity across the celestial equator.',
+  },
 };
 
 /**
@@ -65,51 +205,271 @@ function angularSeparation(lon1: number, lon2: number): number {
   return diff;
 }
 
+/**
+ * Wrap an angle to [-180, 180)
+ */
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+function isChartPoint(body: AspectBody): body is LotAngle | `Lot:${string}` {
+  return body.startsWith('Lot:') || body in ANGLE_NAMES;
+}
+
+/**
+ * Orb allowed between two bodies: half of each body's orb (moiety)
+ */
+export function getMoietyOrb(planet1: AspectBody, planet2: AspectBody): number {
+  const orbOf = (body: AspectBody) => {
+    if (isChartPoint(body)) return DEFAULT_PLANET_ORB;
+    return PLANET_ORBS[body] ?? (isAsteroid(body) ? ASTEROID_ORB : DEFAULT_PLANET_ORB);
+  };
+  return (orbOf(planet1) + orbOf(planet2)) / 2;
+}
+
+/**
+ * Display symbol of an aspect body (planet glyph, AC/MC, ⊗ for lots)
+ */
+export function getAspectBodySymbol(body: AspectBody): string {
+  if (body.startsWith('Lot:')) return LOT_SYMBOL;
+  if (body in ANGLE_SYMBOLS) return ANGLE_SYMBOLS[body as LotAngle];
+  return PLANET_SYMBOLS[body as Planet];
+}
+
+/**
+ * Display name of an aspect body; lot names come from the chart's lots
+ */
+export function getAspectBodyName(body: AspectBody, lots: LotPosition[] = []): string {
+  if (body.startsWith('Lot:')) {
+    return lots.find(l => `Lot:${l.id}` === body)?.name ?? formatLotOperand(body);
+  }
+  if (body in ANGLE_NAMES) return ANGLE_NAMES[body as LotAngle];
+  return body;
+}
+
+export function getAspectBodyColor(body: AspectBody): string {
+  return isChartPoint(body) ? POINT_COLOR : PLANET_COLORS[body];
+}
+
+/**
+ * Status of an aspect for journal text, e.g. 'applying, perfects Oct 21 14:05'
+ */
+export function formatAspectTiming(aspect: Aspect): string {
+  const status = aspect.status.toLowerCase();
+  if (aspect.isRefranation) return `${status}, refranation`;
+  if (!aspect.perfection) return status;
+  const date = aspect.perfection.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const time = aspect.perfection.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+  return `${status}, perfects ${date} ${time}`;
+}
+
+export function getAspectSymbol(type: AspectType): string {
+  if (type === 'Parallel' || type === 'Contraparallel') return DECLINATION_SYMBOLS[type];
+  return ASPECT_DEFINITIONS.find(def => def.type === type)!.symbol;
+}
+
+/**
+ * Signed distance (degrees) from exactness: longitude of p2 relative to p1
+ * minus the nearest of +angle / −angle
+ */
+function signedAspectError(lon1: number, lon2: number, angle: number): { error: number; target: number } {
+  const rel = wrap180(lon2 - lon1);
+  const target = rel >= 0 ? angle : -angle;
+  return { error: wrap180(rel - target), target };
+}
+
+function ephemerisLongitude(body: AspectBody, date: Date, topocentric?: LocationInput): number | null {
+  return isChartPoint(body) ? null : getPlanetLongitude(body, date, topocentric);
+}
+
+/**
+ * Search forward for the moment an applying aspect perfects, using the
+ * ephemeris so retrograde stations are respected. If the separation
+ * reaches a minimum without perfecting, the aspect is refranated.
+ */
+function findPerfection(
+  p1: AspectPoint,
+  p2: AspectPoint,
+  target: number,
+  date: Date,
+  topocentric?: LocationInput,
+): { perfection: Date | null; isRefranation: boolean } {
+  const start = date.getTime();
+  // Track motion relative to the chart position so sidereal charts work unchanged;
+  // points without an ephemeris (nodes) move linearly at their speed
+  const base1 = ephemerisLongitude(p1.body, date, topocentric);
+  const base2 = ephemerisLongitude(p2.body, date, topocentric);
+  const motion = (point: AspectPoint, base: number | null, t: number) => {
+    if (base === null) return point.speed * t;
+    return (ephemerisLongitude(point.body, new Date(start + t * DAY_MS), topocentric) ?? base) - base;
+  };
+  const lonAt = (point: AspectPoint, base: number | null, t: number) => point.longitude + motion(point, base, t);
+  const errorAt = (t: number) => wrap180(wrap180(lonAt(p2, base2, t) - lonAt(p1, base1, t)) - target);
+
+  let t = 0;
+  let err = errorAt(0);
+  let rate = p2.speed - p1.speed;
+
+  while (t < MAX_PERFECTION_DAYS) {
+    const step = Math.min(MAX_SEARCH_STEP, Math.max(MIN_SEARCH_STEP, Math.abs(err) / Math.max(Math.abs(rate), 1e-6) / 2));
+    const next = errorAt(t + step);
+
+    if (Math.sign(next) !== Math.sign(err) && Math.abs(next - err) < 90) {
+      // Bisect to ~1 second
+      let lo = t;
+      let hi = t + step;
+      for (let i = 0; i < 40 && (hi - lo) * DAY_MS > 1000; i++) {
+        const mid = (lo + hi) / 2;
+        if (Math.sign(errorAt(mid)) === Math.sign(err)) lo = mid;
+        else hi = mid;
+      }
+      return { perfection: new Date(start + ((lo + hi) / 2) * DAY_MS), isRefranation: false };
+    }
+    if (Math.abs(next) > Math.abs(err)) {
+      return { perfection: null, isRefranation: true };
+    }
+
+    rate = (next - err) / step;
+    t += step;
+    err = next;
+  }
+  return { perfection: null, isRefranation: false };
+}
+
+function interpret(p1: AspectPoint, p2: AspectPoint, type: AspectType, symbol: string, isExact: boolean): string {
+  const text = ASPECT_INTERPRETATIONS[type][isExact ? 'exact' : 'default'];
+  return `${getAspectBodySymbol(p1.body)} ${symbol} ${getAspectBodySymbol(p2.body)}: ${text}`;
+}
+
+/**
+ * Parallel (same declination) or contraparallel (mirrored across the
+ * celestial equator) between two points, whichever is tighter
+ */
+function findDeclinationAspect(p1: AspectPoint, p2: AspectPoint, maxOrb?: number): Aspect | null {
+  if (p1.declination === undefined || p2.declination === undefined) return null;
+  const limit = Math.min(maxOrb ?? Infinity, DECLINATION_ORB);
+  const parallel = p2.declination - p1.declination;
+  const contra = p2.declination + p1.declination;
+  const type: DeclinationAspectType = Math.abs(parallel) <= Math.abs(contra) ? 'Parallel' : 'Contraparallel';
+  const error = type === 'Parallel' ? parallel : contra;
+  const orb = Math.abs(error);
+  if (orb > limit) return null;
+
+  const speed1 = p1.declinationSpeed ?? 0;
+  const speed2 = p2.declinationSpeed ?? 0;
+  const rate = type === 'Parallel' ? speed2 - speed1 : speed2 + speed1;
+  const isExact = orb < 1 / 6; // declination aspects are tight by nature: exact within 10'
+  const symbol = DECLINATION_SYMBOLS[type];
+
+  return {
+    planet1: p1.body,
+    planet2: p2.body,
+    type,
+    exactAngle: 0,
+    actualAngle: orb,
+    orb,
+    isExact,
+    symbol,
+    interpretation: interpret(p1, p2, type, symbol, isExact),
+    orbLimit: limit,
+    status: error * rate < 0 ? 'Applying' : 'Separating',
+    perfection: null,
+    isRefranation: false,
+  };
+}
+
+function toAspectPoint(pos: PlanetPosition): AspectPoint {
+  return {
+    body: pos.planet,
+    longitude: pos.longitude,
+    speed: pos.speed,
+    declination: pos.declination,
+    declinationSpeed: pos.declinationSpeed,
+  };
+}
+
 /**
  * Calculate all aspects between planet positions
  * @param positions Array of planet positions
- * @param maxOrb Maximum orb to consider (default: 3° for major aspects filter)
+ * @param maxOrb Optional cap on the orb; without it the moiety orb of each
+ *   pair is the limit
+ * @param date Chart moment; when given, perfection times of applying aspects are computed
+ * @param options Minor/declination aspects, nodes, Lilith, asteroids and extra points (off by default),
+ *   and the observer of topocentric positions
  */
 export function calculateAspects(
   positions: PlanetPosition[],
-  maxOrb: number = 3,
+  maxOrb?: number,
+  date?: Date,
+  options: AspectOptions = {},
 ): Aspect[] {
   const aspects: Aspect[] = [];
 
-  // Filter out non-planet bodies for aspect calculation
-  const planets = positions.filter(p =>
-    p.planet !== 'NorthNode' && p.planet !== 'SouthNode' && p.planet !== 'Lilith'
-  );
+  // Nodes, Lilith and the asteroids only take part when requested
+  const points = [
+    ...positions
+      .filter(p => {
+        if (p.planet === 'NorthNode' || p.planet === 'SouthNode') return !!options.nodes;
+        if (p.planet === 'Lilith') return !!options.lilith;
+        if (isAsteroid(p.planet)) return !!options.asteroids;
+        return true;
+      })
+      .map(toAspectPoint),
+    ...(options.points ?? []),
+  ];
+  const definitions = ASPECT_DEFINITIONS.filter(def => options.minorAspects || !def.isMinor);
+
+  // Every pair needs at least one planet: no node–node or lot–angle aspects
+  const isPlanet = (point: AspectPoint) => !isChartPoint(point.body) && point.body in PLANET_ORBS;
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const p1 = points[i];
+      const p2 = points[j];
+      if (!isPlanet(p1) && !isPlanet(p2)) continue;
 
-  for (let i = 0; i < planets.length; i++) {
-    for (let j = i + 1; j < planets.length; j++) {
-      const p1 = planets[i];
-      const p2 = planets[j];
       const separation = angularSeparation(p1.longitude, p2.longitude);
+      const orbLimit = getMoietyOrb(p1.body, p2.body);
 
-      for (const def of ASPECT_DEFINITIONS) {
+      // Only one longitude aspect per pair: the tightest match
+      let best: { def: typeof ASPECT_DEFINITIONS[number]; orb: number } | null = null;
+      for (const def of definitions) {
         const orb = Math.abs(separation - def.angle);
-        const effectiveMaxOrb = Math.min(maxOrb, def.maxOrb);
-
-        if (orb <= effectiveMaxOrb) {
-          const isExact = orb < 1;
-          const interpretation = isExact
-            ? ASPECT_INTERPRETATIONS[def.type].exact
-            : ASPECT_INTERPRETATIONS[def.type].default;
-
-          aspects.push({
-            planet1: p1.planet,
-            planet2: p2.planet,
-            type: def.type,
-            exactAngle: def.angle,
-            actualAngle: separation,
-            orb,
-            isExact,
-            symbol: def.symbol,
-            interpretation: `${PLANET_SYMBOLS[p1.planet]} ${def.symbol} ${PLANET_SYMBOLS[p2.planet]}: ${interpretation}`,
-          });
-          break; // Only one aspect per pair
-        }
+        const effectiveMaxOrb = Math.min(maxOrb ?? Infinity, orbLimit, def.maxOrb ?? Infinity);
+        if (orb <= effectiveMaxOrb && (!best || orb < best.orb)) best = { def, orb };
+      }
+
+      if (best) {
+        const { def, orb } = best;
+        const isExact = orb < 1;
+
+        // Applying when the distance from exactness is shrinking
+        const { error, target } = signedAspectError(p1.longitude, p2.longitude, def.angle);
+        const relativeSpeed = p2.speed - p1.speed;
+        const status: AspectStatus = error * relativeSpeed < 0 ? 'Applying' : 'Separating';
+        const timing = status === 'Applying' && date && !isChartPoint(p1.body) && !isChartPoint(p2.body)
+          ? findPerfection(p1, p2, target, date, options.topocentric)
+          : { perfection: null, isRefranation: false };
+
+        aspects.push({
+          planet1: p1.body,
+          planet2: p2.body,
+          type: def.type,
+          exactAngle: def.angle,
+          actualAngle: separation,
+          orb,
+          isExact,
+          symbol: def.symbol,
+          interpretation: interpret(p1, p2, def.type, def.symbol, isExact),
+          orbLimit,
+          status,
+          ...timing,
+        });
+      }
+
+      if (options.declinations) {
+        const declinationAspect = findDeclinationAspect(p1, p2, maxOrb);
+        if (declinationAspect) aspects.push(declinationAspect);
       }
     }
   }
@@ -121,10 +481,104 @@ export function calculateAspects(
 }
 
 /**
- * Get only major aspects (Conjunction, Opposition, Square, Trine) with tight orb
+ * Aspects of a chart following the user's aspectarian settings. Angles and
+ * lots are treated as fixed points: planets apply to them by their own motion.
+ */
+export function calculateChartAspects(chart: ChartData, config: AspectConfig, maxOrb?: number): Aspect[] {
+  const points: AspectPoint[] = [];
+  if (config.angles) {
+    points.push(
+      { body: 'ASC', longitude: chart.angles.ascendant, speed: 0 },
+      { body: 'MC', longitude: chart.angles.midheaven, speed: 0 },
+    );
+  }
+  if (config.lots) {
+    for (const lot of chart.lots.filter(l => ASPECT_LOT_IDS.includes(l.id))) {
+      points.push({ body: `Lot:${lot.id}`, longitude: lot.longitude, speed: 0 });
+    }
+  }
+  return calculateAspects(chart.planets, maxOrb, chart.timestamp, {
+    minorAspects: config.minorAspects,
+    declinations: config.declinations,
+    nodes: config.nodes,
+    lilith: config.lilith,
+    asteroids: config.asteroids,
+    points,
+    topocentric: getChartObserver(chart),
+  });
+}
+
+/**
+ * Planets (without nodes, Lilith and asteroids) and optionally ASC/MC of a chart as aspect points
+ */
+export function getChartAspectPoints(chart: ChartData, includeAngles: boolean = true): AspectPoint[] {
+  const points = chart.planets
+    .filter(p => p.planet in PLANET_ORBS)
+    .map(toAspectPoint);
+  if (includeAngles) {
+    points.push(
+      { body: 'ASC', longitude: chart.angles.ascendant, speed: 0 },
+      { body: 'MC', longitude: chart.angles.midheaven, speed: 0 },
+    );
+  }
+  return points;
+}
+
+/**
+ * Aspects from one set of points to another (progressions, directions,
+ * synastry) within a fixed orb. planet1 always comes from the first set;
+ * status follows the relative motion of the two points.
  */
-export function getMajorAspects(positions: PlanetPosition[], maxOrb: number = 3): Aspect[] {
-  const all = calculateAspects(positions, maxOrb);
+export function calculateCrossAspects(
+  points1: AspectPoint[],
+  points2: AspectPoint[],
+  orb: number,
+  types: PtolemaicAspectType[] = ['Conjunction', 'Sextile', 'Square', 'Trine', 'Opposition'],
+): Aspect[] {
+  const aspects: Aspect[] = [];
+  const definitions = ASPECT_DEFINITIONS.filter(def => (types as string[]).includes(def.type));
+
+  for (const p1 of points1) {
+    for (const p2 of points2) {
+      const separation = angularSeparation(p1.longitude, p2.longitude);
+      for (const def of definitions) {
+        const aspectOrb = Math.abs(separation - def.angle);
+        if (aspectOrb > orb) continue;
+        const isExact = aspectOrb < 1;
+        const { error } = signedAspectError(p1.longitude, p2.longitude, def.angle);
+        aspects.push({
+          planet1: p1.body,
+          planet2: p2.body,
+          type: def.type,
+          exactAngle: def.angle,
+          actualAngle: separation,
+          orb: aspectOrb,
+          isExact,
+          symbol: def.symbol,
+          interpretation: interpret(p1, p2, def.type, def.symbol, isExact),
+          orbLimit: orb,
+          status: error * (p2.speed - p1.speed) < 0 ? 'Applying' : 'Separating',
+          perfection: null,
+          isRefranation: false,
+        });
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
+
+/**
+ * Get only major aspects (Conjunction, Opposition, Square, Trine) within
+ * the moiety orbs, or a tighter cap when given
+ */
+export function getMajorAspects(
+  positions: PlanetPosition[],
+  maxOrb?: number,
+  date?: Date,
+  options: AspectOptions = {},
+): Aspect[] {
+  const all = calculateAspects(positions, maxOrb, date, options);
   return all.filter(a =>
     a.type === 'Conjunction' || a.type === 'Opposition' ||
     a.type === 'Square' || a.type === 'Trine'
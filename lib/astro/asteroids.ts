@@ -0,0 +1,123 @@
+// ============================================================
+// ÆONIS – Asteroids & Centaurs
+// Chiron, Ceres, Pallas, Juno and Vesta from bundled osculating
+// elements (epoch 2019-04-27), propagated as two-body orbits.
+// Within a degree for some decades either side of the epoch;
+// planetary perturbations add up over centuries.
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import { Asteroid, Planet, ASTEROIDS } from './types';
+
+interface OrbitalElements {
+  a: number;                // semi-major axis (AU)
+  e: number;                // eccentricity
+  i: number;                // inclination to the J2000 ecliptic (°)
+  node: number;             // longitude of the ascending node (°)
+  peri: number;             // argument of perihelion (°)
+  meanAnomaly: number;      // at the epoch (°)
+}
+
+export interface AsteroidPosition {
+  longitude: number;        // tropical ecliptic longitude of date
+  latitude: number;
+  speed: number;            // daily speed in degrees
+}
+
+const EPOCH_JD = 2458600.5;               // 2019-04-27 TT
+const GAUSS_K = 0.01720209895;            // Gaussian gravitational constant (rad/day)
+const LIGHT_DAYS_PER_AU = 1 / 173.1446326846693;
+const DEG = Math.PI / 180;
+
+// Mean anomalies are matched to observed oppositions and sign ingresses
+// of 2011-2023 (Pallas to its occultation of 1 Vulpeculae in 1983)
+const ELEMENTS: Record<Asteroid, OrbitalElements> = {
+  Chiron: { a: 13.648, e: 0.3827, i: 6.9302, node: 209.2984, peri: 339.2537, meanAnomaly: 165.90 },
+  Ceres: { a: 2.76917, e: 0.07601, i: 10.5941, node: 80.3055, peri: 73.5977, meanAnomaly: 77.72 },
+  Pallas: { a: 2.7723, e: 0.2305, i: 34.836, node: 173.096, peri: 310.202, meanAnomaly: 59.52 },
+  Juno: { a: 2.6682, e: 0.2562, i: 12.991, node: 169.8712, peri: 248.41, meanAnomaly: 34.64 },
+  Vesta: { a: 2.36179, e: 0.08874, i: 7.14043, node: 103.85136, peri: 151.19853, meanAnomaly: 95.22 },
+};
+
+const ECLIPTIC_TO_EQUATOR = Astronomy.Rotation_ECL_EQJ();
+
+export function isAsteroid(planet: Planet): planet is Asteroid {
+  return (ASTEROIDS as Planet[]).includes(planet);
+}
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Heliocentric position in the J2000 ecliptic from Kepler's equation
+ */
+function heliocentricEcliptic(el: OrbitalElements, jd: number): { x: number; y: number; z: number } {
+  const meanMotion = GAUSS_K / Math.pow(el.a, 1.5);
+  const M = el.meanAnomaly * DEG + meanMotion * (jd - EPOCH_JD);
+
+  // Newton iteration on E − e·sin E = M
+  let E = M;
+  for (let k = 0; k < 30; k++) {
+    const delta = (E - el.e * Math.sin(E) - M) / (1 - el.e * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+
+  const xv = el.a * (Math.cos(E) - el.e);
+  const yv = el.a * Math.sqrt(1 - el.e * el.e) * Math.sin(E);
+  const r = Math.hypot(xv, yv);
+  const u = Math.atan2(yv, xv) + el.peri * DEG;   // argument of latitude
+  const node = el.node * DEG;
+  const inc = el.i * DEG;
+
+  return {
+    x: r * (Math.cos(node) * Math.cos(u) - Math.sin(node) * Math.sin(u) * Math.cos(inc)),
+    y: r * (Math.sin(node) * Math.cos(u) + Math.cos(node) * Math.sin(u) * Math.cos(inc)),
+    z: r * Math.sin(u) * Math.sin(inc),
+  };
+}
+
+/**
+ * Geocentric J2000 equatorial vector, corrected for light-time
+ */
+export function getAsteroidVector(asteroid: Asteroid, date: Date): Astronomy.Vector {
+  const time = Astronomy.MakeTime(date);
+  const earth = Astronomy.HelioVector(Astronomy.Body.Earth, time);
+  let lightTime = 0;
+  let geo = new Astronomy.Vector(0, 0, 0, time);
+  for (let k = 0; k < 3; k++) {
+    const h = heliocentricEcliptic(ELEMENTS[asteroid], time.tt + 2451545.0 - lightTime);
+    const helio = Astronomy.RotateVector(ECLIPTIC_TO_EQUATOR, new Astronomy.Vector(h.x, h.y, h.z, time));
+    geo = new Astronomy.Vector(helio.x - earth.x, helio.y - earth.y, helio.z - earth.z, time);
+    lightTime = geo.Length() * LIGHT_DAYS_PER_AU;
+  }
+  return geo;
+}
+
+/**
+ * Ecliptic position of date and daily motion. Parallax is below 10″ at
+ * these distances, so the same position serves topocentric charts.
+ */
+export function calcAsteroidPosition(asteroid: Asteroid, date: Date): AsteroidPosition {
+  const ecl = Astronomy.Ecliptic(getAsteroidVector(asteroid, date));
+  const eclPlus = Astronomy.Ecliptic(getAsteroidVector(asteroid, new Date(date.getTime() + 3600000)));
+  // Wrap the hourly step across 0° Aries before scaling it to a day
+  const speed = wrap180(eclPlus.elon - ecl.elon) * 24;
+  return { longitude: ecl.elon, latitude: ecl.elat, speed };
+}
+
+/**
+ * Azimuth and altitude above the observer's horizon
+ */
+export function calcAsteroidHorizon(
+  asteroid: Asteroid,
+  date: Date,
+  observer: Astronomy.Observer,
+): { azimuth: number; altitude: number } {
+  const time = Astronomy.MakeTime(date);
+  const ofDate = Astronomy.RotateVector(Astronomy.Rotation_EQJ_EQD(time), getAsteroidVector(asteroid, date));
+  const equatorial = Astronomy.EquatorFromVector(ofDate);
+  const horizontal = Astronomy.Horizon(time, observer, equatorial.ra, equatorial.dec, 'normal');
+  return { azimuth: horizontal.azimuth, altitude: horizontal.altitude };
+}
@@ -0,0 +1,60 @@
+// ============================================================
+// ÆONIS – Sidereal Zodiac (Ayanamsas)
+// Mean ayanamsa = value at J2000 + general precession in longitude
+// ============================================================
+
+import { Ayanamsa, AyanamsaInfo, ChartData } from './types';
+
+// Ayanamsa values at J2000.0 (2000-01-01 12:00 TT) in degrees
+const AYANAMSA_J2000: Record<Ayanamsa, number> = {
+  Lahiri: 23.857092,          // Chitrapaksha, Indian Ephemeris standard
+  FaganBradley: 24.740300,    // Western sidereal (Synetic Vernal Point)
+  Krishnamurti: 23.760240,    // KP system
+  GalacticCenter: 26.839520,  // Galactic Center fixed at 0° Sagittarius
+};
+
+export const AYANAMSAS: Ayanamsa[] = ['Lahiri', 'FaganBradley', 'Krishnamurti', 'GalacticCenter'];
+
+export const AYANAMSA_LABELS: Record<Ayanamsa, string> = {
+  Lahiri: 'Lahiri',
+  FaganBradley: 'Fagan-Bradley',
+  Krishnamurti: 'Krishnamurti',
+  GalacticCenter: 'Galactic Center',
+};
+
+/**
+ * Calculate the ayanamsa in degrees for a Julian Day (UT)
+ * using the IAU 2006 general precession in longitude.
+ */
+export function calculateAyanamsa(julianDay: number, system: Ayanamsa): number {
+  const T = (julianDay - 2451545.0) / 36525.0;
+  const precessionArcsec = 5028.796195 * T + 1.1054348 * T * T;
+  return AYANAMSA_J2000[system] + precessionArcsec / 3600;
+}
+
+/**
+ * Convert a tropical longitude to sidereal
+ */
+export function toSidereal(tropicalLongitude: number, ayanamsa: number): number {
+  return (((tropicalLongitude - ayanamsa) % 360) + 360) % 360;
+}
+
+/**
+ * Format an ayanamsa value as D°MM'SS"
+ */
+export function formatAyanamsa(info: AyanamsaInfo): string {
+  const totalSec = Math.round(info.value * 3600);
+  const deg = Math.floor(totalSec / 3600);
+  const min = Math.floor((totalSec % 3600) / 60);
+  const sec = totalSec % 60;
+  return `${deg}°${min.toString().padStart(2, '0')}'${sec.toString().padStart(2, '0')}"`;
+}
+
+/**
+ * Short zodiac label for journal snapshots and headers,
+ * e.g. "Tropical" or "Sidereal · Lahiri 24°12'41""
+ */
+export function getZodiacLabel(chart: Pick<ChartData, 'zodiac' | 'ayanamsa'>): string {
+  if (chart.zodiac === 'Tropical' || !chart.ayanamsa) return 'Tropical';
+  return `Sidereal · ${AYANAMSA_LABELS[chart.ayanamsa.system]} ${formatAyanamsa(chart.ayanamsa)}`;
+}
@@ -0,0 +1,260 @@
+// ============================================================
+// ÆONIS – Chart Wheel Geometry
+// Signs ring, house cusps, planet glyphs with collision avoidance
+// and aspect lines, laid out once and drawn either by the
+// react-native-svg component or as standalone SVG markup for export
+// ============================================================
+
+import { Aspect, AspectBody } from './aspects';
+import {
+  ChartData, Planet, PLANET_SYMBOLS, PLANET_COLORS, ZODIAC_SIGNS, ZODIAC_SYMBOLS,
+} from './types';
+
+export interface WheelRing {
+  planets: { planet: Planet; longitude: number }[];
+}
+
+export interface WheelBase extends WheelRing {
+  ascendant: number;
+  midheaven?: number;
+  cusps: number[];
+}
+
+export interface WheelOptions {
+  outer?: WheelRing;        // second chart on an outer ring (transits, synastry, natal around a return)
+  aspects?: Aspect[];       // planet1 from the inner chart; planet2 from the outer ring when there is one
+  size?: number;            // width and height in px
+}
+
+export interface WheelCircle {
+  r: number;
+  stroke: string;
+  strokeWidth: number;
+  fill: string;
+}
+
+export interface WheelLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+}
+
+export interface WheelLabel {
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  fontSize: number;
+}
+
+// Primitives in drawing order: circles, then lines, then labels
+export interface WheelLayout {
+  size: number;
+  circles: WheelCircle[];
+  lines: WheelLine[];
+  labels: WheelLabel[];
+}
+
+export const WHEEL_BACKGROUND = '#0A0A0A';
+const DEFAULT_SIZE = 340;
+const MIN_GLYPH_SEPARATION = 8;   // degrees between neighbouring glyphs on a ring
+const RING_COLOR = '#D4AF3740';
+const HUB_COLOR = '#1A1A1A';
+const ANGLE_COLOR = '#D4AF37';
+
+const WHEEL_ASPECT_COLORS: Record<string, string> = {
+  Conjunction: '#D4AF37',
+  Sextile: '#3B82F6',
+  Square: '#EF4444',
+  Trine: '#22C55E',
+  Opposition: '#F59E0B',
+};
+const MINOR_ASPECT_COLOR = '#6B6B6B';
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Wheel data of a chart: its planets, Ascendant, Midheaven and cusps
+ */
+export function chartToWheel(chart: ChartData): WheelBase {
+  return {
+    planets: chart.planets.map(p => ({ planet: p.planet, longitude: p.longitude })),
+    ascendant: chart.angles.ascendant,
+    midheaven: chart.angles.midheaven,
+    cusps: chart.houses.cusps,
+  };
+}
+
+/**
+ * Spread glyph positions that sit too close together so they stay
+ * legible. Crowded glyphs are grouped into clusters, each fanned out
+ * evenly around the mean of its true longitudes; clusters that then
+ * touch are merged. The wheel is cut at the widest gap so no cluster
+ * straddles 0° Aries.
+ */
+export function spreadLongitudes(longitudes: number[], minSeparation: number = MIN_GLYPH_SEPARATION): number[] {
+  const n = longitudes.length;
+  if (n < 2) return longitudes.map(normalizeDegrees);
+  const sep = Math.min(minSeparation, 360 / n);
+
+  const sorted = longitudes.map((lon, i) => ({ lon: normalizeDegrees(lon), i })).sort((a, b) => a.lon - b.lon);
+  let start = 0;
+  let widest = -1;
+  for (let k = 0; k < n; k++) {
+    const next = k + 1 < n ? sorted[k + 1].lon : sorted[0].lon + 360;
+    if (next - sorted[k].lon > widest) {
+      widest = next - sorted[k].lon;
+      start = (k + 1) % n;
+    }
+  }
+  const unwrapped = sorted.map((_, k) => {
+    const item = sorted[(start + k) % n];
+    return { i: item.i, lon: start + k >= n ? item.lon + 360 : item.lon };
+  });
+
+  const clusters = unwrapped.map(item => ({ members: [item], center: item.lon }));
+  const halfSpan = (c: { members: unknown[] }) => (c.members.length - 1) * sep / 2;
+  let merged = true;
+  while (merged) {
+    merged = false;
+    for (let k = 0; k + 1 < clusters.length; k++) {
+      const a = clusters[k];
+      const b = clusters[k + 1];
+      if ((b.center - halfSpan(b)) - (a.center + halfSpan(a)) < sep - 1e-9) {
+        const members = [...a.members, ...b.members];
+        const center = members.reduce((sum, m) => sum + m.lon, 0) / members.length;
+        clusters.splice(k, 2, { members, center });
+        merged = true;
+        break;
+      }
+    }
+  }
+
+  const result: number[] = new Array(n);
+  for (const cluster of clusters) {
+    cluster.members.forEach((m, k) => {
+      result[m.i] = normalizeDegrees(cluster.center - halfSpan(cluster) + k * sep);
+    });
+  }
+  return result;
+}
+
+function bodyLongitude(body: AspectBody, ring: WheelRing | WheelBase): number | null {
+  if ('ascendant' in ring) {
+    if (body === 'ASC') return ring.ascendant;
+    if (body === 'MC') return ring.midheaven ?? null;
+  }
+  return ring.planets.find(p => p.planet === body)?.longitude ?? null;
+}
+
+/**
+ * Lay out a chart wheel with the base chart inside and an optional
+ * second chart on an outer ring. The base Ascendant sits at nine o'clock
+ * and the zodiac runs counter-clockwise.
+ */
+export function layoutChartWheel(inner: WheelBase, options: WheelOptions = {}): WheelLayout {
+  const { outer, aspects = [], size = DEFAULT_SIZE } = options;
+  const k = size / DEFAULT_SIZE;
+  const c = size / 2;
+  const rZodiacOuter = c - 2 * k;
+  const rZodiacInner = c - 26 * k;
+  const rOuterRing = outer ? c - 50 * k : rZodiacInner;
+  const rInnerGlyph = rOuterRing - 18 * k;
+  const rHub = rOuterRing - 40 * k;
+
+  const point = (longitude: number, radius: number) => {
+    const rad = ((longitude - inner.ascendant) * Math.PI) / 180;
+    return { x: c - radius * Math.cos(rad), y: c + radius * Math.sin(rad) };
+  };
+  const line = (lon1: number, r1: number, lon2: number, r2: number, stroke: string, strokeWidth: number, opacity = 1): WheelLine => {
+    const a = point(lon1, r1);
+    const b = point(lon2, r2);
+    return { x1: a.x, y1: a.y, x2: b.x, y2: b.y, stroke, strokeWidth: strokeWidth * k, opacity };
+  };
+
+  const circles: WheelCircle[] = [
+    { r: rZodiacOuter, stroke: RING_COLOR, strokeWidth: k, fill: WHEEL_BACKGROUND },
+    { r: rZodiacInner, stroke: RING_COLOR, strokeWidth: k, fill: 'none' },
+    ...(outer ? [{ r: rOuterRing + 14 * k, stroke: HUB_COLOR, strokeWidth: k, fill: 'none' }] : []),
+    { r: rHub, stroke: HUB_COLOR, strokeWidth: k, fill: 'none' },
+  ];
+  const lines: WheelLine[] = [];
+  const labels: WheelLabel[] = [];
+
+  // Zodiac band
+  ZODIAC_SIGNS.forEach((sign, i) => {
+    lines.push(line(i * 30, rZodiacOuter, i * 30, rZodiacInner, RING_COLOR, 1));
+    const glyph = point(i * 30 + 15, (rZodiacOuter + rZodiacInner) / 2);
+    labels.push({ ...glyph, text: ZODIAC_SYMBOLS[sign], color: '#D4AF3790', fontSize: 11 * k });
+  });
+
+  // House cusps of the base chart, angles in gold, house numbers inside the hub
+  inner.cusps.forEach((cusp, i) => {
+    const isAngle = i % 3 === 0;
+    lines.push(line(cusp, rZodiacInner, cusp, rHub, isAngle ? ANGLE_COLOR : '#2A2A2A', isAngle ? 1.5 : 1));
+    const next = inner.cusps[(i + 1) % inner.cusps.length];
+    const middle = cusp + normalizeDegrees(next - cusp) / 2;
+    labels.push({ ...point(middle, rHub - 9 * k), text: String(i + 1), color: '#4A4A4A', fontSize: 8 * k });
+  });
+
+  // Aspect lines across the hub
+  for (const aspect of aspects) {
+    if (aspect.type === 'Parallel' || aspect.type === 'Contraparallel') continue;
+    const from = bodyLongitude(aspect.planet1, inner);
+    const to = bodyLongitude(aspect.planet2, outer ?? inner);
+    if (from === null || to === null) continue;
+    lines.push(line(from, rHub, to, rHub, WHEEL_ASPECT_COLORS[aspect.type] ?? MINOR_ASPECT_COLOR, 1, 0.6));
+  }
+
+  // Planet glyphs, spread apart, with a tick at the true longitude
+  const placeRing = (ring: WheelRing, radius: number) => {
+    const spread = spreadLongitudes(ring.planets.map(p => p.longitude));
+    ring.planets.forEach((p, i) => {
+      const color = PLANET_COLORS[p.planet];
+      lines.push(line(p.longitude, radius + 12 * k, p.longitude, radius + 6 * k, color, 1));
+      labels.push({ ...point(spread[i], radius), text: PLANET_SYMBOLS[p.planet], color, fontSize: 12 * k });
+    });
+  };
+  if (outer) placeRing(outer, rOuterRing);
+  placeRing(inner, rInnerGlyph);
+
+  return { size, circles, lines, labels };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const fixed = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Standalone SVG document of a wheel layout, for sharing and printing
+ */
+export function renderChartWheelSvg(layout: WheelLayout, title?: string): string {
+  const { size } = layout;
+  const c = size / 2;
+  const parts = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+  ];
+  if (title) parts.push(`<title>${escapeXml(title)}</title>`);
+  parts.push(`<rect width="${size}" height="${size}" fill="${WHEEL_BACKGROUND}"/>`);
+  for (const circle of layout.circles) {
+    parts.push(`<circle cx="${fixed(c)}" cy="${fixed(c)}" r="${fixed(circle.r)}" stroke="${circle.stroke}" stroke-width="${fixed(circle.strokeWidth)}" fill="${circle.fill}"/>`);
+  }
+  for (const l of layout.lines) {
+    const opacity = l.opacity < 1 ? ` stroke-opacity="${l.opacity}"` : '';
+    parts.push(`<line x1="${fixed(l.x1)}" y1="${fixed(l.y1)}" x2="${fixed(l.x2)}" y2="${fixed(l.y2)}" stroke="${l.stroke}" stroke-width="${fixed(l.strokeWidth)}"${opacity}/>`);
+  }
+  for (const label of layout.labels) {
+    parts.push(`<text x="${fixed(label.x)}" y="${fixed(label.y)}" fill="${label.color}" font-size="${fixed(label.fontSize)}" text-anchor="middle" dominant-baseline="central">${escapeXml(label.text)}</text>`);
+  }
+  parts.push('</svg>');
+  return parts.join('\n');
+}
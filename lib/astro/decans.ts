@@ -0,0 +1,161 @@
+// ============================================================
+// ÆONIS – Decans & Faces
+// The 36 faces of 10° with their Chaldean rulers, Golden Dawn
+// minor arcana, Picatrix images (after Agrippa) and the Goetic
+// spirits of day and night
+// ============================================================
+
+import { ChartData, Planet, ZodiacSign, ZODIAC_SIGNS } from './types';
+import { getFaceRuler } from './dignities';
+
+export type TarotSuit = 'Wands' | 'Cups' | 'Swords' | 'Pentacles';
+
+export interface DecanTarot {
+  card: string;             // e.g. 'Two of Wands'
+  title: string;            // Golden Dawn title, e.g. 'Lord of Dominion'
+  suit: TarotSuit;
+  rank: number;             // 2-10
+}
+
+export interface Decan {
+  index: number;            // 1-36 from 0° Aries
+  sign: ZodiacSign;
+  decan: number;            // 1-3 within the sign
+  ruler: Planet;            // Chaldean face ruler
+  tarot: DecanTarot;
+  image: string;            // Picatrix image of the face
+  operations: string;       // what the image is made for
+  daySpirit: string;        // Goetic spirit ruling the face by day
+  nightSpirit: string;      // and by night
+}
+
+export interface ChartDecans {
+  sunDecan: number;         // decan index of the Sun
+  moonDecan: number;        // and of the Moon
+}
+
+export const DECAN_NUMERALS = ['I', 'II', 'III'];
+
+// Fire, earth, air and water in zodiac order
+const SUITS: TarotSuit[] = ['Wands', 'Pentacles', 'Swords', 'Cups'];
+const RANK_NAMES = ['', '', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten'];
+
+// Golden Dawn titles of the small cards, Aries I to Pisces III
+const TAROT_TITLES = [
+  'Dominion', 'Established Strength', 'Perfected Work',
+  'Material Trouble', 'Material Success', 'Success Unfulfilled',
+  'Shortened Force', 'Despair and Cruelty', 'Ruin',
+  'Love', 'Abundance', 'Blended Pleasure',
+  'Strife', 'Victory', 'Valour',
+  'Prudence', 'Material Gain', 'Wealth',
+  'Peace Restored', 'Sorrow', 'Rest from Strife',
+  'Loss in Pleasure', 'Pleasure', 'Illusionary Success',
+  'Swiftness', 'Great Strength', 'Oppression',
+  'Harmonious Change', 'Material Works', 'Earthly Power',
+  'Defeat', 'Earned Success', 'Unstable Effort',
+  'Abandoned Success', 'Material Happiness', 'Perfected Success',
+];
+
+// Images of the faces and their operations, Aries I to Pisces III
+const FACE_IMAGES: [string, string][] = [
+  ['A tall dark man with red eyes, girded in a white garment, as if angry', 'Boldness, fortitude and loftiness'],
+  ['A woman in a red garment over a white one', 'Nobility, rank and greatness of dominion'],
+  ['A pale man with red hair and a red garment, holding a golden bracelet and a wooden staff', 'Wit, meekness, joy and beauty'],
+  ['A naked man, an archer or husbandman, going forth to sow and plough', 'Sowing, ploughing, building and dividing land'],
+  ['A naked man holding a key', 'Power, nobility and dominion over people'],
+  ['A man holding a serpent and a dart', 'Necessity and profit, misery and servitude'],
+  ['A man holding a rod, as if serving another', 'Wisdom, reckoning and learning without profit'],
+  ['A man holding a pipe, and another bowed down, digging the earth', 'Agility, jesting and idle talk'],
+  ['A man seeking arms, and a fool holding a bird and a pipe', 'Forgetfulness, wrath, boldness and jests'],
+  ['A maiden in fine clothes with a crown on her head', 'Keen senses, subtle wit and the love of others'],
+  ['A man and woman in fair apparel sitting at table and playing', 'Riches, mirth and gladness'],
+  ['A hunter with lance and horn leading out dogs', 'Contention, and pursuing those who flee'],
+  ['A man riding on a lion', 'Boldness, violence and lust'],
+  ['A crowned man with a drawn sword and a buckler, threatening', 'Hidden contentions and unknown victories'],
+  ['A young man with a whip, and a sad man of ill aspect', 'Love and society; yielding one\'s right to avoid strife'],
+  ['A good maiden, and a man casting seed', 'Gaining wealth, ordering diet, ploughing and sowing'],
+  ['A dark man clothed in a skin, and a long-haired man holding a bag', 'Gain, gathering wealth and covetousness'],
+  ['A pale deaf woman, or an old man leaning on a staff', 'Weakness, infirmity and the felling of trees'],
+  ['An angry man holding a pipe, and a man reading a book', 'Justice and help for the poor and weak'],
+  ['Two furious men, and a man in fair clothes seated on a chair', 'Indignation against evil; a quiet and secure life'],
+  ['A violent man with a bow, a naked man, and a man with bread and a cup of wine', 'Lust, singing, sport and feasting'],
+  ['A fair woman struck by two men', 'Beauty, strife, treachery and slander'],
+  ['A naked man and woman, and a seated man before two dogs biting each other', 'Impudence, deceit and strife'],
+  ['A man bowed on his knees, struck by a woman with a staff', 'Drunkenness, wrath and violence'],
+  ['A man in a coat of mail holding a naked sword', 'Boldness, malice and liberty'],
+  ['A weeping woman, covered in clothes', 'Sadness and fear for one\'s own body'],
+  ['A man the colour of gold, or an idle man playing with a staff', 'Following one\'s own will, obstinacy and contention'],
+  ['A woman, and a man carrying full bags', 'Going forth and rejoicing, gaining and losing'],
+  ['Two women, and a man watching a bird in flight', 'Seeking what cannot be done or known'],
+  ['A chaste woman wise in her work, and a banker counting money at a table', 'Prudent government, and the love of money'],
+  ['A prudent man, and a woman spinning', 'Thought and labour for gain'],
+  ['A man with a long beard', 'Understanding, meekness, modesty and good manners'],
+  ['A dark and angry man', 'Insolence and impudence'],
+  ['A well-clothed man carrying burdens on his shoulder', 'Journeys, change of place and care for wealth'],
+  ['A woman of fair countenance, richly adorned', 'Striving after high and great matters'],
+  ['A naked youth beside a fair maiden crowned with flowers', 'Rest, idleness, delight and embracing'],
+];
+
+// The 72 spirits of the Goetia; spirit n rules the nth face from 0° Leo
+// by day, spirit n + 36 by night
+const GOETIC_SPIRITS = [
+  'Bael', 'Agares', 'Vassago', 'Samigina', 'Marbas', 'Valefor', 'Amon', 'Barbatos', 'Paimon',
+  'Buer', 'Gusion', 'Sitri', 'Beleth', 'Leraje', 'Eligos', 'Zepar', 'Botis', 'Bathin',
+  'Sallos', 'Purson', 'Marax', 'Ipos', 'Aim', 'Naberius', 'Glasya-Labolas', 'Bune', 'Ronove',
+  'Berith', 'Astaroth', 'Forneus', 'Foras', 'Asmoday', 'Gaap', 'Furfur', 'Marchosias', 'Stolas',
+  'Phenex', 'Halphas', 'Malphas', 'Raum', 'Focalor', 'Vepar', 'Sabnock', 'Shax', 'Vine',
+  'Bifrons', 'Vual', 'Haagenti', 'Crocell', 'Furcas', 'Balam', 'Alloces', 'Caim', 'Murmur',
+  'Orobas', 'Gremory', 'Ose', 'Amy', 'Orias', 'Vapula', 'Zagan', 'Valac', 'Andras',
+  'Haures', 'Andrealphus', 'Cimejes', 'Amdusias', 'Belial', 'Decarabia', 'Seere', 'Dantalion', 'Andromalius',
+];
+
+const LEO_FIRST_FACE = 12;    // zero-based face index of 0° Leo
+
+export const DECANS: Decan[] = Array.from({ length: 36 }, (_, i) => {
+  const signIndex = Math.floor(i / 3);
+  const decan = i % 3;
+  // Cardinal signs take the twos to fours, fixed the fives to sevens, mutable the eights to tens
+  const rank = (signIndex % 3) * 3 + decan + 2;
+  const suit = SUITS[signIndex % 4];
+  const spirit = (i - LEO_FIRST_FACE + 36) % 36;
+  return {
+    index: i + 1,
+    sign: ZODIAC_SIGNS[signIndex],
+    decan: decan + 1,
+    ruler: getFaceRuler(signIndex, decan),
+    tarot: { card: `${RANK_NAMES[rank]} of ${suit}`, title: `Lord of ${TAROT_TITLES[i]}`, suit, rank },
+    image: FACE_IMAGES[i][0],
+    operations: FACE_IMAGES[i][1],
+    daySpirit: GOETIC_SPIRITS[spirit],
+    nightSpirit: GOETIC_SPIRITS[spirit + 36],
+  };
+});
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Decan containing a zodiac longitude
+ */
+export function getDecan(longitude: number): Decan {
+  return DECANS[Math.floor(normalizeDegrees(longitude) / 10) % 36];
+}
+
+/**
+ * Label such as 'Aries II'
+ */
+export function getDecanLabel(decan: Decan): string {
+  return `${decan.sign} ${DECAN_NUMERALS[decan.decan - 1]}`;
+}
+
+/**
+ * Decans of the lights in a chart, in the chart's zodiac
+ */
+export function getChartDecans(chart: ChartData): ChartDecans {
+  const longitudeOf = (planet: Planet) => chart.planets.find(p => p.planet === planet)!.longitude;
+  return {
+    sunDecan: getDecan(longitudeOf('Sun')).index,
+    moonDecan: getDecan(longitudeOf('Moon')).index,
+  };
+}
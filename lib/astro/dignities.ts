@@ -2,7 +2,7 @@
 // ÆONIS – Essential Dignities (Ptolemaic System)
 // ============================================================
 
-import { Planet, ZodiacSign, EssentialDignity, Sect } from './types';
+import { Planet, ZodiacSign, EssentialDignity, Sect, ZODIAC_SIGNS } from './types';
 
 // Domicile rulers
 const DOMICILE: Record<ZodiacSign, Planet[]> = {
@@ -11,6 +11,13 @@ const DOMICILE: Record<ZodiacSign, Planet[]> = {
   Sagittarius: ['Jupiter'], Capricorn: ['Saturn'], Aquarius: ['Saturn'], Pisces: ['Jupiter'],
 };
 
+/**
+ * Traditional domicile ruler of a sign
+ */
+export function getDomicileRuler(sign: ZodiacSign): Planet {
+  return DOMICILE[sign][0];
+}
+
 // Exaltation
 const EXALTATION: Partial<Record<ZodiacSign, Planet>> = {
   Aries: 'Sun', Taurus: 'Moon', Gemini: undefined, Cancer: 'Jupiter',
@@ -114,22 +121,43 @@ const TERMS: Record<ZodiacSign, TermRange[]> = {
 
 // Faces (Decans) – Chaldean order
 const FACE_ORDER: Planet[] = ['Mars', 'Sun', 'Venus', 'Mercury', 'Moon', 'Saturn', 'Jupiter'];
-function getFaceRuler(signIndex: number, decan: number): Planet {
+export function getFaceRuler(signIndex: number, decan: number): Planet {
   // signIndex 0=Aries, decan 0-2
   const totalDecan = signIndex * 3 + decan;
   return FACE_ORDER[totalDecan % 7];
 }
 
+export interface EssentialRulers {
+  domicile: Planet;
+  exaltation: Planet | null;
+  triplicity: Planet;
+  term: Planet;
+  face: Planet;
+}
+
+/**
+ * Planets holding essential dignity over a zodiacal degree
+ */
+export function getEssentialRulers(sign: ZodiacSign, signDegree: number, sect: Sect): EssentialRulers {
+  const signIndex = ZODIAC_SIGNS.indexOf(sign);
+  const element = SIGN_ELEMENT[sign];
+  const term = TERMS[sign].find(t => signDegree >= t.from && signDegree < t.to) ?? TERMS[sign][TERMS[sign].length - 1];
+  return {
+    domicile: DOMICILE[sign][0],
+    exaltation: EXALTATION[sign] ?? null,
+    triplicity: sect === 'Day' ? TRIPLICITY_RULERS[element].day : TRIPLICITY_RULERS[element].night,
+    term: term.planet,
+    face: getFaceRuler(signIndex, Math.min(Math.floor(signDegree / 10), 2)),
+  };
+}
+
 export function calculateDignities(
   planet: Planet,
   sign: ZodiacSign,
   signDegree: number,
   sect: Sect,
 ): EssentialDignity {
-  const signIndex = [
-    'Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo',
-    'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces',
-  ].indexOf(sign);
+  const signIndex = ZODIAC_SIGNS.indexOf(sign);
 
   // Skip nodes and Lilith for dignities
   if (['NorthNode', 'SouthNode', 'Lilith'].includes(planet)) {
@@ -0,0 +1,551 @@
+// ============================================================
+// ÆONIS – Electional Search
+// Declarative election rules (all conditions must hold) and a
+// forward search returning ranked time windows with reasons
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import {
+  ChartAngles, ChartOptions, LocationInput, Planet, Sect, ZodiacSign, PLANET_SYMBOLS,
+} from './types';
+import { getPlanetLongitude, longitudeToSign } from './engine';
+import { calculateAngles } from './houses';
+import { calculateAyanamsa, toSidereal } from './ayanamsa';
+import { calculateDignities } from './dignities';
+import { calculatePlanetaryHours, PlanetaryHour, PlanetaryHourInfo } from './planetary-hours';
+import { PtolemaicAspectType } from './aspects';
+import { VoidOfCoursePeriod, findVoidOfCourse } from './void-of-course';
+import {
+  BEHENIAN_STARS, FixedStar, ParanAngle, getFixedStar, getFixedStarPosition, getSemiDiurnalArc,
+} from './fixed-stars';
+
+// ─── Rule DSL ───────────────────────────────────────────────
+
+export type ElectionDignity = 'domicile' | 'exaltation' | 'triplicity' | 'term' | 'face';
+
+export type ElectionCondition =
+  | { type: 'planetaryHour'; planet: Planet }
+  | { type: 'planetaryDay'; planet: Planet }
+  | { type: 'dignity'; planet: Planet; dignities: ElectionDignity[] }   // any of the listed
+  | { type: 'notDebilitated'; planet: Planet }                           // not in detriment or fall
+  | { type: 'inSign'; planet: Planet; signs: ZodiacSign[] }
+  | { type: 'direct'; planet: Planet }
+  | { type: 'notCombust'; planet: Planet }
+  | { type: 'moonPhase'; phase: 'Waxing' | 'Waning' }
+  | { type: 'aspect'; from: Planet; to: Planet; aspects?: PtolemaicAspectType[]; orb?: number; applying?: boolean }
+  | { type: 'moonNotVoid' }
+  | { type: 'noMaleficOnAngle'; orb?: number }
+  | { type: 'starConjunction'; star: string; planet: Planet; orb?: number }     // star id, ecliptic longitude
+  | { type: 'starOnAngle'; star: string; angles?: ParanAngle[]; orb?: number }  // orb in degrees of hour angle
+  | { type: 'not'; condition: ElectionCondition }
+  | { type: 'anyOf'; conditions: ElectionCondition[] };
+
+export interface ElectionRule {
+  id: string;
+  name: string;
+  conditions: ElectionCondition[];   // all must be true
+}
+
+export interface ConditionResult {
+  label: string;
+  satisfied: boolean;
+  reason: string;           // why it holds (or fails) at the sampled moment
+  score: number;            // strength contribution for ranking
+}
+
+export interface ElectionWindow {
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  score: number;
+  reasons: ConditionResult[];   // evaluated at the middle of the window
+}
+
+export interface ElectionSearchOptions {
+  stepMinutes?: number;
+  maxResults?: number;
+  chartOptions?: ChartOptions;
+}
+
+const CLASSICAL_PLANETS: Planet[] = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'];
+const MALEFICS: Planet[] = ['Mars', 'Saturn'];
+
+const ASPECT_ANGLES: Record<PtolemaicAspectType, number> = {
+  Conjunction: 0, Sextile: 60, Square: 90, Trine: 120, Opposition: 180,
+};
+
+const DEFAULT_STAR_ANGLES: ParanAngle[] = ['Rising', 'Culminating'];
+
+const DEFAULT_STEP_MINUTES = 10;
+const DEFAULT_MAX_RESULTS = 20;
+const DEFAULT_ASPECT_ORB = 8;
+const DEFAULT_ANGLE_ORB = 5;
+const DEFAULT_STAR_ORB = 2;
+const DEFAULT_STAR_ANGLE_ORB = 5;
+const BEHENIAN_MOON_ORB = 6;
+const COMBUSTION_ORB = 8.5;
+const CAZIMI_ORB = 17 / 60;
+const MINUTE_MS = 60000;
+const HOUR_MS = 3600000;
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+// ─── Moment snapshot ────────────────────────────────────────
+
+interface BodyState {
+  longitude: number;
+  speed: number;            // degrees per day
+}
+
+/**
+ * Lightweight sky state for one instant: longitudes and speeds of the
+ * bodies the rule asks about, computed on first use, and the angles,
+ * without a full chart calculation
+ */
+interface ElectionMoment {
+  date: Date;
+  position: (planet: Planet) => BodyState | null;   // null without an ephemeris (nodes, Lilith)
+  angles: ChartAngles;
+  latitude: number;
+  ramc: number;             // local sidereal time in degrees
+  zodiacOffset: number;
+  sect: Sect;
+  hour: () => { hour: PlanetaryHour; dayRuler: Planet };
+  voidOfCourse: () => VoidOfCoursePeriod;
+}
+
+type HourLookup = (date: Date) => { hour: PlanetaryHour; dayRuler: Planet };
+type VoidLookup = (date: Date) => VoidOfCoursePeriod;
+
+/**
+ * Planetary hours are computed once per planetary day, which runs from
+ * sunrise to sunrise
+ */
+function createHourLookup(location: LocationInput, chartOptions: ChartOptions): HourLookup {
+  const days: PlanetaryHourInfo[] = [];
+
+  return (date: Date) => {
+    const t = date.getTime();
+    let info = days.find(d => t >= d.solarDay.sunrise.getTime() && t < d.solarDay.nextSunrise.getTime());
+    if (!info) {
+      info = calculatePlanetaryHours(date, location, chartOptions);
+      days.push(info);
+    }
+    const hour = info.allHours.find(h => t >= h.startTime.getTime() && t < h.endTime.getTime())
+      ?? info.allHours[info.allHours.length - 1];
+    return { hour, dayRuler: info.dayRuler };
+  };
+}
+
+/**
+ * Void-of-course periods are computed once per Moon sign passage
+ */
+function createVoidLookup(location: LocationInput, chartOptions: ChartOptions): VoidLookup {
+  const periods: VoidOfCoursePeriod[] = [];
+  return (date: Date) => {
+    const t = date.getTime();
+    let period = periods.find(p => t >= p.signEntry.getTime() && t < p.end.getTime());
+    if (!period) {
+      period = findVoidOfCourse(date, chartOptions, location);
+      periods.push(period);
+    }
+    return period;
+  };
+}
+
+function createMoment(
+  date: Date,
+  location: LocationInput,
+  chartOptions: ChartOptions,
+  hourLookup: HourLookup,
+  voidLookup: VoidLookup,
+): ElectionMoment {
+  const time = Astronomy.MakeTime(date);
+  const zodiacOffset = chartOptions.zodiac === 'Sidereal'
+    ? calculateAyanamsa(time.ut + 2451545.0, chartOptions.ayanamsa ?? 'Lahiri')
+    : 0;
+  const later = new Date(date.getTime() + HOUR_MS);
+
+  const positions = new Map<Planet, BodyState | null>();
+  const position = (planet: Planet): BodyState | null => {
+    if (!positions.has(planet)) {
+      const now = getPlanetLongitude(planet, date);
+      const next = getPlanetLongitude(planet, later);
+      positions.set(planet, now === null || next === null
+        ? null
+        : { longitude: toSidereal(now, zodiacOffset), speed: wrap180(next - now) * 24 });
+    }
+    return positions.get(planet) ?? null;
+  };
+
+  const ramc = (Astronomy.SiderealTime(time) + location.longitude / 15) * 15;
+  const obliquity = Astronomy.e_tilt(time).tobl;
+  const angles = calculateAngles(ramc, obliquity, location.latitude, zodiacOffset);
+
+  // Sun above the horizon: in the half of the ecliptic from DSC through MC to ASC
+  const sunFromAsc = normalizeDegrees(position('Sun')!.longitude - angles.ascendant);
+  const sect: Sect = sunFromAsc > 180 ? 'Day' : 'Night';
+
+  let hourInfo: { hour: PlanetaryHour; dayRuler: Planet } | null = null;
+  let voidPeriod: VoidOfCoursePeriod | null = null;
+  return {
+    date,
+    position,
+    angles,
+    latitude: location.latitude,
+    ramc,
+    zodiacOffset,
+    sect,
+    hour: () => (hourInfo ??= hourLookup(date)),
+    voidOfCourse: () => (voidPeriod ??= voidLookup(date)),
+  };
+}
+
+// ─── Condition evaluation ───────────────────────────────────
+
+function formatPosition(longitude: number): string {
+  const { sign, degree } = longitudeToSign(longitude);
+  return `${degree}° ${sign}`;
+}
+
+/**
+ * Human-readable label for a condition
+ */
+export function describeCondition(condition: ElectionCondition): string {
+  switch (condition.type) {
+    case 'planetaryHour': return `Hour of ${condition.planet}`;
+    case 'planetaryDay': return `Day of ${condition.planet}`;
+    case 'dignity': return `${condition.planet} in ${condition.dignities.join(' or ')}`;
+    case 'notDebilitated': return `${condition.planet} not in detriment or fall`;
+    case 'inSign': return `${condition.planet} in ${condition.signs.join(' / ')}`;
+    case 'direct': return `${condition.planet} direct`;
+    case 'notCombust': return `${condition.planet} not combust`;
+    case 'moonPhase': return `Moon ${condition.phase.toLowerCase()}`;
+    case 'aspect':
+      return `${condition.from} ${condition.applying === false ? 'aspecting' : 'applying to'} ${condition.to}`;
+    case 'moonNotVoid': return 'Moon not void of course';
+    case 'noMaleficOnAngle': return 'No malefic on an angle';
+    case 'starConjunction': return `${condition.planet} conjunct ${getFixedStar(condition.star)?.name ?? condition.star}`;
+    case 'starOnAngle': {
+      const angles = condition.angles ?? DEFAULT_STAR_ANGLES;
+      return `${getFixedStar(condition.star)?.name ?? condition.star} ${angles.map(a => a.toLowerCase()).join(' or ')}`;
+    }
+    case 'not': return `Not: ${describeCondition(condition.condition)}`;
+    case 'anyOf': return condition.conditions.map(describeCondition).join(' or ');
+  }
+}
+
+function evaluate(condition: ElectionCondition, moment: ElectionMoment): ConditionResult {
+  const label = describeCondition(condition);
+  const result = (satisfied: boolean, reason: string, score: number = satisfied ? 1 : 0): ConditionResult =>
+    ({ label, satisfied, reason, score });
+  // Points without an ephemeris can't meet a condition
+  const unavailable = (planet: Planet) => result(false, `No ephemeris position for ${planet}`);
+
+  switch (condition.type) {
+    case 'planetaryHour': {
+      const { hour } = moment.hour();
+      return result(
+        hour.planet === condition.planet,
+        `${hour.isDayHour ? 'Day' : 'Night'} hour ${hour.hourNumber} of ${PLANET_SYMBOLS[hour.planet]} ${hour.planet}`,
+      );
+    }
+    case 'planetaryDay': {
+      const { dayRuler } = moment.hour();
+      return result(dayRuler === condition.planet, `Day ruled by ${dayRuler}`);
+    }
+    case 'dignity':
+    case 'notDebilitated': {
+      const pos = moment.position(condition.planet);
+      if (!pos) return unavailable(condition.planet);
+      const { sign, degree } = longitudeToSign(pos.longitude);
+      const dignity = calculateDignities(condition.planet, sign, degree, moment.sect);
+      if (condition.type === 'notDebilitated') {
+        const debilitated = dignity.detriment || dignity.fall;
+        return result(!debilitated, `${condition.planet} at ${formatPosition(pos.longitude)}${dignity.detriment ? ' (detriment)' : dignity.fall ? ' (fall)' : ''}`);
+      }
+      const held = condition.dignities.filter(d => dignity[d]);
+      return result(
+        held.length > 0,
+        `${condition.planet} at ${formatPosition(pos.longitude)}${held.length > 0 ? ` in ${held.join(' & ')}` : ''}`,
+        held.length > 0 ? Math.max(dignity.score, 1) : 0,
+      );
+    }
+    case 'inSign': {
+      const pos = moment.position(condition.planet);
+      if (!pos) return unavailable(condition.planet);
+      const { sign } = longitudeToSign(pos.longitude);
+      return result(condition.signs.includes(sign), `${condition.planet} in ${sign}`);
+    }
+    case 'direct': {
+      const pos = moment.position(condition.planet);
+      if (!pos) return unavailable(condition.planet);
+      return result(pos.speed >= 0, `${condition.planet} ${pos.speed >= 0 ? 'direct' : 'retrograde'} (${pos.speed.toFixed(2)}°/day)`);
+    }
+    case 'notCombust': {
+      const pos = moment.position(condition.planet);
+      if (!pos) return unavailable(condition.planet);
+      const distance = Math.abs(wrap180(pos.longitude - moment.position('Sun')!.longitude));
+      const cazimi = distance <= CAZIMI_ORB;
+      return result(
+        cazimi || distance > COMBUSTION_ORB,
+        cazimi ? `${condition.planet} cazimi` : `${condition.planet} ${distance.toFixed(1)}° from the Sun`,
+        cazimi ? 5 : 1,
+      );
+    }
+    case 'moonPhase': {
+      const elongation = normalizeDegrees(moment.position('Moon')!.longitude - moment.position('Sun')!.longitude);
+      const waxing = elongation < 180;
+      return result(
+        waxing === (condition.phase === 'Waxing'),
+        `Moon ${waxing ? 'waxing' : 'waning'}, ${elongation.toFixed(0)}° from the Sun`,
+      );
+    }
+    case 'aspect': {
+      const from = moment.position(condition.from);
+      const to = moment.position(condition.to);
+      if (!from) return unavailable(condition.from);
+      if (!to) return unavailable(condition.to);
+      const orb = condition.orb ?? DEFAULT_ASPECT_ORB;
+      const types = condition.aspects ?? (Object.keys(ASPECT_ANGLES) as PtolemaicAspectType[]);
+      const separation = wrap180(from.longitude - to.longitude);
+      let best: { type: PtolemaicAspectType; error: number; applying: boolean } | null = null;
+      for (const type of types) {
+        const error = Math.abs(separation) - ASPECT_ANGLES[type];
+        if (Math.abs(error) > orb) continue;
+        // |error| shrinks while the separation moves towards the exact angle
+        const applying = error * Math.sign(separation || 1) * (from.speed - to.speed) < 0;
+        if (!best || Math.abs(error) < Math.abs(best.error)) best = { type, error, applying };
+      }
+      if (!best) return result(false, `No ${types.join('/').toLowerCase()} within ${orb}°`);
+      const wanted = condition.applying ?? true;
+      const satisfied = !wanted || best.applying;
+      return result(
+        satisfied,
+        `${condition.from} ${best.type.toLowerCase()} ${condition.to}, ${Math.abs(best.error).toFixed(1)}° ${best.applying ? 'applying' : 'separating'}`,
+        satisfied ? 1 + 3 * (1 - Math.abs(best.error) / orb) : 0,
+      );
+    }
+    case 'moonNotVoid': {
+      const period = moment.voidOfCourse();
+      const last = period.lastAspect;
+      // Without an aspect in the sign the Moon is void from its ingress on
+      if (!last) return result(false, `Moon void of course: no aspect in ${period.sign}`);
+      if (moment.date.getTime() >= period.start.getTime()) {
+        return result(false, `Moon void of course until it enters ${period.nextSign}`);
+      }
+      return result(true, `Moon ${last.type.toLowerCase()} ${last.planet} before leaving ${period.sign}`);
+    }
+    case 'noMaleficOnAngle': {
+      const orb = condition.orb ?? DEFAULT_ANGLE_ORB;
+      const { ascendant, midheaven, descendant, imumCoeli } = moment.angles;
+      const angles: [string, number][] = [['ASC', ascendant], ['MC', midheaven], ['DSC', descendant], ['IC', imumCoeli]];
+      for (const malefic of MALEFICS) {
+        for (const [name, longitude] of angles) {
+          const distance = Math.abs(wrap180(moment.position(malefic)!.longitude - longitude));
+          if (distance <= orb) return result(false, `${malefic} ${distance.toFixed(1)}° from the ${name}`);
+        }
+      }
+      return result(true, `Mars and Saturn more than ${orb}° from the angles`);
+    }
+    case 'starConjunction': {
+      const star = getFixedStar(condition.star);
+      if (!star) return result(false, `Unknown star ${condition.star}`);
+      const pos = moment.position(condition.planet);
+      if (!pos) return unavailable(condition.planet);
+      const orb = condition.orb ?? DEFAULT_STAR_ORB;
+      const { longitude } = getFixedStarPosition(star, moment.date, moment.zodiacOffset);
+      const distance = Math.abs(wrap180(pos.longitude - longitude));
+      return result(
+        distance <= orb,
+        `${condition.planet} ${distance.toFixed(1)}° from ${star.name} at ${formatPosition(longitude)}`,
+        distance <= orb ? 1 + 3 * (1 - distance / orb) : 0,
+      );
+    }
+    case 'starOnAngle': {
+      const star = getFixedStar(condition.star);
+      if (!star) return result(false, `Unknown star ${condition.star}`);
+      const orb = condition.orb ?? DEFAULT_STAR_ANGLE_ORB;
+      const closest = findStarAngle(star, moment, condition.angles ?? DEFAULT_STAR_ANGLES);
+      if (!closest) return result(false, `${star.name} never crosses the horizon here`);
+      const minutes = Math.round(closest.distance * 4);
+      return result(
+        closest.distance <= orb,
+        `${star.name} ${closest.angle.toLowerCase()} ${minutes === 0 ? 'now' : `${minutes} min ${closest.ahead ? 'from now' : 'ago'}`}`,
+        closest.distance <= orb ? 1 + 2 * (1 - closest.distance / orb) : 0,
+      );
+    }
+    case 'not': {
+      const inner = evaluate(condition.condition, moment);
+      return result(!inner.satisfied, inner.reason);
+    }
+    case 'anyOf': {
+      const results = condition.conditions.map(c => evaluate(c, moment));
+      const held = results.filter(r => r.satisfied);
+      return held.length > 0
+        ? result(true, held.map(r => r.reason).join('; '), Math.max(...held.map(r => r.score)))
+        : result(false, results.map(r => r.reason).join('; '));
+    }
+  }
+}
+
+/**
+ * Nearest of the star's diurnal angles to the moment, measured in
+ * degrees of sidereal time
+ */
+function findStarAngle(
+  star: FixedStar,
+  moment: ElectionMoment,
+  angles: ParanAngle[],
+): { angle: ParanAngle; distance: number; ahead: boolean } | null {
+  const { ra, dec } = getFixedStarPosition(star, moment.date);
+  const arc = getSemiDiurnalArc(dec, moment.latitude);
+  let closest: { angle: ParanAngle; distance: number; ahead: boolean } | null = null;
+  for (const angle of angles) {
+    if (arc === null && (angle === 'Rising' || angle === 'Setting')) continue;
+    const target = angle === 'Rising' ? ra - arc! : angle === 'Setting' ? ra + arc! : angle === 'Culminating' ? ra : ra + 180;
+    const offset = wrap180(target - moment.ramc);
+    if (!closest || Math.abs(offset) < closest.distance) closest = { angle, distance: Math.abs(offset), ahead: offset > 0 };
+  }
+  return closest;
+}
+
+/**
+ * Evaluate every condition of a rule at one instant
+ */
+export function evaluateElection(
+  rule: ElectionRule,
+  date: Date,
+  location: LocationInput,
+  chartOptions: ChartOptions = {},
+): ConditionResult[] {
+  const moment = createMoment(
+    date, location, chartOptions, createHourLookup(location, chartOptions), createVoidLookup(location, chartOptions),
+  );
+  return rule.conditions.map(c => evaluate(c, moment));
+}
+
+// ─── Search ─────────────────────────────────────────────────
+
+/**
+ * Scan a date range and return the windows in which every condition of
+ * the rule holds, ranked by condition strength and duration
+ */
+export function searchElections(
+  rule: ElectionRule,
+  start: Date,
+  end: Date,
+  location: LocationInput,
+  options: ElectionSearchOptions = {},
+): ElectionWindow[] {
+  const {
+    stepMinutes = DEFAULT_STEP_MINUTES,
+    maxResults = DEFAULT_MAX_RESULTS,
+    chartOptions = {},
+  } = options;
+  const hourLookup = createHourLookup(location, chartOptions);
+  const voidLookup = createVoidLookup(location, chartOptions);
+  const momentAt = (t: number) => createMoment(new Date(t), location, chartOptions, hourLookup, voidLookup);
+  // Conditions short-circuit in rule order
+  const holds = (t: number) => {
+    const moment = momentAt(t);
+    return rule.conditions.every(c => evaluate(c, moment).satisfied);
+  };
+  const refine = (inside: number, outside: number) => {
+    while (Math.abs(outside - inside) > MINUTE_MS) {
+      const mid = (inside + outside) / 2;
+      if (holds(mid)) inside = mid;
+      else outside = mid;
+    }
+    return inside;
+  };
+
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  const stepMs = stepMinutes * MINUTE_MS;
+  const spans: [number, number][] = [];
+  let openedAt: number | null = null;
+  let previous = startMs;
+
+  for (let t = startMs; t <= endMs; t += stepMs) {
+    const ok = holds(t);
+    if (ok && openedAt === null) {
+      openedAt = t === startMs ? t : refine(t, previous);
+    } else if (!ok && openedAt !== null) {
+      spans.push([openedAt, refine(previous, t)]);
+      openedAt = null;
+    }
+    previous = t;
+  }
+  if (openedAt !== null) spans.push([openedAt, Math.min(previous, endMs)]);
+
+  const windows = spans
+    .filter(([from, to]) => to > from)
+    .map(([from, to]) => {
+      const reasons = rule.conditions.map(c => evaluate(c, momentAt((from + to) / 2)));
+      const durationMinutes = Math.round((to - from) / MINUTE_MS);
+      const strength = reasons.reduce((sum, r) => sum + r.score, 0);
+      return {
+        start: new Date(from),
+        end: new Date(to),
+        durationMinutes,
+        score: Math.round((strength + Math.min(durationMinutes / 60, 2)) * 10) / 10,
+        reasons,
+      };
+    });
+
+  return windows
+    .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime())
+    .slice(0, maxResults);
+}
+
+// ─── Presets ────────────────────────────────────────────────
+
+/**
+ * Classic planetary talisman election: the planet's hour, the planet
+ * dignified, a waxing Moon applying to it, Moon not void and no malefic
+ * on an angle
+ */
+export function createTalismanRule(planet: Planet): ElectionRule {
+  const conditions: ElectionCondition[] = [
+    { type: 'planetaryHour', planet },
+    { type: 'dignity', planet, dignities: ['domicile', 'exaltation'] },
+    { type: 'moonPhase', phase: 'Waxing' },
+  ];
+  if (planet !== 'Moon') {
+    conditions.push({ type: 'aspect', from: 'Moon', to: planet, aspects: ['Conjunction', 'Sextile', 'Trine'] });
+  }
+  conditions.push({ type: 'moonNotVoid' }, { type: 'noMaleficOnAngle' });
+  return { id: `talisman_${planet.toLowerCase()}`, name: `${planet} Talisman`, conditions };
+}
+
+export const ELECTION_PRESETS: ElectionRule[] = CLASSICAL_PLANETS.map(createTalismanRule);
+
+/**
+ * Behenian star election (after Agrippa): the star rising or culminating
+ * while the Moon or a planet of the star's nature is joined to it
+ */
+export function createBehenianRule(star: FixedStar): ElectionRule {
+  const planets = Array.from(new Set<Planet>(['Moon', ...star.nature]));
+  return {
+    id: `behenian_${star.id}`,
+    name: star.name,
+    conditions: [
+      { type: 'starOnAngle', star: star.id },
+      {
+        type: 'anyOf',
+        conditions: planets.map(planet => ({
+          type: 'starConjunction' as const, star: star.id, planet, orb: planet === 'Moon' ? BEHENIAN_MOON_ORB : DEFAULT_STAR_ORB,
+        })),
+      },
+    ],
+  };
+}
+
+export const BEHENIAN_ELECTION_PRESETS: ElectionRule[] = BEHENIAN_STARS.map(createBehenianRule);
@@ -6,9 +6,15 @@
 import * as Astronomy from 'astronomy-engine';
 import {
   Planet, PlanetPosition, ChartData, Sect, ZodiacSign, ArabicPart,
-  PlanetCondition, LocationInput, ZODIAC_SIGNS,
+  PlanetCondition, LocationInput, ChartOptions, LunarPointMode, AyanamsaInfo, ZODIAC_SIGNS, ASTEROIDS,
 } from './types';
 import { calculateDignities } from './dignities';
+import { calculateAngles, calculateHouses, getHouseForLongitude } from './houses';
+import { calculateAyanamsa, toSidereal } from './ayanamsa';
+import { calculateLots, LOT_DEFINITIONS } from './lots';
+import { calculateAccidentalDignities } from './accidental-dignity';
+import { resolveTimeZone } from './timezones';
+import { isAsteroid, calcAsteroidPosition, calcAsteroidHorizon } from './asteroids';
 
 // Map our Planet names to astronomy-engine Body enum
 const BODY_MAP: Partial<Record<Planet, Astronomy.Body>> = {
@@ -29,7 +35,7 @@ const PLANETS_TO_CALC: Planet[] = [
   'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto',
 ];
 
-function longitudeToSign(longitude: number): { sign: ZodiacSign; degree: number; minute: number; second: number } {
+export function longitudeToSign(longitude: number): { sign: ZodiacSign; degree: number; minute: number; second: number } {
   const normalized = ((longitude % 360) + 360) % 360;
   const signIndex = Math.floor(normalized / 30);
   const degInSign = normalized - signIndex * 30;
@@ -40,6 +46,42 @@ function longitudeToSign(longitude: number): { sign: ZodiacSign; degree: number;
   return { sign: ZODIAC_SIGNS[signIndex], degree, minute, second };
 }
 
+/**
+ * Tropical ecliptic longitude of a planet at a given moment, seen from
+ * a location on the Earth's surface when one is given.
+ * Returns null for points without an ephemeris (nodes, Lilith).
+ * Asteroids are always geocentric (their parallax is negligible).
+ */
+export function getPlanetLongitude(planet: Planet, date: Date, topocentric?: LocationInput): number | null {
+  if (isAsteroid(planet)) return calcAsteroidPosition(planet, date).longitude;
+  const body = BODY_MAP[planet];
+  if (body === undefined) return null;
+  if (topocentric) return calcTopocentricPosition(body, date, makeObserver(topocentric)).longitude;
+  const time = Astronomy.MakeTime(date);
+  if (body === Astronomy.Body.Moon) return Astronomy.EclipticGeoMoon(time).lon;
+  return Astronomy.Ecliptic(Astronomy.GeoVector(body, time, false)).elon;
+}
+
+/**
+ * Location a chart's positions are seen from: its own place in
+ * topocentric mode, none (the Earth's centre) otherwise
+ */
+export function getChartObserver(chart: ChartData): LocationInput | undefined {
+  if (chart.positionMode !== 'Topocentric') return undefined;
+  return { latitude: chart.latitude, longitude: chart.longitude, altitude: chart.altitude };
+}
+
+/**
+ * Observer at the chart location, at its altitude when known
+ */
+function makeObserver(location: LocationInput): Astronomy.Observer {
+  return new Astronomy.Observer(location.latitude, location.longitude, location.altitude ?? 0);
+}
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
 function calcPlanetPosition(body: Astronomy.Body, date: Date): { longitude: number; latitude: number; speed: number } {
   const time = Astronomy.MakeTime(date);
 
@@ -49,7 +91,7 @@ function calcPlanetPosition(body: Astronomy.Body, date: Date): { longitude: numb
     // Calculate speed by comparing positions 1 hour apart
     const timePlus = Astronomy.MakeTime(new Date(date.getTime() + 3600000));
     const eclipticPlus = Astronomy.EclipticGeoMoon(timePlus);
-    let speed = (eclipticPlus.lon - ecliptic.lon) * 24; // degrees per day
+    const speed = wrap180(eclipticPlus.lon - ecliptic.lon) * 24; // degrees per day
     return { longitude: ecliptic.lon, latitude: ecliptic.lat, speed };
   }
 
@@ -61,21 +103,35 @@ function calcPlanetPosition(body: Astronomy.Body, date: Date): { longitude: numb
   const timePlus = Astronomy.MakeTime(new Date(date.getTime() + 3600000));
   const geoVecPlus = Astronomy.GeoVector(body, timePlus, false);
   const eclPlus = Astronomy.Ecliptic(geoVecPlus);
-  let speed = (eclPlus.elon - ecl.elon) * 24;
-  // Handle wrap-around
-  if (speed > 180) speed -= 360;
-  if (speed < -180) speed += 360;
+  // Wrap the hourly step across 0° Aries before scaling it to a day
+  const speed = wrap180(eclPlus.elon - ecl.elon) * 24;
 
   return { longitude: ecl.elon, latitude: ecl.elat, speed };
 }
 
+/**
+ * Ecliptic position as seen from the observer rather than the Earth's
+ * centre; the Moon shifts by up to a degree of parallax. Daily motion
+ * stays geocentric, as the observer's turn with the Earth would swing
+ * the Moon's speed by several degrees a day.
+ */
+function calcTopocentricPosition(
+  body: Astronomy.Body,
+  date: Date,
+  observer: Astronomy.Observer,
+): { longitude: number; latitude: number; speed: number } {
+  const { speed } = calcPlanetPosition(body, date);
+  const equatorial = Astronomy.Equator(body, Astronomy.MakeTime(date), observer, false, false);
+  const ecl = Astronomy.Ecliptic(equatorial.vec);
+  return { longitude: ecl.elon, latitude: ecl.elat, speed };
+}
+
 function calcHorizontalCoords(
   body: Astronomy.Body,
   date: Date,
-  location: LocationInput,
+  observer: Astronomy.Observer,
 ): { azimuth: number; altitude: number } {
   const time = Astronomy.MakeTime(date);
-  const observer = new Astronomy.Observer(location.latitude, location.longitude, 0);
   const equatorial = body === Astronomy.Body.Moon
     ? Astronomy.Equator(body, time, observer, true, true)
     : Astronomy.Equator(body, time, observer, false, true);
@@ -83,25 +139,121 @@ function calcHorizontalCoords(
   return { azimuth: horizontal.azimuth, altitude: horizontal.altitude };
 }
 
-// Calculate Lunar Node (Mean North Node approximation)
-function calcLunarNodes(date: Date): { northNode: number; southNode: number } {
-  // Mean Lunar Node calculation
-  const jd = Astronomy.MakeTime(date).ut + 2451545.0;
-  const T = (jd - 2451545.0) / 36525.0;
-  // Mean longitude of ascending node
-  let omega = 125.04452 - 1934.136261 * T + 0.0020708 * T * T + T * T * T / 450000;
-  omega = ((omega % 360) + 360) % 360;
-  return { northNode: omega, southNode: (omega + 180) % 360 };
+interface LunarPoint {
+  longitude: number;
+  latitude: number;
+  speed: number;            // daily speed in degrees
+}
+
+// Gravitational parameter of the Earth–Moon system in AU³/day²
+const GM_EARTH_MOON = 403503.2355 * 86400 * 86400 / Math.pow(149597870.7, 3);
+
+function julianCenturies(date: Date): number {
+  return Astronomy.MakeTime(date).ut / 36525.0;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+// Mean Lunar Node (Meeus polynomial), speed from its derivative
+function calcMeanNode(date: Date): LunarPoint {
+  const T = julianCenturies(date);
+  const omega = 125.04452 - 1934.136261 * T + 0.0020708 * T * T + T * T * T / 450000;
+  const rate = -1934.136261 + 2 * 0.0020708 * T + 3 * T * T / 450000;
+  return { longitude: normalizeDegrees(omega), latitude: 0, speed: rate / 36525 };
+}
+
+// Mean Black Moon Lilith, speed from its derivative.
+// Meeus gives the mean perigee (83.35° at J2000); the apogee lies opposite.
+function calcMeanLilith(date: Date): LunarPoint {
+  const T = julianCenturies(date);
+  const lilith = 180 + 83.3532465 + 4069.0137287 * T - 0.0103200 * T * T - T * T * T / 80053;
+  const rate = 4069.0137287 - 2 * 0.0103200 * T - 3 * T * T / 80053;
+  return { longitude: normalizeDegrees(lilith), latitude: 0, speed: rate / 36525 };
+}
+
+/**
+ * Osculating (instantaneous Keplerian) orbit of the Moon in the true
+ * ecliptic of date: ascending node from the angular momentum vector,
+ * apogee opposite the eccentricity vector.
+ */
+function calcOsculatingLunarOrbit(date: Date): { node: number; apogee: number; apogeeLatitude: number } {
+  const time = Astronomy.MakeTime(date);
+  const state = Astronomy.RotateState(Astronomy.Rotation_EQJ_ECT(time), Astronomy.GeoMoonState(time));
+  const r = { x: state.x, y: state.y, z: state.z };
+  const v = { x: state.vx, y: state.vy, z: state.vz };
+
+  // Angular momentum h = r × v
+  const h = {
+    x: r.y * v.z - r.z * v.y,
+    y: r.z * v.x - r.x * v.z,
+    z: r.x * v.y - r.y * v.x,
+  };
+  const node = normalizeDegrees(Math.atan2(h.x, -h.y) * 180 / Math.PI);
+
+  // Eccentricity vector e = (v × h) / μ − r / |r|
+  const rMag = Math.hypot(r.x, r.y, r.z);
+  const e = {
+    x: (v.y * h.z - v.z * h.y) / GM_EARTH_MOON - r.x / rMag,
+    y: (v.z * h.x - v.x * h.z) / GM_EARTH_MOON - r.y / rMag,
+    z: (v.x * h.y - v.y * h.x) / GM_EARTH_MOON - r.z / rMag,
+  };
+  const eMag = Math.hypot(e.x, e.y, e.z);
+  const apogee = normalizeDegrees(Math.atan2(-e.y, -e.x) * 180 / Math.PI);
+  const apogeeLatitude = Math.asin(-e.z / eMag) * 180 / Math.PI;
+
+  return { node, apogee, apogeeLatitude };
+}
+
+// Daily motion from positions 12h either side (handles 0°/360° wrap)
+function centralDifference(fn: (d: Date) => number, date: Date): number {
+  const before = fn(new Date(date.getTime() - 43200000));
+  const after = fn(new Date(date.getTime() + 43200000));
+  let speed = after - before;
+  if (speed > 180) speed -= 360;
+  if (speed < -180) speed += 360;
+  return speed;
+}
+
+// True (osculating) North Node
+function calcTrueNode(date: Date): LunarPoint {
+  const { node } = calcOsculatingLunarOrbit(date);
+  const speed = centralDifference(d => calcOsculatingLunarOrbit(d).node, date);
+  return { longitude: node, latitude: 0, speed };
 }
 
-// Calculate Mean Black Moon Lilith
-function calcLilith(date: Date): number {
-  const jd = Astronomy.MakeTime(date).ut + 2451545.0;
-  const T = (jd - 2451545.0) / 36525.0;
-  // Mean apogee of Moon (Black Moon Lilith)
-  let lilith = 83.3532465 + 4069.0137287 * T - 0.0103200 * T * T - T * T * T / 80053;
-  lilith = ((lilith % 360) + 360) % 360;
-  return lilith;
+// True (osculating) Black Moon Lilith – lies in the lunar orbit plane
+function calcTrueLilith(date: Date): LunarPoint {
+  const { apogee, apogeeLatitude } = calcOsculatingLunarOrbit(date);
+  const speed = centralDifference(d => calcOsculatingLunarOrbit(d).apogee, date);
+  return { longitude: apogee, latitude: apogeeLatitude, speed };
+}
+
+function calcLunarNodes(date: Date, mode: LunarPointMode): { northNode: LunarPoint; southNode: LunarPoint } {
+  const northNode = mode === 'True' ? calcTrueNode(date) : calcMeanNode(date);
+  const southNode = { ...northNode, longitude: normalizeDegrees(northNode.longitude + 180) };
+  return { northNode, southNode };
+}
+
+function calcLilith(date: Date, mode: LunarPointMode): LunarPoint {
+  return mode === 'True' ? calcTrueLilith(date) : calcMeanLilith(date);
+}
+
+// Declination from ecliptic coordinates of date; its daily rate from the longitude speed
+function calcDeclination(
+  longitude: number,
+  latitude: number,
+  speed: number,
+  obliquity: number,
+): { declination: number; declinationSpeed: number } {
+  const rad = Math.PI / 180;
+  const lon = longitude * rad;
+  const lat = latitude * rad;
+  const eps = obliquity * rad;
+  const dec = Math.asin(Math.sin(lat) * Math.cos(eps) + Math.cos(lat) * Math.sin(eps) * Math.sin(lon));
+  const declinationSpeed = Math.cos(lat) * Math.sin(eps) * Math.cos(lon) * speed / Math.cos(dec);
+  return { declination: dec / rad, declinationSpeed };
 }
 
 function determineSect(sunAltitude: number): Sect {
@@ -131,81 +283,55 @@ function calcConditions(
   return { isRetrograde, isCombust, isCazimi, isUnderBeams };
 }
 
-function calcArabicParts(
-  sunLong: number,
-  moonLong: number,
-  ascendant: number,
-  sect: Sect,
-): ArabicPart[] {
-  // Part of Fortune: Day = Asc + Moon - Sun, Night = Asc + Sun - Moon
-  let fortuneLong: number;
-  if (sect === 'Day') {
-    fortuneLong = ascendant + moonLong - sunLong;
-  } else {
-    fortuneLong = ascendant + sunLong - moonLong;
-  }
-  fortuneLong = ((fortuneLong % 360) + 360) % 360;
-
-  // Part of Spirit: Day = Asc + Sun - Moon, Night = Asc + Moon - Sun
-  let spiritLong: number;
-  if (sect === 'Day') {
-    spiritLong = ascendant + sunLong - moonLong;
-  } else {
-    spiritLong = ascendant + moonLong - sunLong;
-  }
-  spiritLong = ((spiritLong % 360) + 360) % 360;
-
-  const fortuneSign = longitudeToSign(fortuneLong);
-  const spiritSign = longitudeToSign(spiritLong);
-
-  return [
-    { name: 'Part of Fortune', longitude: fortuneLong, sign: fortuneSign.sign, signDegree: fortuneSign.degree },
-    { name: 'Part of Spirit', longitude: spiritLong, sign: spiritSign.sign, signDegree: spiritSign.degree },
-  ];
-}
-
-// Approximate Ascendant calculation
-function calcAscendant(date: Date, location: LocationInput): number {
-  const time = Astronomy.MakeTime(date);
-  const observer = new Astronomy.Observer(location.latitude, location.longitude, 0);
-  // Local Sidereal Time
-  const gmst = Astronomy.SiderealTime(time);
-  const lst = (gmst + location.longitude / 15) * 15; // convert to degrees
-
-  // Obliquity of ecliptic
-  const T = (time.ut) / 36525.0;
-  const obliquity = 23.439291 - 0.0130042 * T;
-  const oblRad = obliquity * Math.PI / 180;
-  const lstRad = (((lst % 360) + 360) % 360) * Math.PI / 180;
-  const latRad = location.latitude * Math.PI / 180;
-
-  // Ascendant formula
-  const y = -Math.cos(lstRad);
-  const x = Math.sin(oblRad) * Math.tan(latRad) + Math.cos(oblRad) * Math.sin(lstRad);
-  let asc = Math.atan2(y, x) * 180 / Math.PI;
-  asc = ((asc % 360) + 360) % 360;
-
-  return asc;
-}
-
-export function calculateChart(date: Date, location: LocationInput): ChartData {
+export function calculateChart(
+  date: Date,
+  location: LocationInput,
+  options: ChartOptions = {},
+): ChartData {
+  const {
+    houseSystem = 'Placidus',
+    lunarPointMode = 'Mean',
+    zodiac = 'Tropical',
+    ayanamsa: ayanamsaSystem = 'Lahiri',
+    customLots = [],
+    ramc: ramcOverride,
+    positionMode = 'Geocentric',
+    asteroids = false,
+  } = options;
   const positions: PlanetPosition[] = [];
   let sunLong = 0;
-  let moonLong = 0;
 
-  // Calculate main planets
+  // Julian Day and LST
+  const time = Astronomy.MakeTime(date);
+  const julianDay = time.ut + 2451545.0;
+  const gmst = Astronomy.SiderealTime(time);
+  const lst = gmst + location.longitude / 15;
+  const ramc = ramcOverride ?? lst * 15;
+  const obliquity = Astronomy.e_tilt(time).tobl;
+
+  // Sidereal zodiac: every longitude is shifted by the ayanamsa
+  const ayanamsa: AyanamsaInfo | null = zodiac === 'Sidereal'
+    ? { system: ayanamsaSystem, value: calculateAyanamsa(julianDay, ayanamsaSystem) }
+    : null;
+  const zodiacOffset = ayanamsa?.value ?? 0;
+
+  // Calculate main planets. Horizontal coordinates are always seen from the
+  // observer; in topocentric mode the ecliptic ones are too
+  const observer = makeObserver(location);
   for (const planet of PLANETS_TO_CALC) {
     const body = BODY_MAP[planet]!;
-    const pos = calcPlanetPosition(body, date);
-    const horizontal = calcHorizontalCoords(body, date, location);
-    const signInfo = longitudeToSign(pos.longitude);
+    const pos = positionMode === 'Topocentric'
+      ? calcTopocentricPosition(body, date, observer)
+      : calcPlanetPosition(body, date);
+    const horizontal = calcHorizontalCoords(body, date, observer);
+    const longitude = toSidereal(pos.longitude, zodiacOffset);
+    const signInfo = longitudeToSign(longitude);
 
-    if (planet === 'Sun') sunLong = pos.longitude;
-    if (planet === 'Moon') moonLong = pos.longitude;
+    if (planet === 'Sun') sunLong = longitude;
 
     positions.push({
       planet,
-      longitude: pos.longitude,
+      longitude,
       latitude: pos.latitude,
       sign: signInfo.sign,
       signDegree: signInfo.degree,
@@ -213,34 +339,48 @@ export function calculateChart(date: Date, location: LocationInput): ChartData {
       signSecond: signInfo.second,
       isRetrograde: pos.speed < 0,
       speed: pos.speed,
+      ...calcDeclination(pos.longitude, pos.latitude, pos.speed, obliquity),
       azimuth: horizontal.azimuth,
       altitude: horizontal.altitude,
     });
   }
 
-  // Lunar Nodes
-  const nodes = calcLunarNodes(date);
-  const nnSign = longitudeToSign(nodes.northNode);
-  const snSign = longitudeToSign(nodes.southNode);
-  positions.push({
-    planet: 'NorthNode', longitude: nodes.northNode, latitude: 0,
-    sign: nnSign.sign, signDegree: nnSign.degree, signMinute: nnSign.minute, signSecond: nnSign.second,
-    isRetrograde: true, speed: -0.053,
-  });
-  positions.push({
-    planet: 'SouthNode', longitude: nodes.southNode, latitude: 0,
-    sign: snSign.sign, signDegree: snSign.degree, signMinute: snSign.minute, signSecond: snSign.second,
-    isRetrograde: true, speed: -0.053,
-  });
-
-  // Black Moon Lilith
-  const lilithLong = calcLilith(date);
-  const lilithSign = longitudeToSign(lilithLong);
-  positions.push({
-    planet: 'Lilith', longitude: lilithLong, latitude: 0,
-    sign: lilithSign.sign, signDegree: lilithSign.degree, signMinute: lilithSign.minute, signSecond: lilithSign.second,
-    isRetrograde: false, speed: 0.11,
-  });
+  // Lunar Nodes & Black Moon Lilith (mean or true/osculating)
+  const nodes = calcLunarNodes(date, lunarPointMode);
+  const lilith = calcLilith(date, lunarPointMode);
+  const lunarPoints: [Planet, LunarPoint][] = [
+    ['NorthNode', nodes.northNode],
+    ['SouthNode', nodes.southNode],
+    ['Lilith', lilith],
+  ];
+  for (const [planet, point] of lunarPoints) {
+    const longitude = toSidereal(point.longitude, zodiacOffset);
+    const signInfo = longitudeToSign(longitude);
+    positions.push({
+      planet, longitude, latitude: point.latitude,
+      sign: signInfo.sign, signDegree: signInfo.degree, signMinute: signInfo.minute, signSecond: signInfo.second,
+      isRetrograde: point.speed < 0, speed: point.speed,
+      ...calcDeclination(point.longitude, point.latitude, point.speed, obliquity),
+    });
+  }
+
+  // Chiron and the four main asteroids when requested
+  if (asteroids) {
+    for (const planet of ASTEROIDS) {
+      const pos = calcAsteroidPosition(planet, date);
+      const horizontal = calcAsteroidHorizon(planet, date, observer);
+      const longitude = toSidereal(pos.longitude, zodiacOffset);
+      const signInfo = longitudeToSign(longitude);
+      positions.push({
+        planet, longitude, latitude: pos.latitude,
+        sign: signInfo.sign, signDegree: signInfo.degree, signMinute: signInfo.minute, signSecond: signInfo.second,
+        isRetrograde: pos.speed < 0, speed: pos.speed,
+        ...calcDeclination(pos.longitude, pos.latitude, pos.speed, obliquity),
+        azimuth: horizontal.azimuth,
+        altitude: horizontal.altitude,
+      });
+    }
+  }
 
   // Determine sect from Sun's altitude
   const sunPos = positions.find(p => p.planet === 'Sun')!;
@@ -253,31 +393,50 @@ export function calculateChart(date: Date, location: LocationInput): ChartData {
   }
 
   // Calculate conditions
-  const conditions: Record<string, any> = {};
+  const conditions = {} as Record<Planet, PlanetCondition>;
   for (const pos of positions) {
     conditions[pos.planet] = calcConditions(pos.planet, pos.longitude, sunLong, pos.speed);
   }
 
-  // Arabic Parts
-  const ascendant = calcAscendant(date, location);
-  const arabicParts = calcArabicParts(sunLong, moonLong, ascendant, sect);
+  // Angles & Houses (RAMC = LST in degrees, true obliquity of date)
+  const angles = calculateAngles(ramc, obliquity, location.latitude, zodiacOffset);
+  const houses = calculateHouses(ramc, obliquity, location.latitude, houseSystem, zodiacOffset);
+  for (const pos of positions) {
+    pos.house = getHouseForLongitude(pos.longitude, houses.cusps);
+  }
 
-  // Julian Day and LST
-  const time = Astronomy.MakeTime(date);
-  const gmst = Astronomy.SiderealTime(time);
-  const lst = gmst + location.longitude / 15;
+  // Accidental dignities (need houses and conditions)
+  const accidentalDignities = calculateAccidentalDignities(positions, conditions, sect);
+
+  // Arabic Parts / Lots (built-in table followed by user-defined lots)
+  const lots = calculateLots(
+    { planets: positions, angles, cusps: houses.cusps, sect },
+    [...LOT_DEFINITIONS, ...customLots],
+  );
+  const arabicParts: ArabicPart[] = lots
+    .filter(l => l.id === 'fortune' || l.id === 'spirit')
+    .map(({ name, longitude, sign, signDegree }) => ({ name, longitude, sign, signDegree }));
 
   return {
     timestamp: date,
     latitude: location.latitude,
     longitude: location.longitude,
-    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    altitude: location.altitude,
+    timezone: location.timeZone ?? resolveTimeZone(location.latitude, location.longitude),
     sect,
+    zodiac,
+    ayanamsa,
+    lunarPointMode,
+    positionMode,
     planets: positions,
     dignities: dignities as any,
-    conditions: conditions as any,
+    conditions,
+    accidentalDignities,
     arabicParts,
-    julianDay: time.ut + 2451545.0,
-    localSiderealTime: lst,
+    lots,
+    angles,
+    houses,
+    julianDay,
+    localSiderealTime: ramc / 15,
   };
 }
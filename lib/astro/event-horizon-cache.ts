@@ -0,0 +1,218 @@
+// ============================================================
+// ÆONIS – Event Horizon Cache
+// Builds the event list and the natal transits in short chunks on
+// the JS thread, yielding to the event loop between chunks so the
+// app stays responsive, and extends a cached list as time moves
+// forward instead of recomputing it
+// ============================================================
+
+import { ChartData, LocationInput } from './types';
+import { AstroEvent, calculateEventsBetween } from './events';
+import {
+  DEFAULT_NATAL_POINTS, DEFAULT_TRANSIT_PLANETS, TransitPeriod, searchTransits, transitsToEvents,
+} from './transits';
+
+// Bump whenever the event searches change so stale caches are rebuilt
+export const EVENT_CACHE_VERSION = 2;
+
+// Transits to one natal chart; searched whole so every cycle keeps its passes
+export interface TransitCache {
+  natalKey: string;
+  start: number;            // searched span (ms)
+  end: number;
+  events: AstroEvent[];     // sorted by date
+}
+
+export interface EventHorizonCache {
+  version: number;
+  locationKey: string;
+  start: number;            // covered span (ms)
+  end: number;
+  events: AstroEvent[];     // sorted by date
+  transits: TransitCache | null;
+}
+
+export interface ExtendHorizonOptions {
+  spanDays?: number;                                         // days searched between yields
+  natalChart?: ChartData | null;                             // add transits to this chart
+  onProgress?: (progress: number, partial: EventHorizonCache) => void;
+  isCancelled?: () => boolean;                               // stop early, keeping what is done
+}
+
+const DAY_MS = 86400000;
+const YEAR_MS = 365.25 * DAY_MS;
+const DEFAULT_SPAN_DAYS = 15;           // ~15 ms of searching per chunk
+const RETAIN_PAST_MS = 30 * DAY_MS;     // keep recent events for small steps back in time
+const EXTEND_MARGIN_MS = 7 * DAY_MS;    // don't rerun the searches for a few missing days
+const TRANSIT_REFRESH_MS = 30 * DAY_MS; // transits are searched anew once they fall a month short
+
+/**
+ * Cache key for a location: visibility barely changes within ~10 km
+ */
+export function getLocationKey(location: LocationInput): string {
+  return `${location.latitude.toFixed(1)},${location.longitude.toFixed(1)}`;
+}
+
+/**
+ * Cache key for a natal chart: the longitudes the transit search aims at
+ */
+export function getNatalKey(chart: ChartData): string {
+  return [...chart.planets.map(p => p.longitude), chart.angles.ascendant, chart.angles.midheaven]
+    .map(lon => lon.toFixed(3))
+    .join(',');
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Whether a cache can be extended for this moment and location rather
+ * than rebuilt
+ */
+export function isCacheReusable(cache: EventHorizonCache | null, from: Date, location: LocationInput): boolean {
+  return !!cache
+    && cache.version === EVENT_CACHE_VERSION
+    && cache.locationKey === getLocationKey(location)
+    && cache.start <= from.getTime()
+    && cache.end >= from.getTime();
+}
+
+function areTransitsCovered(transits: TransitCache | null, natalKey: string, fromMs: number, targetEnd: number): boolean {
+  return !!transits
+    && transits.natalKey === natalKey
+    && transits.start <= fromMs
+    && transits.end >= targetEnd - TRANSIT_REFRESH_MS;
+}
+
+/**
+ * Whether a cache already covers the horizon from a moment, including
+ * the transits to a natal chart when one is given
+ */
+export function isHorizonCovered(
+  cache: EventHorizonCache | null,
+  from: Date,
+  location: LocationInput,
+  years: number,
+  natalChart: ChartData | null = null,
+): boolean {
+  const targetEnd = from.getTime() + years * YEAR_MS;
+  return isCacheReusable(cache, from, location)
+    && cache!.end >= targetEnd - EXTEND_MARGIN_MS
+    && (!natalChart || areTransitsCovered(cache!.transits, getNatalKey(natalChart), from.getTime(), targetEnd));
+}
+
+/**
+ * Cached transit events for a natal chart; none while the cache holds
+ * another chart's
+ */
+export function getCachedTransits(cache: EventHorizonCache | null, natalChart: ChartData | null): AstroEvent[] {
+  if (!cache?.transits || !natalChart || cache.transits.natalKey !== getNatalKey(natalChart)) return [];
+  return cache.transits.events;
+}
+
+/**
+ * Extend a cached horizon so it covers `years` from a moment, or build
+ * it afresh when the cache is stale, from another location or doesn't
+ * reach back to the moment. Events long past are dropped. With a natal
+ * chart, its transits are searched one transiting planet and natal point
+ * at a time. Each span of `spanDays` and each transit search is followed
+ * by a yield and a progress report; cancelling returns the part built so
+ * far, which is itself a valid cache.
+ */
+export async function extendEventHorizon(
+  cache: EventHorizonCache | null,
+  from: Date,
+  location: LocationInput,
+  years: number,
+  options: ExtendHorizonOptions = {},
+): Promise<EventHorizonCache> {
+  const { spanDays = DEFAULT_SPAN_DAYS, natalChart = null, onProgress, isCancelled } = options;
+  const fromMs = from.getTime();
+  const targetEnd = fromMs + years * YEAR_MS;
+
+  let result: EventHorizonCache;
+  if (isCacheReusable(cache, from, location)) {
+    const keepFrom = Math.max(cache!.start, fromMs - RETAIN_PAST_MS);
+    result = { ...cache!, start: keepFrom, events: cache!.events.filter(e => e.date.getTime() >= keepFrom) };
+  } else {
+    // Transits don't depend on the location and survive a rebuild
+    const transits = cache?.version === EVENT_CACHE_VERSION ? cache.transits : null;
+    result = {
+      version: EVENT_CACHE_VERSION, locationKey: getLocationKey(location), start: fromMs, end: fromMs, events: [], transits,
+    };
+  }
+  const natalKey = natalChart ? getNatalKey(natalChart) : null;
+  const eventsCovered = result.end >= targetEnd - EXTEND_MARGIN_MS;
+  const transitSearches = natalKey && !areTransitsCovered(result.transits, natalKey, fromMs, targetEnd)
+    ? DEFAULT_TRANSIT_PLANETS.flatMap(planet => DEFAULT_NATAL_POINTS.map(point => ({ planet, point })))
+    : [];
+  if (eventsCovered && transitSearches.length === 0) return result;
+
+  const spanMs = spanDays * DAY_MS;
+  const steps = (eventsCovered ? 0 : Math.ceil((targetEnd - result.end) / spanMs)) + transitSearches.length;
+  let done = 0;
+  const step = async () => {
+    done++;
+    onProgress?.(done / steps, result);
+    await yieldToEventLoop();
+  };
+
+  while (!eventsCovered && result.end < targetEnd) {
+    if (isCancelled?.()) return result;
+    const spanEnd = Math.min(result.end + spanMs, targetEnd);
+    const events = calculateEventsBetween(new Date(result.end), new Date(spanEnd), location);
+    // Searches that return the event at a span boundary find it in both spans
+    const known = new Set(result.events.map(e => e.id));
+    result = { ...result, end: spanEnd, events: [...result.events, ...events.filter(e => !known.has(e.id))] };
+    await step();
+  }
+
+  if (natalChart && natalKey && transitSearches.length > 0) {
+    const periods: TransitPeriod[] = [];
+    for (const { planet, point } of transitSearches) {
+      // Until the search completes, the previous transits stay in place
+      if (isCancelled?.()) return result;
+      periods.push(...searchTransits(natalChart, from, new Date(targetEnd), {
+        transitPlanets: [planet],
+        natalPoints: [point],
+      }));
+      await step();
+    }
+    const events = transitsToEvents(periods, natalChart).sort((a, b) => a.date.getTime() - b.date.getTime());
+    result = { ...result, transits: { natalKey, start: fromMs, end: targetEnd, events } };
+  }
+  return result;
+}
+
+/**
+ * JSON for storage; dates become timestamps
+ */
+export function serializeEventCache(cache: EventHorizonCache): string {
+  const toJson = (events: AstroEvent[]) => events.map(e => ({ ...e, date: e.date.getTime() }));
+  return JSON.stringify({
+    ...cache,
+    events: toJson(cache.events),
+    transits: cache.transits && { ...cache.transits, events: toJson(cache.transits.events) },
+  });
+}
+
+/**
+ * Parse a stored cache, or null when it is unreadable or from another
+ * version of the searches
+ */
+export function parseEventCache(raw: string | null): EventHorizonCache | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed.version !== EVENT_CACHE_VERSION || !Array.isArray(parsed.events)) return null;
+    const fromJson = (events: (AstroEvent & { date: number })[]) => events.map(e => ({ ...e, date: new Date(e.date) }));
+    return {
+      ...parsed,
+      events: fromJson(parsed.events),
+      transits: parsed.transits ? { ...parsed.transits, events: fromJson(parsed.transits.events) } : null,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -34,10 +34,20 @@ function containsAll(text: string, keywords: string[]): boolean {
 const EVENT_TYPE_KEYWORDS: Record<AstroEvent['type'], string[][]> = {
   conjunction: [['conjunction'], ['conjunct']],
   opposition: [['opposition'], ['oppose']],
+  square: [['square']],
+  ingress: [['ingress'], ['enters']],
+  new_moon: [['new', 'moon']],
+  full_moon: [['full', 'moon']],
+  equinox: [['equinox']],
+  solstice: [['solstice']],
+  greatest_elongation: [['elongation']],
   retrograde_start: [['retrograde']],
   retrograde_end: [['direct'], ['retrograde', 'end'], ['stations direct']],
   solar_eclipse: [['solar', 'eclipse'], ['eclipse', 'sun']],
   lunar_eclipse: [['lunar', 'eclipse'], ['eclipse', 'moon']],
+  transit_enter: [['transit']],
+  transit_exact: [['transit']],
+  transit_exit: [['transit']],
 };
 
 /**
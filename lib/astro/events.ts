@@ -1,56 +1,205 @@
 // ============================================================
 // ÆONIS – Event Horizon Engine
 // Calculates upcoming astronomical events for 5 years
-// Types: Eclipses, Planetary Stations, Great Conjunctions
+// Types: Eclipses, Lunations, Sign Ingresses, Seasons, Planetary
+// Stations, Greatest Elongations, Conjunctions and slow-planet
+// aspects, transits to the natal chart (see transits.ts)
 // ============================================================
 
 import * as Astronomy from 'astronomy-engine';
-import { Planet, LocationInput, PLANET_SYMBOLS } from './types';
+import {
+  Planet, LocationInput, ZodiacSign, PLANET_SYMBOLS, ZODIAC_SIGNS, ZODIAC_SYMBOLS,
+} from './types';
+import { getPlanetLongitude, longitudeToSign } from './engine';
+import type { AspectBody, AspectType } from './aspects';
+
+export type AstroEventType =
+  | 'solar_eclipse' | 'lunar_eclipse' | 'retrograde_start' | 'retrograde_end' | 'conjunction' | 'opposition'
+  | 'square' | 'ingress' | 'new_moon' | 'full_moon' | 'equinox' | 'solstice' | 'greatest_elongation'
+  | 'transit_enter' | 'transit_exact' | 'transit_exit';
 
 export interface AstroEvent {
   id: string;
-  type: 'solar_eclipse' | 'lunar_eclipse' | 'retrograde_start' | 'retrograde_end' | 'conjunction' | 'opposition';
+  type: AstroEventType;
   title: string;
   description: string;
   date: Date;
   planet?: Planet;
   planet2?: Planet;
+  sign?: ZodiacSign;        // ingresses and lunations: sign entered or occupied
+  longitude?: number;       // ingresses, lunations and aspects: ecliptic degree of the event
   magnitude?: number;
-  visibility?: string;
+  visibility?: string;      // eclipses and elongations: what the observer can see
+  natalPoint?: AspectBody;  // transit events: natal planet, angle or lot aspected
+  aspect?: AspectType;      // transit events: aspect formed
+}
+
+export interface EventFilter {
+  types?: AstroEventType[];
+  planets?: Planet[];       // matches either planet of the event
 }
 
-const OUTER_PLANETS: Array<{ planet: Planet; body: Astronomy.Body }> = [
-  { planet: 'Mercury', body: Astronomy.Body.Mercury },
-  { planet: 'Venus', body: Astronomy.Body.Venus },
-  { planet: 'Mars', body: Astronomy.Body.Mars },
-  { planet: 'Jupiter', body: Astronomy.Body.Jupiter },
-  { planet: 'Saturn', body: Astronomy.Body.Saturn },
+export const EVENT_CATEGORIES: { id: string; label: string; types: AstroEventType[] }[] = [
+  { id: 'eclipses', label: 'Eclipses', types: ['solar_eclipse', 'lunar_eclipse'] },
+  { id: 'lunations', label: 'Lunations', types: ['new_moon', 'full_moon'] },
+  { id: 'ingresses', label: 'Ingresses', types: ['ingress'] },
+  { id: 'stations', label: 'Stations', types: ['retrograde_start', 'retrograde_end'] },
+  { id: 'aspects', label: 'Aspects', types: ['conjunction', 'opposition', 'square'] },
+  { id: 'seasons', label: 'Seasons', types: ['equinox', 'solstice'] },
+  { id: 'elongations', label: 'Elongations', types: ['greatest_elongation'] },
+  { id: 'transits', label: 'Transits', types: ['transit_enter', 'transit_exact', 'transit_exit'] },
+];
+
+export const EVENT_SYMBOLS: Record<AstroEventType, string> = {
+  solar_eclipse: '🌑',
+  lunar_eclipse: '🌕',
+  retrograde_start: '℞',
+  retrograde_end: '℞D',
+  conjunction: '☌',
+  opposition: '☍',
+  square: '□',
+  ingress: '→',
+  new_moon: '●',
+  full_moon: '○',
+  equinox: '⚖',
+  solstice: '☉',
+  greatest_elongation: '∠',
+  transit_enter: '☍',
+  transit_exact: '☍',
+  transit_exit: '☍',
+};
+
+const STATION_PLANETS: { planet: Planet; stepDays: number }[] = [
+  { planet: 'Mercury', stepDays: 3 },
+  { planet: 'Venus', stepDays: 5 },
+  { planet: 'Mars', stepDays: 5 },
+  { planet: 'Jupiter', stepDays: 10 },
+  { planet: 'Saturn', stepDays: 10 },
+  { planet: 'Uranus', stepDays: 10 },
+  { planet: 'Neptune', stepDays: 10 },
+  { planet: 'Pluto', stepDays: 10 },
+];
+
+// The Moon's sign changes are in the void-of-course timetable
+const INGRESS_PLANETS: { planet: Planet; stepDays: number }[] = [
+  { planet: 'Sun', stepDays: 2 },
+  { planet: 'Mercury', stepDays: 1 },
+  { planet: 'Venus', stepDays: 1 },
+  { planet: 'Mars', stepDays: 2 },
+  { planet: 'Jupiter', stepDays: 5 },
+  { planet: 'Saturn', stepDays: 5 },
+  { planet: 'Uranus', stepDays: 5 },
+  { planet: 'Neptune', stepDays: 5 },
+  { planet: 'Pluto', stepDays: 5 },
 ];
 
-const CONJUNCTION_PAIRS: Array<{ p1: Planet; b1: Astronomy.Body; p2: Planet; b2: Astronomy.Body }> = [
-  { p1: 'Jupiter', b1: Astronomy.Body.Jupiter, p2: 'Saturn', b2: Astronomy.Body.Saturn },
-  { p1: 'Mars', b1: Astronomy.Body.Mars, p2: 'Jupiter', b2: Astronomy.Body.Jupiter },
-  { p1: 'Venus', b1: Astronomy.Body.Venus, p2: 'Jupiter', b2: Astronomy.Body.Jupiter },
-  { p1: 'Venus', b1: Astronomy.Body.Venus, p2: 'Mars', b2: Astronomy.Body.Mars },
-  { p1: 'Mercury', b1: Astronomy.Body.Mercury, p2: 'Venus', b2: Astronomy.Body.Venus },
+const SLOW_PLANETS: Planet[] = ['Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto'];
+
+// Elongation of the first planet from the second at each exact aspect
+const SLOW_ASPECTS: { type: 'conjunction' | 'square' | 'opposition'; angle: number }[] = [
+  { type: 'conjunction', angle: 0 },
+  { type: 'square', angle: 90 },
+  { type: 'opposition', angle: 180 },
+  { type: 'square', angle: 270 },
 ];
 
+// Conjunctions of the faster planets; the slow planets get every hard aspect
+const ASPECT_PAIRS: { p1: Planet; p2: Planet; stepDays: number; aspects: typeof SLOW_ASPECTS }[] = [
+  { p1: 'Mars', p2: 'Jupiter', stepDays: 2, aspects: [SLOW_ASPECTS[0]] },
+  { p1: 'Venus', p2: 'Jupiter', stepDays: 2, aspects: [SLOW_ASPECTS[0]] },
+  { p1: 'Venus', p2: 'Mars', stepDays: 2, aspects: [SLOW_ASPECTS[0]] },
+  { p1: 'Mercury', p2: 'Venus', stepDays: 2, aspects: [SLOW_ASPECTS[0]] },
+  ...SLOW_PLANETS.flatMap((p1, i) => SLOW_PLANETS.slice(i + 1).map(p2 => ({ p1, p2, stepDays: 5, aspects: SLOW_ASPECTS }))),
+];
+
+// Ingresses of the Sun and the fast planets, lunations and elongations
+// recur too often to count as major events
+const MINOR_EVENT_TYPES: AstroEventType[] = ['new_moon', 'full_moon', 'greatest_elongation'];
+const FAST_PLANETS: Planet[] = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars'];
+
+const DAY_MS = 86400000;
+const YEAR_MS = 365.25 * DAY_MS;
+const MINUTE_MS = 60000;
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+function formatEventDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function formatDegree(longitude: number): string {
+  const { sign, degree, minute } = longitudeToSign(longitude);
+  return `${degree}°${minute.toString().padStart(2, '0')}' ${sign}`;
+}
+
+/**
+ * Bisect between a time where a predicate holds and one where it does
+ * not, to the minute
+ */
+function bisect(inside: number, outside: number, holds: (t: number) => boolean): number {
+  while (Math.abs(outside - inside) > MINUTE_MS) {
+    const mid = (inside + outside) / 2;
+    if (holds(mid)) inside = mid;
+    else outside = mid;
+  }
+  return outside;
+}
+
+/**
+ * Visit consecutive sample pairs across a span. The last step is cut
+ * short to end exactly on the span's end, so adjoining spans neither
+ * miss nor repeat a change.
+ */
+function forEachStep(startMs: number, endMs: number, stepMs: number, visit: (previous: number, t: number) => void): void {
+  for (let previous = startMs; previous < endMs; previous += stepMs) {
+    visit(previous, Math.min(previous + stepMs, endMs));
+  }
+}
+
+/**
+ * Whether and how a solar eclipse is seen from the observer's location
+ */
+function getSolarEclipseVisibility(peak: Date, observer: Astronomy.Observer): string {
+  const local = Astronomy.SearchLocalSolarEclipse(new Date(peak.getTime() - DAY_MS), observer);
+  if (Math.abs(local.peak.time.date.getTime() - peak.getTime()) > DAY_MS || local.peak.altitude <= 0) {
+    return 'Not visible from your location';
+  }
+  const time = local.peak.time.date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  return `Visible from your location: ${local.kind}, ${(local.obscuration * 100).toFixed(0)}% obscured at ${time}`;
+}
+
+/**
+ * Whether a lunar eclipse is seen from the observer's location: the Moon
+ * must be above the horizon at maximum
+ */
+function getLunarEclipseVisibility(peak: Date, observer: Astronomy.Observer): string {
+  const moon = Astronomy.Equator(Astronomy.Body.Moon, peak, observer, true, true);
+  const altitude = Astronomy.Horizon(peak, observer, moon.ra, moon.dec, 'normal').altitude;
+  if (altitude <= 0) return 'Not visible from your location (Moon below the horizon)';
+  const time = peak.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  return `Visible from your location: maximum at ${time}, Moon ${altitude.toFixed(0)}° high`;
+}
+
 /**
  * Find solar eclipses in a date range
  */
-function findSolarEclipses(startDate: Date, years: number): AstroEvent[] {
+function findSolarEclipses(startMs: number, endMs: number, observer: Astronomy.Observer): AstroEvent[] {
   const events: AstroEvent[] = [];
-  const startTime = Astronomy.MakeTime(startDate);
-  let searchTime = startTime;
+  let searchTime = Astronomy.MakeTime(new Date(startMs));
 
-  for (let i = 0; i < years * 3; i++) {
+  for (;;) {
     try {
       const eclipse = Astronomy.SearchGlobalSolarEclipse(searchTime);
       if (!eclipse) break;
 
       const eclDate = new Date(eclipse.peak.date);
-      const endDate = new Date(startDate.getTime() + years * 365.25 * 86400000);
-      if (eclDate > endDate) break;
+      if (eclDate.getTime() > endMs) break;
 
       let eclType = 'Solar Eclipse';
       if (eclipse.kind === 'total') eclType = 'Total Solar Eclipse';
@@ -61,13 +210,14 @@ function findSolarEclipses(startDate: Date, years: number): AstroEvent[] {
         id: `solar_ecl_${eclDate.getTime()}`,
         type: 'solar_eclipse',
         title: eclType,
-        description: `${eclType} on ${eclDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. Obscuration: ${((eclipse.obscuration ?? 0) * 100).toFixed(0)}%`,
+        description: `${eclType} on ${formatEventDate(eclDate)}. Obscuration: ${((eclipse.obscuration ?? 0) * 100).toFixed(0)}%`,
         date: eclDate,
         magnitude: eclipse.obscuration ?? 0,
+        visibility: getSolarEclipseVisibility(eclDate, observer),
       });
 
       // Search for next eclipse after this one
-      searchTime = Astronomy.MakeTime(new Date(eclDate.getTime() + 30 * 86400000));
+      searchTime = Astronomy.MakeTime(new Date(eclDate.getTime() + 30 * DAY_MS));
     } catch {
       break;
     }
@@ -79,19 +229,17 @@ function findSolarEclipses(startDate: Date, years: number): AstroEvent[] {
 /**
  * Find lunar eclipses in a date range
  */
-function findLunarEclipses(startDate: Date, years: number): AstroEvent[] {
+function findLunarEclipses(startMs: number, endMs: number, observer: Astronomy.Observer): AstroEvent[] {
   const events: AstroEvent[] = [];
-  const startTime = Astronomy.MakeTime(startDate);
-  let searchTime = startTime;
+  let searchTime = Astronomy.MakeTime(new Date(startMs));
 
-  for (let i = 0; i < years * 3; i++) {
+  for (;;) {
     try {
       const eclipse = Astronomy.SearchLunarEclipse(searchTime);
       if (!eclipse) break;
 
       const eclDate = new Date(eclipse.peak.date);
-      const endDate = new Date(startDate.getTime() + years * 365.25 * 86400000);
-      if (eclDate > endDate) break;
+      if (eclDate.getTime() > endMs) break;
 
       let eclType = 'Lunar Eclipse';
       if (eclipse.kind === 'total') eclType = 'Total Lunar Eclipse';
@@ -102,12 +250,13 @@ function findLunarEclipses(startDate: Date, years: number): AstroEvent[] {
         id: `lunar_ecl_${eclDate.getTime()}`,
         type: 'lunar_eclipse',
         title: eclType,
-        description: `${eclType} on ${eclDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. Magnitude: ${(eclipse.obscuration ?? 0).toFixed(2)}`,
+        description: `${eclType} on ${formatEventDate(eclDate)}. Magnitude: ${(eclipse.obscuration ?? 0).toFixed(2)}`,
         date: eclDate,
         magnitude: eclipse.obscuration ?? 0,
+        visibility: getLunarEclipseVisibility(eclDate, observer),
       });
 
-      searchTime = Astronomy.MakeTime(new Date(eclDate.getTime() + 30 * 86400000));
+      searchTime = Astronomy.MakeTime(new Date(eclDate.getTime() + 30 * DAY_MS));
     } catch {
       break;
     }
@@ -117,126 +266,112 @@ function findLunarEclipses(startDate: Date, years: number): AstroEvent[] {
 }
 
 /**
- * Find planetary stations (retrograde start/end) in a date range
+ * Find planetary stations (retrograde start/end) in a date range,
+ * bisected to the minute on the sign of the daily motion
  */
-function findPlanetaryStations(startDate: Date, years: number): AstroEvent[] {
+function findPlanetaryStations(startMs: number, endMs: number): AstroEvent[] {
   const events: AstroEvent[] = [];
-  const endDate = new Date(startDate.getTime() + years * 365.25 * 86400000);
-
-  for (const { planet, body } of OUTER_PLANETS) {
-    // Search for elongation events to approximate stations
-    // We'll check speed changes by sampling positions
-    const stepDays = planet === 'Mercury' || planet === 'Venus' ? 5 : 10;
-    let prevSpeed = 0;
-    let wasRetro = false;
-
-    for (let d = 0; d < years * 365; d += stepDays) {
-      const checkDate = new Date(startDate.getTime() + d * 86400000);
-      if (checkDate > endDate) break;
-
-      const time = Astronomy.MakeTime(checkDate);
-      const timePlus = Astronomy.MakeTime(new Date(checkDate.getTime() + 86400000));
-
-      try {
-        const geoVec = Astronomy.GeoVector(body, time, false);
-        const ecl = Astronomy.Ecliptic(geoVec);
-        const geoVecPlus = Astronomy.GeoVector(body, timePlus, false);
-        const eclPlus = Astronomy.Ecliptic(geoVecPlus);
-
-        let speed = eclPlus.elon - ecl.elon;
-        if (speed > 180) speed -= 360;
-        if (speed < -180) speed += 360;
-
-        const isRetro = speed < 0;
-
-        if (d > 0) {
-          if (isRetro && !wasRetro) {
-            events.push({
-              id: `retro_start_${planet}_${checkDate.getTime()}`,
-              type: 'retrograde_start',
-              title: `${PLANET_SYMBOLS[planet]} ${planet} Retrograde`,
-              description: `${planet} stations retrograde. Apparent backward motion begins.`,
-              date: checkDate,
-              planet,
-            });
-          } else if (!isRetro && wasRetro) {
-            events.push({
-              id: `retro_end_${planet}_${checkDate.getTime()}`,
-              type: 'retrograde_end',
-              title: `${PLANET_SYMBOLS[planet]} ${planet} Direct`,
-              description: `${planet} stations direct. Forward motion resumes.`,
-              date: checkDate,
-              planet,
-            });
-          }
-        }
-
-        wasRetro = isRetro;
-        prevSpeed = speed;
-      } catch {
-        continue;
+
+  for (const { planet, stepDays } of STATION_PLANETS) {
+    const isRetroAt = (t: number) => wrap180(
+      getPlanetLongitude(planet, new Date(t + DAY_MS / 2))! - getPlanetLongitude(planet, new Date(t - DAY_MS / 2))!,
+    ) < 0;
+    let wasRetro = isRetroAt(startMs);
+
+    forEachStep(startMs, endMs, stepDays * DAY_MS, (previous, t) => {
+      const isRetro = isRetroAt(t);
+      if (isRetro !== wasRetro) {
+        const station = new Date(bisect(previous, t, (x) => isRetroAt(x) === wasRetro));
+        const position = formatDegree(getPlanetLongitude(planet, station)!);
+        events.push(isRetro ? {
+          id: `retro_start_${planet}_${station.getTime()}`,
+          type: 'retrograde_start',
+          title: `${PLANET_SYMBOLS[planet]} ${planet} Retrograde`,
+          description: `${planet} stations retrograde at ${position}. Apparent backward motion begins.`,
+          date: station,
+          planet,
+        } : {
+          id: `retro_end_${planet}_${station.getTime()}`,
+          type: 'retrograde_end',
+          title: `${PLANET_SYMBOLS[planet]} ${planet} Direct`,
+          description: `${planet} stations direct at ${position}. Forward motion resumes.`,
+          date: station,
+          planet,
+        });
       }
-    }
+      wasRetro = isRetro;
+    });
   }
 
   return events;
 }
 
 /**
- * Find close conjunctions between planet pairs
+ * Find sign ingresses of the Sun and planets, including retrograde
+ * re-entries into the previous sign
  */
-function findConjunctions(startDate: Date, years: number): AstroEvent[] {
+function findIngresses(startMs: number, endMs: number): AstroEvent[] {
   const events: AstroEvent[] = [];
-  const endDate = new Date(startDate.getTime() + years * 365.25 * 86400000);
-  const stepDays = 7;
-
-  for (const { p1, b1, p2, b2 } of CONJUNCTION_PAIRS) {
-    let prevSep = 999;
-
-    for (let d = 0; d < years * 365; d += stepDays) {
-      const checkDate = new Date(startDate.getTime() + d * 86400000);
-      if (checkDate > endDate) break;
-
-      try {
-        const time = Astronomy.MakeTime(checkDate);
-        const g1 = Astronomy.GeoVector(b1, time, false);
-        const e1 = Astronomy.Ecliptic(g1);
-        const g2 = Astronomy.GeoVector(b2, time, false);
-        const e2 = Astronomy.Ecliptic(g2);
-
-        let sep = Math.abs(e1.elon - e2.elon);
-        if (sep > 180) sep = 360 - sep;
-
-        // Detect conjunction (separation < 5° and was decreasing)
-        if (sep < 5 && prevSep > sep) {
-          // Check if this is a local minimum
-          const nextDate = new Date(checkDate.getTime() + stepDays * 86400000);
-          const nextTime = Astronomy.MakeTime(nextDate);
-          const ng1 = Astronomy.GeoVector(b1, nextTime, false);
-          const ne1 = Astronomy.Ecliptic(ng1);
-          const ng2 = Astronomy.GeoVector(b2, nextTime, false);
-          const ne2 = Astronomy.Ecliptic(ng2);
-          let nextSep = Math.abs(ne1.elon - ne2.elon);
-          if (nextSep > 180) nextSep = 360 - nextSep;
-
-          if (nextSep > sep) {
-            events.push({
-              id: `conj_${p1}_${p2}_${checkDate.getTime()}`,
-              type: 'conjunction',
-              title: `${PLANET_SYMBOLS[p1]}${PLANET_SYMBOLS[p2]} ${p1}–${p2} Conjunction`,
-              description: `${p1} and ${p2} in conjunction (${sep.toFixed(1)}° separation).`,
-              date: checkDate,
-              planet: p1,
-              planet2: p2,
-              magnitude: sep,
-            });
-          }
-        }
-
-        prevSep = sep;
-      } catch {
-        continue;
+
+  for (const { planet, stepDays } of INGRESS_PLANETS) {
+    const signAt = (t: number) => Math.floor(normalizeDegrees(getPlanetLongitude(planet, new Date(t))!) / 30);
+    let previousSign = signAt(startMs);
+
+    forEachStep(startMs, endMs, stepDays * DAY_MS, (previous, t) => {
+      const sign = signAt(t);
+      if (sign !== previousSign) {
+        const date = new Date(bisect(previous, t, (x) => signAt(x) === previousSign));
+        const entered = ZODIAC_SIGNS[signAt(date.getTime())];
+        const retrograde = (previousSign - signAt(date.getTime()) + 12) % 12 === 1;
+        events.push({
+          id: `ingress_${planet}_${date.getTime()}`,
+          type: 'ingress',
+          title: `${PLANET_SYMBOLS[planet]} ${planet} ${retrograde ? 're-enters' : 'enters'} ${ZODIAC_SYMBOLS[entered]} ${entered}`,
+          description: retrograde
+            ? `${planet} retrogrades back into ${entered}.`
+            : `${planet} enters ${entered} on ${formatEventDate(date)}.`,
+          date,
+          planet,
+          sign: entered,
+          longitude: signAt(date.getTime()) * 30,
+        });
       }
+      previousSign = sign;
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Find New and Full Moons with their zodiac degree. Lunations that are
+ * also eclipses are left to the eclipse events.
+ */
+function findLunations(startMs: number, endMs: number, eclipses: AstroEvent[]): AstroEvent[] {
+  const events: AstroEvent[] = [];
+
+  for (const [phase, type] of [[0, 'new_moon'], [180, 'full_moon']] as const) {
+    let searchDate = new Date(startMs);
+    for (;;) {
+      const time = Astronomy.SearchMoonPhase(phase, searchDate, 40);
+      if (!time || time.date.getTime() > endMs) break;
+      const date = time.date;
+      searchDate = new Date(date.getTime() + DAY_MS);
+      if (eclipses.some(e => Math.abs(e.date.getTime() - date.getTime()) < DAY_MS)) continue;
+
+      const longitude = getPlanetLongitude('Moon', date)!;
+      const { sign } = longitudeToSign(longitude);
+      const name = type === 'new_moon' ? 'New Moon' : 'Full Moon';
+      events.push({
+        id: `${type}_${date.getTime()}`,
+        type,
+        title: `${name} in ${ZODIAC_SYMBOLS[sign]} ${sign}`,
+        description: `${name} at ${formatDegree(longitude)} on ${formatEventDate(date)}.`,
+        date,
+        planet: 'Moon',
+        sign,
+        longitude,
+      });
     }
   }
 
@@ -244,24 +379,184 @@ function findConjunctions(startDate: Date, years: number): AstroEvent[] {
 }
 
 /**
- * Calculate all events for the next N years
+ * Find equinoxes and solstices, named for the observer's hemisphere
  */
-export function calculateEventHorizon(
-  startDate: Date,
+function findSeasons(startMs: number, endMs: number, location: LocationInput): AstroEvent[] {
+  const events: AstroEvent[] = [];
+  const south = location.latitude < 0;
+
+  for (let year = new Date(startMs).getUTCFullYear(); year <= new Date(endMs).getUTCFullYear(); year++) {
+    const seasons = Astronomy.Seasons(year);
+    const entries: { time: Astronomy.AstroTime; type: 'equinox' | 'solstice'; name: string; sign: ZodiacSign }[] = [
+      { time: seasons.mar_equinox, type: 'equinox', name: south ? 'Autumn Equinox' : 'Spring Equinox', sign: 'Aries' },
+      { time: seasons.jun_solstice, type: 'solstice', name: south ? 'Winter Solstice' : 'Summer Solstice', sign: 'Cancer' },
+      { time: seasons.sep_equinox, type: 'equinox', name: south ? 'Spring Equinox' : 'Autumn Equinox', sign: 'Libra' },
+      { time: seasons.dec_solstice, type: 'solstice', name: south ? 'Summer Solstice' : 'Winter Solstice', sign: 'Capricorn' },
+    ];
+    for (const { time, type, name, sign } of entries) {
+      const date = time.date;
+      if (date.getTime() < startMs || date.getTime() > endMs) continue;
+      events.push({
+        id: `${type}_${date.getTime()}`,
+        type,
+        title: `${ZODIAC_SYMBOLS[sign]} ${name}`,
+        description: `The Sun enters ${sign} on ${formatEventDate(date)}.`,
+        date,
+        planet: 'Sun',
+        sign,
+        longitude: ZODIAC_SIGNS.indexOf(sign) * 30,
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Find greatest elongations of Mercury and Venus from the Sun
+ */
+function findGreatestElongations(startMs: number, endMs: number): AstroEvent[] {
+  const events: AstroEvent[] = [];
+
+  for (const planet of ['Mercury', 'Venus'] as const) {
+    let searchDate = new Date(startMs);
+    for (;;) {
+      const elongation = Astronomy.SearchMaxElongation(Astronomy.Body[planet], searchDate);
+      const date = elongation.time.date;
+      if (date.getTime() > endMs) break;
+      searchDate = new Date(date.getTime() + DAY_MS);
+
+      const side = elongation.visibility === 'morning' ? 'West' : 'East';
+      events.push({
+        id: `elongation_${planet}_${date.getTime()}`,
+        type: 'greatest_elongation',
+        title: `${PLANET_SYMBOLS[planet]} ${planet} Greatest Elongation ${side}`,
+        description: `${planet} stands ${elongation.elongation.toFixed(1)}° from the Sun on ${formatEventDate(date)}.`,
+        date,
+        planet,
+        magnitude: elongation.elongation,
+        visibility: elongation.visibility === 'morning'
+          ? 'Morning star: look east before sunrise'
+          : 'Evening star: look west after sunset',
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Find exact conjunctions between planet pairs, and squares and
+ * oppositions between the slow planets, every pass of a retrograde
+ * triple included
+ */
+function findPlanetAspects(startMs: number, endMs: number, types: AstroEventType[]): AstroEvent[] {
+  const events: AstroEvent[] = [];
+
+  for (const { p1, p2, stepDays, aspects } of ASPECT_PAIRS) {
+    const wanted = aspects.filter(a => types.includes(a.type));
+    if (wanted.length === 0) continue;
+    const elongationAt = (t: number) => normalizeDegrees(
+      getPlanetLongitude(p1, new Date(t))! - getPlanetLongitude(p2, new Date(t))!,
+    );
+    let previousElongation = elongationAt(startMs);
+
+    forEachStep(startMs, endMs, stepDays * DAY_MS, (previous, t) => {
+      const elongation = elongationAt(t);
+      for (const { type, angle } of wanted) {
+        const before = wrap180(previousElongation - angle);
+        const after = wrap180(elongation - angle);
+        // A sign change near the target, not the wrap on the far side
+        if (Math.sign(before) === Math.sign(after) || Math.abs(before - after) > 10) continue;
+        const date = new Date(bisect(previous, t, (x) => Math.sign(wrap180(elongationAt(x) - angle)) === Math.sign(before)));
+        const longitude = getPlanetLongitude(p1, date)!;
+        const name = type.charAt(0).toUpperCase() + type.slice(1);
+        events.push({
+          id: `${type}_${p1}_${p2}_${date.getTime()}`,
+          type,
+          title: `${PLANET_SYMBOLS[p1]}${PLANET_SYMBOLS[p2]} ${p1}–${p2} ${name}`,
+          description: `${p1} at ${formatDegree(longitude)} exactly ${type === 'conjunction' ? 'conjunct' : type === 'square' ? 'square' : 'opposite'} ${p2} at ${formatDegree(getPlanetLongitude(p2, date)!)}.`,
+          date,
+          planet: p1,
+          planet2: p2,
+          longitude,
+        });
+      }
+      previousElongation = elongation;
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Planets an event concerns; eclipses involve both lights
+ */
+function getEventPlanets(event: AstroEvent): Planet[] {
+  if (event.type === 'solar_eclipse' || event.type === 'lunar_eclipse') return ['Sun', 'Moon'];
+  return [event.planet, event.planet2].filter((p): p is Planet => !!p);
+}
+
+/**
+ * Keep events of the given types that concern one of the given planets
+ */
+export function filterEvents(events: AstroEvent[], filter: EventFilter): AstroEvent[] {
+  return events.filter(e =>
+    (!filter.types || filter.types.includes(e.type)) &&
+    (!filter.planets || getEventPlanets(e).some(p => filter.planets!.includes(p)))
+  );
+}
+
+/**
+ * Calculate the events between two dates. Sampled events are found
+ * exactly once across adjoining spans, so a horizon can be built span by
+ * span. A filter skips the searches for event types it excludes.
+ */
+export function calculateEventsBetween(
+  start: Date,
+  end: Date,
   location: LocationInput,
-  years: number = 5,
+  filter: EventFilter = {},
 ): AstroEvent[] {
+  const types = filter.types ?? (Object.keys(EVENT_SYMBOLS) as AstroEventType[]);
+  const wants = (...wanted: AstroEventType[]) => wanted.some(t => types.includes(t));
+  const observer = new Astronomy.Observer(location.latitude, location.longitude, location.altitude ?? 0);
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+
+  // Lunations skip the New and Full Moons that are eclipses, including
+  // eclipses just outside the span
+  const eclipses: AstroEvent[] = wants('solar_eclipse', 'lunar_eclipse', 'new_moon', 'full_moon') ? [
+    ...findSolarEclipses(startMs - DAY_MS, endMs + DAY_MS, observer),
+    ...findLunarEclipses(startMs - DAY_MS, endMs + DAY_MS, observer),
+  ] : [];
   const allEvents: AstroEvent[] = [
-    ...findSolarEclipses(startDate, years),
-    ...findLunarEclipses(startDate, years),
-    ...findPlanetaryStations(startDate, years),
-    ...findConjunctions(startDate, years),
+    ...eclipses.filter(e => e.date.getTime() >= startMs && e.date.getTime() <= endMs),
+    ...(wants('new_moon', 'full_moon') ? findLunations(startMs, endMs, eclipses) : []),
+    ...(wants('ingress') ? findIngresses(startMs, endMs) : []),
+    ...(wants('equinox', 'solstice') ? findSeasons(startMs, endMs, location) : []),
+    ...(wants('retrograde_start', 'retrograde_end') ? findPlanetaryStations(startMs, endMs) : []),
+    ...(wants('greatest_elongation') ? findGreatestElongations(startMs, endMs) : []),
+    ...(wants('conjunction', 'square', 'opposition') ? findPlanetAspects(startMs, endMs, types) : []),
   ];
 
   // Sort by date
-  allEvents.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const events = filterEvents(allEvents, filter);
+  events.sort((a, b) => a.date.getTime() - b.date.getTime());
 
-  return allEvents;
+  return events;
+}
+
+/**
+ * Calculate all events for the next N years
+ */
+export function calculateEventHorizon(
+  startDate: Date,
+  location: LocationInput,
+  years: number = 5,
+  filter: EventFilter = {},
+): AstroEvent[] {
+  return calculateEventsBetween(startDate, new Date(startDate.getTime() + years * YEAR_MS), location, filter);
 }
 
 /**
@@ -275,13 +570,25 @@ export function searchEvents(events: AstroEvent[], query: string): AstroEvent[]
     e.title.toLowerCase().includes(lower) ||
     e.description.toLowerCase().includes(lower) ||
     (e.planet && e.planet.toLowerCase().includes(lower)) ||
+    (e.planet2 && e.planet2.toLowerCase().includes(lower)) ||
+    (e.sign && e.sign.toLowerCase().includes(lower)) ||
     e.type.replace(/_/g, ' ').includes(lower)
   );
 }
 
+/**
+ * Whether an event is rare enough to headline: lunations, elongations
+ * and the ingresses of the Sun and the fast planets are not
+ */
+export function isMajorEvent(event: AstroEvent): boolean {
+  if (MINOR_EVENT_TYPES.includes(event.type)) return false;
+  if (event.type === 'ingress') return !FAST_PLANETS.includes(event.planet!);
+  return true;
+}
+
 /**
  * Get the next immediate major event
  */
 export function getNextMajorEvent(events: AstroEvent[], fromDate: Date = new Date()): AstroEvent | null {
-  return events.find(e => e.date > fromDate) || null;
+  return events.find(e => e.date > fromDate && isMajorEvent(e)) || null;
 }
@@ -0,0 +1,302 @@
+// ============================================================
+// ÆONIS – Fixed Stars
+// Bundled catalogue (J2000) precessed to date: conjunctions to
+// planets and angles, parans for the observer's latitude and
+// heliacal rising and setting
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import { ChartData, LocationInput, LotAngle, Planet } from './types';
+import { toSidereal } from './ayanamsa';
+
+export interface FixedStar {
+  id: string;
+  name: string;
+  designation: string;      // Bayer designation
+  ra: number;               // J2000 right ascension in hours
+  dec: number;              // J2000 declination in degrees
+  magnitude: number;
+  nature: Planet[];         // Ptolemaic planetary nature
+  behenian: boolean;        // one of the fifteen Behenian stars
+  stone?: string;           // Behenian correspondences (Agrippa)
+  herb?: string;
+}
+
+export interface FixedStarPosition {
+  star: FixedStar;
+  longitude: number;        // ecliptic longitude of date (sidereal when requested)
+  latitude: number;
+  ra: number;               // right ascension of date in degrees
+  dec: number;              // declination of date
+}
+
+export interface StarConjunction {
+  star: FixedStar;
+  body: Planet | LotAngle;
+  orb: number;
+  starLongitude: number;
+}
+
+export type ParanAngle = 'Rising' | 'Culminating' | 'Setting' | 'AntiCulminating';
+
+export interface Paran {
+  star: FixedStar;
+  starAngle: ParanAngle;
+  planet: Planet;
+  planetAngle: ParanAngle;
+  orb: number;              // degrees of sidereal time (1° = 4 minutes)
+}
+
+export type StarVisibility = 'Seasonal' | 'Circumpolar' | 'NeverRises';
+
+export interface HeliacalEvents {
+  star: FixedStar;
+  visibility: StarVisibility;
+  rising: Date | null;      // first morning the star is seen rising before the Sun
+  setting: Date | null;     // last evening the star is seen setting after the Sun
+}
+
+// Proper motion is neglected: under 0.1° for these stars over a century
+export const FIXED_STARS: FixedStar[] = [
+  // The fifteen Behenian stars
+  { id: 'algol', name: 'Algol', designation: 'β Persei', ra: 3.136147, dec: 40.9556, magnitude: 2.1, nature: ['Saturn', 'Jupiter'], behenian: true, stone: 'Diamond', herb: 'Black hellebore' },
+  { id: 'alcyone', name: 'Alcyone', designation: 'η Tauri', ra: 3.791411, dec: 24.1051, magnitude: 2.87, nature: ['Moon', 'Mars'], behenian: true, stone: 'Crystal', herb: 'Fennel' },
+  { id: 'aldebaran', name: 'Aldebaran', designation: 'α Tauri', ra: 4.598678, dec: 16.5093, magnitude: 0.85, nature: ['Mars', 'Venus'], behenian: true, stone: 'Ruby', herb: 'Milk thistle' },
+  { id: 'capella', name: 'Capella', designation: 'α Aurigae', ra: 5.278155, dec: 45.9980, magnitude: 0.08, nature: ['Jupiter', 'Saturn'], behenian: true, stone: 'Sapphire', herb: 'Horehound' },
+  { id: 'sirius', name: 'Sirius', designation: 'α Canis Majoris', ra: 6.752478, dec: -16.7161, magnitude: -1.46, nature: ['Venus'], behenian: true, stone: 'Beryl', herb: 'Savin' },
+  { id: 'procyon', name: 'Procyon', designation: 'α Canis Minoris', ra: 7.655033, dec: 5.2250, magnitude: 0.34, nature: ['Mercury', 'Mars'], behenian: true, stone: 'Agate', herb: 'Buttercup' },
+  { id: 'regulus', name: 'Regulus', designation: 'α Leonis', ra: 10.139531, dec: 11.9672, magnitude: 1.35, nature: ['Jupiter', 'Mars'], behenian: true, stone: 'Garnet', herb: 'Celandine' },
+  { id: 'gienah', name: 'Gienah', designation: 'γ Corvi', ra: 12.263436, dec: -17.5419, magnitude: 2.59, nature: ['Saturn', 'Mars'], behenian: true, stone: 'Onyx', herb: 'Burdock' },
+  { id: 'spica', name: 'Spica', designation: 'α Virginis', ra: 13.419883, dec: -11.1614, magnitude: 0.97, nature: ['Venus', 'Mars'], behenian: true, stone: 'Emerald', herb: 'Sage' },
+  { id: 'alkaid', name: 'Alkaid', designation: 'η Ursae Majoris', ra: 13.792344, dec: 49.3133, magnitude: 1.86, nature: ['Venus', 'Moon'], behenian: true, stone: 'Lodestone', herb: 'Chicory' },
+  { id: 'arcturus', name: 'Arcturus', designation: 'α Boötis', ra: 14.261019, dec: 19.1825, magnitude: -0.05, nature: ['Mars', 'Jupiter'], behenian: true, stone: 'Jasper', herb: 'Plantain' },
+  { id: 'alphecca', name: 'Alphecca', designation: 'α Coronae Borealis', ra: 15.578131, dec: 26.7147, magnitude: 2.21, nature: ['Venus', 'Mercury'], behenian: true, stone: 'Topaz', herb: 'Rosemary' },
+  { id: 'antares', name: 'Antares', designation: 'α Scorpii', ra: 16.490128, dec: -26.4320, magnitude: 1.09, nature: ['Mars', 'Jupiter'], behenian: true, stone: 'Sardonyx', herb: 'Birthwort' },
+  { id: 'vega', name: 'Vega', designation: 'α Lyrae', ra: 18.615650, dec: 38.7836, magnitude: 0.03, nature: ['Mercury', 'Venus'], behenian: true, stone: 'Chrysolite', herb: 'Winter savory' },
+  { id: 'deneb_algedi', name: 'Deneb Algedi', designation: 'δ Capricorni', ra: 21.784011, dec: -16.1272, magnitude: 2.81, nature: ['Saturn', 'Mercury'], behenian: true, stone: 'Chalcedony', herb: 'Marjoram' },
+  // Other traditional stars
+  { id: 'hamal', name: 'Hamal', designation: 'α Arietis', ra: 2.119556, dec: 23.4624, magnitude: 2.0, nature: ['Mars', 'Saturn'], behenian: false },
+  { id: 'rigel', name: 'Rigel', designation: 'β Orionis', ra: 5.242297, dec: -8.2017, magnitude: 0.13, nature: ['Jupiter', 'Saturn'], behenian: false },
+  { id: 'betelgeuse', name: 'Betelgeuse', designation: 'α Orionis', ra: 5.919529, dec: 7.4069, magnitude: 0.5, nature: ['Mars', 'Mercury'], behenian: false },
+  { id: 'castor', name: 'Castor', designation: 'α Geminorum', ra: 7.576631, dec: 31.8883, magnitude: 1.58, nature: ['Mercury'], behenian: false },
+  { id: 'pollux', name: 'Pollux', designation: 'β Geminorum', ra: 7.755264, dec: 28.0261, magnitude: 1.14, nature: ['Mars'], behenian: false },
+  { id: 'alphard', name: 'Alphard', designation: 'α Hydrae', ra: 9.459789, dec: -8.6586, magnitude: 1.98, nature: ['Saturn', 'Venus'], behenian: false },
+  { id: 'denebola', name: 'Denebola', designation: 'β Leonis', ra: 11.817661, dec: 14.5720, magnitude: 2.14, nature: ['Saturn', 'Venus'], behenian: false },
+  { id: 'vindemiatrix', name: 'Vindemiatrix', designation: 'ε Virginis', ra: 13.036278, dec: 10.9592, magnitude: 2.83, nature: ['Saturn', 'Mercury'], behenian: false },
+  { id: 'zuben_elgenubi', name: 'Zuben Elgenubi', designation: 'α Librae', ra: 14.847975, dec: -16.0418, magnitude: 2.75, nature: ['Saturn', 'Mars'], behenian: false },
+  { id: 'zuben_eschamali', name: 'Zuben Eschamali', designation: 'β Librae', ra: 15.283447, dec: -9.3830, magnitude: 2.61, nature: ['Jupiter', 'Mercury'], behenian: false },
+  { id: 'altair', name: 'Altair', designation: 'α Aquilae', ra: 19.846389, dec: 8.8683, magnitude: 0.77, nature: ['Mars', 'Jupiter'], behenian: false },
+  { id: 'deneb', name: 'Deneb Adige', designation: 'α Cygni', ra: 20.690528, dec: 45.2803, magnitude: 1.25, nature: ['Venus', 'Mercury'], behenian: false },
+  { id: 'fomalhaut', name: 'Fomalhaut', designation: 'α Piscis Austrini', ra: 22.960847, dec: -29.6222, magnitude: 1.16, nature: ['Venus', 'Mercury'], behenian: false },
+  { id: 'scheat', name: 'Scheat', designation: 'β Pegasi', ra: 23.062906, dec: 28.0828, magnitude: 2.42, nature: ['Mars', 'Mercury'], behenian: false },
+  { id: 'markab', name: 'Markab', designation: 'α Pegasi', ra: 23.079347, dec: 15.2053, magnitude: 2.49, nature: ['Mars', 'Mercury'], behenian: false },
+];
+
+export const BEHENIAN_STARS: FixedStar[] = FIXED_STARS.filter(s => s.behenian);
+
+export const DEFAULT_STAR_ORB = 1;
+export const DEFAULT_PARAN_ORB = 1;
+
+const PARAN_PLANETS: Planet[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto',
+];
+
+const MERIDIAN_ANGLES: ParanAngle[] = ['Culminating', 'AntiCulminating'];
+
+const STAR_DISTANCE_AU = 1e9;           // far enough for parallax to vanish
+const SIDEREAL_DEGREES_PER_DAY = 360.98564736629;
+const STANDARD_ALTITUDE = -0.5667;      // refraction at the horizon
+const DAY_MS = 86400000;
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+export function getFixedStar(id: string): FixedStar | undefined {
+  return FIXED_STARS.find(s => s.id === id);
+}
+
+/**
+ * Precess a star from J2000 to the equator and ecliptic of date
+ */
+export function getFixedStarPosition(star: FixedStar, date: Date, ayanamsa: number = 0): FixedStarPosition {
+  const time = Astronomy.MakeTime(date);
+  const j2000 = Astronomy.VectorFromSphere(new Astronomy.Spherical(star.dec, star.ra * 15, STAR_DISTANCE_AU), time);
+  const ecliptic = Astronomy.Ecliptic(j2000);
+  const equator = Astronomy.EquatorFromVector(Astronomy.RotateVector(Astronomy.Rotation_EQJ_EQD(time), j2000));
+  return {
+    star,
+    longitude: ayanamsa ? toSidereal(ecliptic.elon, ayanamsa) : ecliptic.elon,
+    latitude: ecliptic.elat,
+    ra: equator.ra * 15,
+    dec: equator.dec,
+  };
+}
+
+/**
+ * Catalogue positions in the zodiac of a chart
+ */
+export function calculateFixedStarPositions(chart: ChartData, stars: FixedStar[] = FIXED_STARS): FixedStarPosition[] {
+  return stars.map(star => getFixedStarPosition(star, chart.timestamp, chart.ayanamsa?.value ?? 0));
+}
+
+/**
+ * Stars conjunct the chart's planets and angles by ecliptic longitude
+ */
+export function findStarConjunctions(
+  chart: ChartData,
+  orb: number = DEFAULT_STAR_ORB,
+  stars: FixedStar[] = FIXED_STARS,
+): StarConjunction[] {
+  const points: { body: Planet | LotAngle; longitude: number }[] = [
+    ...chart.planets.map(p => ({ body: p.planet, longitude: p.longitude })),
+    { body: 'ASC', longitude: chart.angles.ascendant },
+    { body: 'MC', longitude: chart.angles.midheaven },
+    { body: 'DSC', longitude: chart.angles.descendant },
+    { body: 'IC', longitude: chart.angles.imumCoeli },
+  ];
+  const conjunctions: StarConjunction[] = [];
+  for (const position of calculateFixedStarPositions(chart, stars)) {
+    for (const point of points) {
+      const distance = Math.abs(wrap180(point.longitude - position.longitude));
+      if (distance <= orb) {
+        conjunctions.push({ star: position.star, body: point.body, orb: distance, starLongitude: position.longitude });
+      }
+    }
+  }
+  return conjunctions.sort((a, b) => a.orb - b.orb);
+}
+
+/**
+ * Semi-diurnal arc in degrees, or null when the body never crosses the
+ * horizon at this latitude
+ */
+export function getSemiDiurnalArc(dec: number, latitude: number, altitude: number = 0): number | null {
+  const rad = Math.PI / 180;
+  const cosH = (Math.sin(altitude * rad) - Math.sin(latitude * rad) * Math.sin(dec * rad))
+    / (Math.cos(latitude * rad) * Math.cos(dec * rad));
+  if (cosH < -1 || cosH > 1) return null;
+  return Math.acos(cosH) / rad;
+}
+
+/**
+ * Local sidereal time (RAMC, degrees) at which a body reaches each angle
+ */
+function getAngleCrossings(ra: number, dec: number, latitude: number): Partial<Record<ParanAngle, number>> {
+  const crossings: Partial<Record<ParanAngle, number>> = {
+    Culminating: normalizeDegrees(ra),
+    AntiCulminating: normalizeDegrees(ra + 180),
+  };
+  const arc = getSemiDiurnalArc(dec, latitude);
+  if (arc !== null) {
+    crossings.Rising = normalizeDegrees(ra - arc);
+    crossings.Setting = normalizeDegrees(ra + arc);
+  }
+  return crossings;
+}
+
+function getPlanetEquatorial(planet: Planet, time: Astronomy.AstroTime): { ra: number; dec: number } {
+  const body = Astronomy.Body[planet as keyof typeof Astronomy.Body];
+  const vector = Astronomy.RotateVector(Astronomy.Rotation_EQJ_EQD(time), Astronomy.GeoVector(body, time, true));
+  const equator = Astronomy.EquatorFromVector(vector);
+  return { ra: equator.ra * 15, dec: equator.dec };
+}
+
+/**
+ * Parans: a star and a planet on angles (rising, culminating, setting,
+ * anti-culminating) at the same moment of the day at the chart's
+ * latitude. Planets use their positions at the chart moment.
+ */
+export function calculateParans(
+  chart: ChartData,
+  orb: number = DEFAULT_PARAN_ORB,
+  stars: FixedStar[] = FIXED_STARS,
+): Paran[] {
+  const time = Astronomy.MakeTime(chart.timestamp);
+  const planetCrossings = PARAN_PLANETS.map((planet) => {
+    const { ra, dec } = getPlanetEquatorial(planet, time);
+    return { planet, crossings: getAngleCrossings(ra, dec, chart.latitude) };
+  });
+
+  const parans: Paran[] = [];
+  for (const star of stars) {
+    const position = getFixedStarPosition(star, chart.timestamp);
+    const starCrossings = getAngleCrossings(position.ra, position.dec, chart.latitude);
+    for (const [starAngle, starRamc] of Object.entries(starCrossings) as [ParanAngle, number][]) {
+      for (const { planet, crossings } of planetCrossings) {
+        for (const [planetAngle, planetRamc] of Object.entries(crossings) as [ParanAngle, number][]) {
+          // Meridian pairs repeat twelve hours later with the roles swapped
+          if (starAngle === 'AntiCulminating' && MERIDIAN_ANGLES.includes(planetAngle)) continue;
+          const distance = Math.abs(wrap180(starRamc - planetRamc));
+          if (distance <= orb) parans.push({ star, starAngle, planet, planetAngle, orb: distance });
+        }
+      }
+    }
+  }
+  return parans.sort((a, b) => a.orb - b.orb);
+}
+
+/**
+ * Sun depression needed to see a star on the horizon (arcus visionis),
+ * a magnitude-based approximation of the classical values
+ */
+function getArcusVisionis(magnitude: number): number {
+  return 11 + magnitude;
+}
+
+/**
+ * Heliacal rising and setting of a star in a calendar year. A star is seen
+ * rising (setting) on a day when the Sun is at least the arcus visionis
+ * below the horizon as the star crosses it. The heliacal rising is the
+ * first morning of visibility after its time in the Sun's glare; the
+ * heliacal setting is the last evening before it.
+ */
+export function findHeliacalEvents(star: FixedStar, year: number, location: LocationInput): HeliacalEvents {
+  const midYear = new Date(Date.UTC(year, 6, 1));
+  const { ra, dec } = getFixedStarPosition(star, midYear);
+  const arc = getSemiDiurnalArc(dec, location.latitude, STANDARD_ALTITUDE);
+  if (arc === null) {
+    const circumpolar = Math.sign(dec) === Math.sign(location.latitude);
+    return { star, visibility: circumpolar ? 'Circumpolar' : 'NeverRises', rising: null, setting: null };
+  }
+
+  const observer = new Astronomy.Observer(location.latitude, location.longitude, 0);
+  const depression = getArcusVisionis(star.magnitude);
+  // First moment after local noon at which the star reaches a sidereal angle
+  const crossingAfterNoon = (day: number, ramc: number) => {
+    const noon = Date.UTC(year, 0, 1 + day, 12) - (location.longitude / 15) * 3600000;
+    const lst = Astronomy.SiderealTime(new Date(noon)) * 15 + location.longitude;
+    return new Date(noon + (normalizeDegrees(ramc - lst) / SIDEREAL_DEGREES_PER_DAY) * DAY_MS);
+  };
+  const sunAltitude = (date: Date) => {
+    const sun = Astronomy.Equator(Astronomy.Body.Sun, date, observer, true, true);
+    return Astronomy.Horizon(date, observer, sun.ra, sun.dec, 'normal').altitude;
+  };
+  const isLeap = new Date(Date.UTC(year, 1, 29)).getUTCMonth() === 1;
+  const days = isLeap ? 366 : 365;
+
+  let rising: Date | null = null;
+  let setting: Date | null = null;
+  let wasRisingSeen = sunAltitude(crossingAfterNoon(-1, ra - arc)) <= -depression;
+  let setting0 = crossingAfterNoon(0, ra + arc);
+  let wasSettingSeen = sunAltitude(setting0) <= -depression;
+
+  for (let day = 0; day < days; day++) {
+    const rise = crossingAfterNoon(day, ra - arc);
+    const risingSeen = sunAltitude(rise) <= -depression;
+    if (!rising && risingSeen && !wasRisingSeen) rising = rise;
+    wasRisingSeen = risingSeen;
+
+    const next = crossingAfterNoon(day + 1, ra + arc);
+    const nextSeen = sunAltitude(next) <= -depression;
+    if (!setting && wasSettingSeen && !nextSeen) setting = setting0;
+    setting0 = next;
+    wasSettingSeen = nextSeen;
+  }
+
+  return { star, visibility: 'Seasonal', rising, setting };
+}
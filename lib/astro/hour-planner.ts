@@ -0,0 +1,76 @@
+// ============================================================
+// ÆONIS – Planetary Hour Planner
+// Planetary days for the week ahead and the reminders due
+// before the hours of starred planets
+// ============================================================
+
+import { ChartOptions, LocationInput, Planet } from './types';
+import { calculatePlanetaryHours, PlanetaryHour, PlanetaryHourInfo } from './planetary-hours';
+
+export interface HourAlert {
+  id: string;
+  planet: Planet;
+  dayRuler: Planet;
+  hour: PlanetaryHour;
+  fireDate: Date;           // leadMinutes before the hour begins
+}
+
+// iOS keeps at most 64 pending local notifications per app
+export const MAX_HOUR_ALERTS = 60;
+export const LEAD_MINUTE_OPTIONS = [0, 5, 10, 15, 30];
+export const PLANNER_DAYS = 7;
+
+const DAY_MS = 86400000;
+const MINUTE_MS = 60000;
+
+/**
+ * Consecutive planetary days from the one containing a moment until
+ * `days` days later
+ */
+export function getPlanetaryDays(
+  start: Date,
+  location: LocationInput,
+  days: number = PLANNER_DAYS,
+  options: ChartOptions = {},
+): PlanetaryHourInfo[] {
+  const end = start.getTime() + days * DAY_MS;
+  const result: PlanetaryHourInfo[] = [];
+  let t = start.getTime();
+  while (t < end) {
+    const info = calculatePlanetaryHours(new Date(t), location, options);
+    result.push(info);
+    // Forward and backward searches agree only to a few milliseconds, so
+    // step just past the next sunrise to land inside the following day
+    t = info.solarDay.nextSunrise.getTime() + MINUTE_MS;
+  }
+  return result;
+}
+
+/**
+ * Reminders for every hour of the starred planets whose reminder is
+ * still ahead, soonest first
+ */
+export function planHourAlerts(
+  days: PlanetaryHourInfo[],
+  planets: Planet[],
+  leadMinutes: number,
+  now: Date,
+  limit: number = MAX_HOUR_ALERTS,
+): HourAlert[] {
+  const alerts: HourAlert[] = [];
+  for (const day of days) {
+    for (const hour of day.allHours) {
+      if (!planets.includes(hour.planet)) continue;
+      const fireDate = new Date(hour.startTime.getTime() - leadMinutes * 60000);
+      if (fireDate.getTime() <= now.getTime()) continue;
+      alerts.push({
+        id: `hour_${hour.planet}_${hour.startTime.getTime()}`,
+        planet: hour.planet,
+        dayRuler: day.dayRuler,
+        hour,
+        fireDate,
+      });
+    }
+  }
+  return alerts.sort((a, b) => a.fireDate.getTime() - b.fireDate.getTime()).slice(0, limit);
+}
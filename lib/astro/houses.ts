@@ -0,0 +1,227 @@
+// ============================================================
+// ÆONIS – House Systems & Chart Angles
+// Placidus, Regiomontanus, Porphyry, Equal and Whole Sign
+// with Porphyry fallback where Placidus is undefined (polar)
+// ============================================================
+
+import { HouseSystem, HouseData, ChartAngles } from './types';
+
+const DEG = Math.PI / 180;
+const RAD = 180 / Math.PI;
+
+function normalize(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Ecliptic longitude culminating on the meridian for a given RAMC
+ */
+function calcMidheaven(ramc: number, obliquity: number): number {
+  const r = ramc * DEG;
+  const e = obliquity * DEG;
+  return normalize(Math.atan2(Math.sin(r), Math.cos(r) * Math.cos(e)) * RAD);
+}
+
+/**
+ * Ecliptic longitude rising on the eastern horizon of a given pole height.
+ * With pole = geographic latitude this is the Ascendant.
+ */
+function calcAscendantForPole(ramc: number, obliquity: number, pole: number): number {
+  const r = ramc * DEG;
+  const e = obliquity * DEG;
+  const p = pole * DEG;
+  const y = Math.cos(r);
+  const x = -(Math.sin(r) * Math.cos(e) + Math.tan(p) * Math.sin(e));
+  return normalize(Math.atan2(y, x) * RAD);
+}
+
+/**
+ * Convert a right ascension on the ecliptic to its ecliptic longitude
+ */
+function raToLongitude(ra: number, obliquity: number): number {
+  const r = ra * DEG;
+  return normalize(Math.atan2(Math.sin(r), Math.cos(r) * Math.cos(obliquity * DEG)) * RAD);
+}
+
+/**
+ * Forward arc from `from` to `to` (0-360)
+ */
+function arc(from: number, to: number): number {
+  return normalize(to - from);
+}
+
+/**
+ * Build all 12 cusps from the four quadrant cusps (11, 12, 2, 3) and the angles
+ */
+function assembleCusps(asc: number, mc: number, c11: number, c12: number, c2: number, c3: number): number[] {
+  return [
+    asc, c2, c3, normalize(mc + 180),
+    normalize(c11 + 180), normalize(c12 + 180),
+    normalize(asc + 180), normalize(c2 + 180), normalize(c3 + 180),
+    mc, c11, c12,
+  ];
+}
+
+/**
+ * Placidus: trisect the diurnal and nocturnal semi-arcs of each cusp degree.
+ * Returns null when a cusp degree is circumpolar (no semi-arc exists).
+ */
+function calcPlacidusCusps(ramc: number, obliquity: number, latitude: number): number[] | null {
+  const e = obliquity * DEG;
+  const tanPhi = Math.tan(latitude * DEG);
+
+  // fraction of the semi-arc and whether the cusp lies below the horizon
+  const solve = (fraction: number, below: boolean): number | null => {
+    let lon = raToLongitude(ramc + (below ? 180 - 90 * fraction : 90 * fraction), obliquity);
+    for (let i = 0; i < 50; i++) {
+      const decl = Math.asin(Math.sin(e) * Math.sin(lon * DEG));
+      const x = tanPhi * Math.tan(decl);
+      if (Math.abs(x) > 1) return null;
+      const ascDiff = Math.asin(x) * RAD;
+      const ra = below
+        ? ramc + 180 - fraction * (90 - ascDiff)
+        : ramc + fraction * (90 + ascDiff);
+      const next = raToLongitude(ra, obliquity);
+      const delta = Math.abs(normalize(next - lon + 180) - 180);
+      lon = next;
+      if (delta < 1e-7) break;
+    }
+    return lon;
+  };
+
+  const c11 = solve(1 / 3, false);
+  const c12 = solve(2 / 3, false);
+  const c2 = solve(2 / 3, true);
+  const c3 = solve(1 / 3, true);
+  if (c11 === null || c12 === null || c2 === null || c3 === null) return null;
+
+  const asc = calcAscendantForPole(ramc, obliquity, latitude);
+  const mc = calcMidheaven(ramc, obliquity);
+  return assembleCusps(asc, mc, c11, c12, c2, c3);
+}
+
+/**
+ * Regiomontanus: equal divisions of the celestial equator projected
+ * onto the ecliptic through great circles meeting at the horizon poles.
+ */
+function calcRegiomontanusCusps(ramc: number, obliquity: number, latitude: number): number[] {
+  const tanPhi = Math.tan(latitude * DEG);
+  const cusp = (h: number): number => {
+    const pole = Math.atan(tanPhi * Math.sin(h * DEG)) * RAD;
+    return calcAscendantForPole(ramc + h - 90, obliquity, pole);
+  };
+
+  const asc = calcAscendantForPole(ramc, obliquity, latitude);
+  const mc = calcMidheaven(ramc, obliquity);
+  return assembleCusps(asc, mc, cusp(30), cusp(60), cusp(120), cusp(150));
+}
+
+/**
+ * Porphyry: trisect each quadrant in ecliptic longitude
+ */
+function calcPorphyryCusps(asc: number, mc: number): number[] {
+  const upper = arc(mc, asc);          // MC → ASC (houses 10-12)
+  const lower = arc(asc, normalize(mc + 180)); // ASC → IC (houses 1-3)
+  return assembleCusps(
+    asc, mc,
+    normalize(mc + upper / 3), normalize(mc + (2 * upper) / 3),
+    normalize(asc + lower / 3), normalize(asc + (2 * lower) / 3),
+  );
+}
+
+function calcEqualCusps(asc: number): number[] {
+  return Array.from({ length: 12 }, (_, i) => normalize(asc + i * 30));
+}
+
+function calcWholeSignCusps(asc: number): number[] {
+  const start = Math.floor(asc / 30) * 30;
+  return Array.from({ length: 12 }, (_, i) => normalize(start + i * 30));
+}
+
+/**
+ * Calculate the four chart angles for a given RAMC
+ * @param ramc Right ascension of the MC in degrees (local sidereal time × 15)
+ * @param obliquity True obliquity of the ecliptic in degrees
+ * @param latitude Geographic latitude in degrees
+ * @param zodiacOffset Ayanamsa to subtract for sidereal charts (default 0)
+ */
+export function calculateAngles(
+  ramc: number,
+  obliquity: number,
+  latitude: number,
+  zodiacOffset: number = 0,
+): ChartAngles {
+  const ascendant = normalize(calcAscendantForPole(normalize(ramc), obliquity, latitude) - zodiacOffset);
+  const midheaven = normalize(calcMidheaven(normalize(ramc), obliquity) - zodiacOffset);
+  return {
+    ascendant,
+    midheaven,
+    descendant: normalize(ascendant + 180),
+    imumCoeli: normalize(midheaven + 180),
+  };
+}
+
+/**
+ * Calculate the 12 house cusps in the requested system.
+ * Placidus is undefined above the polar circles; in that case
+ * Porphyry is used and `isFallback` is set.
+ * For sidereal charts pass the ayanamsa as `zodiacOffset`; Whole Sign
+ * and Equal houses are then counted from the sidereal Ascendant.
+ */
+export function calculateHouses(
+  ramc: number,
+  obliquity: number,
+  latitude: number,
+  system: HouseSystem = 'Placidus',
+  zodiacOffset: number = 0,
+): HouseData {
+  const r = normalize(ramc);
+  const { ascendant, midheaven } = calculateAngles(r, obliquity, latitude, zodiacOffset);
+  const shift = (tropical: number[] | null) => tropical && tropical.map(c => normalize(c - zodiacOffset));
+
+  let cusps: number[] | null = null;
+  let used: HouseSystem = system;
+
+  switch (system) {
+    case 'Placidus':
+      cusps = shift(calcPlacidusCusps(r, obliquity, latitude));
+      break;
+    case 'Regiomontanus':
+      cusps = shift(calcRegiomontanusCusps(r, obliquity, latitude));
+      break;
+    case 'Porphyry':
+      cusps = calcPorphyryCusps(ascendant, midheaven);
+      break;
+    case 'Equal':
+      cusps = calcEqualCusps(ascendant);
+      break;
+    case 'WholeSign':
+      cusps = calcWholeSignCusps(ascendant);
+      break;
+  }
+
+  if (!cusps || cusps.some(c => !Number.isFinite(c))) {
+    cusps = calcPorphyryCusps(ascendant, midheaven);
+    used = 'Porphyry';
+  }
+
+  return {
+    system: used,
+    requestedSystem: system,
+    isFallback: used !== system,
+    cusps,
+  };
+}
+
+/**
+ * Find the house (1-12) containing an ecliptic longitude
+ */
+export function getHouseForLongitude(longitude: number, cusps: number[]): number {
+  const lon = normalize(longitude);
+  for (let i = 0; i < 12; i++) {
+    const start = cusps[i];
+    const end = cusps[(i + 1) % 12];
+    if (arc(start, lon) < arc(start, end)) return i + 1;
+  }
+  return 1;
+}
@@ -0,0 +1,273 @@
+// ============================================================
+// ÆONIS – Arabic Parts / Hermetic Lots
+// Declarative lot table (Paulus Alexandrinus, Bonatti) with
+// day/night reversal, user-defined formulas and lot rulers
+// ============================================================
+
+import {
+  Planet, PlanetPosition, ChartAngles, Sect, LotDefinition, LotOperand, LotPosition, LotAngle, ZODIAC_SIGNS,
+} from './types';
+import { getDomicileRuler } from './dignities';
+import { getHouseForLongitude } from './houses';
+
+/**
+ * Built-in lots. Each formula is the day formula (base + plus − minus);
+ * lots with `reverseAtNight` swap plus and minus in night charts.
+ */
+export const LOT_DEFINITIONS: LotDefinition[] = [
+  // ─── Hermetic Lots (Paulus Alexandrinus) ──────────────────
+  {
+    id: 'fortune', name: 'Part of Fortune', category: 'Hermetic',
+    base: 'ASC', plus: 'Moon', minus: 'Sun', reverseAtNight: true,
+    description: 'Body, livelihood and material fortune.',
+  },
+  {
+    id: 'spirit', name: 'Part of Spirit', category: 'Hermetic',
+    base: 'ASC', plus: 'Sun', minus: 'Moon', reverseAtNight: true,
+    description: 'Mind, intention and chosen action.',
+  },
+  {
+    id: 'eros', name: 'Lot of Eros', category: 'Hermetic',
+    base: 'ASC', plus: 'Venus', minus: 'Lot:spirit', reverseAtNight: true,
+    description: 'Desire, love and friendship.',
+  },
+  {
+    id: 'necessity', name: 'Lot of Necessity', category: 'Hermetic',
+    base: 'ASC', plus: 'Lot:fortune', minus: 'Mercury', reverseAtNight: true,
+    description: 'Constraints, struggles and enmities.',
+  },
+  {
+    id: 'courage', name: 'Lot of Courage', category: 'Hermetic',
+    base: 'ASC', plus: 'Lot:fortune', minus: 'Mars', reverseAtNight: true,
+    description: 'Boldness, treachery and force.',
+  },
+  {
+    id: 'victory', name: 'Lot of Victory', category: 'Hermetic',
+    base: 'ASC', plus: 'Jupiter', minus: 'Lot:spirit', reverseAtNight: true,
+    description: 'Faith, contests and success.',
+  },
+  {
+    id: 'nemesis', name: 'Lot of Nemesis', category: 'Hermetic',
+    base: 'ASC', plus: 'Lot:fortune', minus: 'Saturn', reverseAtNight: true,
+    description: 'Hidden enemies, fate and the underworld.',
+  },
+
+  // ─── Medieval Lots (Bonatti) ──────────────────────────────
+  {
+    id: 'marriage', name: 'Lot of Marriage', category: 'Medieval',
+    base: 'ASC', plus: 'Venus', minus: 'Saturn', reverseAtNight: false,
+    description: 'Marriage (of men, after Valens); not reversed.',
+  },
+  {
+    id: 'children', name: 'Lot of Children', category: 'Medieval',
+    base: 'ASC', plus: 'Saturn', minus: 'Jupiter', reverseAtNight: true,
+    description: 'Children and their number.',
+  },
+  {
+    id: 'father', name: 'Lot of the Father', category: 'Medieval',
+    base: 'ASC', plus: 'Saturn', minus: 'Sun', reverseAtNight: true,
+    description: 'The father and inheritance from him.',
+  },
+  {
+    id: 'mother', name: 'Lot of the Mother', category: 'Medieval',
+    base: 'ASC', plus: 'Moon', minus: 'Venus', reverseAtNight: true,
+    description: 'The mother and her condition.',
+  },
+  {
+    id: 'death', name: 'Lot of Death', category: 'Medieval',
+    base: 'ASC', plus: 'H8', minus: 'Moon', reverseAtNight: false,
+    description: 'Manner and timing of death; not reversed.',
+  },
+  {
+    id: 'illness', name: 'Lot of Illness', category: 'Medieval',
+    base: 'ASC', plus: 'Mars', minus: 'Saturn', reverseAtNight: true,
+    description: 'Illness and chronic complaints.',
+  },
+];
+
+export interface LotContext {
+  planets: PlanetPosition[];
+  angles: ChartAngles;
+  cusps: number[];
+  sect: Sect;
+}
+
+function normalize(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+const ANGLE_KEYS: Record<LotAngle, keyof ChartAngles> = {
+  ASC: 'ascendant', MC: 'midheaven', DSC: 'descendant', IC: 'imumCoeli',
+};
+
+/**
+ * Display label of a lot operand, e.g. "Venus", "ASC", "8th cusp", "Lot of Spirit"
+ */
+export function formatLotOperand(operand: LotOperand, definitions: LotDefinition[] = LOT_DEFINITIONS): string {
+  if (operand.startsWith('Lot:')) {
+    const id = operand.slice(4);
+    return definitions.find(d => d.id === id)?.name ?? id;
+  }
+  const cusp = /^H(\d{1,2})$/.exec(operand);
+  if (cusp) {
+    const n = Number(cusp[1]);
+    const suffix = n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th';
+    return `${n}${suffix} cusp`;
+  }
+  return operand;
+}
+
+/**
+ * Human-readable formula, e.g. "ASC + Venus − Saturn (reversed by night)"
+ */
+export function formatLotFormula(def: LotDefinition, definitions: LotDefinition[] = LOT_DEFINITIONS): string {
+  const text = `${formatLotOperand(def.base, definitions)} + ${formatLotOperand(def.plus, definitions)} − ${formatLotOperand(def.minus, definitions)}`;
+  return def.reverseAtNight ? `${text} (reversed by night)` : text;
+}
+
+/**
+ * Calculate lot positions for a chart. Lots may reference other lots
+ * (e.g. Eros uses Spirit); unresolvable or circular lots are skipped.
+ */
+export function calculateLots(
+  ctx: LotContext,
+  definitions: LotDefinition[] = LOT_DEFINITIONS,
+): LotPosition[] {
+  const byId = new Map(definitions.map(d => [d.id, d]));
+  const resolved = new Map<string, number | null>();
+  const isNight = ctx.sect === 'Night';
+
+  const resolveOperand = (operand: LotOperand, stack: Set<string>): number | null => {
+    if (operand.startsWith('Lot:')) return resolveLot(operand.slice(4), stack);
+    if (operand in ANGLE_KEYS) return ctx.angles[ANGLE_KEYS[operand as LotAngle]];
+    const cusp = /^H(\d{1,2})$/.exec(operand);
+    if (cusp) {
+      const n = Number(cusp[1]);
+      return n >= 1 && n <= 12 ? ctx.cusps[n - 1] : null;
+    }
+    return ctx.planets.find(p => p.planet === operand)?.longitude ?? null;
+  };
+
+  const resolveLot = (id: string, stack: Set<string>): number | null => {
+    if (resolved.has(id)) return resolved.get(id)!;
+    const def = byId.get(id);
+    if (!def || stack.has(id)) return null;
+    stack.add(id);
+    const reversed = isNight && def.reverseAtNight;
+    const base = resolveOperand(def.base, stack);
+    const plus = resolveOperand(reversed ? def.minus : def.plus, stack);
+    const minus = resolveOperand(reversed ? def.plus : def.minus, stack);
+    stack.delete(id);
+    const lon = base === null || plus === null || minus === null ? null : normalize(base + plus - minus);
+    resolved.set(id, lon);
+    return lon;
+  };
+
+  const lots: LotPosition[] = [];
+  for (const def of definitions) {
+    const longitude = resolveLot(def.id, new Set());
+    if (longitude === null) continue;
+
+    const isReversed = isNight && def.reverseAtNight;
+    const applied = isReversed ? { ...def, plus: def.minus, minus: def.plus } : def;
+    const sign = ZODIAC_SIGNS[Math.floor(longitude / 30)];
+    const ruler = getDomicileRuler(sign);
+    const rulerPos = ctx.planets.find(p => p.planet === ruler);
+
+    lots.push({
+      id: def.id,
+      name: def.name,
+      category: def.category,
+      longitude,
+      sign,
+      signDegree: Math.floor(longitude % 30),
+      formula: formatLotFormula({ ...applied, reverseAtNight: false }, definitions),
+      isReversed,
+      ruler,
+      rulerSign: rulerPos?.sign,
+      rulerHouse: rulerPos ? getHouseForLongitude(rulerPos.longitude, ctx.cusps) : undefined,
+    });
+  }
+  return lots;
+}
+
+// ─── User-defined Formulas ──────────────────────────────────
+
+const PLANET_ALIASES: Record<string, Planet> = {
+  sun: 'Sun', moon: 'Moon', mercury: 'Mercury', venus: 'Venus', mars: 'Mars',
+  jupiter: 'Jupiter', saturn: 'Saturn', uranus: 'Uranus', neptune: 'Neptune', pluto: 'Pluto',
+  northnode: 'NorthNode', node: 'NorthNode', southnode: 'SouthNode', lilith: 'Lilith',
+};
+
+const ANGLE_ALIASES: Record<string, LotAngle> = {
+  asc: 'ASC', ascendant: 'ASC', mc: 'MC', midheaven: 'MC',
+  dsc: 'DSC', desc: 'DSC', descendant: 'DSC', ic: 'IC', imumcoeli: 'IC',
+};
+
+function lotKey(name: string): string {
+  return name.toLowerCase().replace(/^(part|lot) of (the )?/, '').replace(/[^a-z0-9]/g, '');
+}
+
+function parseOperand(token: string, definitions: LotDefinition[]): LotOperand | null {
+  const key = token.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (!key) return null;
+  if (PLANET_ALIASES[key]) return PLANET_ALIASES[key];
+  if (ANGLE_ALIASES[key]) return ANGLE_ALIASES[key];
+
+  // "H8", "8th cusp", "cusp 8", "house 8"
+  const cusp = /^(?:h|house|cusp)?(\d{1,2})(?:st|nd|rd|th)?(?:cusp|house)?$/.exec(key);
+  if (cusp) {
+    const n = Number(cusp[1]);
+    return n >= 1 && n <= 12 ? `H${n}` : null;
+  }
+
+  const lot = definitions.find(d => d.id === key || lotKey(d.name) === lotKey(token));
+  return lot ? `Lot:${lot.id}` : null;
+}
+
+export type LotFormulaResult =
+  | { ok: true; definition: LotDefinition }
+  | { ok: false; error: string };
+
+/**
+ * Parse a user formula such as "ASC + Venus − Saturn, reverse by night".
+ * Operands: planets, ASC/MC/DSC/IC, house cusps (H8, 8th cusp) and
+ * existing lots by name (Fortune, Spirit, …).
+ */
+export function parseLotFormula(
+  name: string,
+  formula: string,
+  definitions: LotDefinition[] = LOT_DEFINITIONS,
+): LotFormulaResult {
+  const trimmedName = name.trim();
+  if (!trimmedName) return { ok: false, error: 'Name is required' };
+
+  const reverseAtNight = /revers\w*\s*(?:by|at|in)?\s*night|night\s*revers\w*/i.test(formula);
+  const expr = formula
+    .replace(/[,;(]?\s*(?:revers\w*\s*(?:by|at|in)?\s*night|night\s*revers\w*)\s*\)?/i, '')
+    .replace(/[−–—]/g, '-')
+    .trim();
+
+  const match = /^([^+-]+)([+-])([^+-]+)([+-])([^+-]+)$/.exec(expr);
+  if (!match || match[2] === match[4]) {
+    return { ok: false, error: 'Use the form "A + B − C", e.g. "ASC + Venus − Saturn"' };
+  }
+
+  const operands: LotOperand[] = [];
+  for (const token of [match[1], match[3], match[5]]) {
+    const operand = parseOperand(token.trim(), definitions);
+    if (!operand) return { ok: false, error: `Unknown point "${token.trim()}"` };
+    operands.push(operand);
+  }
+  const [base, second, third] = operands;
+  const [plus, minus] = match[2] === '+' ? [second, third] : [third, second];
+
+  const slug = trimmedName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'lot';
+  let id = `custom_${slug}`;
+  for (let i = 2; definitions.some(d => d.id === id); i++) id = `custom_${slug}_${i}`;
+
+  return {
+    ok: true,
+    definition: { id, name: trimmedName, category: 'Custom', base, plus, minus, reverseAtNight },
+  };
+}
@@ -0,0 +1,282 @@
+// ============================================================
+// ÆONIS – Lunar Mansions (Manazil al-Qamar)
+// The 28 mansions of equal 12°51' from 0° Aries with their
+// Picatrix operations and talismanic images (after Agrippa)
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import { ChartOptions, LocationInput } from './types';
+import { getPlanetLongitude } from './engine';
+import { calculateAyanamsa, toSidereal } from './ayanamsa';
+import { findMoonAtLongitude } from './void-of-course';
+import { RitualIntention } from '../ritual/types';
+
+export type MansionNature = 'Fortunate' | 'Unfortunate' | 'Mixed';
+
+export interface LunarMansion {
+  number: number;           // 1-28
+  name: string;
+  translation: string;
+  nature: MansionNature;
+  image: string;            // talismanic image made while the Moon is in the mansion
+  favoured: string[];       // operations the Picatrix recommends
+  forbidden: string[];      // operations to avoid
+  intentions: RitualIntention[];   // ritual intentions the mansion supports
+}
+
+export interface LunarMansionPosition {
+  mansion: LunarMansion;
+  moonLongitude: number;    // in the zodiac the mansions were counted in
+  degreeInMansion: number;
+  progress: number;         // 0-1 through the mansion
+  next: LunarMansion;
+  nextStart: Date;          // Moon enters the next mansion
+  msUntilNext: number;
+}
+
+export const MANSION_SPAN = 360 / 28;   // 12°51'26"
+
+export const LUNAR_MANSIONS: LunarMansion[] = [
+  {
+    number: 1, name: 'Al-Sharatain', translation: 'The Two Signs', nature: 'Mixed',
+    image: 'A black man girded in a garment of hair, casting a lance',
+    favoured: ['Journeys', 'Purging medicine', 'Sowing discord'],
+    forbidden: ['Marriage', 'Partnerships'],
+    intentions: ['Purification', 'Power'],
+  },
+  {
+    number: 2, name: 'Al-Butain', translation: 'The Little Belly', nature: 'Mixed',
+    image: 'A crowned king',
+    favoured: ['Seeking treasure', 'Holding captives', 'Appeasing anger'],
+    forbidden: ['Sea voyages'],
+    intentions: ['Wealth'],
+  },
+  {
+    number: 3, name: 'Al-Thurayya', translation: 'The Pleiades', nature: 'Fortunate',
+    image: 'A well-clothed woman seated, her right hand raised to her head',
+    favoured: ['Good fortune', 'Alchemy', 'Hunting', 'Sailing'],
+    forbidden: [],
+    intentions: ['Wealth', 'General'],
+  },
+  {
+    number: 4, name: 'Al-Dabaran', translation: 'The Follower', nature: 'Unfortunate',
+    image: 'A soldier on horseback holding a serpent',
+    favoured: ['Revenge', 'Separation', 'Destroying buildings'],
+    forbidden: ['Building', 'Marriage', 'Friendship'],
+    intentions: ['Protection'],
+  },
+  {
+    number: 5, name: "Al-Haq'a", translation: 'The White Spot', nature: 'Fortunate',
+    image: 'A head without a body',
+    favoured: ['Favour of rulers', 'Health', 'Study', 'Safe return from journeys'],
+    forbidden: ['Sowing discord'],
+    intentions: ['Healing', 'Wisdom'],
+  },
+  {
+    number: 6, name: "Al-Han'a", translation: 'The Brand', nature: 'Mixed',
+    image: 'Two figures embracing',
+    favoured: ['Love between two', 'Hunting', 'Sieges'],
+    forbidden: ['Medicine'],
+    intentions: ['General'],
+  },
+  {
+    number: 7, name: 'Al-Dhira', translation: 'The Forearm', nature: 'Fortunate',
+    image: 'A well-clothed man with hands raised in prayer',
+    favoured: ['Gain', 'Friendship', 'Lovers'],
+    forbidden: ['Dealing with magistrates'],
+    intentions: ['Wealth'],
+  },
+  {
+    number: 8, name: 'Al-Nathra', translation: 'The Gap', nature: 'Mixed',
+    image: 'An eagle with the face of a man',
+    favoured: ['Victory', 'Driving away vermin', 'Friendship of travellers'],
+    forbidden: ['Freeing captives'],
+    intentions: ['Protection', 'Power'],
+  },
+  {
+    number: 9, name: 'Al-Tarf', translation: 'The Glance', nature: 'Unfortunate',
+    image: 'A mutilated man covering his eyes',
+    favoured: ['Causing infirmity', 'Defence against enemies'],
+    forbidden: ['Journeys', 'Harvest'],
+    intentions: ['Protection'],
+  },
+  {
+    number: 10, name: 'Al-Jabha', translation: 'The Forehead', nature: 'Fortunate',
+    image: 'The head of a lion',
+    favoured: ['Easing childbirth', 'Healing the sick', 'Strengthening buildings'],
+    forbidden: [],
+    intentions: ['Healing', 'Protection'],
+  },
+  {
+    number: 11, name: 'Al-Zubra', translation: 'The Mane', nature: 'Fortunate',
+    image: 'A man riding a lion, spear in hand',
+    favoured: ['Commanding respect', 'Trade', 'Ransoming captives'],
+    forbidden: [],
+    intentions: ['Power', 'Wealth'],
+  },
+  {
+    number: 12, name: 'Al-Sarfa', translation: 'The Changer', nature: 'Mixed',
+    image: 'A dragon fighting a man',
+    favoured: ['Planting', 'Harvest', 'Separating lovers'],
+    forbidden: ['Sea voyages'],
+    intentions: ['Wealth'],
+  },
+  {
+    number: 13, name: "Al-'Awwa", translation: 'The Barker', nature: 'Fortunate',
+    image: 'A man of red wax and a woman of white wax embracing',
+    favoured: ['Concord of spouses', 'Trade', 'Harvest', 'Freeing captives'],
+    forbidden: [],
+    intentions: ['Wealth', 'General'],
+  },
+  {
+    number: 14, name: 'Al-Simak', translation: 'The Unarmed', nature: 'Mixed',
+    image: 'A dog biting its tail',
+    favoured: ['Divorce', 'Healing the sick', 'Sea voyages'],
+    forbidden: ['Journeys by land', 'Marriage'],
+    intentions: ['Healing'],
+  },
+  {
+    number: 15, name: 'Al-Ghafr', translation: 'The Covering', nature: 'Mixed',
+    image: 'A man seated, writing letters',
+    favoured: ['Friendship', 'Digging wells', 'Finding treasure'],
+    forbidden: ['Journeys'],
+    intentions: ['Wisdom', 'Wealth'],
+  },
+  {
+    number: 16, name: 'Al-Zubana', translation: 'The Claws', nature: 'Unfortunate',
+    image: 'A man seated on a chair, holding a balance',
+    favoured: ['Gain in trade', 'Freeing captives'],
+    forbidden: ['Journeys', 'Marriage', 'Sowing', 'Medicine'],
+    intentions: ['Wealth'],
+  },
+  {
+    number: 17, name: 'Al-Iklil', translation: 'The Crown', nature: 'Fortunate',
+    image: 'An ape',
+    favoured: ['Protection from thieves', 'Lasting love', 'Building'],
+    forbidden: [],
+    intentions: ['Protection'],
+  },
+  {
+    number: 18, name: 'Al-Qalb', translation: 'The Heart', nature: 'Mixed',
+    image: 'A serpent holding its tail above its head',
+    favoured: ['Curing fevers', 'Victory over enemies', 'Building'],
+    forbidden: ['Partnerships'],
+    intentions: ['Healing', 'Power'],
+  },
+  {
+    number: 19, name: 'Al-Shaula', translation: 'The Sting', nature: 'Mixed',
+    image: 'A woman holding her hands over her face',
+    favoured: ['Easing childbirth', 'Sieges', 'Hunting'],
+    forbidden: ['Sea voyages'],
+    intentions: ['Healing'],
+  },
+  {
+    number: 20, name: "Al-Na'aim", translation: 'The Ostriches', nature: 'Fortunate',
+    image: 'A centaur archer',
+    favoured: ['Taming beasts', 'Hunting', 'Binding companions'],
+    forbidden: [],
+    intentions: ['Power'],
+  },
+  {
+    number: 21, name: 'Al-Balda', translation: 'The City', nature: 'Mixed',
+    image: 'A man with two faces, before and behind',
+    favoured: ['Harvest', 'Building', 'Destroying an enemy'],
+    forbidden: ['Marriage', 'Partnerships'],
+    intentions: ['Protection'],
+  },
+  {
+    number: 22, name: "Sa'd al-Dhabih", translation: 'Luck of the Slaughterer', nature: 'Mixed',
+    image: 'A man with winged feet and a helmet',
+    favoured: ['Escape', 'Curing illness', 'Securing fugitives'],
+    forbidden: ['Partnerships'],
+    intentions: ['Healing', 'Protection'],
+  },
+  {
+    number: 23, name: "Sa'd Bula", translation: 'Luck of the Swallower', nature: 'Unfortunate',
+    image: "A cat with a dog's head",
+    favoured: ['Destruction', 'Healing through medicine'],
+    forbidden: ['Marriage', 'Beginnings'],
+    intentions: ['Purification', 'Healing'],
+  },
+  {
+    number: 24, name: "Sa'd al-Su'ud", translation: 'Luck of Lucks', nature: 'Fortunate',
+    image: 'A woman nursing her son',
+    favoured: ['Multiplying herds', 'Marriage', 'Concord', 'Commerce'],
+    forbidden: ['Sowing discord'],
+    intentions: ['Wealth', 'General'],
+  },
+  {
+    number: 25, name: "Sa'd al-Akhbiya", translation: 'Luck of the Tents', nature: 'Mixed',
+    image: 'A man planting trees',
+    favoured: ['Protecting trees and crops', 'Sieges', 'Revenge'],
+    forbidden: ['Marriage', 'Journeys'],
+    intentions: ['Protection', 'Wealth'],
+  },
+  {
+    number: 26, name: 'Al-Fargh al-Muqaddam', translation: 'The Fore Spout', nature: 'Fortunate',
+    image: 'A woman washing and combing her hair',
+    favoured: ['Love and favour', 'Union', 'Building'],
+    forbidden: ['Journeys'],
+    intentions: ['General'],
+  },
+  {
+    number: 27, name: "Al-Fargh al-Mu'akhkhar", translation: 'The Rear Spout', nature: 'Mixed',
+    image: 'A winged man holding a pierced empty vessel',
+    favoured: ['Increasing harvests', 'Gain', 'Healing the sick'],
+    forbidden: ['Partnerships', 'Lending money'],
+    intentions: ['Wealth', 'Healing'],
+  },
+  {
+    number: 28, name: 'Batn al-Hut', translation: 'Belly of the Fish', nature: 'Fortunate',
+    image: 'A fish',
+    favoured: ['Gathering fish', 'Trade', 'Concord of spouses', 'Safe travel'],
+    forbidden: ['Lending treasure'],
+    intentions: ['Wealth', 'General'],
+  },
+];
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Mansion containing a zodiac longitude
+ */
+export function getMansionForLongitude(longitude: number): LunarMansion {
+  return LUNAR_MANSIONS[Math.floor(normalizeDegrees(longitude) / MANSION_SPAN) % 28];
+}
+
+/**
+ * Current mansion of the Moon and the moment it moves on. Mansions are
+ * counted from 0° Aries of the tropical or sidereal zodiac, following the
+ * chart options; with topocentric positions the Moon is seen from the
+ * location.
+ */
+export function calculateLunarMansion(
+  date: Date,
+  options: ChartOptions = {},
+  location?: LocationInput,
+): LunarMansionPosition {
+  const topocentric = options.positionMode === 'Topocentric' ? location : undefined;
+  let moonLongitude = getPlanetLongitude('Moon', date, topocentric)!;
+  if (options.zodiac === 'Sidereal') {
+    const julianDay = Astronomy.MakeTime(date).ut + 2451545.0;
+    moonLongitude = toSidereal(moonLongitude, calculateAyanamsa(julianDay, options.ayanamsa ?? 'Lahiri'));
+  }
+  moonLongitude = normalizeDegrees(moonLongitude);
+
+  const index = Math.floor(moonLongitude / MANSION_SPAN) % 28;
+  const degreeInMansion = moonLongitude - index * MANSION_SPAN;
+  const next = LUNAR_MANSIONS[(index + 1) % 28];
+  const nextStart = findMoonAtLongitude(((index + 1) % 28) * MANSION_SPAN, date, options, location);
+
+  return {
+    mansion: LUNAR_MANSIONS[index],
+    moonLongitude,
+    degreeInMansion,
+    progress: degreeInMansion / MANSION_SPAN,
+    next,
+    nextStart,
+    msUntilNext: nextStart.getTime() - date.getTime(),
+  };
+}
@@ -3,7 +3,7 @@
 // ============================================================
 
 import * as Astronomy from 'astronomy-engine';
-import { Planet, LocationInput } from './types';
+import { Planet, LocationInput, ChartOptions } from './types';
 
 // Chaldean order of planets (for planetary hours)
 const CHALDEAN_ORDER: Planet[] = [
@@ -23,70 +23,147 @@ export interface PlanetaryHour {
   isDayHour: boolean;
 }
 
+export type PolarCondition = 'MidnightSun' | 'PolarNight';
+
+export interface SolarDay {
+  sunrise: Date;            // start of the planetary day
+  sunset: Date;
+  nextSunrise: Date;        // end of the planetary day
+  polar: PolarCondition | null;   // set when the Sun doesn't rise or set at the location
+}
+
 export interface PlanetaryHourInfo {
   currentHour: PlanetaryHour;
   dayRuler: Planet;
   allHours: PlanetaryHour[];
+  solarDay: SolarDay;
 }
 
-function getSunTimes(date: Date, location: LocationInput): { sunrise: Date; sunset: Date } {
-  const observer = new Astronomy.Observer(location.latitude, location.longitude, 0);
-  const time = Astronomy.MakeTime(date);
+const HOUR_MS = 3600000;
+const LATITUDE_STEP = 0.5;       // degrees, nearest-latitude search
 
-  // Search for sunrise and sunset around the given date
-  const noon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12, 0, 0);
-  const noonTime = Astronomy.MakeTime(noon);
+/**
+ * Weekday at the location's local mean time, so the day ruler doesn't
+ * depend on the phone's time zone
+ */
+function getLocalWeekday(date: Date, longitude: number): number {
+  return new Date(date.getTime() + (longitude / 15) * HOUR_MS).getUTCDay();
+}
 
+/**
+ * Last sunrise at or before a moment with the sunset and sunrise after
+ * it, or null when the Sun doesn't rise and set within the day
+ */
+function findRiseSetDay(date: Date, latitude: number, longitude: number): SolarDay | null {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
   try {
-    const sunrise = Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, +1, noonTime, -12);
-    const sunset = Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, -1, noonTime, 12);
-
-    if (sunrise && sunset) {
-      return { sunrise: sunrise.date, sunset: sunset.date };
-    }
+    // The backward search skips a sunrise at its very start, which belongs to the new day
+    const sunrise = Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, +1, new Date(date.getTime() + 1), -1.5);
+    if (!sunrise) return null;
+    const sunset = Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, -1, sunrise, 1);
+    if (!sunset) return null;
+    const nextSunrise = Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, +1, sunset, 1);
+    if (!nextSunrise || nextSunrise.date.getTime() <= date.getTime()) return null;
+    return { sunrise: sunrise.date, sunset: sunset.date, nextSunrise: nextSunrise.date, polar: null };
   } catch {
-    // Fallback for polar regions
+    return null;
   }
+}
 
-  // Fallback: assume 6am sunrise, 6pm sunset
-  const fallbackSunrise = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 6, 0, 0);
-  const fallbackSunset = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 18, 0, 0);
-  return { sunrise: fallbackSunrise, sunset: fallbackSunset };
+function getPolarCondition(date: Date, location: LocationInput): PolarCondition {
+  const observer = new Astronomy.Observer(location.latitude, location.longitude, 0);
+  const sun = Astronomy.Equator(Astronomy.Body.Sun, date, observer, true, true);
+  return sun.dec * location.latitude > 0 ? 'MidnightSun' : 'PolarNight';
 }
 
-export function calculatePlanetaryHours(date: Date, location: LocationInput): PlanetaryHourInfo {
-  const dayOfWeek = date.getDay(); // 0=Sunday
-  const dayRuler = DAY_RULERS[dayOfWeek];
+/**
+ * Polar day of equal hours: it starts six hours before local apparent
+ * noon and turns to night six hours after it
+ */
+function findEqualHoursDay(date: Date, location: LocationInput, polar: PolarCondition): SolarDay {
+  const observer = new Astronomy.Observer(location.latitude, location.longitude, 0);
+  const start = Astronomy.SearchHourAngle(Astronomy.Body.Sun, observer, 18, new Date(date.getTime() + 1), -1).time.date;
+  const noonTime = Astronomy.SearchHourAngle(Astronomy.Body.Sun, observer, 0, start).time.date;
+  const next = Astronomy.SearchHourAngle(Astronomy.Body.Sun, observer, 18, new Date(start.getTime() + HOUR_MS)).time.date;
+  return { sunrise: start, sunset: new Date(noonTime.getTime() + 6 * HOUR_MS), nextSunrise: next, polar };
+}
 
-  // Find the starting index in Chaldean order for this day's ruler
-  const rulerIndex = CHALDEAN_ORDER.indexOf(dayRuler);
+/**
+ * Sunrise and sunset of the nearest latitude towards the equator at
+ * which the Sun still rises and sets
+ */
+function findNearestLatitudeDay(date: Date, location: LocationInput, polar: PolarCondition): SolarDay {
+  const sign = location.latitude >= 0 ? 1 : -1;
+  for (let lat = Math.abs(location.latitude) - LATITUDE_STEP; lat > 0; lat -= LATITUDE_STEP) {
+    const day = findRiseSetDay(date, sign * lat, location.longitude);
+    if (day) return { ...day, polar };
+  }
+  return findEqualHoursDay(date, location, polar);
+}
 
-  // Get sunrise/sunset for today and tomorrow
-  const { sunrise, sunset } = getSunTimes(date, location);
-  const tomorrow = new Date(date.getTime() + 86400000);
-  const { sunrise: nextSunrise } = getSunTimes(tomorrow, location);
+/**
+ * The planetary day containing a moment: from the last sunrise to the
+ * next. Where the Sun doesn't rise or set, the polar method decides.
+ */
+export function getSolarDay(date: Date, location: LocationInput, options: ChartOptions = {}): SolarDay {
+  const day = findRiseSetDay(date, location.latitude, location.longitude);
+  if (day) return day;
+  const polar = getPolarCondition(date, location);
+  return options.polarHourMethod === 'NearestLatitude'
+    ? findNearestLatitudeDay(date, location, polar)
+    : findEqualHoursDay(date, location, polar);
+}
 
-  // Calculate day and night hour durations
-  const dayDuration = sunset.getTime() - sunrise.getTime();
-  const nightDuration = nextSunrise.getTime() - sunset.getTime();
-  const dayHourMs = dayDuration / 12;
-  const nightHourMs = nightDuration / 12;
+/**
+ * Ruler of the planetary day containing a moment: the planet of the
+ * weekday on which the day's sunrise fell at the location
+ */
+export function getDayRuler(date: Date, location: LocationInput, options: ChartOptions = {}): Planet {
+  const { sunrise } = getSolarDay(date, location, options);
+  return DAY_RULERS[getLocalWeekday(sunrise, location.longitude)];
+}
+
+/**
+ * Planetary hours of the day containing a moment. The day begins at
+ * sunrise, so the hours before dawn are the previous day's night hours
+ * and belong to its ruler.
+ */
+export function calculatePlanetaryHours(
+  date: Date,
+  location: LocationInput,
+  options: ChartOptions = {},
+): PlanetaryHourInfo {
+  const solarDay = getSolarDay(date, location, options);
+  const { sunrise, sunset, nextSunrise } = solarDay;
+  const dayRuler = DAY_RULERS[getLocalWeekday(sunrise, location.longitude)];
+
+  // Find the starting index in Chaldean order for this day's ruler
+  const rulerIndex = CHALDEAN_ORDER.indexOf(dayRuler);
 
   const allHours: PlanetaryHour[] = [];
 
   // 12 day hours + 12 night hours
   for (let i = 0; i < 24; i++) {
-    const isDayHour = i < 12;
-    const hourInPeriod = i < 12 ? i : i - 12;
-    const hourMs = isDayHour ? dayHourMs : nightHourMs;
-    const periodStart = isDayHour ? sunrise : sunset;
-
-    const startTime = new Date(periodStart.getTime() + hourInPeriod * hourMs);
-    const endTime = new Date(startTime.getTime() + hourMs);
+    let startTime: Date;
+    let endTime: Date;
+    let isDayHour: boolean;
+    if (options.hourSystem === 'Equal') {
+      // Equal hours run from sunrise to sunrise; day hours begin before sunset
+      const hourMs = (nextSunrise.getTime() - sunrise.getTime()) / 24;
+      startTime = new Date(sunrise.getTime() + i * hourMs);
+      endTime = new Date(startTime.getTime() + hourMs);
+      isDayHour = startTime.getTime() < sunset.getTime();
+    } else {
+      isDayHour = i < 12;
+      const periodStart = isDayHour ? sunrise : sunset;
+      const periodEnd = isDayHour ? sunset : nextSunrise;
+      const hourMs = (periodEnd.getTime() - periodStart.getTime()) / 12;
+      startTime = new Date(periodStart.getTime() + (i % 12) * hourMs);
+      endTime = new Date(startTime.getTime() + hourMs);
+    }
 
     // Planet for this hour: cycle through Chaldean order starting from day ruler
-    const planetIndex = (rulerIndex + i) % 7;
-    const planet = CHALDEAN_ORDER[planetIndex];
+    const planet = CHALDEAN_ORDER[(rulerIndex + i) % 7];
 
     allHours.push({
       planet,
@@ -99,15 +176,10 @@ export function calculatePlanetaryHours(date: Date, location: LocationInput): Pl
 
   // Find current hour
   const now = date.getTime();
-  let currentHour = allHours[0];
-  for (const hour of allHours) {
-    if (now >= hour.startTime.getTime() && now < hour.endTime.getTime()) {
-      currentHour = hour;
-      break;
-    }
-  }
+  const currentHour = allHours.find(h => now >= h.startTime.getTime() && now < h.endTime.getTime())
+    ?? allHours[allHours.length - 1];
 
-  return { currentHour, dayRuler, allHours };
+  return { currentHour, dayRuler, allHours, solarDay };
 }
 
 // Moon phase calculation
@@ -7,26 +7,28 @@
 //   +5   Day Ruler matches user intent
 //   +10  Active Cosmic Event supports user intent
 //   +10  Recent Gnosis/Stasis session (last 6h)
+//   +10  Hour ruler fortified (essential + accidental dignity)
+//   -15  Moon void of course
 // ============================================================
 
-import { Planet, PLANET_COLORS } from './types';
+import { ChartData, Planet, PLANET_COLORS } from './types';
 import { PlanetaryHourInfo } from './planetary-hours';
-import { DAY_RULERS } from './ruler-of-day';
 import { SanityCosmicEvent } from '@/lib/cms/sanity';
+import { getPlanetStrength } from './power-rating';
 
 // ─── Types ──────────────────────────────────────────────────
 
 export interface PotencyBuff {
   id: string;
   label: string;
-  value: number;       // e.g. 60, 15, 5, 10
+  value: number;       // e.g. 60, 15, 5, 10, -15
   isBase: boolean;     // true only for the base 60%
   active: boolean;     // whether this buff is currently active
   color: string;       // UI color for the buff tag
 }
 
 export interface AstralPotencyReport {
-  /** Total potency score (60-100) */
+  /** Total potency score (45-100) */
   potencyScore: number;
   /** All buffs (active and inactive base always shown) */
   buffs: PotencyBuff[];
@@ -57,6 +59,9 @@ const PLANET_INTENTS: Record<string, string[]> = {
   Saturn:  ['BANISH', 'DISCIPLINE', 'RESTRICTION', 'ENDINGS'],
 };
 
+// Essential + accidental score at which the hour ruler counts as fortified
+const FORTIFIED_RULER_THRESHOLD = 10;
+
 // ─── Planetary Hour → Recommendation Mapping ────────────────
 
 const HOUR_RECOMMENDATIONS: Record<string, { text: string; ritualId: string | null }> = {
@@ -84,16 +89,20 @@ function planetMatchesIntent(planet: string, userIntent: string | null): boolean
 /**
  * Calculate the Astral Potency Report v2.
  *
- * @param hourInfo - Current planetary hour data
+ * @param hourInfo - Current planetary hour data; its day ruler counts from sunrise at the location
  * @param userIntent - The user's current ritual intent (BANISH/INVOKE/null)
  * @param lastSessionTimestamp - Timestamp of last Gnosis or Stasis session (or null)
  * @param cosmicEvents - Currently active cosmic events from CMS
+ * @param chartData - Current chart, used to score the hour ruler's dignity
+ * @param moonVoidOfCourse - Whether the Moon is currently void of course
  */
 export function calculateAstralPotency(
   hourInfo: PlanetaryHourInfo,
   userIntent: string | null,
   lastSessionTimestamp: number | null,
   cosmicEvents: SanityCosmicEvent[],
+  chartData: ChartData | null = null,
+  moonVoidOfCourse: boolean = false,
 ): AstralPotencyReport {
   const hourPlanet = hourInfo.currentHour.planet;
   const planetColor = PLANET_COLORS[hourPlanet] ?? '#D4AF37';
@@ -170,6 +179,30 @@ export function calculateAstralPotency(
     color: '#D4AF37', // Gold
   });
 
+  // ===== +10 if the hour ruler is fortified =====
+  const rulerStrength = chartData ? getPlanetStrength(chartData, hourPlanet) : 0;
+  const rulerFortified = rulerStrength >= FORTIFIED_RULER_THRESHOLD;
+  if (rulerFortified) potency += 10;
+  buffs.push({
+    id: 'dignity',
+    label: 'DIGNIFIED RULER',
+    value: 10,
+    isBase: false,
+    active: rulerFortified,
+    color: PLANET_COLORS[hourPlanet] ?? '#22C55E',
+  });
+
+  // ===== -15 while the Moon is void of course =====
+  if (moonVoidOfCourse) potency -= 15;
+  buffs.push({
+    id: 'void',
+    label: 'VOID MOON',
+    value: -15,
+    isBase: false,
+    active: moonVoidOfCourse,
+    color: '#EF4444', // Red
+  });
+
   // Cap at 100
   potency = Math.min(100, potency);
 
@@ -180,6 +213,8 @@ export function calculateAstralPotency(
   let headline: string;
   if (matchedEvent) {
     headline = `COSMIC EVENT: ${matchedEvent.title}`;
+  } else if (moonVoidOfCourse) {
+    headline = 'MOON VOID OF COURSE';
   } else if (potency >= 85) {
     headline = 'SUPREME ALIGNMENT';
   } else if (potency >= 75) {
@@ -1,6 +1,7 @@
 // ============================================================
 // ÆONIS – Magical Power Rating (Digital Grimoire)
-// Formula: 40% Transits + 40% Natal Dignity + 20% Active Rune
+// Formula: 40% Transits + 40% Dignity + 20% Active Rune
+// Dignity = essential + accidental (Lilly) of benefics vs. malefics
 // Stasis Buff: x1.15 if meditation session within last 60 mins
 // ============================================================
 
@@ -21,7 +22,7 @@ const MALEFIC_PLANETS: Planet[] = ['Saturn', 'Mars'];
 interface PowerBreakdown {
   totalScore: number;          // 0-100
   transitScore: number;        // contribution from transits (40%)
-  dignityScore: number;        // contribution from natal dignities (40%)
+  dignityScore: number;        // contribution from essential + accidental dignities (40%)
   runeModifier: number;        // contribution from active rune (20%)
   moonPhaseBonus: number;      // sub-component of transit
   planetaryHourBonus: number;  // sub-component of transit
@@ -29,12 +30,20 @@ interface PowerBreakdown {
   details: string[];           // human-readable breakdown
 }
 
+/**
+ * Total strength of a planet: essential + accidental dignity score
+ */
+export function getPlanetStrength(chart: ChartData, planet: Planet): number {
+  return (chart.dignities[planet]?.score ?? 0) + (chart.accidentalDignities?.[planet]?.score ?? 0);
+}
+
 export function calculatePowerRating(
   currentChart: ChartData,
   natalChart: ChartData | null,
   activeRuneDignityScore: number = 0,
   currentPlanetaryHourPlanet: string = '',
   stasisBuffActive: boolean = false,
+  natalAlmuten: Planet | null = null,
 ): PowerBreakdown {
   const details: string[] = [];
 
@@ -94,42 +103,42 @@ export function calculatePowerRating(
   }
   transitRaw += moonPhaseBonus;
 
-  // Planetary hour bonus (part of transit)
+  // Planetary hour bonus (part of transit): strength of the hour ruler
   let planetaryHourBonus = 0;
   if (currentPlanetaryHourPlanet) {
-    if (BENEFIC_PLANETS.includes(currentPlanetaryHourPlanet as Planet)) {
-      planetaryHourBonus = 5;
-      details.push(`↑ Hour of ${currentPlanetaryHourPlanet} (+5)`);
-    } else if (currentPlanetaryHourPlanet === 'Sun') {
-      planetaryHourBonus = 4;
-      details.push('↑ Hour of the Sun (+4)');
-    } else if (currentPlanetaryHourPlanet === 'Moon') {
-      planetaryHourBonus = 3;
-      details.push('↑ Hour of the Moon (+3)');
+    const hourPlanet = currentPlanetaryHourPlanet as Planet;
+    const strength = getPlanetStrength(currentChart, hourPlanet);
+    planetaryHourBonus = Math.max(-6, Math.min(8, Math.round(strength / 3)));
+    if (planetaryHourBonus !== 0) {
+      const direction = planetaryHourBonus > 0 ? '↑' : '↓';
+      const state = planetaryHourBonus > 0 ? 'dignified' : 'debilitated';
+      details.push(`${direction} Hour of ${hourPlanet}, ruler ${state} (${planetaryHourBonus > 0 ? '+' : ''}${planetaryHourBonus})`);
+    }
+    if (natalAlmuten && hourPlanet === natalAlmuten) {
+      planetaryHourBonus += 5;
+      details.push(`↑ Hour of your Almuten ${natalAlmuten} (+5)`);
     }
   }
   transitRaw += planetaryHourBonus;
 
   const transitScore = Math.max(0, Math.min(100, transitRaw));
 
-  // ===== 2. Natal Dignity Score (raw 0-100) =====
+  // ===== 2. Dignity Score (raw 0-100): essential + accidental =====
   let dignityRaw = 50;
-  const beneficDignity = BENEFIC_PLANETS.reduce((sum, p) => {
-    const d = currentChart.dignities[p];
-    return sum + (d ? d.score : 0);
-  }, 0);
-  const maleficDignity = MALEFIC_PLANETS.reduce((sum, p) => {
-    const d = currentChart.dignities[p];
-    return sum + (d ? d.score : 0);
-  }, 0);
-
-  dignityRaw += Math.round(beneficDignity * 1.5 - maleficDignity * 0.5);
-
-  if (beneficDignity > 3) {
-    details.push(`↑ Benefics well-dignified (+${Math.round(beneficDignity * 1.5)})`);
+  const beneficStrength = BENEFIC_PLANETS.reduce((sum, p) => sum + getPlanetStrength(currentChart, p), 0);
+  const maleficStrength = MALEFIC_PLANETS.reduce((sum, p) => sum + getPlanetStrength(currentChart, p), 0);
+
+  dignityRaw += Math.round(beneficStrength * 0.5 - maleficStrength * 0.25);
+
+  if (beneficStrength > 10) {
+    details.push(`↑ Benefics fortified (+${Math.round(beneficStrength * 0.5)})`);
+  } else if (beneficStrength < 0) {
+    details.push(`↓ Benefics debilitated (${Math.round(beneficStrength * 0.5)})`);
   }
-  if (maleficDignity < -3) {
-    details.push(`↑ Malefics weakened (+${Math.round(-maleficDignity * 0.5)})`);
+  if (maleficStrength < 0) {
+    details.push(`↑ Malefics weakened (+${Math.round(-maleficStrength * 0.25)})`);
+  } else if (maleficStrength > 20) {
+    details.push(`↓ Malefics fortified (-${Math.round(maleficStrength * 0.25)})`);
   }
 
   const dignityScore = Math.max(0, Math.min(100, dignityRaw));
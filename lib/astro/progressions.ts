@@ -0,0 +1,182 @@
+// ============================================================
+// ÆONIS – Predictive Techniques
+// Secondary progressions (a day for a year), solar arc directions
+// and annual/monthly profections with the lord of the year
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import {
+  ChartData, ChartOptions, ChartAngles, PlanetPosition, Planet, ZodiacSign, ZODIAC_SIGNS,
+} from './types';
+import { calculateChart, getPlanetLongitude, longitudeToSign } from './engine';
+import { getDomicileRuler } from './dignities';
+import { Aspect, AspectPoint, calculateCrossAspects, getChartAspectPoints } from './aspects';
+
+export interface ProgressedChart {
+  targetDate: Date;
+  progressedDate: Date;     // birth + one day per year of life
+  solarArc: number;         // progressed Sun − natal Sun (degrees)
+  chart: ChartData;         // progressed planets; MC advanced by the solar arc in right ascension
+  contacts: Aspect[];       // progressed → natal within 1°
+}
+
+export interface DirectedChart {
+  targetDate: Date;
+  solarArc: number;
+  planets: PlanetPosition[];  // natal positions advanced by the arc
+  angles: ChartAngles;
+  contacts: Aspect[];       // directed → natal within 1°
+}
+
+export interface Profection {
+  age: number;              // completed years of life
+  house: number;            // profected house, whole signs from the Ascendant
+  sign: ZodiacSign;
+  lordOfYear: Planet;       // domicile ruler of the profected sign
+  monthSign: ZodiacSign;    // monthly profection: one sign per month of the year
+  monthLord: Planet;
+  yearStart: Date;
+  yearEnd: Date;
+}
+
+const TROPICAL_YEAR_DAYS = 365.242189;
+const DAY_MS = 86400000;
+const CONTACT_ORB = 1;
+
+// Outer planets barely move by progression and would only ever contact themselves
+const PROGRESSED_BODIES = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'ASC', 'MC'];
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Age in (tropical) years at the target date
+ */
+export function getAgeInYears(natalChart: ChartData, targetDate: Date): number {
+  return (targetDate.getTime() - natalChart.timestamp.getTime()) / DAY_MS / TROPICAL_YEAR_DAYS;
+}
+
+// Right ascension of an ecliptic longitude on the ecliptic (β = 0)
+function eclipticToRightAscension(longitude: number, obliquity: number): number {
+  const rad = Math.PI / 180;
+  const ra = Math.atan2(Math.sin(longitude * rad) * Math.cos(obliquity * rad), Math.cos(longitude * rad));
+  return normalizeDegrees(ra / rad);
+}
+
+// Natal points as fixed targets for contacts
+function natalTargets(natalChart: ChartData): AspectPoint[] {
+  return getChartAspectPoints(natalChart).map(p => ({ ...p, speed: 0 }));
+}
+
+/**
+ * Secondary progressions: the chart for one day after birth per year of
+ * life. The progressed MC moves by the solar arc in right ascension and
+ * the Ascendant and cusps follow from it at the birth latitude.
+ */
+export function calculateProgressedChart(
+  natalChart: ChartData,
+  targetDate: Date,
+  options: ChartOptions = {},
+): ProgressedChart {
+  const birth = natalChart.timestamp;
+  const age = getAgeInYears(natalChart, targetDate);
+  const progressedDate = new Date(birth.getTime() + age * DAY_MS);
+
+  const natalSun = getPlanetLongitude('Sun', birth)!;
+  const progressedSun = getPlanetLongitude('Sun', progressedDate)!;
+  const solarArc = normalizeDegrees(progressedSun - natalSun);
+
+  const obliquity = Astronomy.e_tilt(Astronomy.MakeTime(birth)).tobl;
+  const arcInRA = normalizeDegrees(
+    eclipticToRightAscension(progressedSun, obliquity) - eclipticToRightAscension(natalSun, obliquity),
+  );
+  const ramc = normalizeDegrees(natalChart.localSiderealTime * 15 + arcInRA);
+
+  const chart = calculateChart(
+    progressedDate,
+    { latitude: natalChart.latitude, longitude: natalChart.longitude },
+    { ...options, ramc },
+  );
+
+  // Progressed angles advance at about the Sun's rate
+  const sunSpeed = chart.planets.find(p => p.planet === 'Sun')!.speed;
+  const progressedPoints = getChartAspectPoints(chart)
+    .filter(p => PROGRESSED_BODIES.includes(p.body))
+    .map(p => (p.speed === 0 ? { ...p, speed: sunSpeed } : p));
+  const contacts = calculateCrossAspects(progressedPoints, natalTargets(natalChart), CONTACT_ORB);
+
+  return { targetDate, progressedDate, solarArc, chart, contacts };
+}
+
+/**
+ * Solar arc directions: every natal point advanced by the arc the
+ * progressed Sun has travelled since birth
+ */
+export function calculateSolarArcDirections(natalChart: ChartData, targetDate: Date): DirectedChart {
+  const birth = natalChart.timestamp;
+  const age = getAgeInYears(natalChart, targetDate);
+  const progressedDate = new Date(birth.getTime() + age * DAY_MS);
+  const solarArc = normalizeDegrees(getPlanetLongitude('Sun', progressedDate)! - getPlanetLongitude('Sun', birth)!);
+  const arcRate = natalChart.planets.find(p => p.planet === 'Sun')!.speed; // degrees per year of life
+
+  const planets = natalChart.planets.map((pos) => {
+    const longitude = normalizeDegrees(pos.longitude + solarArc);
+    const signInfo = longitudeToSign(longitude);
+    return {
+      ...pos,
+      longitude,
+      sign: signInfo.sign,
+      signDegree: signInfo.degree,
+      signMinute: signInfo.minute,
+      signSecond: signInfo.second,
+      isRetrograde: false,
+      speed: arcRate,
+      house: undefined,
+    };
+  });
+
+  const { ascendant, midheaven, descendant, imumCoeli } = natalChart.angles;
+  const angles: ChartAngles = {
+    ascendant: normalizeDegrees(ascendant + solarArc),
+    midheaven: normalizeDegrees(midheaven + solarArc),
+    descendant: normalizeDegrees(descendant + solarArc),
+    imumCoeli: normalizeDegrees(imumCoeli + solarArc),
+  };
+
+  const directedPoints: AspectPoint[] = getChartAspectPoints(natalChart).map(p => ({
+    body: p.body,
+    longitude: normalizeDegrees(p.longitude + solarArc),
+    speed: arcRate,
+  }));
+  const contacts = calculateCrossAspects(directedPoints, natalTargets(natalChart), CONTACT_ORB);
+
+  return { targetDate, solarArc, planets, angles, contacts };
+}
+
+/**
+ * Annual profection: the Ascendant advances one whole sign per year of
+ * life; the ruler of that sign is the lord of the year. Each month of the
+ * year advances the monthly profection by a further sign.
+ */
+export function calculateProfection(natalChart: ChartData, targetDate: Date): Profection {
+  const ageYears = getAgeInYears(natalChart, targetDate);
+  const age = Math.max(0, Math.floor(ageYears));
+  const ascIndex = ZODIAC_SIGNS.indexOf(longitudeToSign(natalChart.angles.ascendant).sign);
+
+  const sign = ZODIAC_SIGNS[(ascIndex + age) % 12];
+  const monthIndex = Math.min(11, Math.floor((ageYears - age) * 12));
+  const monthSign = ZODIAC_SIGNS[(ascIndex + age + Math.max(0, monthIndex)) % 12];
+  const yearMs = TROPICAL_YEAR_DAYS * DAY_MS;
+
+  return {
+    age,
+    house: (age % 12) + 1,
+    sign,
+    lordOfYear: getDomicileRuler(sign),
+    monthSign,
+    monthLord: getDomicileRuler(monthSign),
+    yearStart: new Date(natalChart.timestamp.getTime() + age * yearMs),
+    yearEnd: new Date(natalChart.timestamp.getTime() + (age + 1) * yearMs),
+  };
+}
@@ -0,0 +1,213 @@
+// ============================================================
+// ÆONIS – Solar & Lunar Returns
+// Exact return of the Sun or Moon to its natal longitude,
+// the return chart for a chosen location and its natal overlay
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import { ChartData, ChartOptions, LocationInput, Planet } from './types';
+import { calculateChart, getChartObserver, getPlanetLongitude, longitudeToSign } from './engine';
+import { calculateAyanamsa, toSidereal } from './ayanamsa';
+import { getHouseForLongitude } from './houses';
+import { getDomicileRuler } from './dignities';
+import { Aspect, AspectBody, calculateCrossAspects, getChartAspectPoints } from './aspects';
+
+export type ReturnKind = 'Solar' | 'Lunar';
+
+export interface ReturnPlacement {
+  body: AspectBody;
+  longitude: number;
+  returnHouse: number;      // house in the return chart
+  natalHouse: number;       // natal house the return point falls into
+}
+
+export interface ReturnChart {
+  kind: ReturnKind;
+  date: Date;               // exact moment of the return
+  location: LocationInput;  // where the return chart is cast (relocation)
+  chart: ChartData;
+  placements: ReturnPlacement[];
+  contacts: Aspect[];       // return → natal within 2°
+}
+
+export interface LunarMonth {
+  current: ReturnChart;     // the lunar return that opened this lunar month
+  nextReturn: Date;
+  ruler: Planet;            // domicile ruler of the return Ascendant
+  moonHouse: number;        // house of the Moon in the return chart
+}
+
+const DAY_MS = 86400000;
+const RETURN_PRECISION = 1e-6;          // degrees (~0.1 s of solar motion)
+const MOON_MEAN_SPEED = 13.176;         // degrees per day
+const SIDEREAL_MONTH_DAYS = 27.321661;
+const CONTACT_ORB = 2;
+
+const OVERLAY_BODIES: AspectBody[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'ASC', 'MC',
+];
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Longitude in the natal chart's zodiac (sidereal charts use the
+ * ayanamsa of the given date), seen from the birthplace when the natal
+ * positions are topocentric
+ */
+function makeZodiacLongitude(natalChart: ChartData, planet: Planet): (date: Date) => number {
+  const topocentric = getChartObserver(natalChart);
+  return (date: Date) => {
+    const tropical = getPlanetLongitude(planet, date, topocentric) ?? 0;
+    if (!natalChart.ayanamsa) return tropical;
+    const julianDay = Astronomy.MakeTime(date).ut + 2451545.0;
+    return toSidereal(tropical, calculateAyanamsa(julianDay, natalChart.ayanamsa.system));
+  };
+}
+
+/**
+ * Newton iteration on the longitude error. The Sun and Moon never
+ * station, so the rate stays positive and the iteration converges
+ * from within a few degrees.
+ */
+function refineReturn(lonAt: (date: Date) => number, target: number, guess: number): number {
+  let t = guess;
+  for (let i = 0; i < 30; i++) {
+    const error = wrap180(target - lonAt(new Date(t)));
+    if (Math.abs(error) < RETURN_PRECISION) break;
+    const rate = wrap180(lonAt(new Date(t + DAY_MS / 24)) - lonAt(new Date(t - DAY_MS / 24))) * 12; // deg/day
+    t += (error / rate) * DAY_MS;
+  }
+  return t;
+}
+
+function getNatalLongitude(natalChart: ChartData, planet: Planet): number {
+  const pos = natalChart.planets.find(p => p.planet === planet);
+  if (!pos) throw new Error(`Natal chart has no ${planet} position`);
+  return pos.longitude;
+}
+
+/**
+ * Exact moment the Sun returns to its natal longitude in the given year
+ */
+export function findSolarReturn(natalChart: ChartData, year: number): Date {
+  const birth = natalChart.timestamp;
+  const guess = Date.UTC(
+    year, birth.getUTCMonth(), birth.getUTCDate(),
+    birth.getUTCHours(), birth.getUTCMinutes(), birth.getUTCSeconds(),
+  );
+  const lonAt = makeZodiacLongitude(natalChart, 'Sun');
+  return new Date(refineReturn(lonAt, getNatalLongitude(natalChart, 'Sun'), guess));
+}
+
+/**
+ * First return of the Moon to its natal longitude at or after a date
+ */
+export function findLunarReturn(natalChart: ChartData, from: Date): Date {
+  const target = getNatalLongitude(natalChart, 'Moon');
+  const lonAt = makeZodiacLongitude(natalChart, 'Moon');
+  const start = from.getTime();
+
+  let guess = start + (normalizeDegrees(target - lonAt(from)) / MOON_MEAN_SPEED) * DAY_MS;
+  let t = refineReturn(lonAt, target, guess);
+  // The mean-speed guess may converge on the previous return
+  if (t < start) {
+    guess = t + SIDEREAL_MONTH_DAYS * DAY_MS;
+    t = refineReturn(lonAt, target, guess);
+  }
+  return new Date(t);
+}
+
+/**
+ * First lunar return in a calendar month (month 0-11 as in Date)
+ */
+export function findLunarReturnInMonth(natalChart: ChartData, year: number, month: number): Date {
+  return findLunarReturn(natalChart, new Date(Date.UTC(year, month, 1)));
+}
+
+/**
+ * Cast the return chart at a location (the birthplace unless relocated)
+ * and overlay it on the natal houses
+ */
+export function castReturnChart(
+  natalChart: ChartData,
+  kind: ReturnKind,
+  date: Date,
+  location?: LocationInput,
+  options: ChartOptions = {},
+): ReturnChart {
+  const where = location ?? { latitude: natalChart.latitude, longitude: natalChart.longitude };
+  const chart = calculateChart(date, where, options);
+
+  const returnPoints = getChartAspectPoints(chart);
+  const placements = OVERLAY_BODIES.flatMap((body) => {
+    const point = returnPoints.find(p => p.body === body);
+    if (!point) return [];
+    return [{
+      body,
+      longitude: point.longitude,
+      returnHouse: getHouseForLongitude(point.longitude, chart.houses.cusps),
+      natalHouse: getHouseForLongitude(point.longitude, natalChart.houses.cusps),
+    }];
+  });
+
+  const natalPoints = getChartAspectPoints(natalChart).map(p => ({ ...p, speed: 0 }));
+  const contacts = calculateCrossAspects(returnPoints, natalPoints, CONTACT_ORB);
+
+  return { kind, date, location: where, chart, placements, contacts };
+}
+
+/**
+ * Solar return chart for a year
+ */
+export function calculateSolarReturn(
+  natalChart: ChartData,
+  year: number,
+  location?: LocationInput,
+  options: ChartOptions = {},
+): ReturnChart {
+  return castReturnChart(natalChart, 'Solar', findSolarReturn(natalChart, year), location, options);
+}
+
+/**
+ * Next lunar return chart at or after a date
+ */
+export function calculateLunarReturn(
+  natalChart: ChartData,
+  from: Date,
+  location?: LocationInput,
+  options: ChartOptions = {},
+): ReturnChart {
+  return castReturnChart(natalChart, 'Lunar', findLunarReturn(natalChart, from), location, options);
+}
+
+/**
+ * The lunar month in effect at a date: the latest lunar return cast for
+ * the location, its Ascendant ruler and the next return
+ */
+export function getCurrentLunarMonth(
+  natalChart: ChartData,
+  now: Date,
+  location?: LocationInput,
+  options: ChartOptions = {},
+): LunarMonth {
+  let returnDate = findLunarReturn(natalChart, new Date(now.getTime() - 28 * DAY_MS));
+  let nextReturn = findLunarReturn(natalChart, new Date(returnDate.getTime() + DAY_MS));
+  if (nextReturn.getTime() <= now.getTime()) {
+    returnDate = nextReturn;
+    nextReturn = findLunarReturn(natalChart, new Date(returnDate.getTime() + DAY_MS));
+  }
+
+  const current = castReturnChart(natalChart, 'Lunar', returnDate, location, options);
+  return {
+    current,
+    nextReturn,
+    ruler: getDomicileRuler(longitudeToSign(current.chart.angles.ascendant).sign),
+    moonHouse: current.placements.find(p => p.body === 'Moon')?.returnHouse ?? 1,
+  };
+}
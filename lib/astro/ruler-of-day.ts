@@ -4,7 +4,8 @@
 // and suggests matching rituals
 // ============================================================
 
-import { Planet, PLANET_SYMBOLS } from './types';
+import { ChartOptions, LocationInput, Planet, PLANET_SYMBOLS } from './types';
+import { getDayRuler } from './planetary-hours';
 
 // Chaldean Order: Saturn → Jupiter → Mars → Sun → Venus → Mercury → Moon
 // Day rulers follow the traditional assignment:
@@ -88,32 +89,39 @@ export const DAY_RULERS: Record<number, DayRuler> = {
 };
 
 /**
- * Get the planetary ruler for a given date
+ * Correspondences of a planet as ruler of the day
  */
-export function getRulerOfDay(date: Date = new Date()): DayRuler {
-  const dayOfWeek = date.getDay(); // 0=Sunday, 6=Saturday
-  return DAY_RULERS[dayOfWeek];
+export function getDayRulerCorrespondences(planet: Planet): DayRuler {
+  return Object.values(DAY_RULERS).find(r => r.planet === planet) ?? DAY_RULERS[0];
+}
+
+/**
+ * Get the planetary ruler for a given moment at a location. The planetary
+ * day begins at sunrise, so before dawn the previous day's ruler holds.
+ */
+export function getRulerOfDay(date: Date, location: LocationInput, options: ChartOptions = {}): DayRuler {
+  return getDayRulerCorrespondences(getDayRuler(date, location, options));
 }
 
 /**
  * Get the symbol for the ruler of the day
  */
-export function getRulerSymbol(date: Date = new Date()): string {
-  const ruler = getRulerOfDay(date);
+export function getRulerSymbol(date: Date, location: LocationInput, options: ChartOptions = {}): string {
+  const ruler = getRulerOfDay(date, location, options);
   return PLANET_SYMBOLS[ruler.planet];
 }
 
 /**
  * Format the ruler recommendation for the dashboard
  */
-export function getRulerRecommendation(date: Date = new Date()): {
+export function getRulerRecommendation(date: Date, location: LocationInput, options: ChartOptions = {}): {
   planet: Planet;
   symbol: string;
   dayName: string;
   recommendation: string;
   color: string;
 } {
-  const ruler = getRulerOfDay(date);
+  const ruler = getRulerOfDay(date, location, options);
   return {
     planet: ruler.planet,
     symbol: PLANET_SYMBOLS[ruler.planet],
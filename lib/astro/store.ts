@@ -3,24 +3,99 @@
 // ============================================================
 
 import { create } from 'zustand';
-import { ChartData, LocationInput } from './types';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ChartData, ChartOptions, LocationInput, HouseSystem, LunarPointMode, ZodiacMode, Ayanamsa,
+  LotDefinition, VoidOfCourseMode, PlanetaryHourSystem, PolarHourMethod, PositionMode,
+} from './types';
 import { calculateChart } from './engine';
+import { AspectConfig, DEFAULT_ASPECT_CONFIG } from './aspects';
+import { resolveTimeZone } from './timezones';
+import { lookupTimeZone } from '../geocoding';
 
-interface AstroState {
+interface AstroSettings {
+  houseSystem: HouseSystem;
+  lunarPointMode: LunarPointMode;
+  zodiac: ZodiacMode;
+  ayanamsa: Ayanamsa;
+  customLots: LotDefinition[];
+  aspectConfig: AspectConfig;
+  voidOfCourseMode: VoidOfCourseMode;
+  hourSystem: PlanetaryHourSystem;
+  polarHourMethod: PolarHourMethod;
+  positionMode: PositionMode;
+  asteroids: boolean;
+}
+
+interface AstroState extends AstroSettings {
   chartData: ChartData | null;
   location: LocationInput;
   date: Date;
   isCalculating: boolean;
   error: string | null;
   setLocation: (loc: LocationInput) => void;
+  refreshTimeZone: () => void;
   setDate: (date: Date) => void;
+  setHouseSystem: (system: HouseSystem) => void;
+  setLunarPointMode: (mode: LunarPointMode) => void;
+  setZodiac: (zodiac: ZodiacMode) => void;
+  setAyanamsa: (ayanamsa: Ayanamsa) => void;
+  addCustomLot: (lot: LotDefinition) => void;
+  removeCustomLot: (id: string) => void;
+  setAspectConfig: (config: Partial<AspectConfig>) => void;
+  setVoidOfCourseMode: (mode: VoidOfCourseMode) => void;
+  setHourSystem: (system: PlanetaryHourSystem) => void;
+  setPolarHourMethod: (method: PolarHourMethod) => void;
+  setPositionMode: (mode: PositionMode) => void;
+  setAsteroids: (enabled: boolean) => void;
+  getChartOptions: () => ChartOptions;
+  loadSettings: () => Promise<void>;
   recalculate: () => void;
 }
 
 // Default: Berlin, Germany
-const DEFAULT_LOCATION: LocationInput = { latitude: 52.52, longitude: 13.405 };
+const DEFAULT_LOCATION: LocationInput = { latitude: 52.52, longitude: 13.405, timeZone: 'Europe/Berlin' };
+
+const SETTINGS_KEY = '@aeonis_astro_settings';
+
+const DEFAULT_SETTINGS: AstroSettings = {
+  houseSystem: 'Placidus',
+  lunarPointMode: 'Mean',
+  zodiac: 'Tropical',
+  ayanamsa: 'Lahiri',
+  customLots: [],
+  aspectConfig: DEFAULT_ASPECT_CONFIG,
+  voidOfCourseMode: 'Traditional',
+  hourSystem: 'Seasonal',
+  polarHourMethod: 'EqualHours',
+  positionMode: 'Geocentric',
+  asteroids: false,
+};
+
+async function persistSettings(settings: AstroSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {}
+}
+
+function pickSettings(state: AstroSettings): AstroSettings {
+  return {
+    houseSystem: state.houseSystem,
+    lunarPointMode: state.lunarPointMode,
+    zodiac: state.zodiac,
+    ayanamsa: state.ayanamsa,
+    customLots: state.customLots,
+    aspectConfig: state.aspectConfig,
+    voidOfCourseMode: state.voidOfCourseMode,
+    hourSystem: state.hourSystem,
+    polarHourMethod: state.polarHourMethod,
+    positionMode: state.positionMode,
+    asteroids: state.asteroids,
+  };
+}
 
 export const useAstroStore = create<AstroState>((set, get) => ({
+  ...DEFAULT_SETTINGS,
   chartData: null,
   location: DEFAULT_LOCATION,
   date: new Date(),
@@ -28,8 +103,25 @@ export const useAstroStore = create<AstroState>((set, get) => ({
   error: null,
 
   setLocation: (loc: LocationInput) => {
-    set({ location: loc });
+    const location: LocationInput = {
+      ...loc,
+      timeZone: loc.timeZone ?? resolveTimeZone(loc.latitude, loc.longitude),
+      timeZoneProvisional: !loc.timeZone || loc.timeZoneProvisional === true,
+    };
+    set({ location });
     get().recalculate();
+    get().refreshTimeZone();
+  },
+
+  refreshTimeZone: () => {
+    const { location } = get();
+    if (!location.timeZoneProvisional) return;
+    // Replace the offline guess once the boundary lookup answers
+    lookupTimeZone(location.latitude, location.longitude).then(({ timeZone, provisional }) => {
+      if (!provisional && get().location === location) {
+        get().setLocation({ ...location, timeZone, timeZoneProvisional: false });
+      }
+    });
   },
 
   setDate: (date: Date) => {
@@ -37,11 +129,113 @@ export const useAstroStore = create<AstroState>((set, get) => ({
     get().recalculate();
   },
 
+  setHouseSystem: (system: HouseSystem) => {
+    set({ houseSystem: system });
+    persistSettings(pickSettings(get()));
+    get().recalculate();
+  },
+
+  setLunarPointMode: (mode: LunarPointMode) => {
+    set({ lunarPointMode: mode });
+    persistSettings(pickSettings(get()));
+    get().recalculate();
+  },
+
+  setZodiac: (zodiac: ZodiacMode) => {
+    set({ zodiac });
+    persistSettings(pickSettings(get()));
+    get().recalculate();
+  },
+
+  setAyanamsa: (ayanamsa: Ayanamsa) => {
+    set({ ayanamsa });
+    persistSettings(pickSettings(get()));
+    get().recalculate();
+  },
+
+  addCustomLot: (lot: LotDefinition) => {
+    set({ customLots: [...get().customLots.filter(l => l.id !== lot.id), lot] });
+    persistSettings(pickSettings(get()));
+    get().recalculate();
+  },
+
+  removeCustomLot: (id: string) => {
+    // Drop the lot and any custom lots built on top of it
+    const { customLots } = get();
+    const removed = new Set([id]);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const lot of customLots) {
+        const refs = [lot.base, lot.plus, lot.minus].map(o => o.replace(/^Lot:/, ''));
+        if (!removed.has(lot.id) && refs.some(r => removed.has(r))) {
+          removed.add(lot.id);
+          changed = true;
+        }
+      }
+    }
+    set({ customLots: customLots.filter(l => !removed.has(l.id)) });
+    persistSettings(pickSettings(get()));
+    get().recalculate();
+  },
+
+  setAspectConfig: (config: Partial<AspectConfig>) => {
+    // Aspects are derived from the chart on display; no recalculation needed
+    set({ aspectConfig: { ...get().aspectConfig, ...config } });
+    persistSettings(pickSettings(get()));
+  },
+
+  setVoidOfCourseMode: (mode: VoidOfCourseMode) => {
+    // Only the void-of-course Moon depends on it; the chart is unchanged
+    set({ voidOfCourseMode: mode });
+    persistSettings(pickSettings(get()));
+  },
+
+  setHourSystem: (system: PlanetaryHourSystem) => {
+    // Planetary hours are computed where they are shown; the chart is unchanged
+    set({ hourSystem: system });
+    persistSettings(pickSettings(get()));
+  },
+
+  setPolarHourMethod: (method: PolarHourMethod) => {
+    set({ polarHourMethod: method });
+    persistSettings(pickSettings(get()));
+  },
+
+  setPositionMode: (mode: PositionMode) => {
+    set({ positionMode: mode });
+    persistSettings(pickSettings(get()));
+    get().recalculate();
+  },
+
+  setAsteroids: (enabled: boolean) => {
+    set({ asteroids: enabled });
+    persistSettings(pickSettings(get()));
+    get().recalculate();
+  },
+
+  getChartOptions: () => pickSettings(get()),
+
+  loadSettings: async () => {
+    try {
+      const str = await AsyncStorage.getItem(SETTINGS_KEY);
+      if (str) {
+        const stored: Partial<AstroSettings> = JSON.parse(str);
+        set({
+          ...DEFAULT_SETTINGS,
+          ...stored,
+          aspectConfig: { ...DEFAULT_ASPECT_CONFIG, ...stored.aspectConfig },
+        });
+        get().recalculate();
+      }
+    } catch {}
+  },
+
   recalculate: () => {
-    const { date, location } = get();
+    const { date, location, getChartOptions } = get();
     set({ isCalculating: true, error: null });
     try {
-      const chartData = calculateChart(date, location);
+      const chartData = calculateChart(date, location, getChartOptions());
       set({ chartData, isCalculating: false });
     } catch (err: any) {
       set({ error: err.message || 'Calculation error', isCalculating: false });
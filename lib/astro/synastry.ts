@@ -0,0 +1,99 @@
+// ============================================================
+// ÆONIS – Synastry, Composite & Davison Charts
+// Inter-chart aspects between two charts, the midpoint composite
+// and the Davison chart (midpoint in time and space)
+// ============================================================
+
+import { ChartData, ChartOptions, ChartAngles, PlanetPosition } from './types';
+import { calculateChart, longitudeToSign } from './engine';
+import { Aspect, calculateCrossAspects, getChartAspectPoints } from './aspects';
+
+export interface CompositeChart {
+  planets: PlanetPosition[];  // near midpoint of each planet pair
+  angles: ChartAngles;
+  cusps: number[];            // near midpoints of the house cusps
+}
+
+const DEFAULT_SYNASTRY_ORB = 3;
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Midpoint on the shorter arc between two longitudes
+ */
+export function nearMidpoint(a: number, b: number): number {
+  return normalizeDegrees(a + wrap180(b - a) / 2);
+}
+
+/**
+ * Aspects from the planets and angles of one chart to those of another.
+ * planet1 always belongs to chart A.
+ */
+export function calculateSynastryAspects(
+  chartA: ChartData,
+  chartB: ChartData,
+  orb: number = DEFAULT_SYNASTRY_ORB,
+): Aspect[] {
+  return calculateCrossAspects(getChartAspectPoints(chartA), getChartAspectPoints(chartB), orb);
+}
+
+/**
+ * Midpoint composite: every planet, angle and cusp at the near midpoint
+ * of its two natal positions. The composite is not a moment in time, so
+ * it carries positions only.
+ */
+export function calculateCompositeChart(chartA: ChartData, chartB: ChartData): CompositeChart {
+  const planets = chartA.planets.flatMap((posA) => {
+    const posB = chartB.planets.find(p => p.planet === posA.planet);
+    if (!posB) return [];
+    const longitude = nearMidpoint(posA.longitude, posB.longitude);
+    const signInfo = longitudeToSign(longitude);
+    return [{
+      ...posA,
+      longitude,
+      latitude: (posA.latitude + posB.latitude) / 2,
+      sign: signInfo.sign,
+      signDegree: signInfo.degree,
+      signMinute: signInfo.minute,
+      signSecond: signInfo.second,
+      speed: (posA.speed + posB.speed) / 2,
+      isRetrograde: (posA.speed + posB.speed) < 0,
+      house: undefined,
+    }];
+  });
+
+  const ascendant = nearMidpoint(chartA.angles.ascendant, chartB.angles.ascendant);
+  const midheaven = nearMidpoint(chartA.angles.midheaven, chartB.angles.midheaven);
+  const angles: ChartAngles = {
+    ascendant,
+    midheaven,
+    descendant: normalizeDegrees(ascendant + 180),
+    imumCoeli: normalizeDegrees(midheaven + 180),
+  };
+  const cusps = chartA.houses.cusps.map((cusp, i) => nearMidpoint(cusp, chartB.houses.cusps[i]));
+
+  return { planets, angles, cusps };
+}
+
+/**
+ * Davison chart: a real chart cast for the midpoint in time and the
+ * midpoint in space of the two births
+ */
+export function calculateDavisonChart(
+  chartA: ChartData,
+  chartB: ChartData,
+  options: ChartOptions = {},
+): ChartData {
+  const midTime = (chartA.timestamp.getTime() + chartB.timestamp.getTime()) / 2;
+  const location = {
+    latitude: (chartA.latitude + chartB.latitude) / 2,
+    longitude: wrap180(chartA.longitude + wrap180(chartB.longitude - chartA.longitude) / 2),
+  };
+  return calculateChart(new Date(midTime), location, options);
+}
@@ -0,0 +1,359 @@
+// ============================================================
+// ÆONIS – Time Zones
+// Wall-clock times at a place resolved against the IANA zone of
+// that place, with its historical DST and local mean time rules
+// ============================================================
+
+export interface WallTime {
+  year: number;
+  month: number;            // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// Reference places of the IANA zones: [zone, latitude, longitude]. Zones
+// spanning large countries list several places so the nearest one falls
+// on the right side of the zone boundary for most cities
+const ZONE_PLACES: [string, number, number][] = [
+  // Europe
+  ['Europe/London', 51.51, -0.13], ['Europe/London', 53.48, -2.24], ['Europe/London', 55.95, -3.19],
+  ['Europe/Dublin', 53.35, -6.26], ['Europe/Lisbon', 38.72, -9.14], ['Europe/Lisbon', 41.15, -8.61],
+  ['Atlantic/Azores', 37.74, -25.67], ['Atlantic/Madeira', 32.65, -16.91], ['Atlantic/Canary', 28.12, -15.43],
+  ['Atlantic/Reykjavik', 64.15, -21.94], ['Atlantic/Faroe', 62.01, -6.77],
+  ['Europe/Madrid', 40.42, -3.70], ['Europe/Madrid', 41.39, 2.17], ['Europe/Madrid', 37.39, -5.98],
+  ['Europe/Madrid', 38.88, -6.97], ['Europe/Madrid', 42.88, -8.54], ['Europe/Madrid', 43.26, -2.93],
+  ['Europe/Paris', 48.86, 2.35], ['Europe/Paris', 43.30, 5.37], ['Europe/Paris', 44.84, -0.58],
+  ['Europe/Paris', 47.22, -1.55], ['Europe/Paris', 48.58, 7.75], ['Europe/Brussels', 50.85, 4.35],
+  ['Europe/Amsterdam', 52.37, 4.90], ['Europe/Luxembourg', 49.61, 6.13],
+  ['Europe/Berlin', 52.52, 13.40], ['Europe/Berlin', 53.55, 9.99], ['Europe/Berlin', 48.14, 11.58],
+  ['Europe/Berlin', 50.94, 6.96], ['Europe/Berlin', 51.05, 13.74], ['Europe/Zurich', 47.37, 8.54],
+  ['Europe/Zurich', 46.20, 6.14], ['Europe/Vienna', 48.21, 16.37], ['Europe/Vienna', 47.27, 11.39],
+  ['Europe/Rome', 41.90, 12.50], ['Europe/Rome', 45.46, 9.19], ['Europe/Rome', 40.85, 14.27],
+  ['Europe/Rome', 38.12, 13.36], ['Europe/Malta', 35.90, 14.51],
+  ['Europe/Copenhagen', 55.68, 12.57], ['Europe/Oslo', 59.91, 10.75], ['Europe/Oslo', 60.39, 5.32],
+  ['Europe/Oslo', 69.65, 18.96], ['Europe/Stockholm', 59.33, 18.07], ['Europe/Stockholm', 57.71, 11.97],
+  ['Europe/Stockholm', 65.58, 22.15], ['Europe/Helsinki', 60.17, 24.94], ['Europe/Helsinki', 65.01, 25.47],
+  ['Europe/Tallinn', 59.44, 24.75], ['Europe/Riga', 56.95, 24.11], ['Europe/Vilnius', 54.69, 25.28],
+  ['Europe/Warsaw', 52.23, 21.01], ['Europe/Warsaw', 50.06, 19.94], ['Europe/Warsaw', 54.35, 18.65],
+  ['Europe/Prague', 50.08, 14.44], ['Europe/Bratislava', 48.15, 17.11], ['Europe/Budapest', 47.50, 19.04],
+  ['Europe/Ljubljana', 46.06, 14.51], ['Europe/Zagreb', 45.81, 15.98], ['Europe/Belgrade', 44.79, 20.45],
+  ['Europe/Sarajevo', 43.86, 18.41], ['Europe/Podgorica', 42.44, 19.26], ['Europe/Skopje', 42.00, 21.43],
+  ['Europe/Tirane', 41.33, 19.82], ['Europe/Athens', 37.98, 23.73], ['Europe/Athens', 40.64, 22.94],
+  ['Europe/Sofia', 42.70, 23.32], ['Europe/Bucharest', 44.43, 26.10], ['Europe/Bucharest', 46.77, 23.59],
+  ['Europe/Chisinau', 47.01, 28.86], ['Europe/Kyiv', 50.45, 30.52], ['Europe/Kyiv', 46.48, 30.72],
+  ['Europe/Kyiv', 49.84, 24.03], ['Europe/Kyiv', 49.99, 36.23], ['Europe/Simferopol', 44.95, 34.10],
+  ['Europe/Minsk', 53.90, 27.57], ['Europe/Kaliningrad', 54.71, 20.51],
+  ['Europe/Moscow', 55.76, 37.62], ['Europe/Moscow', 59.93, 30.34], ['Europe/Moscow', 56.33, 44.00],
+  ['Europe/Moscow', 47.24, 39.71], ['Europe/Moscow', 55.79, 49.12], ['Europe/Volgograd', 48.71, 44.51],
+  ['Europe/Samara', 53.20, 50.15], ['Europe/Istanbul', 41.01, 28.98], ['Europe/Istanbul', 39.93, 32.86],
+  ['Europe/Istanbul', 37.00, 35.32], ['Europe/Istanbul', 39.90, 41.27], ['Asia/Nicosia', 35.19, 33.38],
+  // Russia east of the Urals, Caucasus and Central Asia
+  ['Asia/Yekaterinburg', 56.84, 60.60], ['Asia/Omsk', 54.99, 73.37], ['Asia/Novosibirsk', 55.03, 82.92],
+  ['Asia/Krasnoyarsk', 56.01, 92.87], ['Asia/Irkutsk', 52.29, 104.28], ['Asia/Yakutsk', 62.03, 129.73],
+  ['Asia/Vladivostok', 43.12, 131.89], ['Asia/Magadan', 59.56, 150.80], ['Asia/Kamchatka', 53.02, 158.65],
+  ['Asia/Tbilisi', 41.72, 44.79], ['Asia/Yerevan', 40.18, 44.51], ['Asia/Baku', 40.41, 49.87],
+  ['Asia/Tehran', 35.69, 51.39], ['Asia/Tehran', 32.65, 51.67], ['Asia/Tehran', 36.30, 59.61],
+  ['Asia/Almaty', 43.24, 76.89], ['Asia/Almaty', 51.17, 71.45], ['Asia/Aqtobe', 50.28, 57.17],
+  ['Asia/Tashkent', 41.30, 69.24], ['Asia/Samarkand', 39.65, 66.96], ['Asia/Bishkek', 42.87, 74.59],
+  ['Asia/Dushanbe', 38.56, 68.79], ['Asia/Ashgabat', 37.95, 58.38], ['Asia/Kabul', 34.53, 69.17],
+  // South and East Asia
+  ['Asia/Karachi', 24.86, 67.00], ['Asia/Karachi', 31.55, 74.34], ['Asia/Karachi', 33.68, 73.05],
+  ['Asia/Kolkata', 28.61, 77.21], ['Asia/Kolkata', 19.08, 72.88], ['Asia/Kolkata', 22.57, 88.36],
+  ['Asia/Kolkata', 13.08, 80.27], ['Asia/Kolkata', 12.97, 77.59], ['Asia/Kolkata', 23.02, 72.57],
+  ['Asia/Kathmandu', 27.72, 85.32], ['Asia/Thimphu', 27.47, 89.64], ['Asia/Dhaka', 23.81, 90.41],
+  ['Asia/Colombo', 6.93, 79.86], ['Indian/Maldives', 4.18, 73.51], ['Asia/Yangon', 16.87, 96.20],
+  ['Asia/Bangkok', 13.76, 100.50], ['Asia/Bangkok', 18.79, 98.98], ['Asia/Bangkok', 21.03, 105.85],
+  ['Asia/Bangkok', 11.56, 104.93], ['Asia/Bangkok', 17.97, 102.63], ['Asia/Ho_Chi_Minh', 10.82, 106.63],
+  ['Asia/Kuala_Lumpur', 3.14, 101.69], ['Asia/Kuching', 1.55, 110.36], ['Asia/Singapore', 1.35, 103.82],
+  ['Asia/Jakarta', -6.20, 106.85], ['Asia/Jakarta', -7.25, 112.75], ['Asia/Jakarta', 3.59, 98.67],
+  ['Asia/Pontianak', -0.03, 109.34], ['Asia/Makassar', -5.15, 119.43], ['Asia/Makassar', -8.65, 115.22],
+  ['Asia/Jayapura', -2.53, 140.72], ['Asia/Dili', -8.56, 125.58], ['Asia/Manila', 14.60, 120.98],
+  ['Asia/Manila', 7.07, 125.61], ['Asia/Brunei', 4.90, 114.94],
+  ['Asia/Shanghai', 31.23, 121.47], ['Asia/Shanghai', 39.90, 116.40], ['Asia/Shanghai', 30.57, 104.07],
+  ['Asia/Shanghai', 23.13, 113.26], ['Asia/Shanghai', 34.34, 108.94], ['Asia/Shanghai', 45.80, 126.53],
+  ['Asia/Shanghai', 29.65, 91.17], ['Asia/Urumqi', 43.83, 87.62], ['Asia/Hong_Kong', 22.32, 114.17],
+  ['Asia/Macau', 22.20, 113.54], ['Asia/Taipei', 25.03, 121.57], ['Asia/Seoul', 37.57, 126.98],
+  ['Asia/Seoul', 35.18, 129.08], ['Asia/Pyongyang', 39.04, 125.76], ['Asia/Tokyo', 35.68, 139.69],
+  ['Asia/Tokyo', 34.69, 135.50], ['Asia/Tokyo', 43.06, 141.35], ['Asia/Tokyo', 33.59, 130.40],
+  ['Asia/Tokyo', 26.21, 127.68], ['Asia/Ulaanbaatar', 47.89, 106.91], ['Asia/Hovd', 48.01, 91.64],
+  // Middle East
+  ['Asia/Jerusalem', 31.77, 35.21], ['Asia/Jerusalem', 32.08, 34.78], ['Asia/Gaza', 31.50, 34.47],
+  ['Asia/Hebron', 31.53, 35.10], ['Asia/Beirut', 33.89, 35.50], ['Asia/Damascus', 33.51, 36.29],
+  ['Asia/Damascus', 36.20, 37.13], ['Asia/Amman', 31.95, 35.93], ['Asia/Baghdad', 33.31, 44.36],
+  ['Asia/Baghdad', 36.19, 44.01], ['Asia/Baghdad', 30.51, 47.78], ['Asia/Riyadh', 24.71, 46.68],
+  ['Asia/Riyadh', 21.49, 39.19], ['Asia/Riyadh', 26.43, 50.10], ['Asia/Kuwait', 29.38, 47.99],
+  ['Asia/Bahrain', 26.23, 50.59], ['Asia/Qatar', 25.29, 51.53], ['Asia/Dubai', 25.20, 55.27],
+  ['Asia/Dubai', 24.45, 54.38], ['Asia/Muscat', 23.59, 58.41], ['Asia/Aden', 12.79, 45.03],
+  ['Asia/Aden', 15.37, 44.19],
+  // Africa
+  ['Africa/Cairo', 30.04, 31.24], ['Africa/Cairo', 31.20, 29.92], ['Africa/Cairo', 25.69, 32.64],
+  ['Africa/Tripoli', 32.89, 13.19], ['Africa/Tripoli', 32.12, 20.09], ['Africa/Tunis', 36.81, 10.18],
+  ['Africa/Algiers', 36.75, 3.06], ['Africa/Algiers', 35.70, -0.63], ['Africa/Algiers', 22.79, 5.53],
+  ['Africa/Casablanca', 33.57, -7.59], ['Africa/Casablanca', 31.63, -8.01], ['Africa/Casablanca', 35.76, -5.83],
+  ['Africa/El_Aaiun', 27.15, -13.20], ['Africa/Nouakchott', 18.08, -15.98], ['Africa/Dakar', 14.72, -17.47],
+  ['Africa/Banjul', 13.45, -16.58], ['Africa/Bissau', 11.86, -15.60], ['Africa/Conakry', 9.64, -13.58],
+  ['Africa/Freetown', 8.47, -13.23], ['Africa/Monrovia', 6.30, -10.80], ['Africa/Abidjan', 5.36, -4.01],
+  ['Africa/Bamako', 12.64, -8.00], ['Africa/Ouagadougou', 12.37, -1.52], ['Africa/Accra', 5.60, -0.19],
+  ['Africa/Lome', 6.13, 1.22], ['Africa/Porto-Novo', 6.50, 2.60], ['Africa/Niamey', 13.51, 2.13],
+  ['Africa/Lagos', 6.52, 3.38], ['Africa/Lagos', 9.08, 7.40], ['Africa/Lagos', 12.00, 8.52],
+  ['Africa/Douala', 4.05, 9.77], ['Africa/Ndjamena', 12.13, 15.06], ['Africa/Bangui', 4.39, 18.56],
+  ['Africa/Libreville', 0.42, 9.47], ['Africa/Brazzaville', -4.26, 15.24], ['Africa/Kinshasa', -4.44, 15.27],
+  ['Africa/Lubumbashi', -11.66, 27.48], ['Africa/Lubumbashi', 0.52, 25.19], ['Africa/Luanda', -8.84, 13.23],
+  ['Africa/Khartoum', 15.50, 32.56], ['Africa/Juba', 4.85, 31.58], ['Africa/Asmara', 15.32, 38.93],
+  ['Africa/Djibouti', 11.59, 43.15], ['Africa/Addis_Ababa', 9.03, 38.74], ['Africa/Mogadishu', 2.05, 45.32],
+  ['Africa/Nairobi', -1.29, 36.82], ['Africa/Kampala', 0.35, 32.58], ['Africa/Kigali', -1.95, 30.06],
+  ['Africa/Bujumbura', -3.38, 29.36], ['Africa/Dar_es_Salaam', -6.79, 39.21], ['Africa/Lusaka', -15.39, 28.32],
+  ['Africa/Blantyre', -15.79, 35.01], ['Africa/Harare', -17.83, 31.05], ['Africa/Maputo', -25.97, 32.57],
+  ['Africa/Maputo', -19.84, 34.84], ['Africa/Gaborone', -24.63, 25.92], ['Africa/Windhoek', -22.56, 17.08],
+  ['Africa/Johannesburg', -26.20, 28.05], ['Africa/Johannesburg', -33.92, 18.42], ['Africa/Johannesburg', -29.86, 31.02],
+  ['Africa/Maseru', -29.31, 27.48], ['Africa/Mbabane', -26.31, 31.14], ['Indian/Antananarivo', -18.88, 47.51],
+  ['Indian/Mauritius', -20.16, 57.50], ['Indian/Reunion', -20.88, 55.45], ['Atlantic/Cape_Verde', 14.93, -23.51],
+  // North America
+  ['America/New_York', 40.71, -74.01], ['America/New_York', 42.36, -71.06], ['America/New_York', 38.90, -77.04],
+  ['America/New_York', 39.95, -75.17], ['America/New_York', 33.75, -84.39], ['America/New_York', 25.76, -80.19],
+  ['America/New_York', 35.23, -80.84], ['America/New_York', 41.50, -81.69], ['America/New_York', 28.54, -81.38],
+  ['America/Detroit', 42.33, -83.05], ['America/Indiana/Indianapolis', 39.77, -86.16],
+  ['America/Kentucky/Louisville', 38.25, -85.76], ['America/Chicago', 41.88, -87.63],
+  ['America/Chicago', 29.76, -95.37], ['America/Chicago', 32.78, -96.80], ['America/Chicago', 29.95, -90.07],
+  ['America/Chicago', 44.98, -93.27], ['America/Chicago', 39.10, -94.58], ['America/Chicago', 36.16, -86.78],
+  ['America/Chicago', 38.63, -90.20], ['America/Chicago', 30.27, -97.74], ['America/Chicago', 35.47, -97.52],
+  // Both sides of the Eastern/Central and Central/Mountain lines, where the
+  // nearest large city often keeps the other zone
+  ['America/Chicago', 37.97, -87.57], ['America/Chicago', 41.59, -87.35], ['America/Chicago', 43.04, -87.91],
+  ['America/Chicago', 44.51, -88.01], ['America/Chicago', 36.99, -86.44], ['America/Chicago', 34.73, -86.59],
+  ['America/Chicago', 32.38, -86.30], ['America/Chicago', 30.42, -87.22], ['America/Chicago', 30.16, -85.66],
+  ['America/New_York', 35.96, -83.92], ['America/New_York', 35.05, -85.31], ['America/New_York', 38.04, -84.50],
+  ['America/New_York', 30.44, -84.28], ['America/New_York', 32.46, -84.99], ['America/New_York', 31.58, -84.16],
+  ['America/Indiana/Indianapolis', 41.08, -85.14], ['America/Indiana/Indianapolis', 39.17, -86.53],
+  ['America/Indiana/Indianapolis', 41.68, -86.25], ['America/Detroit', 42.96, -85.67], ['America/Detroit', 46.55, -87.40],
+  ['America/Chicago', 35.22, -101.83], ['America/Chicago', 33.58, -101.86], ['America/Chicago', 32.00, -102.08],
+  ['America/Chicago', 37.97, -100.87], ['America/Chicago', 41.12, -100.77], ['America/Chicago', 44.37, -100.35],
+  ['America/Chicago', 43.55, -96.73], ['America/Chicago', 46.81, -100.78], ['America/Chicago', 46.88, -96.79],
+  ['America/Denver', 31.76, -106.49], ['America/Denver', 39.35, -101.71], ['America/Denver', 41.87, -103.66],
+  ['America/Denver', 44.08, -103.23], ['America/Denver', 46.88, -102.79], ['America/Denver', 41.14, -104.82],
+  ['America/Denver', 38.83, -104.82],
+  ['America/Denver', 39.74, -104.99], ['America/Denver', 40.76, -111.89], ['America/Denver', 35.08, -106.65],
+  ['America/Denver', 45.78, -108.50], ['America/Boise', 43.62, -116.20], ['America/Phoenix', 33.45, -112.07],
+  ['America/Phoenix', 32.22, -110.97], ['America/Los_Angeles', 34.05, -118.24],
+  ['America/Los_Angeles', 37.77, -122.42], ['America/Los_Angeles', 47.61, -122.33],
+  ['America/Los_Angeles', 45.52, -122.68], ['America/Los_Angeles', 36.17, -115.14],
+  ['America/Los_Angeles', 32.72, -117.16], ['America/Anchorage', 61.22, -149.90],
+  ['America/Juneau', 58.30, -134.42], ['Pacific/Honolulu', 21.31, -157.86],
+  ['America/Toronto', 43.65, -79.38], ['America/Toronto', 45.50, -73.57], ['America/Toronto', 45.42, -75.70],
+  ['America/Toronto', 46.81, -71.21], ['America/Halifax', 44.65, -63.57], ['America/Moncton', 46.09, -64.78],
+  ['America/St_Johns', 47.56, -52.71], ['America/Winnipeg', 49.90, -97.14], ['America/Regina', 50.45, -104.62],
+  ['America/Edmonton', 53.55, -113.49], ['America/Edmonton', 51.05, -114.07], ['America/Vancouver', 49.28, -123.12],
+  ['America/Whitehorse', 60.72, -135.06], ['America/Yellowknife', 62.45, -114.37], ['America/Iqaluit', 63.75, -68.52],
+  ['America/Nuuk', 64.18, -51.72], ['Atlantic/Bermuda', 32.29, -64.78],
+  ['America/Mexico_City', 19.43, -99.13], ['America/Mexico_City', 20.66, -103.35], ['America/Mexico_City', 19.04, -98.21],
+  ['America/Monterrey', 25.69, -100.32], ['America/Merida', 20.97, -89.62], ['America/Cancun', 21.16, -86.85],
+  ['America/Tijuana', 32.51, -117.04], ['America/Hermosillo', 29.07, -110.96], ['America/Mazatlan', 23.25, -106.41],
+  ['America/Chihuahua', 28.63, -106.07], ['America/Ciudad_Juarez', 31.69, -106.42],
+  // Central America, Caribbean and South America
+  ['America/Guatemala', 14.63, -90.51], ['America/Belize', 17.50, -88.20], ['America/El_Salvador', 13.69, -89.22],
+  ['America/Tegucigalpa', 14.07, -87.19], ['America/Managua', 12.11, -86.24], ['America/Costa_Rica', 9.93, -84.08],
+  ['America/Panama', 8.98, -79.52], ['America/Havana', 23.11, -82.37], ['America/Havana', 20.02, -75.82],
+  ['America/Jamaica', 18.00, -76.79], ['America/Port-au-Prince', 18.54, -72.34],
+  ['America/Santo_Domingo', 18.49, -69.93], ['America/Puerto_Rico', 18.47, -66.11],
+  ['America/Nassau', 25.05, -77.36], ['America/Barbados', 13.10, -59.61], ['America/Port_of_Spain', 10.65, -61.51],
+  ['America/Martinique', 14.62, -61.06], ['America/Curacao', 12.11, -68.93],
+  ['America/Bogota', 4.71, -74.07], ['America/Bogota', 6.24, -75.58], ['America/Bogota', 10.96, -74.80],
+  ['America/Caracas', 10.48, -66.90], ['America/Caracas', 10.65, -71.61], ['America/Guyana', 6.80, -58.16],
+  ['America/Paramaribo', 5.85, -55.20], ['America/Cayenne', 4.92, -52.31], ['America/Guayaquil', -2.17, -79.92],
+  ['America/Guayaquil', -0.18, -78.47], ['Pacific/Galapagos', -0.74, -90.31], ['America/Lima', -12.05, -77.04],
+  ['America/Lima', -16.41, -71.54], ['America/Lima', -3.75, -73.25], ['America/La_Paz', -16.50, -68.15],
+  ['America/La_Paz', -17.78, -63.18], ['America/Sao_Paulo', -23.55, -46.63], ['America/Sao_Paulo', -22.91, -43.17],
+  ['America/Sao_Paulo', -15.79, -47.88], ['America/Sao_Paulo', -19.92, -43.94], ['America/Sao_Paulo', -25.43, -49.27],
+  ['America/Sao_Paulo', -30.03, -51.23], ['America/Bahia', -12.97, -38.50], ['America/Recife', -8.05, -34.88],
+  ['America/Fortaleza', -3.73, -38.52], ['America/Belem', -1.46, -48.50], ['America/Manaus', -3.12, -60.02],
+  ['America/Cuiaba', -15.60, -56.10], ['America/Campo_Grande', -20.47, -54.62], ['America/Porto_Velho', -8.76, -63.90],
+  ['America/Rio_Branco', -9.97, -67.81], ['America/Noronha', -3.85, -32.42], ['America/Asuncion', -25.26, -57.58],
+  ['America/Montevideo', -34.90, -56.16], ['America/Argentina/Buenos_Aires', -34.60, -58.38],
+  ['America/Argentina/Cordoba', -31.42, -64.18], ['America/Argentina/Mendoza', -32.89, -68.83],
+  ['America/Argentina/Salta', -24.79, -65.41], ['America/Argentina/Ushuaia', -54.80, -68.30],
+  ['America/Argentina/Rio_Gallegos', -51.62, -69.22], ['America/Santiago', -33.45, -70.67],
+  ['America/Santiago', -23.65, -70.40], ['America/Santiago', -41.47, -72.94], ['America/Punta_Arenas', -53.16, -70.91],
+  ['Pacific/Easter', -27.15, -109.43], ['Atlantic/Stanley', -51.70, -57.85],
+  // Oceania
+  ['Australia/Sydney', -33.87, 151.21], ['Australia/Sydney', -35.28, 149.13], ['Australia/Melbourne', -37.81, 144.96],
+  ['Australia/Brisbane', -27.47, 153.03], ['Australia/Brisbane', -19.26, 146.82], ['Australia/Adelaide', -34.93, 138.60],
+  ['Australia/Broken_Hill', -31.95, 141.47], ['Australia/Perth', -31.95, 115.86], ['Australia/Darwin', -12.46, 130.84],
+  ['Australia/Darwin', -23.70, 133.88], ['Australia/Hobart', -42.88, 147.33], ['Australia/Lord_Howe', -31.55, 159.08],
+  ['Pacific/Auckland', -36.85, 174.76], ['Pacific/Auckland', -41.29, 174.78], ['Pacific/Auckland', -43.53, 172.64],
+  ['Pacific/Chatham', -43.95, -176.56], ['Pacific/Fiji', -18.14, 178.44], ['Pacific/Port_Moresby', -9.44, 147.18],
+  ['Pacific/Guadalcanal', -9.43, 159.95], ['Pacific/Noumea', -22.27, 166.46], ['Pacific/Efate', -17.73, 168.32],
+  ['Pacific/Guam', 13.44, 144.79], ['Pacific/Palau', 7.34, 134.48], ['Pacific/Majuro', 7.09, 171.38],
+  ['Pacific/Tarawa', 1.33, 172.98], ['Pacific/Apia', -13.83, -171.76], ['Pacific/Tongatapu', -21.14, -175.20],
+  ['Pacific/Tahiti', -17.53, -149.57], ['Pacific/Pago_Pago', -14.28, -170.70], ['Pacific/Kiritimati', 1.87, -157.43],
+];
+
+// Beyond this distance from every reference place a position is taken
+// to be at sea and given the nautical zone of its longitude
+const MAX_ZONE_DISTANCE_KM = 1500;
+const EARTH_RADIUS_KM = 6371;
+const MINUTE_MS = 60000;
+const DAY_MS = 86400000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      era: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * toRad;
+  const dLon = (lon2 - lon1) * toRad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Milliseconds since the epoch of a wall time read as UTC, for any year */
+function wallTimeToMs(wall: WallTime, second: number = 0): number {
+  const date = new Date(Date.UTC(2000, wall.month - 1, wall.day, wall.hour, wall.minute, second));
+  date.setUTCFullYear(wall.year);
+  return date.getTime();
+}
+
+/**
+ * Whether the platform's time zone database knows an IANA zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA zone of a position from the nearest reference place, or the
+ * nautical zone of its longitude out at sea
+ */
+export function resolveTimeZone(latitude: number, longitude: number): string {
+  let best = ZONE_PLACES[0];
+  let bestDistance = Infinity;
+  for (const place of ZONE_PLACES) {
+    const distance = distanceKm(latitude, longitude, place[1], place[2]);
+    if (distance < bestDistance) {
+      best = place;
+      bestDistance = distance;
+    }
+  }
+  if (bestDistance <= MAX_ZONE_DISTANCE_KM) return best[0];
+  const hours = Math.round(longitude / 15);
+  // Etc zones carry POSIX signs: Etc/GMT-9 is nine hours east of Greenwich
+  return hours === 0 ? 'Etc/GMT' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+}
+
+function readZone(date: Date, timeZone: string): { wall: WallTime; second: number } {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) parts[part.type] = part.value;
+  const year = parseInt(parts.year, 10);
+  return {
+    wall: {
+      year: parts.era === 'BC' || parts.era === 'B' ? 1 - year : year,
+      month: parseInt(parts.month, 10),
+      day: parseInt(parts.day, 10),
+      hour: parseInt(parts.hour, 10) % 24,
+      minute: parseInt(parts.minute, 10),
+    },
+    second: parseInt(parts.second, 10),
+  };
+}
+
+/**
+ * Wall time in a zone at a moment
+ */
+export function getWallTime(date: Date, timeZone: string): WallTime {
+  return readZone(date, timeZone).wall;
+}
+
+/**
+ * Offset of a zone from UTC in minutes at a moment, including DST and,
+ * before standard time was adopted, the local mean time of the zone's city
+ */
+export function getZoneOffset(date: Date, timeZone: string): number {
+  const { wall, second } = readZone(date, timeZone);
+  const utcMs = Math.floor(date.getTime() / 1000) * 1000;
+  return (wallTimeToMs(wall, second) - utcMs) / MINUTE_MS;
+}
+
+/**
+ * Moment at which clocks in a zone showed a wall time. A time repeated
+ * when clocks go back resolves to its first occurrence; a time skipped
+ * when clocks go forward is read with the offset in force before the change
+ */
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): Date {
+  const wallMs = wallTimeToMs(wall);
+  const before = getZoneOffset(new Date(wallMs - DAY_MS), timeZone);
+  const after = getZoneOffset(new Date(wallMs + DAY_MS), timeZone);
+  const candidates = [before, after]
+    .map(offset => wallMs - offset * MINUTE_MS)
+    .filter(ms => {
+      const wallAt = getWallTime(new Date(ms), timeZone);
+      return wallTimeToMs(wallAt) === wallMs;
+    });
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : wallMs - before * MINUTE_MS);
+}
+
+/**
+ * Parse 'YYYY-MM-DD' and 'HH:MM' into a wall time; null if malformed.
+ * A missing time reads as noon
+ */
+export function parseWallTime(dateText: string, timeText: string = ''): WallTime | null {
+  const dateMatch = /^(-?\d{1,4})-(\d{1,2})-(\d{1,2})$/.exec(dateText.trim());
+  if (!dateMatch) return null;
+  const timeMatch = /^(\d{1,2}):(\d{1,2})$/.exec(timeText.trim());
+  if (timeText.trim() !== '' && !timeMatch) return null;
+  const wall: WallTime = {
+    year: parseInt(dateMatch[1], 10),
+    month: parseInt(dateMatch[2], 10),
+    day: parseInt(dateMatch[3], 10),
+    hour: timeMatch ? parseInt(timeMatch[1], 10) : 12,
+    minute: timeMatch ? parseInt(timeMatch[2], 10) : 0,
+  };
+  // Reject out-of-range fields, which Date.UTC would silently roll over
+  const check = new Date(wallTimeToMs(wall));
+  if (check.getUTCMonth() !== wall.month - 1 || check.getUTCDate() !== wall.day || wall.hour > 23 || wall.minute > 59) {
+    return null;
+  }
+  return wall;
+}
+
+/**
+ * 'YYYY-MM-DD' and 'HH:MM' of a wall time
+ */
+export function formatWallTime(wall: WallTime): { date: string; time: string } {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return {
+    date: `${wall.year.toString().padStart(4, '0')}-${pad(wall.month)}-${pad(wall.day)}`,
+    time: `${pad(wall.hour)}:${pad(wall.minute)}`,
+  };
+}
+
+/**
+ * Label such as 'UTC+09:00' or, for local mean time, 'UTC+00:53'
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '−' : '+';
+  const abs = Math.round(Math.abs(offsetMinutes));
+  return `UTC${sign}${Math.floor(abs / 60).toString().padStart(2, '0')}:${(abs % 60).toString().padStart(2, '0')}`;
+}
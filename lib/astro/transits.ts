@@ -0,0 +1,283 @@
+// ============================================================
+// ÆONIS – Transit Timeline
+// Searches transit-to-natal aspects over a date range:
+// orb entry/exit, exact hits (incl. retrograde passes) and pass count
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import { ChartData, Planet, PLANET_SYMBOLS } from './types';
+import { getChartObserver, getPlanetLongitude } from './engine';
+import { calculateAyanamsa, toSidereal } from './ayanamsa';
+import {
+  AspectBody, PtolemaicAspectType, getAspectBodyName, getAspectBodySymbol, getAspectSymbol,
+} from './aspects';
+import type { AstroEvent } from './events';
+
+export interface TransitHit {
+  date: Date;
+  isRetrograde: boolean;    // transiting planet retrograde at the exact hit
+}
+
+export interface TransitPeriod {
+  id: string;
+  transitPlanet: Planet;
+  natalPoint: AspectBody;
+  aspect: PtolemaicAspectType;
+  exactAngle: number;
+  symbol: string;
+  entry: Date | null;       // null when already in orb at the start of the range
+  exit: Date | null;        // null when still in orb at the end of the range
+  hits: TransitHit[];       // exact passes in date order
+  passCount: number;
+}
+
+export interface TransitSearchOptions {
+  transitPlanets?: Planet[];
+  natalPoints?: AspectBody[];
+  aspects?: PtolemaicAspectType[];
+  orb?: number;
+}
+
+export const DEFAULT_TRANSIT_PLANETS: Planet[] = ['Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto'];
+
+export const DEFAULT_NATAL_POINTS: AspectBody[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'ASC', 'MC',
+];
+
+const TRANSIT_ASPECTS: { type: PtolemaicAspectType; angle: number }[] = [
+  { type: 'Conjunction', angle: 0 },
+  { type: 'Sextile', angle: 60 },
+  { type: 'Square', angle: 90 },
+  { type: 'Trine', angle: 120 },
+  { type: 'Opposition', angle: 180 },
+];
+
+const DEFAULT_TRANSIT_ORB = 1;
+const DAY_MS = 86400000;
+const MINUTE_IN_DAYS = 1 / 1440;
+
+// Once the transit is this far from exact, a later return starts a new cycle
+// (wider than the retrograde loops of Mars and the outer planets)
+const CYCLE_RESET_ARC = 20;
+
+// Sampling step in days; the planet must move less than the orb per step
+const SAMPLE_STEP_DAYS: Partial<Record<Planet, number>> = {
+  Moon: 1 / 24, Mercury: 0.5, Venus: 0.5, Sun: 1, Mars: 1,
+};
+const DEFAULT_SAMPLE_STEP = 2;
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+function getNatalLongitude(chart: ChartData, point: AspectBody): number | null {
+  if (point === 'ASC') return chart.angles.ascendant;
+  if (point === 'MC') return chart.angles.midheaven;
+  if (point === 'DSC') return chart.angles.descendant;
+  if (point === 'IC') return chart.angles.imumCoeli;
+  if (point.startsWith('Lot:')) return chart.lots.find(l => `Lot:${l.id}` === point)?.longitude ?? null;
+  return chart.planets.find(p => p.planet === point)?.longitude ?? null;
+}
+
+/**
+ * Transiting longitude in the natal chart's zodiac (sidereal charts use
+ * the ayanamsa of the transit date), seen from the birthplace when the
+ * natal positions are topocentric
+ */
+function makeTransitLongitude(chart: ChartData, planet: Planet): (date: Date) => number {
+  const topocentric = getChartObserver(chart);
+  return (date: Date) => {
+    const tropical = getPlanetLongitude(planet, date, topocentric) ?? 0;
+    if (!chart.ayanamsa) return tropical;
+    const julianDay = Astronomy.MakeTime(date).ut + 2451545.0;
+    return toSidereal(tropical, calculateAyanamsa(julianDay, chart.ayanamsa.system));
+  };
+}
+
+/**
+ * Bisect [lo, hi] (days from start) for the point where g changes sign
+ */
+function bisect(g: (t: number) => number, lo: number, hi: number): number {
+  const signLo = Math.sign(g(lo));
+  while (hi - lo > MINUTE_IN_DAYS) {
+    const mid = (lo + hi) / 2;
+    if (Math.sign(g(mid)) === signLo) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Search all transit-to-natal aspects between two dates. Every period
+ * covers one transit cycle: a direct pass, or a triple pass when the
+ * transiting planet stations within reach of the natal point.
+ */
+export function searchTransits(
+  natalChart: ChartData,
+  startDate: Date,
+  endDate: Date,
+  options: TransitSearchOptions = {},
+): TransitPeriod[] {
+  const {
+    transitPlanets = DEFAULT_TRANSIT_PLANETS,
+    natalPoints = DEFAULT_NATAL_POINTS,
+    aspects = TRANSIT_ASPECTS.map(a => a.type),
+    orb = DEFAULT_TRANSIT_ORB,
+  } = options;
+
+  const start = startDate.getTime();
+  const spanDays = (endDate.getTime() - start) / DAY_MS;
+  if (spanDays <= 0) return [];
+  const toDate = (t: number) => new Date(start + t * DAY_MS);
+
+  const natal = natalPoints
+    .map(point => ({ point, longitude: getNatalLongitude(natalChart, point) }))
+    .filter((n): n is { point: AspectBody; longitude: number } => n.longitude !== null);
+  const targets = TRANSIT_ASPECTS
+    .filter(a => aspects.includes(a.type))
+    .flatMap(a => (a.angle === 0 || a.angle === 180 ? [{ ...a, target: a.angle }] : [
+      { ...a, target: a.angle },
+      { ...a, target: -a.angle },
+    ]));
+
+  const periods: TransitPeriod[] = [];
+
+  for (const planet of transitPlanets) {
+    const lonAt = makeTransitLongitude(natalChart, planet);
+    const transitLon = (t: number) => lonAt(toDate(t));
+    const step = SAMPLE_STEP_DAYS[planet] ?? DEFAULT_SAMPLE_STEP;
+
+    // Sample the transiting planet once for all natal points and aspects
+    const times: number[] = [];
+    for (let t = 0; t < spanDays; t += step) times.push(t);
+    times.push(spanDays);
+    const lons = times.map(transitLon);
+
+    for (const { point, longitude } of natal) {
+      for (const { type, angle, target } of targets) {
+        // Signed distance from exact: zero at the hit
+        const f = (t: number) => wrap180(transitLon(t) - longitude - target);
+        const fAt = (i: number) => wrap180(lons[i] - longitude - target);
+        const g = (t: number) => Math.abs(f(t)) - orb;
+
+        let cycle: { entry: Date | null; exit: Date | null; hits: TransitHit[] } | null = null;
+        const close = () => {
+          if (!cycle) return;
+          const first = cycle.entry ?? cycle.hits[0]?.date ?? startDate;
+          periods.push({
+            id: `transit_${planet}_${type}_${point}_${first.getTime()}`,
+            transitPlanet: planet,
+            natalPoint: point,
+            aspect: type,
+            exactAngle: angle,
+            symbol: getAspectSymbol(type),
+            entry: cycle.entry,
+            exit: cycle.exit,
+            hits: cycle.hits,
+            passCount: cycle.hits.length,
+          });
+          cycle = null;
+        };
+
+        let inOrb = Math.abs(fAt(0)) <= orb;
+        if (inOrb) cycle = { entry: null, exit: null, hits: [] };
+
+        for (let i = 1; i < times.length; i++) {
+          const a = times[i - 1];
+          const b = times[i];
+          const fa = fAt(i - 1);
+          const fb = fAt(i);
+          const crosses = Math.sign(fa) !== Math.sign(fb) && Math.abs(fa - fb) < 90;
+
+          if (crosses) {
+            const root = bisect(f, a, b);
+            if (!inOrb) {
+              const entry = bisect(g, a, root);
+              if (!cycle) cycle = { entry: toDate(entry), exit: null, hits: [] };
+              inOrb = true;
+            }
+            const rate = transitLon(root + 0.01) - transitLon(root - 0.01);
+            cycle!.hits.push({ date: toDate(root), isRetrograde: wrap180(rate) < 0 });
+            cycle!.exit = null;
+            if (Math.abs(fb) > orb) {
+              cycle!.exit = toDate(bisect(g, root, b));
+              inOrb = false;
+            }
+          } else if (!inOrb && Math.abs(fb) <= orb) {
+            const entry = toDate(bisect(g, a, b));
+            if (!cycle) cycle = { entry, exit: null, hits: [] };
+            else cycle.exit = null;
+            inOrb = true;
+          } else if (inOrb && Math.abs(fb) > orb) {
+            cycle!.exit = toDate(bisect(g, a, b));
+            inOrb = false;
+          }
+
+          if (cycle && !inOrb && Math.abs(fb) > CYCLE_RESET_ARC) close();
+        }
+
+        // A cycle that only grazed the orb without perfecting still counts;
+        // at the end of the range it stays open (exit null while in orb)
+        close();
+      }
+    }
+  }
+
+  const firstDate = (p: TransitPeriod) => (p.entry ?? p.hits[0]?.date ?? startDate).getTime();
+  return periods.sort((a, b) => firstDate(a) - firstDate(b));
+}
+
+/**
+ * Transit periods as Event Horizon events: one per exact hit plus orb
+ * entry and exit
+ */
+export function transitsToEvents(periods: TransitPeriod[], natalChart?: ChartData): AstroEvent[] {
+  const events: AstroEvent[] = [];
+  const lots = natalChart?.lots ?? [];
+
+  for (const period of periods) {
+    const { transitPlanet: planet, natalPoint, aspect } = period;
+    const natalName = getAspectBodyName(natalPoint, lots);
+    const label = `${PLANET_SYMBOLS[planet]} ${period.symbol} ${getAspectBodySymbol(natalPoint)} ${planet} ${aspect} natal ${natalName}`;
+    const shared = {
+      planet,
+      planet2: natalPoint in PLANET_SYMBOLS ? (natalPoint as Planet) : undefined,
+      natalPoint,
+      aspect,
+    };
+
+    if (period.entry) {
+      events.push({
+        ...shared,
+        id: `${period.id}_enter`,
+        type: 'transit_enter',
+        title: label,
+        description: `Transiting ${planet} comes within orb of its ${aspect.toLowerCase()} to natal ${natalName}.`,
+        date: period.entry,
+      });
+    }
+    period.hits.forEach((hit, i) => {
+      events.push({
+        ...shared,
+        id: `${period.id}_exact_${i}`,
+        type: 'transit_exact',
+        title: label,
+        description: `Exact ${aspect.toLowerCase()} of transiting ${planet} to natal ${natalName}`
+          + ` (pass ${i + 1} of ${period.passCount}${hit.isRetrograde ? ', retrograde' : ''}).`,
+        date: hit.date,
+      });
+    });
+    if (period.exit) {
+      events.push({
+        ...shared,
+        id: `${period.id}_exit`,
+        type: 'transit_exit',
+        title: label,
+        description: `Transiting ${planet} leaves the orb of its ${aspect.toLowerCase()} to natal ${natalName}.`,
+        date: period.exit,
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
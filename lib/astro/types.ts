@@ -10,10 +10,30 @@ export type ZodiacSign =
 export type Planet =
   | 'Sun' | 'Moon' | 'Mercury' | 'Venus' | 'Mars'
   | 'Jupiter' | 'Saturn' | 'Uranus' | 'Neptune' | 'Pluto'
-  | 'NorthNode' | 'SouthNode' | 'Lilith';
+  | 'NorthNode' | 'SouthNode' | 'Lilith'
+  | Asteroid;
+
+// Optional bodies, only in charts calculated with asteroids
+export type Asteroid = 'Chiron' | 'Ceres' | 'Pallas' | 'Juno' | 'Vesta';
 
 export type Sect = 'Day' | 'Night';
 
+export type LunarPointMode = 'Mean' | 'True';
+
+export type ZodiacMode = 'Tropical' | 'Sidereal';
+
+export type VoidOfCourseMode = 'Traditional' | 'Modern';   // Modern also counts Uranus, Neptune, Pluto
+
+export type PlanetaryHourSystem = 'Seasonal' | 'Equal';    // unequal hours from sunrise/sunset, or 24 equal hours from sunrise
+
+export type PolarHourMethod = 'EqualHours' | 'NearestLatitude';   // when the Sun doesn't rise or set
+
+export type PositionMode = 'Geocentric' | 'Topocentric';   // from the Earth's centre, or from the observer's place on its surface
+
+export type Ayanamsa = 'Lahiri' | 'FaganBradley' | 'Krishnamurti' | 'GalacticCenter';
+
+export type HouseSystem = 'Placidus' | 'WholeSign' | 'Regiomontanus' | 'Porphyry' | 'Equal';
+
 export type DignityType =
   | 'Domicile' | 'Exaltation' | 'Triplicity'
   | 'Term' | 'Face' | 'Detriment' | 'Fall' | 'Peregrine';
@@ -28,9 +48,12 @@ export interface PlanetPosition {
   signSecond: number;       // second within minute
   isRetrograde: boolean;
   speed: number;            // daily speed in degrees
+  declination?: number;     // equatorial declination (-90 to +90)
+  declinationSpeed?: number; // daily change in declination
   // Horizontal coordinates (for compass)
   azimuth?: number;         // 0-360
   altitude?: number;        // -90 to +90
+  house?: number;           // 1-12 in the chart's house system
 }
 
 export interface EssentialDignity {
@@ -52,6 +75,32 @@ export interface PlanetCondition {
   isUnderBeams: boolean;    // within 17° of Sun
 }
 
+export type HouseStrength = 'Angular' | 'Succedent' | 'Cadent';
+
+export type MotionSpeed = 'Swift' | 'Average' | 'Slow' | 'Stationary';
+
+export interface DignityFactor {
+  label: string;            // e.g. "Angular (10th house)"
+  score: number;
+}
+
+export interface AccidentalDignity {
+  house: number | null;
+  houseStrength: HouseStrength | null;
+  motion: MotionSpeed;
+  speedRatio: number;       // |speed| / mean daily motion
+  isOriental: boolean | null;   // rises before the Sun (null for Sun & Moon)
+  isIncreasingInLight: boolean | null; // Moon only
+  isInSect: boolean;
+  isInHayz: boolean;
+  isInJoy: boolean;
+  besiegement: 'Malefic' | 'Benefic' | null;
+  beneficAspects: Planet[]; // close aspects (≤3°) from Jupiter/Venus
+  maleficAspects: Planet[]; // close aspects (≤3°) from Saturn/Mars
+  factors: DignityFactor[];
+  score: number;            // sum of factor scores (Lilly's table)
+}
+
 export interface ArabicPart {
   name: string;
   longitude: number;
@@ -59,16 +108,87 @@ export interface ArabicPart {
   signDegree: number;
 }
 
+export type LotCategory = 'Hermetic' | 'Medieval' | 'Custom';
+
+export type LotAngle = 'ASC' | 'MC' | 'DSC' | 'IC';
+
+// Planet, chart angle, house cusp (H1-H12) or another lot (Lot:<id>)
+export type LotOperand = Planet | LotAngle | `H${number}` | `Lot:${string}`;
+
+export interface LotDefinition {
+  id: string;
+  name: string;
+  category: LotCategory;
+  // Day formula: base + plus − minus
+  base: LotOperand;
+  plus: LotOperand;
+  minus: LotOperand;
+  reverseAtNight: boolean;  // swap plus/minus in night charts
+  description?: string;
+}
+
+export interface LotPosition extends ArabicPart {
+  id: string;
+  category: LotCategory;
+  formula: string;          // formula actually applied, e.g. "ASC + Venus − Lot of Spirit"
+  isReversed: boolean;      // night reversal applied
+  ruler: Planet;            // domicile ruler of the lot's sign
+  rulerSign?: ZodiacSign;
+  rulerHouse?: number;
+}
+
+export interface ChartAngles {
+  ascendant: number;        // 0-360 ecliptic longitude
+  midheaven: number;
+  descendant: number;
+  imumCoeli: number;
+}
+
+export interface HouseData {
+  system: HouseSystem;          // system actually used for the cusps
+  requestedSystem: HouseSystem; // system selected by the user
+  isFallback: boolean;          // true if requested system failed (polar latitudes)
+  cusps: number[];              // 12 cusp longitudes, index 0 = 1st house
+}
+
+export interface AyanamsaInfo {
+  system: Ayanamsa;
+  value: number;            // degrees subtracted from tropical longitudes
+}
+
+export interface ChartOptions {
+  houseSystem?: HouseSystem;
+  lunarPointMode?: LunarPointMode;   // mean or true (osculating) Nodes & Lilith
+  zodiac?: ZodiacMode;
+  ayanamsa?: Ayanamsa;               // used when zodiac is Sidereal
+  customLots?: LotDefinition[];      // user-defined lots, computed after the built-in table
+  ramc?: number;                     // RAMC override in degrees (progressed angles)
+  voidOfCourseMode?: VoidOfCourseMode; // planets the Moon must aspect before leaving its sign
+  hourSystem?: PlanetaryHourSystem;
+  polarHourMethod?: PolarHourMethod;
+  positionMode?: PositionMode;       // Topocentric corrects for parallax at the location's altitude
+  asteroids?: boolean;               // add Chiron, Ceres, Pallas, Juno & Vesta
+}
+
 export interface ChartData {
   timestamp: Date;
   latitude: number;
   longitude: number;
+  altitude?: number;                  // metres above sea level, when the location gave one
   timezone: string;
   sect: Sect;
+  zodiac: ZodiacMode;
+  ayanamsa: AyanamsaInfo | null;      // null for tropical charts
+  lunarPointMode: LunarPointMode;
+  positionMode: PositionMode;
   planets: PlanetPosition[];
   dignities: Record<Planet, EssentialDignity>;
   conditions: Record<Planet, PlanetCondition>;
-  arabicParts: ArabicPart[];
+  accidentalDignities: Record<Planet, AccidentalDignity>;
+  arabicParts: ArabicPart[];         // Fortune & Spirit
+  lots: LotPosition[];               // full lot table incl. custom lots
+  angles: ChartAngles;
+  houses: HouseData;
   julianDay: number;
   localSiderealTime: number;
 }
@@ -76,6 +196,9 @@ export interface ChartData {
 export interface LocationInput {
   latitude: number;
   longitude: number;
+  timeZone?: string;        // IANA zone of the place; resolved from the coordinates when absent
+  timeZoneProvisional?: boolean; // zone is the offline guess, pending the boundary lookup
+  altitude?: number;        // metres above sea level (GPS); sea level when absent
 }
 
 export const ZODIAC_SIGNS: ZodiacSign[] = [
@@ -84,6 +207,20 @@ export const ZODIAC_SIGNS: ZodiacSign[] = [
   'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces',
 ];
 
+export const ASTEROIDS: Asteroid[] = ['Chiron', 'Ceres', 'Pallas', 'Juno', 'Vesta'];
+
+export const HOUSE_SYSTEMS: HouseSystem[] = [
+  'Placidus', 'WholeSign', 'Regiomontanus', 'Porphyry', 'Equal',
+];
+
+export const HOUSE_SYSTEM_LABELS: Record<HouseSystem, string> = {
+  Placidus: 'Placidus',
+  WholeSign: 'Whole Sign',
+  Regiomontanus: 'Regiomontanus',
+  Porphyry: 'Porphyry',
+  Equal: 'Equal',
+};
+
 export const ZODIAC_SYMBOLS: Record<ZodiacSign, string> = {
   Aries: '♈', Taurus: '♉', Gemini: '♊', Cancer: '♋',
   Leo: '♌', Virgo: '♍', Libra: '♎', Scorpio: '♏',
@@ -94,6 +231,7 @@ export const PLANET_SYMBOLS: Record<Planet, string> = {
   Sun: '☉', Moon: '☽', Mercury: '☿', Venus: '♀', Mars: '♂',
   Jupiter: '♃', Saturn: '♄', Uranus: '♅', Neptune: '♆', Pluto: '♇',
   NorthNode: '☊', SouthNode: '☋', Lilith: '⚸',
+  Chiron: '⚷', Ceres: '⚳', Pallas: '⚴', Juno: '⚵', Vesta: '⚶',
 };
 
 export const PLANET_COLORS: Record<Planet, string> = {
@@ -110,4 +248,9 @@ export const PLANET_COLORS: Record<Planet, string> = {
   NorthNode: '#D4AF37',
   SouthNode: '#6B6B6B',
   Lilith: '#4B0082',
+  Chiron: '#14B8A6',
+  Ceres: '#84CC16',
+  Pallas: '#60A5FA',
+  Juno: '#EC4899',
+  Vesta: '#F97316',
 };
@@ -0,0 +1,253 @@
+// ============================================================
+// ÆONIS – Void-of-Course Moon
+// Moon sign ingresses and the void period between the Moon's
+// last exact Ptolemaic aspect and its entry into the next sign
+// ============================================================
+
+import * as Astronomy from 'astronomy-engine';
+import { ChartOptions, LocationInput, Planet, VoidOfCourseMode, ZodiacSign, ZODIAC_SIGNS } from './types';
+import { getPlanetLongitude } from './engine';
+import { calculateAyanamsa } from './ayanamsa';
+import { PtolemaicAspectType } from './aspects';
+
+export interface MoonIngress {
+  date: Date;
+  from: ZodiacSign;
+  sign: ZodiacSign;         // sign the Moon enters
+}
+
+export interface LunarAspectPerfection {
+  date: Date;
+  planet: Planet;
+  type: PtolemaicAspectType;
+}
+
+export interface VoidOfCoursePeriod {
+  sign: ZodiacSign;         // sign the Moon is passing through
+  nextSign: ZodiacSign;
+  signEntry: Date;          // when the Moon entered the sign
+  start: Date;              // last exact aspect in the sign (sign entry when there is none)
+  end: Date;                // ingress into the next sign
+  lastAspect: LunarAspectPerfection | null;
+}
+
+export const VOID_OF_COURSE_PLANETS: Record<VoidOfCourseMode, Planet[]> = {
+  Traditional: ['Sun', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'],
+  Modern: ['Sun', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto'],
+};
+
+// Elongation of the Moon from the planet at which each aspect perfects
+const LUNAR_ASPECTS: { type: PtolemaicAspectType; angle: number }[] = [
+  { type: 'Conjunction', angle: 0 },
+  { type: 'Sextile', angle: 60 },
+  { type: 'Square', angle: 90 },
+  { type: 'Trine', angle: 120 },
+  { type: 'Opposition', angle: 180 },
+  { type: 'Trine', angle: 240 },
+  { type: 'Square', angle: 270 },
+  { type: 'Sextile', angle: 300 },
+];
+
+const DAY_MS = 86400000;
+const HOUR_MS = 3600000;
+const MOON_MEAN_SPEED = 13.176;   // degrees per day
+const PRECISION = 1e-5;           // degrees (~0.1 s of lunar motion)
+
+function wrap180(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Ayanamsa for sidereal charts. It drifts ~50" a year, so one value
+ * serves a whole search.
+ */
+function getZodiacOffset(date: Date, options: ChartOptions): number {
+  if (options.zodiac !== 'Sidereal') return 0;
+  return calculateAyanamsa(Astronomy.MakeTime(date).ut + 2451545.0, options.ayanamsa ?? 'Lahiri');
+}
+
+/**
+ * Observer of the Moon: the location in topocentric mode, the Earth's
+ * centre otherwise
+ */
+function getTopocentric(options: ChartOptions, location?: LocationInput): LocationInput | undefined {
+  return options.positionMode === 'Topocentric' ? location : undefined;
+}
+
+function moonLongitudeAt(t: number, zodiacOffset: number, topocentric?: LocationInput): number {
+  return normalizeDegrees(getPlanetLongitude('Moon', new Date(t), topocentric)! - zodiacOffset);
+}
+
+/**
+ * Newton iteration on an angular error. The Moon outruns every planet,
+ * so the rate stays positive and a guess within a few degrees converges.
+ */
+function refine(angleAt: (t: number) => number, target: number, guess: number): number {
+  let t = guess;
+  for (let i = 0; i < 30; i++) {
+    const error = wrap180(target - angleAt(t));
+    if (Math.abs(error) < PRECISION) break;
+    const rate = wrap180(angleAt(t + HOUR_MS) - angleAt(t - HOUR_MS)) * 12; // deg/day
+    t += (error / rate) * DAY_MS;
+  }
+  return t;
+}
+
+/**
+ * Moment the Moon reaches a zodiac longitude, starting from a time
+ * within a few days of it (the nearer crossing wins)
+ */
+function refineMoonLongitude(target: number, from: number, zodiacOffset: number, topocentric?: LocationInput): number {
+  const lonAt = (t: number) => moonLongitudeAt(t, zodiacOffset, topocentric);
+  const guess = from + (wrap180(target - lonAt(from)) / MOON_MEAN_SPEED) * DAY_MS;
+  return refine(lonAt, target, guess);
+}
+
+/**
+ * Next moment after a date at which the Moon reaches a zodiac longitude.
+ * With a location and topocentric positions, the Moon is seen from there.
+ */
+export function findMoonAtLongitude(
+  target: number,
+  after: Date,
+  options: ChartOptions = {},
+  location?: LocationInput,
+): Date {
+  const zodiacOffset = getZodiacOffset(after, options);
+  const topocentric = getTopocentric(options, location);
+  const ahead = normalizeDegrees(target - moonLongitudeAt(after.getTime(), zodiacOffset, topocentric));
+  const from = after.getTime() + (ahead / MOON_MEAN_SPEED) * DAY_MS;
+  let t = refineMoonLongitude(target, from, zodiacOffset, topocentric);
+  // A Moon sitting on the target may converge on the crossing just passed
+  if (t <= after.getTime()) t = refineMoonLongitude(target, t + 20 * DAY_MS, zodiacOffset, topocentric);
+  return new Date(t);
+}
+
+function toIngress(date: Date, boundary: number): MoonIngress {
+  const index = Math.round(normalizeDegrees(boundary) / 30) % 12;
+  return { date, from: ZODIAC_SIGNS[(index + 11) % 12], sign: ZODIAC_SIGNS[index] };
+}
+
+/**
+ * Next Moon sign ingress after a date
+ */
+export function findMoonIngress(after: Date, options: ChartOptions = {}, location?: LocationInput): MoonIngress {
+  const lon = moonLongitudeAt(after.getTime(), getZodiacOffset(after, options), getTopocentric(options, location));
+  const boundary = ((Math.floor(lon / 30) + 1) * 30) % 360;
+  return toIngress(findMoonAtLongitude(boundary, after, options, location), boundary);
+}
+
+/**
+ * Moon ingress timetable for a date range
+ */
+export function getMoonIngresses(
+  start: Date,
+  end: Date,
+  options: ChartOptions = {},
+  location?: LocationInput,
+): MoonIngress[] {
+  const ingresses: MoonIngress[] = [];
+  let ingress = findMoonIngress(start, options, location);
+  while (ingress.date.getTime() <= end.getTime()) {
+    ingresses.push(ingress);
+    // The Moon spends over two days in each sign
+    ingress = findMoonIngress(new Date(ingress.date.getTime() + HOUR_MS), options, location);
+  }
+  return ingresses;
+}
+
+/**
+ * Exact Moon aspects to the given planets between two instants. The
+ * elongation is zodiac independent, and over one sign passage it grows by
+ * less than 45°, so each aspect angle perfects at most once.
+ */
+function findLunarAspects(
+  from: number,
+  to: number,
+  planets: Planet[],
+  topocentric?: LocationInput,
+): LunarAspectPerfection[] {
+  const perfections: LunarAspectPerfection[] = [];
+  for (const planet of planets) {
+    const elongationAt = (t: number) => normalizeDegrees(
+      getPlanetLongitude('Moon', new Date(t), topocentric)! - getPlanetLongitude(planet, new Date(t), topocentric)!,
+    );
+    const startElongation = elongationAt(from);
+    const travel = normalizeDegrees(elongationAt(to) - startElongation);
+    for (const aspect of LUNAR_ASPECTS) {
+      const ahead = normalizeDegrees(aspect.angle - startElongation);
+      if (ahead > travel) continue;
+      const t = refine(elongationAt, aspect.angle, from + (ahead / travel) * (to - from));
+      if (t >= from && t <= to) perfections.push({ date: new Date(t), planet, type: aspect.type });
+    }
+  }
+  return perfections.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+function buildPeriod(
+  entry: MoonIngress,
+  exit: MoonIngress,
+  planets: Planet[],
+  topocentric?: LocationInput,
+): VoidOfCoursePeriod {
+  const aspects = findLunarAspects(entry.date.getTime(), exit.date.getTime(), planets, topocentric);
+  const lastAspect = aspects.length > 0 ? aspects[aspects.length - 1] : null;
+  return {
+    sign: exit.from,
+    nextSign: exit.sign,
+    signEntry: entry.date,
+    start: lastAspect ? lastAspect.date : entry.date,
+    end: exit.date,
+    lastAspect,
+  };
+}
+
+/**
+ * Void-of-course period of the Moon's current sign passage. The Moon is
+ * void from `start` until `end`. With a location and topocentric
+ * positions, ingresses and aspects are seen from there.
+ */
+export function findVoidOfCourse(date: Date, options: ChartOptions = {}, location?: LocationInput): VoidOfCoursePeriod {
+  const zodiacOffset = getZodiacOffset(date, options);
+  const topocentric = getTopocentric(options, location);
+  const lon = moonLongitudeAt(date.getTime(), zodiacOffset, topocentric);
+  const boundary = Math.floor(lon / 30) * 30;
+  const entry = toIngress(new Date(refineMoonLongitude(boundary, date.getTime(), zodiacOffset, topocentric)), boundary);
+  const exit = findMoonIngress(date, options, location);
+  return buildPeriod(entry, exit, VOID_OF_COURSE_PLANETS[options.voidOfCourseMode ?? 'Traditional'], topocentric);
+}
+
+/**
+ * Whether the Moon is void of course at a moment
+ */
+export function isMoonVoidOfCourse(date: Date, options: ChartOptions = {}, location?: LocationInput): boolean {
+  return date.getTime() >= findVoidOfCourse(date, options, location).start.getTime();
+}
+
+/**
+ * Void-of-course periods of every sign passage that ends within a date
+ * range, starting with the current one
+ */
+export function getVoidOfCoursePeriods(
+  start: Date,
+  end: Date,
+  options: ChartOptions = {},
+  location?: LocationInput,
+): VoidOfCoursePeriod[] {
+  const planets = VOID_OF_COURSE_PLANETS[options.voidOfCourseMode ?? 'Traditional'];
+  const topocentric = getTopocentric(options, location);
+  const periods = [findVoidOfCourse(start, options, location)];
+  let last = periods[0];
+  while (last.end.getTime() < end.getTime()) {
+    const entry: MoonIngress = { date: last.end, from: last.sign, sign: last.nextSign };
+    const exit = findMoonIngress(new Date(last.end.getTime() + HOUR_MS), options, location);
+    if (exit.date.getTime() > end.getTime()) break;
+    last = buildPeriod(entry, exit, planets, topocentric);
+    periods.push(last);
+  }
+  return periods;
+}
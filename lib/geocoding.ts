@@ -1,8 +1,11 @@
 // ============================================================
 // ÆONIS – Geocoding Utility
-// Uses Nominatim (OpenStreetMap) for free geocoding
+// Uses Nominatim (OpenStreetMap) for free geocoding and
+// Open-Meteo for the time zone of a place
 // ============================================================
 
+import { isValidTimeZone, resolveTimeZone } from '@/lib/astro/timezones';
+
 export interface GeocodingResult {
   displayName: string;
   latitude: number;
@@ -11,7 +14,14 @@ export interface GeocodingResult {
   country?: string;
 }
 
+export interface TimeZoneLookup {
+  timeZone: string;
+  provisional: boolean;  // offline guess from the nearest reference place; may be wrong near zone lines
+}
+
 const NOMINATIM_BASE = 'https://nominatim.openstreetmap.org';
+const OPEN_METEO_BASE = 'https://api.open-meteo.com/v1';
+const TIME_ZONE_TIMEOUT_MS = 5000;
 
 export async function searchLocation(query: string): Promise<GeocodingResult[]> {
   if (!query || query.trim().length < 2) return [];
@@ -63,3 +73,28 @@ export async function reverseGeocode(lat: number, lon: number): Promise<string>
     return `${lat.toFixed(2)}°, ${lon.toFixed(2)}°`;
   }
 }
+
+/**
+ * IANA time zone of a place from its zone boundaries, falling back to the
+ * offline lookup when offline or at sea
+ */
+export async function lookupTimeZone(lat: number, lon: number): Promise<TimeZoneLookup> {
+  const fallback = (): TimeZoneLookup => ({ timeZone: resolveTimeZone(lat, lon), provisional: true });
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TIME_ZONE_TIMEOUT_MS);
+  try {
+    const url = `${OPEN_METEO_BASE}/forecast?latitude=${lat}&longitude=${lon}&timezone=auto&forecast_days=1`;
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) return fallback();
+    const data = await response.json();
+
+    const zone: string | undefined = data.timezone;
+    if (zone && zone.includes('/') && isValidTimeZone(zone)) return { timeZone: zone, provisional: false };
+    // Open-Meteo answers GMT for open sea, where the nautical zone fits better
+    return { timeZone: resolveTimeZone(lat, lon), provisional: false };
+  } catch {
+    return fallback();
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -36,6 +36,9 @@ export interface JournalEntry {
   rulerOfHour: string;
   moonPhase: string;
   activeAspects: string[]; // e.g. ["Sun ☌ Mercury", "Mars □ Jupiter"]
+  zodiac?: string; // e.g. "Tropical" or "Sidereal · Lahiri 24°12'41\""
+  sunDecan?: number; // decan of the Sun, 1-36 from 0° Aries
+  moonDecan?: number; // decan of the Moon
   // User input (optional)
   notes: string;
   experienceIntensity: ExperienceIntensity | null;
@@ -69,6 +72,9 @@ export interface PendingJournalData {
   rulerOfHour: string;
   moonPhase: string;
   activeAspects: string[];
+  zodiac?: string;
+  sunDecan?: number;
+  moonDecan?: number;
 }
 
 // ─── Store ──────────────────────────────────────────────────
@@ -105,6 +111,8 @@ interface JournalState {
     rulerOfDay: string,
     rulerOfHour: string,
     moonPhase: string,
+    zodiac?: string,
+    decans?: { sunDecan: number; moonDecan: number },
   ) => Promise<void>;
 
   // Delete entry
@@ -182,6 +190,9 @@ export const useJournalStore = create<JournalState>((set, get) => ({
       rulerOfHour: merged.rulerOfHour,
       moonPhase: merged.moonPhase,
       activeAspects: merged.activeAspects,
+      zodiac: merged.zodiac,
+      sunDecan: merged.sunDecan,
+      moonDecan: merged.moonDecan,
       notes,
       experienceIntensity: intensity,
       dailyCondition: condition,
@@ -213,6 +224,9 @@ export const useJournalStore = create<JournalState>((set, get) => ({
       rulerOfHour: pendingData.rulerOfHour,
       moonPhase: pendingData.moonPhase,
       activeAspects: pendingData.activeAspects,
+      zodiac: pendingData.zodiac,
+      sunDecan: pendingData.sunDecan,
+      moonDecan: pendingData.moonDecan,
       notes: '',
       experienceIntensity: null,
       dailyCondition: null,
@@ -226,7 +240,7 @@ export const useJournalStore = create<JournalState>((set, get) => ({
     await persistEntries(updated);
   },
 
-  createManualEntry: async (notes, intensity, condition, rulerOfDay, rulerOfHour, moonPhase) => {
+  createManualEntry: async (notes, intensity, condition, rulerOfDay, rulerOfHour, moonPhase, zodiac, decans) => {
     const { entries } = get();
 
     const entry: JournalEntry = {
@@ -243,6 +257,9 @@ export const useJournalStore = create<JournalState>((set, get) => ({
       rulerOfHour,
       moonPhase,
       activeAspects: [],
+      zodiac,
+      sunDecan: decans?.sunDecan,
+      moonDecan: decans?.moonDecan,
       notes,
       experienceIntensity: intensity,
       dailyCondition: condition,
@@ -0,0 +1,69 @@
+// ============================================================
+// ÆONIS – Event Horizon Store
+// Holds the cached event list and natal transits, persists them
+// with a version key and extends them chunk by chunk as the chart
+// date moves
+// ============================================================
+
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChartData, LocationInput } from '@/lib/astro/types';
+import { AstroEvent } from '@/lib/astro/events';
+import {
+  EventHorizonCache, extendEventHorizon, getCachedTransits, isHorizonCovered, parseEventCache, serializeEventCache,
+} from '@/lib/astro/event-horizon-cache';
+
+interface EventHorizonState {
+  events: AstroEvent[];
+  transits: AstroEvent[];   // transits to the natal chart passed to ensureHorizon
+  isComputing: boolean;
+  progress: number;         // 0-1 while computing
+
+  ensureHorizon: (from: Date, location: LocationInput, years?: number, natalChart?: ChartData | null) => Promise<void>;
+}
+
+const CACHE_KEY = '@aeonis_event_horizon';
+
+let cache: EventHorizonCache | null = null;
+let loaded = false;
+let generation = 0;         // a newer request cancels the running one
+
+export const useEventHorizonStore = create<EventHorizonState>((set) => ({
+  events: [],
+  transits: [],
+  isComputing: false,
+  progress: 0,
+
+  ensureHorizon: async (from: Date, location: LocationInput, years: number = 2, natalChart: ChartData | null = null) => {
+    const run = ++generation;
+    if (!loaded) {
+      loaded = true;
+      try {
+        cache = parseEventCache(await AsyncStorage.getItem(CACHE_KEY));
+      } catch {}
+      if (cache) set({ events: cache.events, transits: getCachedTransits(cache, natalChart) });
+    }
+    if (run !== generation) return;
+    if (isHorizonCovered(cache, from, location, years, natalChart)) {
+      set({ events: cache!.events, transits: getCachedTransits(cache, natalChart), isComputing: false, progress: 0 });
+      return;
+    }
+
+    set({ transits: getCachedTransits(cache, natalChart), isComputing: true, progress: 0 });
+    const result = await extendEventHorizon(cache, from, location, years, {
+      natalChart,
+      onProgress: (progress, partial) => {
+        if (run === generation) set({ events: partial.events, progress });
+      },
+      isCancelled: () => run !== generation,
+    });
+    // A cancelled run still leaves a valid, shorter cache to extend
+    cache = result;
+    try {
+      await AsyncStorage.setItem(CACHE_KEY, serializeEventCache(result));
+    } catch {}
+    if (run === generation) {
+      set({ events: result.events, transits: getCachedTransits(result, natalChart), isComputing: false, progress: 0 });
+    }
+  },
+}));
@@ -0,0 +1,167 @@
+// ============================================================
+// ÆONIS – Hour Planner Store
+// Starred planets and reminder lead time for the planetary hour
+// planner; keeps local notifications in step with the location
+// ============================================================
+
+import { create } from 'zustand';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Planet, PLANET_SYMBOLS } from '@/lib/astro/types';
+import { useAstroStore } from '@/lib/astro/store';
+import { HourAlert, PLANNER_DAYS, getPlanetaryDays, planHourAlerts } from '@/lib/astro/hour-planner';
+
+interface HourPlannerState {
+  starredPlanets: Planet[];
+  leadMinutes: number;
+  notificationsEnabled: boolean;
+  scheduledCount: number;
+  permissionDenied: boolean;
+
+  loadPlanner: () => Promise<void>;
+  toggleStar: (planet: Planet) => Promise<void>;
+  setLeadMinutes: (minutes: number) => Promise<void>;
+  setNotificationsEnabled: (enabled: boolean) => Promise<void>;
+  rescheduleAlerts: () => Promise<void>;
+}
+
+const PLANNER_KEY = '@aeonis_hour_planner';
+const ALERT_KIND = 'planetary-hour';
+
+if (Platform.OS !== 'web') {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+async function cancelHourAlerts(): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(n => n.content.data?.kind === ALERT_KIND)
+      .map(n => Notifications.cancelScheduledNotificationAsync(n.identifier)),
+  );
+}
+
+async function ensurePermission(): Promise<boolean> {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+function scheduleHourAlert(alert: HourAlert, leadMinutes: number): Promise<string> {
+  const time = alert.hour.startTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  return Notifications.scheduleNotificationAsync({
+    content: {
+      title: `${PLANET_SYMBOLS[alert.planet]} Hour of ${alert.planet}`,
+      body: leadMinutes > 0
+        ? `Begins at ${time}, in ${leadMinutes} minutes (day of ${alert.dayRuler}).`
+        : `Begins now (day of ${alert.dayRuler}).`,
+      data: { kind: ALERT_KIND, planet: alert.planet },
+    },
+    trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: alert.fireDate },
+  });
+}
+
+let queue: Promise<void> = Promise.resolve();
+
+export const useHourPlannerStore = create<HourPlannerState>((set, get) => {
+  const persist = async () => {
+    const { starredPlanets, leadMinutes, notificationsEnabled } = get();
+    try {
+      await AsyncStorage.setItem(PLANNER_KEY, JSON.stringify({ starredPlanets, leadMinutes, notificationsEnabled }));
+    } catch {}
+  };
+
+  return {
+    starredPlanets: [],
+    leadMinutes: 10,
+    notificationsEnabled: false,
+    scheduledCount: 0,
+    permissionDenied: false,
+
+    loadPlanner: async () => {
+      try {
+        const str = await AsyncStorage.getItem(PLANNER_KEY);
+        if (str) set(JSON.parse(str));
+      } catch {}
+      // Reminders only reach a week ahead, so top them up on every launch
+      await get().rescheduleAlerts();
+    },
+
+    toggleStar: async (planet: Planet) => {
+      const { starredPlanets } = get();
+      set({
+        starredPlanets: starredPlanets.includes(planet)
+          ? starredPlanets.filter(p => p !== planet)
+          : [...starredPlanets, planet],
+      });
+      await persist();
+      await get().rescheduleAlerts();
+    },
+
+    setLeadMinutes: async (minutes: number) => {
+      set({ leadMinutes: minutes });
+      await persist();
+      await get().rescheduleAlerts();
+    },
+
+    setNotificationsEnabled: async (enabled: boolean) => {
+      if (enabled && Platform.OS !== 'web') {
+        const granted = await ensurePermission().catch(() => false);
+        set({ permissionDenied: !granted });
+        if (!granted) return;
+      }
+      set({ notificationsEnabled: enabled });
+      await persist();
+      await get().rescheduleAlerts();
+    },
+
+    rescheduleAlerts: () => {
+      // Runs one at a time so quick toggles can't interleave cancel and schedule
+      queue = queue.then(async () => {
+        if (Platform.OS === 'web') return;
+        const { starredPlanets, leadMinutes, notificationsEnabled } = get();
+        try {
+          await cancelHourAlerts();
+          if (!notificationsEnabled || starredPlanets.length === 0) {
+            set({ scheduledCount: 0 });
+            return;
+          }
+          const { location, getChartOptions } = useAstroStore.getState();
+          const now = new Date();
+          const days = getPlanetaryDays(now, location, PLANNER_DAYS, getChartOptions());
+          const alerts = planHourAlerts(days, starredPlanets, leadMinutes, now);
+          for (const alert of alerts) await scheduleHourAlert(alert, leadMinutes);
+          set({ scheduledCount: alerts.length });
+        } catch {
+          set({ scheduledCount: 0 });
+        }
+      });
+      return queue;
+    },
+  };
+});
+
+/**
+ * Reschedule the reminders whenever the hours themselves move: a new
+ * location or another hour system. Returns the unsubscribe function.
+ */
+export function subscribeHourAlertsToLocation(): () => void {
+  const keyOf = (s: ReturnType<typeof useAstroStore.getState>) =>
+    `${s.location.latitude.toFixed(2)},${s.location.longitude.toFixed(2)},${s.hourSystem},${s.polarHourMethod}`;
+  let lastKey = keyOf(useAstroStore.getState());
+  return useAstroStore.subscribe((state) => {
+    const key = keyOf(state);
+    if (key === lastKey) return;
+    lastKey = key;
+    useHourPlannerStore.getState().rescheduleAlerts();
+  });
+}
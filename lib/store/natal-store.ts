@@ -1,12 +1,16 @@
 // ============================================================
 // ÆONIS – Natal Data Store
-// Stores user's birth data for transit calculations
+// Stores user's birth data for transit calculations and further
+// birth profiles (partners, group members) for chart comparison
 // ============================================================
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ChartData, LocationInput } from '@/lib/astro/types';
 import { calculateChart } from '@/lib/astro/engine';
+import { useAstroStore } from '@/lib/astro/store';
+import { resolveTimeZone, zonedTimeToUtc } from '@/lib/astro/timezones';
+import { lookupTimeZone } from '@/lib/geocoding';
 
 export interface UserNatalData {
   dateOfBirth: string;       // ISO date string YYYY-MM-DD
@@ -14,27 +18,81 @@ export interface UserNatalData {
   placeOfBirth: string;      // City name
   latitude: number;
   longitude: number;
+  timeZone?: string;         // IANA zone of the birthplace; missing in data saved before zones were stored
+  timeZoneProvisional?: boolean; // zone is the offline guess, pending the boundary lookup
+}
+
+export interface BirthProfile extends UserNatalData {
+  id: string;
+  name: string;
 }
 
 interface NatalState {
   natalData: UserNatalData | null;
   natalChart: ChartData | null;
   hasNatalData: boolean;
+  profiles: BirthProfile[];
 
   setNatalData: (data: UserNatalData) => Promise<void>;
   loadNatalData: () => Promise<void>;
+  refreshTimeZones: () => Promise<void>;
   calculateNatalChart: () => void;
   clearNatalData: () => Promise<void>;
+
+  addProfile: (name: string, data: UserNatalData) => Promise<BirthProfile>;
+  removeProfile: (id: string) => Promise<void>;
 }
 
 const NATAL_KEY = '@aeonis_natal_data';
+const PROFILES_KEY = '@aeonis_birth_profiles';
+
+/**
+ * Birth data with the time zone of the birthplace filled in; an offline guess
+ * stays marked provisional until the boundary lookup answers
+ */
+async function withTimeZone<T extends UserNatalData>(data: T): Promise<T> {
+  if (data.timeZone && !data.timeZoneProvisional) return data;
+  const { timeZone, provisional } = await lookupTimeZone(data.latitude, data.longitude);
+  return { ...data, timeZone, timeZoneProvisional: provisional };
+}
+
+/**
+ * Moment of birth: the birth date and clock time read in the birthplace's
+ * zone as it stood on that date
+ */
+export function getBirthMoment(data: UserNatalData): Date {
+  const timeZone = data.timeZone ?? resolveTimeZone(data.latitude, data.longitude);
+  const [year, month, day] = data.dateOfBirth.split('-').map(Number);
+  const [hour, minute] = data.timeOfBirth.split(':').map(Number);
+  return zonedTimeToUtc({
+    year,
+    month,
+    day,
+    hour: Number.isFinite(hour) ? hour : 12,
+    minute: Number.isFinite(minute) ? minute : 0,
+  }, timeZone);
+}
+
+/**
+ * Cast the chart for stored birth data with the current chart settings
+ */
+export function calculateBirthChart(data: UserNatalData): ChartData {
+  const location: LocationInput = {
+    latitude: data.latitude,
+    longitude: data.longitude,
+    timeZone: data.timeZone ?? resolveTimeZone(data.latitude, data.longitude),
+  };
+  return calculateChart(getBirthMoment(data), location, useAstroStore.getState().getChartOptions());
+}
 
 export const useNatalStore = create<NatalState>((set, get) => ({
   natalData: null,
   natalChart: null,
   hasNatalData: false,
+  profiles: [],
 
-  setNatalData: async (data: UserNatalData) => {
+  setNatalData: async (input: UserNatalData) => {
+    const data = await withTimeZone(input);
     set({ natalData: data, hasNatalData: true });
     try {
       await AsyncStorage.setItem(NATAL_KEY, JSON.stringify(data));
@@ -51,6 +109,32 @@ export const useNatalStore = create<NatalState>((set, get) => ({
         set({ natalData: data, hasNatalData: true });
         get().calculateNatalChart();
       }
+      const profiles = await AsyncStorage.getItem(PROFILES_KEY);
+      if (profiles) set({ profiles: JSON.parse(profiles) });
+      // Store the birthplace zone for data saved before zones were kept,
+      // and confirm zones guessed offline
+      get().refreshTimeZones();
+    } catch {}
+  },
+
+  refreshTimeZones: async () => {
+    const { natalData, profiles } = get();
+    if (natalData && (!natalData.timeZone || natalData.timeZoneProvisional)) {
+      const data = await withTimeZone(natalData);
+      if (get().natalData === natalData) {
+        set({ natalData: data });
+        try {
+          await AsyncStorage.setItem(NATAL_KEY, JSON.stringify(data));
+        } catch {}
+        get().calculateNatalChart();
+      }
+    }
+    if (!profiles.some(p => !p.timeZone || p.timeZoneProvisional)) return;
+    const resolved = await Promise.all(profiles.map(withTimeZone));
+    if (get().profiles !== profiles) return;
+    set({ profiles: resolved });
+    try {
+      await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(resolved));
     } catch {}
   },
 
@@ -59,14 +143,7 @@ export const useNatalStore = create<NatalState>((set, get) => ({
     if (!natalData) return;
 
     try {
-      const [year, month, day] = natalData.dateOfBirth.split('-').map(Number);
-      const [hour, minute] = natalData.timeOfBirth.split(':').map(Number);
-      const birthDate = new Date(year, month - 1, day, hour || 12, minute || 0);
-      const location: LocationInput = {
-        latitude: natalData.latitude,
-        longitude: natalData.longitude,
-      };
-      const natalChart = calculateChart(birthDate, location);
+      const natalChart = calculateBirthChart(natalData);
       set({ natalChart });
     } catch {
       // If calculation fails, keep null
@@ -79,4 +156,22 @@ export const useNatalStore = create<NatalState>((set, get) => ({
       await AsyncStorage.removeItem(NATAL_KEY);
     } catch {}
   },
+
+  addProfile: async (name: string, data: UserNatalData) => {
+    const profile: BirthProfile = { ...(await withTimeZone(data)), id: `profile_${Date.now()}`, name: name.trim() || 'Unnamed' };
+    const profiles = [...get().profiles, profile];
+    set({ profiles });
+    try {
+      await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    } catch {}
+    return profile;
+  },
+
+  removeProfile: async (id: string) => {
+    const profiles = get().profiles.filter(p => p.id !== id);
+    set({ profiles });
+    try {
+      await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    } catch {}
+  },
 }));
@@ -21,7 +21,7 @@ export const PRO_FEATURES: ProFeature[] = [
   { id: 'event_horizon', name: 'Event Horizon', description: 'Search upcoming eclipses, retrogrades & conjunctions for the next 5 years', tier: 'adeptus' },
   { id: 'advanced_rituals', name: 'Advanced Rituals', description: 'Access Hexagram, Rose Cross, Star Ruby and more', tier: 'adeptus' },
   { id: 'unlimited_bindrunes', name: 'Unlimited Bindrunes', description: 'Generate unlimited Bindrune combinations', tier: 'adeptus' },
-  { id: 'aspectarian', name: 'Aspectarian', description: 'Deep aspect analysis with orb calculations', tier: 'adeptus' },
+  { id: 'aspectarian', name: 'Aspectarian', description: 'Minor aspects, parallels and aspects to nodes, lots & angles with applying orbs', tier: 'adeptus' },
   { id: 'full_event_search', name: 'Event Search', description: 'Search for any future astronomical event', tier: 'adeptus' },
 ];
 
@@ -15,6 +15,14 @@ export interface SavedRune {
   isMasterRune: boolean;
   intention?: string;     // user's primary intention (for Master Rune)
   dignityScore?: number;  // linked planetary dignity at creation
+  election?: RuneElection; // electional window chosen for charging the rune
+}
+
+export interface RuneElection {
+  ruleName: string;
+  start: number;          // timestamp
+  end: number;            // timestamp
+  score: number;
 }
 
 interface RuneWalletState {
@@ -28,6 +36,7 @@ interface RuneWalletState {
   saveRune: (rune: Omit<SavedRune, 'id' | 'createdAt'>) => Promise<void>;
   removeRune: (id: string) => Promise<void>;
   setActiveRune: (id: string | null) => Promise<void>;
+  attachElection: (id: string, election: RuneElection | null) => Promise<void>;
   setMasterRune: (rune: Omit<SavedRune, 'id' | 'createdAt' | 'isMasterRune'>) => Promise<void>;
   completeSeal: () => Promise<void>;
   getActiveRune: () => SavedRune | null;
@@ -102,6 +111,17 @@ export const useRuneWalletStore = create<RuneWalletState>((set, get) => ({
     } catch {}
   },
 
+  attachElection: async (id, election) => {
+    const updated = get().savedRunes.map(r => (
+      r.id === id ? { ...r, election: election ?? undefined } : r
+    ));
+    const masterRune = updated.find(r => r.isMasterRune) || null;
+    set({ savedRunes: updated, masterRune });
+    try {
+      await AsyncStorage.setItem(WALLET_KEY, JSON.stringify(updated));
+    } catch {}
+  },
+
   setMasterRune: async (runeData) => {
     const masterRune: SavedRune = {
       ...runeData,